@@ -1,6 +1,8 @@
 #!/usr/bin/env bun
 import { $ } from "bun";
 import { cpSync, mkdirSync } from "node:fs";
+import { basename } from "node:path";
+import { FRAMEWORKS, isTemplateFile, templateName } from "./src/cli/create";
 
 // Run TypeScript compiler for type declarations
 await $`tsc`;
@@ -10,6 +12,16 @@ await $`tsc`;
 mkdirSync("dist/src/generated", { recursive: true });
 cpSync("src/generated/schema.json", "dist/src/generated/schema.json");
 
+// Templates of `mcp-apps create`: the basic-server-* examples, without their
+// build output.
+for (const framework of FRAMEWORKS) {
+  const name = templateName(framework);
+  cpSync(`examples/${name}`, `dist/templates/${name}`, {
+    recursive: true,
+    filter: (src) => isTemplateFile(basename(src)),
+  });
+}
+
 const isDevelopment = Bun.env.NODE_ENV === "development";
 
 // Build all JavaScript/TypeScript files
@@ -61,4 +73,21 @@ await Promise.all([
     outdir: "dist/src/server",
     external: PEER_EXTERNALS,
   }),
+  buildJs("src/sandbox/index.ts", {
+    outdir: "dist/src/sandbox",
+    external: PEER_EXTERNALS,
+  }),
+  buildJs("src/openai/index.ts", {
+    outdir: "dist/src/openai",
+    external: PEER_EXTERNALS,
+  }),
+  buildJs("src/testing/index.ts", {
+    outdir: "dist/src/testing",
+    external: PEER_EXTERNALS,
+  }),
+  buildJs("src/cli/index.ts", {
+    outdir: "dist/src/cli",
+    target: "node",
+    banner: "#!/usr/bin/env node",
+  }),
 ]);
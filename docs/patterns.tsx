@@ -7,7 +7,7 @@
  * @module
  */
 
-import { App } from "../src/app.js";
+import { App, connectViewChannel, getViewChannelInfo } from "../src/app.js";
 import {
   applyDocumentTheme,
   applyHostFonts,
@@ -22,7 +22,7 @@ import { ReadResourceResultSchema } from "@modelcontextprotocol/sdk/types.js";
 import type { McpUiHostContext } from "../src/types.js";
 import { useEffect, useState } from "react";
 import { useApp } from "../src/react/index.js";
-import { registerAppTool } from "../src/server/index.js";
+import { createViewChannel, registerAppTool } from "../src/server/index.js";
 import {
   McpServer,
   ResourceTemplate,
@@ -95,6 +95,138 @@ function pollingReact(
   //#endregion pollingReact
 }
 
+/**
+ * Example: Subscribing to resource updates instead of polling
+ */
+async function subscribeResourceVanillaJs(
+  app: App,
+  updateUI: (data: unknown) => void,
+) {
+  //#region subscribeResourceVanillaJs
+  async function refresh(uri: string) {
+    const { contents } = await app.readServerResource({ uri });
+    const content = contents[0];
+    if (content && "text" in content) updateUI(JSON.parse(content.text));
+  }
+
+  if (app.getHostCapabilities()?.serverResources?.subscribe) {
+    // Unsubscribed automatically when the host tears down the view
+    await app.subscribeResource("metrics://live", ({ uri }) => refresh(uri));
+    await refresh("metrics://live");
+  }
+  //#endregion subscribeResourceVanillaJs
+}
+
+/**
+ * Example: Letting the model drive an open view (server)
+ */
+function viewChannelServer(server: McpServer) {
+  //#region viewChannelServer
+  type MapCommand = { type: "fly_to"; lat: number; lng: number };
+  const maps = createViewChannel<MapCommand>();
+  maps.registerTool(server);
+
+  registerAppTool(
+    server,
+    "show_map",
+    { _meta: { ui: { resourceUri: "ui://maps/view.html" } } },
+    async () => {
+      const viewId = maps.openView();
+      return {
+        content: [{ type: "text", text: `Map opened (viewId: ${viewId})` }],
+        _meta: maps.meta(viewId),
+      };
+    },
+  );
+
+  server.registerTool(
+    "fly_to",
+    {
+      description: "Move an open map to a location",
+      inputSchema: { viewId: z.string(), lat: z.number(), lng: z.number() },
+    },
+    async ({ viewId, lat, lng }, extra) => {
+      await maps.request(
+        viewId,
+        { type: "fly_to", lat, lng },
+        { signal: extra.signal },
+      );
+      return { content: [{ type: "text", text: "Done" }] };
+    },
+  );
+  //#endregion viewChannelServer
+}
+
+/**
+ * Example: Letting the model drive an open view (View)
+ */
+function viewChannelView(
+  app: App,
+  map: { flyTo(lat: number, lng: number): Promise<void> },
+) {
+  //#region viewChannelView
+  type MapCommand = { type: "fly_to"; lat: number; lng: number };
+
+  app.addEventListener("toolresult", (result) => {
+    const channel = getViewChannelInfo(result);
+    if (!channel) return;
+    connectViewChannel<MapCommand>(app, channel, async ({ lat, lng }) => {
+      await map.flyTo(lat, lng);
+    });
+  });
+  //#endregion viewChannelView
+}
+
+/**
+ * Example: Showing progress of long tool calls (server)
+ */
+function toolProgressServer(
+  server: McpServer,
+  loadBatch: (index: number) => Promise<void>,
+) {
+  //#region toolProgressServer
+  registerAppTool(
+    server,
+    "load_dataset",
+    {
+      description: "Load the dataset into the view",
+      _meta: { ui: { visibility: ["app"] } },
+    },
+    async (extra) => {
+      const progressToken = extra._meta?.progressToken;
+      const batches = 20;
+      for (let i = 0; i < batches; i++) {
+        await loadBatch(i);
+        if (progressToken !== undefined) {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress: i + 1, total: batches },
+          });
+        }
+      }
+      return { content: [{ type: "text", text: "Dataset loaded" }] };
+    },
+  );
+  //#endregion toolProgressServer
+}
+
+/**
+ * Example: Showing progress of long tool calls (View)
+ */
+async function toolProgressView(app: App, progressBar: HTMLProgressElement) {
+  //#region toolProgressView
+  const result = await app.callServerTool(
+    { name: "load_dataset", arguments: {} },
+    {
+      onprogress: ({ progress, total }) => {
+        progressBar.max = total ?? 0;
+        progressBar.value = progress;
+      },
+    },
+  );
+  //#endregion toolProgressView
+}
+
 /**
  * Example: Server-side chunked data tool (app-only)
  */
@@ -0,0 +1,285 @@
+import type { AppBridge, McpUiDisplayMode, McpUiHostContext } from "@modelcontextprotocol/ext-apps/app-bridge";
+import { useEffect, useState } from "react";
+import { HOST_STYLE_PALETTES } from "./host-styles";
+import { simulateHostContext, updateHostContext } from "./implementation";
+import styles from "./index.module.css";
+
+
+/** Host context fields the simulator controls, in form-friendly shape. */
+interface SimulatedSettings {
+  locale: string;
+  timeZone: string;
+  platform: NonNullable<McpUiHostContext["platform"]>;
+  touch: boolean;
+  hover: boolean;
+  safeAreaInsets: NonNullable<McpUiHostContext["safeAreaInsets"]>;
+  /** `auto` keeps the dimensions basic-host measures. */
+  container: "auto" | "max" | "fixed";
+  width: number;
+  height: number;
+  availableDisplayModes: McpUiDisplayMode[];
+  /** Key of `HOST_STYLE_PALETTES`. */
+  palette: string;
+}
+
+type Preset = { name: string; settings: SimulatedSettings };
+
+const NO_INSETS = { top: 0, right: 0, bottom: 0, left: 0 };
+
+const DEFAULT_SETTINGS: SimulatedSettings = {
+  locale: navigator.language,
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  platform: "web",
+  touch: false,
+  hover: true,
+  safeAreaInsets: NO_INSETS,
+  container: "auto",
+  width: 720,
+  height: 480,
+  availableDisplayModes: ["inline", "fullscreen"],
+  palette: "Default",
+};
+
+// Typical host setups to test against
+const BUILT_IN_PRESETS: Preset[] = [
+  { name: "Desktop browser", settings: DEFAULT_SETTINGS },
+  {
+    name: "Desktop app",
+    settings: {
+      ...DEFAULT_SETTINGS,
+      platform: "desktop",
+      container: "max",
+      width: 760,
+      height: 800,
+      availableDisplayModes: ["inline", "fullscreen", "pip"],
+    },
+  },
+  {
+    name: "Phone app",
+    settings: {
+      ...DEFAULT_SETTINGS,
+      platform: "mobile",
+      touch: true,
+      hover: false,
+      safeAreaInsets: { top: 47, right: 0, bottom: 34, left: 0 },
+      container: "max",
+      width: 390,
+      height: 700,
+      availableDisplayModes: ["inline", "fullscreen"],
+    },
+  },
+  {
+    name: "Tablet, German",
+    settings: {
+      ...DEFAULT_SETTINGS,
+      locale: "de-DE",
+      timeZone: "Europe/Berlin",
+      platform: "mobile",
+      touch: true,
+      hover: false,
+      safeAreaInsets: { top: 24, right: 0, bottom: 20, left: 0 },
+      container: "max",
+      width: 820,
+      height: 1000,
+      availableDisplayModes: ["inline", "fullscreen", "pip"],
+    },
+  },
+  {
+    name: "Side panel, Japanese",
+    settings: {
+      ...DEFAULT_SETTINGS,
+      locale: "ja-JP",
+      timeZone: "Asia/Tokyo",
+      container: "fixed",
+      width: 360,
+      height: 640,
+      availableDisplayModes: ["inline"],
+    },
+  },
+];
+
+const SAVED_PRESETS_KEY = "basic-host:host-context-presets";
+
+function loadSavedPresets(): Preset[] {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_PRESETS_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+function toHostContext(settings: SimulatedSettings): McpUiHostContext {
+  const { container, width, height } = settings;
+  return {
+    locale: settings.locale,
+    timeZone: settings.timeZone,
+    platform: settings.platform,
+    deviceCapabilities: { touch: settings.touch, hover: settings.hover },
+    safeAreaInsets: settings.safeAreaInsets,
+    availableDisplayModes: settings.availableDisplayModes,
+    styles: { variables: HOST_STYLE_PALETTES[settings.palette] ?? HOST_STYLE_PALETTES.Default },
+    ...(container === "fixed" && { containerDimensions: { width, height } }),
+    ...(container === "max" && { containerDimensions: { maxWidth: width, maxHeight: height } }),
+  };
+}
+
+
+interface HostContextSimulatorProps {
+  appBridge: AppBridge;
+  displayMode: McpUiDisplayMode;
+  onDisplayModeChange: (mode: McpUiDisplayMode) => void;
+}
+/**
+ * Edits the host context of a View live, to test it against other hosts'
+ * platforms, locales, sizes and styles. Only the context changes: the View's
+ * iframe stays where and how large basic-host renders it.
+ */
+export function HostContextSimulator({ appBridge, displayMode, onDisplayModeChange }: HostContextSimulatorProps) {
+  // Nothing is sent until the first edit
+  const [settings, setSettings] = useState<SimulatedSettings | null>(null);
+  const [savedPresets, setSavedPresets] = useState(loadSavedPresets);
+  const current = settings ?? DEFAULT_SETTINGS;
+  const presets = [...BUILT_IN_PRESETS, ...savedPresets];
+
+  useEffect(() => {
+    if (settings) simulateHostContext(appBridge, toHostContext(settings));
+  }, [appBridge, settings]);
+
+  const set = <K extends keyof SimulatedSettings>(key: K, value: SimulatedSettings[K]) => {
+    setSettings({ ...current, [key]: value });
+  };
+  const setInset = (side: keyof SimulatedSettings["safeAreaInsets"], value: number) => {
+    set("safeAreaInsets", { ...current.safeAreaInsets, [side]: value });
+  };
+  const toggleDisplayMode = (mode: McpUiDisplayMode, available: boolean) => {
+    set("availableDisplayModes", available
+      ? [...current.availableDisplayModes, mode]
+      : current.availableDisplayModes.filter((m) => m !== mode));
+  };
+
+  const savePreset = () => {
+    const name = window.prompt("Preset name");
+    if (!name) return;
+    const next = [...savedPresets.filter((p) => p.name !== name), { name, settings: current }];
+    localStorage.setItem(SAVED_PRESETS_KEY, JSON.stringify(next));
+    setSavedPresets(next);
+  };
+
+  return (
+    <details className={styles.inspector}>
+      <summary>
+        <span className={styles.collapsibleLabel}>🧪 Host Context</span>
+        <span className={styles.collapsibleSize}>{settings ? "simulated" : "default"}</span>
+      </summary>
+      <div className={styles.simulator}>
+        <label>
+          Preset
+          <span>
+            <select
+              value=""
+              onChange={(e) => {
+                const preset = presets.find((p) => p.name === e.target.value);
+                if (preset) setSettings(preset.settings);
+              }}
+            >
+              <option value="">Apply a preset…</option>
+              {presets.map(({ name }) => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <button type="button" className={styles.sessionButton} onClick={savePreset}>Save as Preset</button>
+          </span>
+        </label>
+        <label>
+          Locale
+          <input value={current.locale} onChange={(e) => set("locale", e.target.value)} />
+        </label>
+        <label>
+          Time zone
+          <input value={current.timeZone} onChange={(e) => set("timeZone", e.target.value)} />
+        </label>
+        <label>
+          Platform
+          <select value={current.platform} onChange={(e) => set("platform", e.target.value as SimulatedSettings["platform"])}>
+            <option value="web">web</option>
+            <option value="desktop">desktop</option>
+            <option value="mobile">mobile</option>
+          </select>
+        </label>
+        <label>
+          Device
+          <span>
+            <input type="checkbox" checked={current.touch} onChange={(e) => set("touch", e.target.checked)} /> touch
+            {" "}
+            <input type="checkbox" checked={current.hover} onChange={(e) => set("hover", e.target.checked)} /> hover
+          </span>
+        </label>
+        <label>
+          Safe area
+          <span>
+            {(["top", "right", "bottom", "left"] as const).map((side) => (
+              <input
+                key={side}
+                type="number"
+                min={0}
+                title={side}
+                value={current.safeAreaInsets[side]}
+                onChange={(e) => setInset(side, Number(e.target.value))}
+              />
+            ))}
+          </span>
+        </label>
+        <label>
+          Container
+          <span>
+            <select value={current.container} onChange={(e) => set("container", e.target.value as SimulatedSettings["container"])}>
+              <option value="auto">measured</option>
+              <option value="max">max size</option>
+              <option value="fixed">fixed size</option>
+            </select>
+            {current.container !== "auto" && (
+              <>
+                <input type="number" min={0} title="width" value={current.width} onChange={(e) => set("width", Number(e.target.value))} />
+                ×
+                <input type="number" min={0} title="height" value={current.height} onChange={(e) => set("height", Number(e.target.value))} />
+              </>
+            )}
+          </span>
+        </label>
+        <label>
+          Display modes
+          <span>
+            {(["inline", "fullscreen", "pip"] as const).map((mode) => (
+              <span key={mode}>
+                <input
+                  type="checkbox"
+                  checked={current.availableDisplayModes.includes(mode)}
+                  onChange={(e) => toggleDisplayMode(mode, e.target.checked)}
+                /> {mode}{" "}
+              </span>
+            ))}
+          </span>
+        </label>
+        <label>
+          Display mode
+          <select
+            value={displayMode}
+            onChange={(e) => {
+              const mode = e.target.value as McpUiDisplayMode;
+              updateHostContext(appBridge, { displayMode: mode });
+              onDisplayModeChange(mode);
+            }}
+          >
+            <option value="inline">inline</option>
+            <option value="fullscreen">fullscreen</option>
+            <option value="pip">pip</option>
+          </select>
+        </label>
+        <label>
+          Styles
+          <select value={current.palette} onChange={(e) => set("palette", e.target.value)}>
+            {Object.keys(HOST_STYLE_PALETTES).map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+      </div>
+    </details>
+  );
+}
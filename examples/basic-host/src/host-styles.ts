@@ -111,3 +111,44 @@ export const HOST_STYLE_VARIABLES: McpUiStyles = {
   "--shadow-md": "0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -2px rgba(0, 0, 0, 0.1)",
   "--shadow-lg": "0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -4px rgba(0, 0, 0, 0.1)",
 };
+
+/**
+ * Alternative style variable palettes, to check that apps follow the host's
+ * styles rather than hardcoding their own. Each overrides some of the
+ * default variables.
+ */
+export const HOST_STYLE_PALETTES: Record<string, McpUiStyles> = {
+  "Default": HOST_STYLE_VARIABLES,
+  "High contrast": {
+    ...HOST_STYLE_VARIABLES,
+    "--color-background-primary": "light-dark(#ffffff, #000000)",
+    "--color-background-secondary": "light-dark(#ffffff, #000000)",
+    "--color-text-primary": "light-dark(#000000, #ffffff)",
+    "--color-text-secondary": "light-dark(#000000, #ffffff)",
+    "--color-border-primary": "light-dark(#000000, #ffffff)",
+    "--color-ring-primary": "light-dark(#0000ee, #ffff00)",
+    "--border-width-regular": "2px",
+  },
+  "Warm, rounded": {
+    ...HOST_STYLE_VARIABLES,
+    "--color-background-primary": "light-dark(#fdf8f3, #262019)",
+    "--color-background-secondary": "light-dark(#f5ebe0, #352c22)",
+    "--color-text-primary": "light-dark(#3d2c1e, #f5ebe0)",
+    "--color-text-secondary": "light-dark(#7a6250, #c4ad96)",
+    "--color-border-primary": "light-dark(#e6d5c3, #4d3f31)",
+    "--color-ring-primary": "light-dark(#d97706, #f59e0b)",
+    "--font-sans": "Georgia, 'Times New Roman', serif",
+    "--border-radius-sm": "8px",
+    "--border-radius-md": "12px",
+    "--border-radius-lg": "16px",
+  },
+  "Compact": {
+    ...HOST_STYLE_VARIABLES,
+    "--font-text-sm-size": "0.75rem",
+    "--font-text-md-size": "0.875rem",
+    "--font-text-lg-size": "1rem",
+    "--border-radius-sm": "2px",
+    "--border-radius-md": "3px",
+    "--border-radius-lg": "4px",
+  },
+};
@@ -1,5 +1,7 @@
-import { RESOURCE_MIME_TYPE, getToolUiResourceUri, type McpUiSandboxProxyReadyNotification, AppBridge, PostMessageTransport, type McpUiResourceCsp, type McpUiResourcePermissions, buildAllowAttribute, type McpUiUpdateModelContextRequest, type McpUiMessageRequest } from "@modelcontextprotocol/ext-apps/app-bridge";
+import { RESOURCE_MIME_TYPE, RESOURCE_URL_MIME_TYPE, getUiResourceUrl, getToolUiResourceUri, getToolUiResources, type ToolUiResource, type McpUiSandboxProxyReadyNotification, AppBridge, MessagePortTransport, type McpUiResourceCsp, type McpUiResourcePermissions, buildAllowAttribute, PeerMessageRouter, createAppBridgePolicy, type McpUiUpdateModelContextRequest, type McpUiMessageRequest, type McpUiRequestConfirmationRequest, type McpUiRequestModalRequest, RecordingTransport, replaySession, type ReplayResult, type SessionRecording, SANDBOX_RESOURCE_READY_METHOD, SIZE_CHANGED_METHOD, type McpUiSandboxResourceReadyNotification, type McpUiDisplayMode, type McpUiHostContext } from "@modelcontextprotocol/ext-apps/app-bridge";
+import { EXTENSION_ID } from "@modelcontextprotocol/ext-apps/server";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import type { CallToolResult, Resource, Tool } from "@modelcontextprotocol/sdk/types.js";
@@ -9,6 +11,12 @@ import { HOST_STYLE_VARIABLES } from "./host-styles";
 
 const SANDBOX_PROXY_BASE_URL = "http://localhost:8081/sandbox.html";
 const IMPLEMENTATION = { name: "MCP Apps Host", version: "1.0.0" };
+// Tell servers we can render both inline HTML and externally hosted Views
+const CLIENT_OPTIONS = {
+  capabilities: {
+    extensions: { [EXTENSION_ID]: { mimeTypes: [RESOURCE_MIME_TYPE, RESOURCE_URL_MIME_TYPE] } },
+  },
+};
 
 
 export const log = {
@@ -20,6 +28,7 @@ export const log = {
 
 export interface ServerInfo {
   name: string;
+  url: string;
   client: Client;
   tools: Map<string, Tool>;
   resources: Map<string, Resource>;
@@ -42,13 +51,13 @@ export async function connectToServer(serverUrl: URL): Promise<ServerInfo> {
   const resources = new Map(resourcesList.resources.map((r) => [r.uri, r]));
   log.info("Server resources:", Array.from(resources.keys()));
 
-  return { name, client, tools, resources, appHtmlCache: new Map() };
+  return { name, url: serverUrl.href, client, tools, resources, appHtmlCache: new Map() };
 }
 
 async function connectWithFallback(serverUrl: URL): Promise<Client> {
   // Try Streamable HTTP first (modern transport)
   try {
-    const client = new Client(IMPLEMENTATION);
+    const client = new Client(IMPLEMENTATION, CLIENT_OPTIONS);
     await client.connect(new StreamableHTTPClientTransport(serverUrl));
     log.info("Connected via Streamable HTTP transport");
     return client;
@@ -58,7 +67,7 @@ async function connectWithFallback(serverUrl: URL): Promise<Client> {
 
   // Fall back to SSE (deprecated but needed for older servers)
   try {
-    const client = new Client(IMPLEMENTATION);
+    const client = new Client(IMPLEMENTATION, CLIENT_OPTIONS);
     await client.connect(new SSEClientTransport(serverUrl));
     log.info("Connected via SSE transport");
     return client;
@@ -68,8 +77,12 @@ async function connectWithFallback(serverUrl: URL): Promise<Client> {
 }
 
 
-interface UiResourceData {
-  html: string;
+export interface UiResourceData {
+  uri: string;
+  /** Inline View HTML; unset for externally hosted Views. */
+  html?: string;
+  /** URL of an externally hosted View. */
+  url?: string;
   csp?: McpUiResourceCsp;
   permissions?: McpUiResourcePermissions;
 }
@@ -79,12 +92,10 @@ export interface ToolCallInfo {
   tool: Tool;
   input: Record<string, unknown>;
   resultPromise: Promise<CallToolResult>;
+  /** The tool's declared UI resource, loaded while the tool runs. */
   appResourcePromise?: Promise<UiResourceData>;
-}
-
-
-export function hasAppHtml(toolCallInfo: ToolCallInfo): toolCallInfo is Required<ToolCallInfo> {
-  return !!toolCallInfo.appResourcePromise;
+  /** Further UI resources returned in the tool result, one View each. */
+  extraAppResourcesPromise: Promise<Promise<UiResourceData>[]>;
 }
 
 
@@ -101,38 +112,56 @@ export function callTool(
     throw new Error(`Unknown tool: ${name}`);
   }
 
-  const toolCallInfo: ToolCallInfo = { serverInfo, tool, input, resultPromise };
-
+  // Tools may return UI resources in their result, either to show several
+  // Views or to pick a template at call time. Those are only known once the
+  // result arrives, so they're rendered after the declared one.
   const uiResourceUri = getToolUiResourceUri(tool);
+  const extraAppResourcesPromise = resultPromise.then(
+    (result) => getToolUiResources(tool, result)
+      .filter((resource) => resource.uri !== uiResourceUri)
+      .map((resource) => getUiResource(serverInfo, resource)),
+    () => [],
+  );
+
+  const toolCallInfo: ToolCallInfo = { serverInfo, tool, input, resultPromise, extraAppResourcesPromise };
+
   if (uiResourceUri) {
-    toolCallInfo.appResourcePromise = getUiResource(serverInfo, uiResourceUri);
+    toolCallInfo.appResourcePromise = getUiResource(serverInfo, { uri: uiResourceUri });
   }
 
   return toolCallInfo;
 }
 
 
-async function getUiResource(serverInfo: ServerInfo, uri: string): Promise<UiResourceData> {
-  log.info("Reading UI resource:", uri);
-  const resource = await serverInfo.client.readResource({ uri });
+export async function getUiResource(serverInfo: ServerInfo, { uri, contents }: ToolUiResource): Promise<UiResourceData> {
+  let content = contents;
+  if (content) {
+    log.info("Using UI resource embedded in tool result:", uri);
+  } else {
+    log.info("Reading UI resource:", uri);
+    const resource = await serverInfo.client.readResource({ uri });
 
-  if (!resource) {
-    throw new Error(`Resource not found: ${uri}`);
-  }
+    if (!resource) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
 
-  if (resource.contents.length !== 1) {
-    throw new Error(`Unexpected contents count: ${resource.contents.length}`);
+    // A read may return several items; use the one for this URI
+    content = resource.contents.length === 1
+      ? resource.contents[0]
+      : resource.contents.find((c) => c.uri === uri);
+    if (!content) {
+      throw new Error(`No content for ${uri} among ${resource.contents.length} items`);
+    }
   }
 
-  const content = resource.contents[0];
-
   // Per the MCP App specification, "text/html;profile=mcp-app" signals this
-  // resource is indeed for an MCP App UI.
-  if (content.mimeType !== RESOURCE_MIME_TYPE) {
+  // resource is indeed for an MCP App UI, and "text/uri-list" points to one
+  // hosted elsewhere.
+  if (content.mimeType !== RESOURCE_MIME_TYPE && content.mimeType !== RESOURCE_URL_MIME_TYPE) {
     throw new Error(`Unsupported MIME type: ${content.mimeType}`);
   }
 
-  const html = "blob" in content ? atob(content.blob) : content.text;
+  const text = "blob" in content ? atob(content.blob) : content.text;
 
   // Extract CSP and permissions metadata, preferring content-level (resources/read)
   // and falling back to listing-level (resources/list) per the spec
@@ -149,10 +178,21 @@ async function getUiResource(serverInfo: ServerInfo, uri: string): Promise<UiRes
 
   // Content-level takes precedence, fall back to listing-level
   const uiMeta = contentMeta?.ui ?? listingMeta?.ui;
-  const csp = uiMeta?.csp;
   const permissions = uiMeta?.permissions;
 
-  return { html, csp, permissions };
+  if (content.mimeType === RESOURCE_URL_MIME_TYPE) {
+    // Rejects anything but https: (or http://localhost) URLs
+    const url = getUiResourceUrl(text);
+    log.info("UI resource is an external View:", url);
+    // The sandbox proxy's CSP must allow framing the View's origin
+    const csp: McpUiResourceCsp = {
+      ...uiMeta?.csp,
+      frameDomains: [...(uiMeta?.csp?.frameDomains ?? []), new URL(url).origin],
+    };
+    return { uri, url, csp, permissions };
+  }
+
+  return { uri, html: text, csp: uiMeta?.csp, permissions };
 }
 
 
@@ -160,9 +200,9 @@ export function loadSandboxProxy(
   iframe: HTMLIFrameElement,
   csp?: McpUiResourceCsp,
   permissions?: McpUiResourcePermissions,
-): Promise<boolean> {
+): Promise<MessagePort | undefined> {
   // Prevent reload
-  if (iframe.src) return Promise.resolve(false);
+  if (iframe.src) return Promise.resolve(undefined);
 
   iframe.setAttribute("sandbox", "allow-scripts allow-same-origin allow-forms");
 
@@ -175,12 +215,17 @@ export function loadSandboxProxy(
   const readyNotification: McpUiSandboxProxyReadyNotification["method"] =
     "ui/notifications/sandbox-proxy-ready";
 
-  const readyPromise = new Promise<boolean>((resolve) => {
-    const listener = ({ source, data }: MessageEvent) => {
-      if (source === iframe.contentWindow && data?.method === readyNotification) {
+  // The proxy offers a dedicated MessagePort with its ready notification.
+  // Only accept it from this iframe and the sandbox origin; all further
+  // traffic then stays on that port, so no other frame can inject or observe
+  // messages.
+  const sandboxOrigin = new URL(SANDBOX_PROXY_BASE_URL).origin;
+  const readyPromise = new Promise<MessagePort>((resolve) => {
+    const listener = ({ source, origin, data, ports }: MessageEvent) => {
+      if (source === iframe.contentWindow && origin === sandboxOrigin && data?.method === readyNotification && ports[0]) {
         log.info("Sandbox proxy loaded")
         window.removeEventListener("message", listener);
-        resolve(true);
+        resolve(ports[0]);
       }
     };
     window.addEventListener("message", listener);
@@ -199,25 +244,52 @@ export function loadSandboxProxy(
 }
 
 
+// Modal Views get tool input but no tool result
+type AppToolCall = Pick<ToolCallInfo, "input"> & Partial<Pick<ToolCallInfo, "resultPromise">>;
+
 export async function initializeApp(
-  iframe: HTMLIFrameElement,
   appBridge: AppBridge,
-  { input, resultPromise, appResourcePromise }: Required<ToolCallInfo>,
+  toolCall: AppToolCall,
+  appResourcePromise: Promise<UiResourceData>,
+  transport: Transport,
 ): Promise<void> {
-  const appInitializedPromise = hookInitializedCallback(appBridge);
+  // Connect app bridge over the sandbox proxy's port (triggers MCP
+  // initialization handshake)
+  await appBridge.connect(transport);
 
-  // Connect app bridge (triggers MCP initialization handshake)
-  //
-  // IMPORTANT: Pass `iframe.contentWindow` as BOTH target and source to ensure
-  // this proxy only responds to messages from its specific iframe.
-  await appBridge.connect(
-    new PostMessageTransport(iframe.contentWindow!, iframe.contentWindow!),
-  );
+  await loadApp(appBridge, toolCall, await appResourcePromise);
+}
 
-  // Load inner iframe HTML with CSP and permissions metadata
-  const { html, csp, permissions } = await appResourcePromise;
-  log.info("Sending UI resource HTML to MCP App", csp ? `(CSP: ${JSON.stringify(csp)})` : "", permissions ? `(Permissions: ${JSON.stringify(permissions)})` : "");
-  await appBridge.sendSandboxResourceReady({ html, csp, permissions });
+/**
+ * Re-read a View's UI resource and load it again in the same sandbox proxy,
+ * sending it the input and result of the original tool call: picks up
+ * rebuilt View files without calling the tool again.
+ */
+export async function reloadApp(appBridge: AppBridge, toolCall: AppToolCall, serverInfo: ServerInfo, uri: string): Promise<void> {
+  log.info("Reloading MCP App:", uri);
+  await loadApp(appBridge, toolCall, await getUiResource(serverInfo, { uri }));
+}
+
+/**
+ * Calls `onChange` whenever the View files basic-host was started to watch
+ * change (see `WATCH_DIRS` in serve.ts). Returns a function to stop.
+ */
+export function watchViewChanges(onChange: () => void): () => void {
+  const events = new EventSource("/api/view-changes");
+  events.onmessage = onChange;
+  return () => events.close();
+}
+
+async function loadApp(
+  appBridge: AppBridge,
+  { input, resultPromise }: AppToolCall,
+  { html, url, csp, permissions }: UiResourceData,
+): Promise<void> {
+  const appInitializedPromise = hookInitializedCallback(appBridge);
+
+  // Load inner iframe HTML (or external URL) with CSP and permissions metadata
+  log.info(url ? `Sending UI resource URL ${url} to MCP App` : "Sending UI resource HTML to MCP App", csp ? `(CSP: ${JSON.stringify(csp)})` : "", permissions ? `(Permissions: ${JSON.stringify(permissions)})` : "");
+  await appBridge.sendSandboxResourceReady({ ...(url ? { url } : { html }), csp, permissions });
 
   // Wait for inner iframe to be ready
   log.info("Waiting for MCP App to initialize...");
@@ -229,7 +301,7 @@ export async function initializeApp(
   appBridge.sendToolInput({ arguments: input });
 
   // Schedule tool call result (or cancellation) to be sent to MCP App
-  resultPromise.then(
+  resultPromise?.then(
     (result) => {
       log.info("Sending tool call result to MCP App:", result);
       appBridge.sendToolResult(result);
@@ -243,6 +315,68 @@ export async function initializeApp(
   );
 }
 
+/**
+ * Connect to the View over the port offered by the sandbox proxy, recording
+ * the session so it can be exported and replayed later.
+ */
+export function newSandboxTransport(sandboxPort: MessagePort): RecordingTransport {
+  return new RecordingTransport(new MessagePortTransport(sandboxPort), { side: "host" });
+}
+
+
+/** Save a recorded session as a JSON file. */
+export function downloadSession(recording: SessionRecording, name: string): void {
+  const blob = new Blob([JSON.stringify(recording, null, 2)], { type: "application/json" });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `${name}-${recording.startedAt.replace(/[:.]/g, "-")}.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+
+/** Let the user pick a session file saved with `downloadSession`. */
+export async function pickSession(): Promise<{ name: string; recording: SessionRecording } | undefined> {
+  const [file] = await pickFiles(["application/json"]);
+  if (!file) return undefined;
+  const recording = JSON.parse(await file.text()) as SessionRecording;
+  if (recording.version !== 1 || !Array.isArray(recording.messages)) {
+    throw new Error(`Not a session recording: ${file.name}`);
+  }
+  return { name: file.name, recording };
+}
+
+
+/**
+ * The View resource sent to the sandbox proxy in a recorded session. Only
+ * sessions recorded by a host have it.
+ */
+export function getRecordedResource(recording: SessionRecording): McpUiSandboxResourceReadyNotification["params"] {
+  for (const { from, message } of recording.messages) {
+    if (from === "host" && "method" in message && message.method === SANDBOX_RESOURCE_READY_METHOD) {
+      return message.params as McpUiSandboxResourceReadyNotification["params"];
+    }
+  }
+  throw new Error("The recording has no View resource; record the session in a host");
+}
+
+
+/**
+ * Replay the host's side of a recorded session to the View loaded in a
+ * sandbox proxy, comparing what the View sends with the recording.
+ */
+export function replayRecordedSession(recording: SessionRecording, sandboxPort: MessagePort): Promise<ReplayResult> {
+  log.info("Replaying session recorded at", recording.startedAt);
+  return replaySession(recording, new MessagePortTransport(sandboxPort), {
+    side: "view",
+    // Leave the View time to load
+    timeout: 10_000,
+    // Sizes depend on this window's layout, not on the session
+    normalize: (message) => "method" in message && message.method === SIZE_CHANGED_METHOD ? undefined : message,
+  });
+}
+
+
 /**
  * Hooks into `AppBridge.oninitialized` and returns a Promise that resolves when
  * the MCP App is initialized (i.e., when the inner iframe is ready).
@@ -261,16 +395,128 @@ function hookInitializedCallback(appBridge: AppBridge): Promise<void> {
 
 export type ModelContext = McpUiUpdateModelContextRequest["params"];
 export type AppMessage = McpUiMessageRequest["params"];
+export type ModalRequest = McpUiRequestModalRequest["params"];
 
 export interface AppBridgeCallbacks {
   onContextUpdate?: (context: ModelContext | null) => void;
   onMessage?: (message: AppMessage) => void;
-  onDisplayModeChange?: (mode: "inline" | "fullscreen") => void;
+  onDisplayModeChange?: (mode: McpUiDisplayMode) => void;
+  /** Show a modal View; returns `false` if one is already open. */
+  onRequestModal?: (modal: ModalRequest) => boolean;
+}
+
+// Routes `App.broadcast()` messages between Views. Views are grouped by the
+// URL we connected to, so only Views of the same server see each other.
+const peerRouter = new PeerMessageRouter();
+
+
+// Host context of each View: the fields basic-host keeps up to date itself
+// (theme, width, display mode...), and those set in the host context
+// simulator, which take precedence.
+const hostContexts = new WeakMap<AppBridge, { base: McpUiHostContext; simulated: McpUiHostContext }>();
+
+function sendHostContext(appBridge: AppBridge): void {
+  const { base, simulated } = hostContexts.get(appBridge)!;
+  appBridge.setHostContext({ ...base, ...simulated });
+}
+
+/** Change fields of a View's host context, sending it those that changed. */
+export function updateHostContext(appBridge: AppBridge, changes: McpUiHostContext): void {
+  const contexts = hostContexts.get(appBridge)!;
+  contexts.base = { ...contexts.base, ...changes };
+  sendHostContext(appBridge);
+}
+
+/**
+ * Override fields of a View's host context, replacing previous overrides.
+ * Fields no longer overridden get back the values basic-host set.
+ */
+export function simulateHostContext(appBridge: AppBridge, simulated: McpUiHostContext): void {
+  hostContexts.get(appBridge)!.simulated = simulated;
+  sendHostContext(appBridge);
+}
+
+
+/**
+ * Show the browser's file picker, resolving with the picked files (empty if
+ * the user cancels).
+ */
+function pickFiles(accept?: string[], multiple?: boolean): Promise<File[]> {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = accept?.join(",") ?? "";
+  input.multiple = multiple ?? false;
+  return new Promise((resolve) => {
+    input.addEventListener("change", () => resolve([...(input.files ?? [])]));
+    input.addEventListener("cancel", () => resolve([]));
+    input.click();
+  });
+}
+
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Result is a data URL: "data:<mime>;base64,<data>"
+    reader.onload = () => resolve((reader.result as string).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+
+/**
+ * Show a confirmation dialog on behalf of an MCP App, resolving with the id
+ * of the picked action (undefined if dismissed). Content is set as text, so
+ * the App can't inject markup into the host page.
+ */
+function showConfirmationDialog(
+  appName: string,
+  { title, body, actions }: McpUiRequestConfirmationRequest["params"],
+): Promise<string | undefined> {
+  const dialog = document.createElement("dialog");
+  dialog.className = "confirmationDialog";
+
+  const origin = document.createElement("small");
+  origin.textContent = `${appName} asks:`;
+  const heading = document.createElement("h2");
+  heading.textContent = title;
+  dialog.append(origin, heading);
+  if (body) {
+    const text = document.createElement("p");
+    text.textContent = body;
+    dialog.append(text);
+  }
+
+  const form = document.createElement("form");
+  form.method = "dialog";
+  for (const action of actions ?? [
+    { id: "cancel", label: "Cancel" },
+    { id: "confirm", label: "OK", style: "primary" as const },
+  ]) {
+    const button = document.createElement("button");
+    button.value = action.id;
+    button.textContent = action.label;
+    button.dataset.style = action.style ?? "default";
+    form.append(button);
+  }
+  dialog.append(form);
+
+  return new Promise((resolve) => {
+    dialog.addEventListener("close", () => {
+      dialog.remove();
+      // returnValue is "" when dismissed with Escape
+      resolve(dialog.returnValue || undefined);
+    });
+    document.body.append(dialog);
+    dialog.showModal();
+  });
 }
 
+
 export interface AppBridgeOptions {
   containerDimensions?: { maxHeight?: number; width?: number } | { height: number; width?: number };
-  displayMode?: "inline" | "fullscreen";
+  displayMode?: McpUiDisplayMode;
 }
 
 export function newAppBridge(
@@ -280,30 +526,57 @@ export function newAppBridge(
   options?: AppBridgeOptions,
 ): AppBridge {
   const serverCapabilities = serverInfo.client.getServerCapabilities();
+  const hostContext: McpUiHostContext = {
+    theme: getTheme(),
+    platform: "web",
+    locale: navigator.language,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    styles: {
+      variables: HOST_STYLE_VARIABLES,
+    },
+    containerDimensions: options?.containerDimensions ?? { maxHeight: 6000 },
+    displayMode: options?.displayMode ?? "inline",
+    availableDisplayModes: ["inline", "fullscreen"],
+  };
   const appBridge = new AppBridge(serverInfo.client, IMPLEMENTATION, {
     openLinks: {},
     serverTools: serverCapabilities?.tools,
-    serverResources: serverCapabilities?.resources,
+    serverPrompts: serverCapabilities?.prompts,
+    serverCompletions: serverCapabilities?.completions,
+    serverTasks: serverCapabilities?.tasks?.requests?.tools?.call && {
+      list: serverCapabilities.tasks.list,
+      cancel: serverCapabilities.tasks.cancel,
+    },
+    // Serve large resources to Views in chunks (ui/read-resource-bytes)
+    serverResources: serverCapabilities?.resources && {
+      ...serverCapabilities.resources,
+      byteRanges: {},
+    },
     // Declare support for model context updates
     updateModelContext: { text: {} },
+    // Declare support for View-to-View messages
+    peerMessaging: {},
+    // Let Views ask the user for local files (ui/request-file)
+    fileUpload: { maxBytes: 10 * 1024 * 1024 },
+    // Render confirmations and modal Views on behalf of Views
+    confirmation: {},
+    modal: {},
   }, {
     // Pass initial host context with theme, display mode, and style variables
-    hostContext: {
-      theme: getTheme(),
-      platform: "web",
-      styles: {
-        variables: HOST_STYLE_VARIABLES,
-      },
-      containerDimensions: options?.containerDimensions ?? { maxHeight: 6000 },
-      displayMode: options?.displayMode ?? "inline",
-      availableDisplayModes: ["inline", "fullscreen"],
-    },
+    hostContext,
+    // Keep Views away from model-only tools and confirm destructive calls
+    policy: createAppBridgePolicy({
+      getTool: (name) => serverInfo.tools.get(name),
+      approveDestructiveTool: (tool) =>
+        window.confirm(`Allow this app to run "${tool.title ?? tool.name}"?`),
+    }),
   });
+  hostContexts.set(appBridge, { base: hostContext, simulated: {} });
 
   // Listen for theme changes (from toggle or system) and notify the app
   onThemeChange((newTheme) => {
     log.info("Theme changed:", newTheme);
-    appBridge.sendHostContextChange({ theme: newTheme });
+    updateHostContext(appBridge, { theme: newTheme });
   });
 
   // Per spec, the host SHOULD notify the view when container dimensions
@@ -315,16 +588,18 @@ export function newAppBridge(
   const iframeResizeObserver = new ResizeObserver(([entry]) => {
     const width = Math.round(entry.contentRect.width);
     if (width > 0) {
-      appBridge.sendHostContextChange({
+      updateHostContext(appBridge, {
         containerDimensions: { width, maxHeight: 6000 },
       });
     }
   });
   iframeResizeObserver.observe(iframe);
+  const removePeer = peerRouter.add(appBridge, serverInfo.url);
   // AppBridge inherits Protocol's onclose hook — chain disposal there.
   const prevOnclose = appBridge.onclose;
   appBridge.onclose = () => {
     iframeResizeObserver.disconnect();
+    removePeer();
     prevOnclose?.();
   };
 
@@ -344,6 +619,41 @@ export function newAppBridge(
     return {};
   };
 
+  appBridge.onrequestfile = async ({ accept, multiple, maxBytes }) => {
+    log.info("File request from MCP App:", { accept, multiple, maxBytes });
+    const files = await pickFiles(accept, multiple);
+    const tooLarge = files.filter((file) => maxBytes !== undefined && file.size > maxBytes);
+    if (tooLarge.length > 0) {
+      window.alert(`Too large for this app: ${tooLarge.map((file) => file.name).join(", ")}`);
+    }
+    const picked = files.filter((file) => !tooLarge.includes(file));
+    const contents = await Promise.all(picked.map(async (file) => ({
+      type: "resource" as const,
+      resource: {
+        uri: `file:///${encodeURIComponent(file.name)}`,
+        mimeType: file.type || "application/octet-stream",
+        blob: await readAsBase64(file),
+      },
+    })));
+    return { contents, isError: tooLarge.length > 0 && contents.length === 0 };
+  };
+
+  appBridge.onrequestconfirmation = async (params) => {
+    log.info("Confirmation request from MCP App:", params);
+    const action = await showConfirmationDialog(serverInfo.name, params);
+    return { action };
+  };
+
+  appBridge.onrequestmodal = async (params) => {
+    log.info("Modal request from MCP App:", params);
+    // Only templates of this View's server; the modal reads them from there
+    if (!params.resourceUri.startsWith("ui://")) {
+      return { isError: true };
+    }
+    const opened = callbacks?.onRequestModal?.(params) ?? false;
+    return { isError: !opened };
+  };
+
   appBridge.onloggingmessage = (params) => {
     log.info("Log message from MCP App:", params);
   };
@@ -395,9 +705,12 @@ export function newAppBridge(
   // Handle display mode change requests from the app
   appBridge.onrequestdisplaymode = async (params) => {
     log.info("Display mode request from MCP App:", params);
-    const newMode = params.mode === "fullscreen" ? "fullscreen" : "inline";
+    // Grant modes the host context says are available (the simulator may
+    // add "pip"), falling back to inline
+    const available = appBridge.getHostContext().availableDisplayModes ?? [];
+    const newMode = available.includes(params.mode) ? params.mode : "inline";
     // Update host context and notify the app
-    appBridge.sendHostContextChange({
+    updateHostContext(appBridge, {
       displayMode: newMode,
     });
     // Notify the host UI (via callback)
@@ -1,8 +1,10 @@
-import { getToolUiResourceUri, McpUiToolMetaSchema } from "@modelcontextprotocol/ext-apps/app-bridge";
+import { getToolUiResourceUri, McpUiToolMetaSchema, type McpUiDisplayMode, type RecordingTransport, type ReplayResult, type SessionRecording } from "@modelcontextprotocol/ext-apps/app-bridge";
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { Component, type ErrorInfo, type ReactNode, StrictMode, Suspense, use, useEffect, useMemo, useRef, useState } from "react";
+import { Component, type ErrorInfo, type ReactNode, StrictMode, Suspense, use, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createRoot } from "react-dom/client";
-import { callTool, connectToServer, hasAppHtml, initializeApp, loadSandboxProxy, log, newAppBridge, type ServerInfo, type ToolCallInfo, type ModelContext, type AppMessage } from "./implementation";
+import { callTool, connectToServer, downloadSession, getRecordedResource, getUiResource, initializeApp, loadSandboxProxy, log, newAppBridge, newSandboxTransport, pickSession, reloadApp, replayRecordedSession, watchViewChanges, type ServerInfo, type ToolCallInfo, type ModelContext, type AppMessage, type ModalRequest, type UiResourceData } from "./implementation";
+import { HostContextSimulator } from "./host-context-simulator";
+import { ProtocolInspector } from "./protocol-inspector";
 import { getTheme, toggleTheme, onThemeChange, type Theme } from "./theme";
 import styles from "./index.module.css";
 
@@ -55,6 +57,9 @@ interface HostProps {
 type ToolCallEntry = ToolCallInfo & { id: number };
 let nextToolCallId = 0;
 
+type ReplayEntry = { id: number; name: string; recording: SessionRecording };
+let nextReplayId = 0;
+
 // Parse URL query params for debugging: ?server=name&tool=name&call=true&theme=hide
 function getQueryParams() {
   const params = new URLSearchParams(window.location.search);
@@ -91,6 +96,7 @@ function ThemeToggle() {
 function Host({ serversPromise }: HostProps) {
   const [toolCalls, setToolCalls] = useState<ToolCallEntry[]>([]);
   const [destroyingIds, setDestroyingIds] = useState<Set<number>>(new Set());
+  const [replays, setReplays] = useState<ReplayEntry[]>([]);
   const queryParams = useMemo(() => getQueryParams(), []);
 
   const requestClose = (id: number) => {
@@ -106,6 +112,13 @@ function Host({ serversPromise }: HostProps) {
     setToolCalls((calls) => calls.filter((c) => c.id !== id));
   };
 
+  const loadSession = () => {
+    pickSession().then(
+      (session) => session && setReplays((prev) => [...prev, { ...session, id: nextReplayId++ }]),
+      (error) => window.alert(error instanceof Error ? error.message : String(error)),
+    );
+  };
+
   return (
     <>
       {!queryParams.hideThemeToggle && <ThemeToggle />}
@@ -118,6 +131,14 @@ function Host({ serversPromise }: HostProps) {
           onCloseComplete={() => completeClose(info.id)}
         />
       ))}
+      {replays.map(({ id, name, recording }) => (
+        <ReplayPanel
+          key={id}
+          name={name}
+          recording={recording}
+          onClose={() => setReplays((prev) => prev.filter((r) => r.id !== id))}
+        />
+      ))}
       <CallToolPanel
         serversPromise={serversPromise}
         addToolCall={(info) => setToolCalls([...toolCalls, { ...info, id: nextToolCallId++ }])}
@@ -125,6 +146,11 @@ function Host({ serversPromise }: HostProps) {
         initialTool={queryParams.tool}
         autoCall={queryParams.call}
       />
+      <div className={styles.sessionActions}>
+        <button className={styles.sessionButton} onClick={loadSession} title="Replay a session exported from a View">
+          Load Session
+        </button>
+      </div>
     </>
   );
 }
@@ -323,14 +349,38 @@ interface ToolCallInfoPanelProps {
   onCloseComplete?: () => void;
 }
 function ToolCallInfoPanel({ toolCallInfo, isDestroying, onRequestClose, onCloseComplete }: ToolCallInfoPanelProps) {
-  const isApp = hasAppHtml(toolCallInfo);
+  // One View per UI resource: the declared one right away, plus any the tool
+  // result adds once it arrives.
+  const [appResourcePromises, setAppResourcePromises] = useState<Promise<UiResourceData>[]>(
+    () => toolCallInfo.appResourcePromise ? [toolCallInfo.appResourcePromise] : [],
+  );
+  useEffect(() => {
+    let cancelled = false;
+    toolCallInfo.extraAppResourcesPromise.then((extra) => {
+      if (!cancelled && extra.length > 0) {
+        setAppResourcePromises((prev) => [...prev, ...extra]);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [toolCallInfo]);
 
-  // For non-app tool calls, close immediately when isDestroying becomes true
+  const viewCount = appResourcePromises.length;
+
+  // Without Views, close immediately when isDestroying becomes true
   useEffect(() => {
-    if (isDestroying && !isApp) {
+    if (isDestroying && viewCount === 0) {
       onCloseComplete?.();
     }
-  }, [isDestroying, isApp, onCloseComplete]);
+  }, [isDestroying, viewCount, onCloseComplete]);
+
+  // Otherwise, close once every View has been torn down
+  const tornDownCount = useRef(0);
+  const onViewTeardownComplete = useCallback(() => {
+    tornDownCount.current += 1;
+    if (tornDownCount.current === viewCount) {
+      onCloseComplete?.();
+    }
+  }, [viewCount, onCloseComplete]);
 
   const inputJson = JSON.stringify(toolCallInfo.input, null, 2);
 
@@ -356,18 +406,19 @@ function ToolCallInfoPanel({ toolCallInfo, isDestroying, onRequestClose, onClose
       {/* Row 2: Tool Input */}
       <CollapsiblePanel icon="📥" label="Tool Input" content={inputJson} />
 
-      {/* Row 3: App iframe (if app) */}
-      {isApp && (
-        <ErrorBoundary>
+      {/* Row 3: App iframes (if app) */}
+      {appResourcePromises.map((appResourcePromise, i) => (
+        <ErrorBoundary key={i}>
           <Suspense fallback="Loading...">
             <AppIFramePanel
               toolCallInfo={toolCallInfo}
+              appResourcePromise={appResourcePromise}
               isDestroying={isDestroying}
-              onTeardownComplete={onCloseComplete}
+              onTeardownComplete={onViewTeardownComplete}
             />
           </Suspense>
         </ErrorBoundary>
-      )}
+      ))}
 
       {/* Row 4: Tool Result */}
       <ErrorBoundary>
@@ -418,45 +469,71 @@ function CollapsiblePanel({ icon, label, content, badge, defaultExpanded = false
 
 
 interface AppIFramePanelProps {
-  toolCallInfo: Required<ToolCallInfo>;
+  toolCallInfo: ToolCallInfo;
+  appResourcePromise: Promise<UiResourceData>;
   isDestroying?: boolean;
   onTeardownComplete?: () => void;
 }
-function AppIFramePanel({ toolCallInfo, isDestroying, onTeardownComplete }: AppIFramePanelProps) {
+function AppIFramePanel({ toolCallInfo, appResourcePromise, isDestroying, onTeardownComplete }: AppIFramePanelProps) {
   const iframeRef = useRef<HTMLIFrameElement | null>(null);
   const appBridgeRef = useRef<ReturnType<typeof newAppBridge> | null>(null);
+  // Set once the View is connected, which shows the inspector
+  const [recorder, setRecorder] = useState<RecordingTransport | null>(null);
   const [modelContext, setModelContext] = useState<ModelContext | null>(null);
   const [messages, setMessages] = useState<AppMessage[]>([]);
-  const [displayMode, setDisplayMode] = useState<"inline" | "fullscreen">("inline");
+  const [displayMode, setDisplayMode] = useState<McpUiDisplayMode>("inline");
+  const [modal, setModal] = useState<ModalRequest | null>(null);
+  // Read synchronously by onRequestModal, which can't wait for a re-render
+  const modalOpenRef = useRef(false);
 
   useEffect(() => {
     const iframe = iframeRef.current!;
 
     // First get CSP and permissions from resource, then load sandbox
     // CSP is set via HTTP headers (tamper-proof), permissions via iframe allow attribute
-    toolCallInfo.appResourcePromise.then(({ csp, permissions }) => {
-      loadSandboxProxy(iframe, csp, permissions).then((firstTime) => {
-        // The `firstTime` check guards against React Strict Mode's double
-        // invocation (mount → unmount → remount simulation in development).
-        // Outside of Strict Mode, this `useEffect` runs only once per
-        // `toolCallInfo`.
-        if (firstTime) {
+    appResourcePromise.then(({ csp, permissions }) => {
+      loadSandboxProxy(iframe, csp, permissions).then((sandboxPort) => {
+        // Only the first load yields a port, which guards against React
+        // Strict Mode's double invocation (mount → unmount → remount
+        // simulation in development). Outside of Strict Mode, this
+        // `useEffect` runs only once per `toolCallInfo`.
+        if (sandboxPort) {
           const appBridge = newAppBridge(toolCallInfo.serverInfo, iframe, {
             onContextUpdate: setModelContext,
             onMessage: (msg) => setMessages((prev) => [...prev, msg]),
             onDisplayModeChange: setDisplayMode,
+            onRequestModal: (request) => {
+              if (modalOpenRef.current) return false;
+              modalOpenRef.current = true;
+              setModal(request);
+              return true;
+            },
           }, {
             // Provide container dimensions - maxHeight for flexible sizing
             containerDimensions: { maxHeight: 6000 },
             displayMode: "inline",
           });
           appBridgeRef.current = appBridge;
-          initializeApp(iframe, appBridge, toolCallInfo);
+          const transport = newSandboxTransport(sandboxPort);
+          setRecorder(transport);
+          initializeApp(appBridge, toolCallInfo, appResourcePromise, transport);
         }
       });
     });
 
-  }, [toolCallInfo]);
+  }, [toolCallInfo, appResourcePromise]);
+
+  // Reload the View when its files are rebuilt (with `mcp-apps dev`)
+  useEffect(() => {
+    return watchViewChanges(() => {
+      // Set once the View is connected
+      const appBridge = appBridgeRef.current;
+      if (!appBridge) return;
+      appResourcePromise
+        .then(({ uri }) => reloadApp(appBridge, toolCallInfo, toolCallInfo.serverInfo, uri))
+        .catch((error) => log.error("Failed to reload MCP App:", error));
+    });
+  }, [toolCallInfo, appResourcePromise]);
 
   // Graceful teardown: wait for guest to respond before unmounting
   // This follows the spec: "Host SHOULD wait for a response before tearing
@@ -510,13 +587,33 @@ function AppIFramePanel({ toolCallInfo, isDestroying, onTeardownComplete }: AppI
   };
   const messagesText = messages.map(formatMessage).join("\n\n");
 
-  const panelClassName = displayMode === "fullscreen"
-    ? `${styles.appIframePanel} ${styles.fullscreen}`
-    : styles.appIframePanel;
+  const panelClassName = displayMode === "inline"
+    ? styles.appIframePanel
+    : `${styles.appIframePanel} ${styles[displayMode]}`;
 
   return (
     <div className={panelClassName}>
       <iframe ref={iframeRef} />
+      <div className={styles.appToolbar}>
+        <button
+          className={styles.sessionButton}
+          disabled={!recorder}
+          onClick={() => recorder && downloadSession(recorder.getRecording(), toolCallInfo.tool.name)}
+          title="Save the messages exchanged with this View, to replay them later"
+        >
+          Export Session
+        </button>
+      </div>
+      {recorder && appBridgeRef.current && (
+        <>
+          <HostContextSimulator
+            appBridge={appBridgeRef.current}
+            displayMode={displayMode}
+            onDisplayModeChange={setDisplayMode}
+          />
+          <ProtocolInspector recorder={recorder} appBridge={appBridgeRef.current} />
+        </>
+      )}
       {messages.length > 0 && (
         <CollapsiblePanel
           icon="💬"
@@ -528,6 +625,144 @@ function AppIFramePanel({ toolCallInfo, isDestroying, onTeardownComplete }: AppI
       {modelContext && (
         <CollapsiblePanel icon="📋" label="Model Context" content={fullContext} />
       )}
+      {modal && (
+        <ModalViewPanel
+          serverInfo={toolCallInfo.serverInfo}
+          modal={modal}
+          onClose={() => {
+            modalOpenRef.current = false;
+            setModal(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+
+interface ModalViewPanelProps {
+  serverInfo: ServerInfo;
+  modal: ModalRequest;
+  onClose: () => void;
+}
+/**
+ * Renders a `ui://` template requested with `ui/request-modal` as a separate
+ * View in a modal dialog. It receives the request's `arguments` as tool input
+ * and closes when it requests teardown or the user dismisses the dialog.
+ */
+function ModalViewPanel({ serverInfo, modal, onClose }: ModalViewPanelProps) {
+  const dialogRef = useRef<HTMLDialogElement | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const appBridgeRef = useRef<ReturnType<typeof newAppBridge> | null>(null);
+
+  // Give the View a chance to clean up before it's removed
+  const close = useCallback(() => {
+    const appBridge = appBridgeRef.current;
+    if (!appBridge) {
+      onClose();
+      return;
+    }
+    appBridgeRef.current = null;
+    appBridge.teardownResource({})
+      .catch((err) => {
+        log.warn("Teardown request failed (modal may have already closed):", err);
+      })
+      .finally(onClose);
+  }, [onClose]);
+
+  useEffect(() => {
+    const dialog = dialogRef.current!;
+    if (!dialog.open) dialog.showModal();
+    const iframe = iframeRef.current!;
+
+    const appResourcePromise = getUiResource(serverInfo, { uri: modal.resourceUri });
+    appResourcePromise.then(({ csp, permissions }) => {
+      loadSandboxProxy(iframe, csp, permissions).then((sandboxPort) => {
+        // Only the first load yields a port (see AppIFramePanel)
+        if (sandboxPort) {
+          const appBridge = newAppBridge(serverInfo, iframe);
+          appBridge.addEventListener("requestteardown", close);
+          appBridgeRef.current = appBridge;
+          initializeApp(appBridge, { input: modal.arguments ?? {} }, appResourcePromise, newSandboxTransport(sandboxPort));
+        }
+      });
+    }, (error) => {
+      log.error("Failed to load modal View:", error);
+      onClose();
+    });
+  }, [serverInfo, modal]);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className={styles.modalView}
+      onCancel={(e) => {
+        // Escape: tear the View down first instead of closing right away
+        e.preventDefault();
+        close();
+      }}
+    >
+      <div className={styles.appHeader}>
+        <span>{modal.title ?? modal.resourceUri}</span>
+        <button className={styles.closeButton} onClick={close} title="Close">×</button>
+      </div>
+      <iframe ref={iframeRef} />
+    </dialog>
+  );
+}
+
+
+interface ReplayPanelProps {
+  name: string;
+  recording: SessionRecording;
+  onClose: () => void;
+}
+/**
+ * Loads the View of a recorded session and replays the host's messages to
+ * it, then lists where the View's messages differ from the recording.
+ */
+function ReplayPanel({ name, recording, onClose }: ReplayPanelProps) {
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const [result, setResult] = useState<ReplayResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const iframe = iframeRef.current!;
+    let resource;
+    try {
+      resource = getRecordedResource(recording);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    loadSandboxProxy(iframe, resource.csp, resource.permissions).then((sandboxPort) => {
+      // Only the first load yields a port (see AppIFramePanel)
+      if (sandboxPort) {
+        replayRecordedSession(recording, sandboxPort).then(setResult, (e) => setError(String(e)));
+      }
+    });
+  }, [recording]);
+
+  const mismatchCount = result?.mismatches.length ?? 0;
+
+  return (
+    <div className={styles.toolCallInfoPanel}>
+      <div className={styles.appHeader}>
+        <span>Replay:<span className={styles.toolName}>{name}</span></span>
+        <button className={styles.closeButton} onClick={onClose} title="Close">×</button>
+      </div>
+      {error && <div className={styles.error}><strong>ERROR:</strong> {error}</div>}
+      <div className={styles.appIframePanel}>
+        <iframe ref={iframeRef} />
+      </div>
+      {result ? (
+        <CollapsiblePanel
+          icon={mismatchCount ? "❌" : "✅"}
+          label="Replay Mismatches"
+          content={JSON.stringify(result.mismatches, null, 2)}
+          badge={`${mismatchCount} mismatch${mismatchCount === 1 ? "" : "es"}`}
+        />
+      ) : !error && "Replaying..."}
     </div>
   );
 }
@@ -0,0 +1,215 @@
+import { HOST_CONTEXT_CHANGED_METHOD, TOOL_CANCELLED_METHOD, TOOL_INPUT_METHOD, TOOL_INPUT_PARTIAL_METHOD, TOOL_RESULT_METHOD, type AppBridge, type AppNotification, type RecordedMessage, type RecordingTransport } from "@modelcontextprotocol/ext-apps/app-bridge";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { useEffect, useMemo, useState } from "react";
+import { log } from "./implementation";
+import styles from "./index.module.css";
+
+
+/** A row of the timeline: one message, with what we know about it. */
+interface TimelineEntry {
+  time: number;
+  from: RecordedMessage["from"];
+  kind: "request" | "response" | "notification";
+  /** Method of the message, or of the request it answers. */
+  method: string;
+  /** Size of the message as JSON, in bytes. */
+  size: number;
+  /** For requests and their responses: time until the response arrived. */
+  latency?: number;
+  error?: string;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Turn recorded messages into timeline rows, pairing each response with the
+ * request it answers (ids are only unique per sender).
+ */
+function describeMessages(messages: RecordedMessage[]): TimelineEntry[] {
+  const encoder = new TextEncoder();
+  const entries: TimelineEntry[] = [];
+  const pending = new Map<string, TimelineEntry>();
+  for (const { time, from, message } of messages) {
+    const entry: TimelineEntry = {
+      time,
+      from,
+      kind: "method" in message ? ("id" in message ? "request" : "notification") : "response",
+      method: "method" in message ? message.method : "(response)",
+      size: encoder.encode(JSON.stringify(message)).length,
+      message,
+    };
+    if (entry.kind === "request" && "id" in message) {
+      pending.set(`${from}:${message.id}`, entry);
+    } else if (entry.kind === "response" && "id" in message) {
+      const requester = from === "view" ? "host" : "view";
+      const request = pending.get(`${requester}:${message.id}`);
+      pending.delete(`${requester}:${message.id}`);
+      if (request) {
+        entry.method = request.method;
+        entry.latency = request.latency = time - request.time;
+      }
+      if ("error" in message) {
+        entry.error = message.error.message;
+        if (request) request.error = entry.error;
+      }
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+
+// Notifications the host can send the View, with example params
+const INJECTABLE_NOTIFICATIONS: Record<string, object> = {
+  [HOST_CONTEXT_CHANGED_METHOD]: { theme: "dark" },
+  [TOOL_INPUT_METHOD]: { arguments: {} },
+  [TOOL_INPUT_PARTIAL_METHOD]: { arguments: {} },
+  [TOOL_RESULT_METHOD]: { content: [{ type: "text", text: "Injected result" }] },
+  [TOOL_CANCELLED_METHOD]: { reason: "Cancelled from the inspector" },
+};
+
+
+interface ProtocolInspectorProps {
+  recorder: RecordingTransport;
+  appBridge: AppBridge;
+}
+/**
+ * Live timeline of the JSON-RPC messages between the AppBridge and its View,
+ * with a form to send the View notifications by hand.
+ */
+export function ProtocolInspector({ recorder, appBridge }: ProtocolInspectorProps) {
+  const [messages, setMessages] = useState(() => recorder.getRecording().messages);
+  const [methodFilter, setMethodFilter] = useState("");
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  useEffect(() => {
+    setMessages(recorder.getRecording().messages);
+    recorder.onrecord = (recorded) => setMessages((prev) => [...prev, recorded]);
+    return () => { recorder.onrecord = undefined; };
+  }, [recorder]);
+
+  const entries = useMemo(() => describeMessages(messages), [messages]);
+  const methods = useMemo(() => [...new Set(entries.map((e) => e.method))].sort(), [entries]);
+  const errorCount = entries.filter((e) => e.kind === "response" && e.error).length;
+
+  return (
+    <details className={styles.inspector}>
+      <summary>
+        <span className={styles.collapsibleLabel}>🔎 Protocol Inspector</span>
+        <span className={styles.collapsibleSize}>
+          {entries.length} message{entries.length === 1 ? "" : "s"}
+          {errorCount > 0 && `, ${errorCount} error${errorCount === 1 ? "" : "s"}`}
+        </span>
+      </summary>
+      <label className={styles.inspectorFilter}>
+        Method
+        <select value={methodFilter} onChange={(e) => setMethodFilter(e.target.value)}>
+          <option value="">All methods</option>
+          {methods.map((method) => <option key={method} value={method}>{method}</option>)}
+        </select>
+      </label>
+      <table className={styles.inspectorTimeline}>
+        <thead>
+          <tr><th>Time</th><th></th><th>Method</th><th>Latency</th><th>Size</th><th>Error</th></tr>
+        </thead>
+        <tbody>
+          {entries.map((entry, i) => (methodFilter && entry.method !== methodFilter) ? null : (
+            <InspectorRow
+              key={i}
+              entry={entry}
+              expanded={expanded === i}
+              onToggle={() => setExpanded(expanded === i ? null : i)}
+            />
+          ))}
+        </tbody>
+      </table>
+      <InjectNotificationForm appBridge={appBridge} />
+    </details>
+  );
+}
+
+
+interface InspectorRowProps {
+  entry: TimelineEntry;
+  expanded: boolean;
+  onToggle: () => void;
+}
+function InspectorRow({ entry, expanded, onToggle }: InspectorRowProps) {
+  const { time, from, kind, method, latency, size, error, message } = entry;
+  return (
+    <>
+      <tr onClick={onToggle} aria-invalid={!!error} title="Click to show the message">
+        <td>+{time}ms</td>
+        <td title={`${from === "host" ? "Host → View" : "View → Host"} ${kind}`}>
+          {from === "host" ? "→" : "←"} {kind === "response" ? "↩" : kind === "notification" ? "•" : ""}
+        </td>
+        <td>{method}</td>
+        <td>{latency !== undefined ? `${latency}ms` : kind === "request" ? "pending" : ""}</td>
+        <td>{formatSize(size)}</td>
+        <td>{error}</td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td colSpan={6}>
+            <pre className={styles.collapsibleFull}>{JSON.stringify(message, null, 2)}</pre>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+
+interface InjectNotificationFormProps {
+  appBridge: AppBridge;
+}
+function InjectNotificationForm({ appBridge }: InjectNotificationFormProps) {
+  const [method, setMethod] = useState<string>(HOST_CONTEXT_CHANGED_METHOD);
+  const [paramsJson, setParamsJson] = useState(() => JSON.stringify(INJECTABLE_NOTIFICATIONS[method], null, 2));
+
+  const isValidJson = useMemo(() => {
+    try {
+      JSON.parse(paramsJson);
+      return true;
+    } catch {
+      return false;
+    }
+  }, [paramsJson]);
+
+  const send = () => {
+    const notification = { method, params: JSON.parse(paramsJson) } as AppNotification;
+    log.info("Injecting notification:", notification);
+    Promise.resolve(appBridge.notification(notification)).catch((error) => {
+      log.error("Failed to inject notification:", error);
+    });
+  };
+
+  return (
+    <form className={styles.inspectorInject} onSubmit={(e) => { e.preventDefault(); send(); }}>
+      <label>
+        Send to View
+        <select
+          value={method}
+          onChange={(e) => {
+            setMethod(e.target.value);
+            setParamsJson(JSON.stringify(INJECTABLE_NOTIFICATIONS[e.target.value], null, 2));
+          }}
+        >
+          {Object.keys(INJECTABLE_NOTIFICATIONS).map((name) => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </label>
+      <textarea
+        aria-invalid={!isValidJson}
+        value={paramsJson}
+        onChange={(e) => setParamsJson(e.target.value)}
+      />
+      <button type="submit" className={styles.sessionButton} disabled={!isValidJson}>
+        Send Notification
+      </button>
+    </form>
+  );
+}
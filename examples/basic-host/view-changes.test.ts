@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { createViewChangesHandler } from "./view-changes";
+
+describe("createViewChangesHandler", () => {
+  let cleanup: (() => void)[] = [];
+
+  afterEach(() => {
+    for (const fn of cleanup.reverse()) fn();
+    cleanup = [];
+  });
+
+  /** Serve the handler watching a new directory, and open its event stream. */
+  async function connect() {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "view-changes-"));
+    const viewChanges = createViewChangesHandler([dir], 20);
+    const app = express();
+    app.get("/api/view-changes", viewChanges.handler);
+    const server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const controller = new AbortController();
+    cleanup.push(
+      () => fs.rmSync(dir, { recursive: true, force: true }),
+      () => server.close(),
+      () => viewChanges.close(),
+      () => controller.abort(),
+    );
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://localhost:${port}/api/view-changes`, {
+      signal: controller.signal,
+    });
+    return {
+      dir,
+      viewChanges,
+      response,
+      reader: response.body!.getReader(),
+    };
+  }
+
+  it("streams one event once rebuilt files stop changing", async () => {
+    const { dir, response, reader } = await connect();
+    expect(response.headers.get("content-type")).toStartWith(
+      "text/event-stream",
+    );
+    const log = console.log;
+    console.log = () => {};
+    cleanup.push(() => (console.log = log));
+
+    fs.writeFileSync(path.join(dir, "mcp-app.html"), "<p>v2</p>");
+    fs.mkdirSync(path.join(dir, "assets"));
+    fs.writeFileSync(path.join(dir, "assets", "app.js"), "");
+    const { value } = await reader.read();
+
+    expect(new TextDecoder().decode(value)).toBe("data: changed\n\n");
+  });
+
+  it("ends the event streams when closed", async () => {
+    const { viewChanges, reader } = await connect();
+
+    viewChanges.close();
+
+    expect((await reader.read()).done).toBe(true);
+  });
+});
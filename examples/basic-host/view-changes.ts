@@ -0,0 +1,40 @@
+import { watch } from "fs";
+import type { Request, Response } from "express";
+
+/**
+ * Server-sent events telling the page to reload its Views when files in
+ * `dirs` change, sent once they stop changing (a rebuild may write several).
+ */
+export function createViewChangesHandler(dirs: string[], debounceMs = 200) {
+  const listeners = new Set<Response>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const watchers = dirs.map((dir) =>
+    watch(dir, { recursive: true }, () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        console.log(`View files changed in ${dir}, reloading Views`);
+        for (const res of listeners) res.write("data: changed\n\n");
+      }, debounceMs);
+    }),
+  );
+
+  return {
+    handler(req: Request, res: Response) {
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.flushHeaders();
+      listeners.add(res);
+      req.on("close", () => listeners.delete(res));
+    },
+    /** Stop watching, and end the open event streams. */
+    close() {
+      clearTimeout(timer);
+      for (const watcher of watchers) watcher.close();
+      for (const res of listeners) res.end();
+      listeners.clear();
+    },
+  };
+}
@@ -94,9 +94,27 @@ authBtn.addEventListener("click", async () => {
   }
 });
 
+/**
+ * Asks the host to confirm revoking, when it can render the dialog itself.
+ * Hosts without the `confirmation` capability proceed straight away.
+ */
+async function confirmRevoke(): Promise<boolean> {
+  if (!app.getHostCapabilities()?.confirmation) return true;
+  const { action } = await app.requestConfirmation({
+    title: "Revoke auth token?",
+    body: "You will need to sign in again to call protected tools.",
+    actions: [
+      { id: "cancel", label: "Cancel" },
+      { id: "revoke", label: "Revoke", style: "destructive" },
+    ],
+  });
+  return action === "revoke";
+}
+
 revokeBtn.addEventListener("click", async () => {
   revokeBtn.disabled = true;
   try {
+    if (!(await confirmRevoke())) return;
     await callTool("revoke_auth_token");
   } finally {
     revokeBtn.disabled = false;
@@ -75,10 +75,13 @@ const JSON_SCHEMA_OUTPUT_FILE = join(GENERATED_DIR, "schema.json");
 const EXTERNAL_TYPE_SCHEMAS = [
   "ContentBlockSchema",
   "CallToolResultSchema",
+  "ElicitRequestParamsSchema",
+  "ElicitResultSchema",
   "EmbeddedResourceSchema",
   "ImplementationSchema",
   "RequestIdSchema",
   "ResourceLinkSchema",
+  "SamplingMessageContentBlockSchema",
   "ToolSchema",
 ];
 
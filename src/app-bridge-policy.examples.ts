@@ -0,0 +1,37 @@
+/**
+ * Type-checked examples for {@link createAppBridgePolicy `createAppBridgePolicy`}.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { AppBridge, createAppBridgePolicy } from "./app-bridge.js";
+
+/**
+ * Example: Protect tool calls and sampling.
+ */
+function createAppBridgePolicy_basicUsage(
+  client: Client,
+  tools: Map<string, Tool>,
+) {
+  //#region createAppBridgePolicy_basicUsage
+  const bridge = new AppBridge(
+    client,
+    { name: "MyHost", version: "1.0.0" },
+    { serverTools: {}, sampling: {} },
+    {
+      policy: createAppBridgePolicy({
+        getTool: (name) => tools.get(name),
+        approveDestructiveTool: (tool) =>
+          confirm(`Allow this app to run "${tool.title ?? tool.name}"?`),
+        rateLimit: { maxRequests: 20, windowMs: 10_000 },
+        sampling: { maxRequests: 10, maxTokens: 20_000 },
+      }),
+    },
+  );
+  //#endregion createAppBridgePolicy_basicUsage
+}
@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpError, type Tool } from "@modelcontextprotocol/sdk/types.js";
+
+import { App } from "./app";
+import {
+  AppBridge,
+  createAppBridgePolicy,
+  POLICY_DENIED_ERROR_CODE,
+  type AppBridgePolicy,
+  type SamplingUsage,
+} from "./app-bridge";
+
+const tools = new Map<string, Tool>(
+  [
+    {
+      name: "summarize",
+      inputSchema: { type: "object" as const },
+      _meta: { ui: { visibility: ["model"] } },
+    },
+    {
+      name: "delete_file",
+      inputSchema: { type: "object" as const },
+      annotations: { destructiveHint: true },
+    },
+    { name: "refresh", inputSchema: { type: "object" as const } },
+  ].map((tool) => [tool.name, tool]),
+);
+
+const testHostInfo = { name: "TestHost", version: "1.0.0" };
+const testAppInfo = { name: "TestApp", version: "1.0.0" };
+
+describe("createAppBridgePolicy", () => {
+  let app: App;
+  let bridge: AppBridge;
+  let appTransport: InMemoryTransport;
+  let bridgeTransport: InMemoryTransport;
+  let calls: string[];
+  let samplingUsage: SamplingUsage | undefined;
+  /** Runs before the sampling handler answers. */
+  let beforeSampling: () => Promise<void>;
+
+  beforeEach(() => {
+    [appTransport, bridgeTransport] = InMemoryTransport.createLinkedPair();
+    calls = [];
+    samplingUsage = undefined;
+    beforeSampling = async () => {};
+  });
+
+  afterEach(async () => {
+    await appTransport.close();
+    await bridgeTransport.close();
+  });
+
+  async function connect(policy: AppBridgePolicy) {
+    bridge = new AppBridge(
+      null,
+      testHostInfo,
+      { serverTools: {}, sampling: {} },
+      { policy },
+    );
+    bridge.oncalltool = async ({ name }) => {
+      calls.push(name);
+      return { content: [] };
+    };
+    bridge.oncreatesamplingmessage = async (_params, extra) => {
+      await beforeSampling();
+      if (samplingUsage) extra.reportUsage(samplingUsage);
+      return {
+        role: "assistant",
+        content: { type: "text", text: "ok" },
+        model: "test",
+      };
+    };
+    app = new App(testAppInfo, {}, { autoResize: false });
+    await bridge.connect(bridgeTransport);
+    await app.connect(appTransport);
+  }
+
+  async function expectDenied(promise: Promise<unknown>, reason: string) {
+    const error = await promise.then(
+      () => undefined,
+      (e: unknown) => e,
+    );
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(POLICY_DENIED_ERROR_CODE);
+    expect((error as McpError).data).toMatchObject({ reason });
+  }
+
+  it("rejects calls to model-only tools", async () => {
+    await connect(
+      createAppBridgePolicy({ getTool: (name) => tools.get(name) }),
+    );
+
+    await expectDenied(
+      app.callServerTool({ name: "summarize", arguments: {} }),
+      "tool-not-allowed",
+    );
+    await app.callServerTool({ name: "refresh", arguments: {} });
+
+    expect(calls).toEqual(["refresh"]);
+  });
+
+  it("allows model-only tools with allowModelOnlyTools", async () => {
+    await connect(
+      createAppBridgePolicy({
+        getTool: (name) => tools.get(name),
+        allowModelOnlyTools: true,
+      }),
+    );
+
+    await app.callServerTool({ name: "summarize", arguments: {} });
+
+    expect(calls).toEqual(["summarize"]);
+  });
+
+  it("rejects calls to tools getTool doesn't know", async () => {
+    await connect(
+      createAppBridgePolicy({ getTool: (name) => tools.get(name) }),
+    );
+
+    await expectDenied(
+      app.callServerTool({ name: "drop_table", arguments: {} }),
+      "tool-not-allowed",
+    );
+
+    expect(calls).toEqual([]);
+  });
+
+  it("allows unknown tools with allowUnknownTools", async () => {
+    await connect(
+      createAppBridgePolicy({
+        getTool: (name) => tools.get(name),
+        allowUnknownTools: true,
+      }),
+    );
+
+    await app.callServerTool({ name: "drop_table", arguments: {} });
+
+    expect(calls).toEqual(["drop_table"]);
+  });
+
+  it("asks for approval before calling destructive tools", async () => {
+    const approvals: unknown[] = [];
+    let approve = false;
+    await connect(
+      createAppBridgePolicy({
+        getTool: (name) => tools.get(name),
+        approveDestructiveTool: (tool, params) => {
+          approvals.push([tool.name, params.arguments]);
+          return approve;
+        },
+      }),
+    );
+
+    await expectDenied(
+      app.callServerTool({ name: "delete_file", arguments: { path: "a" } }),
+      "approval-denied",
+    );
+    approve = true;
+    await app.callServerTool({ name: "delete_file", arguments: { path: "b" } });
+    await app.callServerTool({ name: "refresh", arguments: {} });
+
+    expect(approvals).toEqual([
+      ["delete_file", { path: "a" }],
+      ["delete_file", { path: "b" }],
+    ]);
+    expect(calls).toEqual(["delete_file", "refresh"]);
+  });
+
+  it("requires getTool to check tool calls", () => {
+    expect(() => createAppBridgePolicy()).toThrow(/getTool is required/);
+    expect(() =>
+      createAppBridgePolicy({
+        allowModelOnlyTools: true,
+        approveDestructiveTool: () => true,
+      }),
+    ).toThrow(/getTool is required/);
+    expect(() =>
+      createAppBridgePolicy({
+        allowModelOnlyTools: true,
+        sampling: { maxRequests: 1 },
+      }),
+    ).not.toThrow();
+  });
+
+  it("rate-limits requests per View", async () => {
+    await connect(
+      createAppBridgePolicy({
+        getTool: (name) => tools.get(name),
+        rateLimit: {
+          maxRequests: 2,
+          windowMs: 60_000,
+          methods: ["tools/call"],
+        },
+      }),
+    );
+
+    await app.callServerTool({ name: "refresh", arguments: {} });
+    await app.callServerTool({ name: "refresh", arguments: {} });
+    await expectDenied(
+      app.callServerTool({ name: "refresh", arguments: {} }),
+      "rate-limited",
+    );
+
+    expect(calls).toHaveLength(2);
+  });
+
+  it("caps sampling requests and tokens", async () => {
+    await connect(
+      createAppBridgePolicy({
+        getTool: (name) => tools.get(name),
+        sampling: { maxTokens: 150 },
+      }),
+    );
+    const params = {
+      messages: [
+        {
+          role: "user" as const,
+          content: { type: "text" as const, text: "Hi" },
+        },
+      ],
+      maxTokens: 100,
+    };
+
+    let answer!: () => void;
+    const answered = new Promise<void>((resolve) => (answer = resolve));
+    beforeSampling = () => answered;
+
+    const pending = app.createSamplingMessage(params);
+    // The pending request reserves its 100 tokens
+    await expectDenied(app.createSamplingMessage(params), "quota-exceeded");
+    const smaller = app.createSamplingMessage({ ...params, maxTokens: 50 });
+    answer();
+    await Promise.all([pending, smaller]);
+  });
+
+  it("releases the tokens of sampling requests that reported no usage", async () => {
+    await connect(
+      createAppBridgePolicy({
+        getTool: (name) => tools.get(name),
+        sampling: { maxTokens: 150 },
+      }),
+    );
+    const params = {
+      messages: [
+        {
+          role: "user" as const,
+          content: { type: "text" as const, text: "Hi" },
+        },
+      ],
+      maxTokens: 100,
+    };
+    let fail = true;
+    beforeSampling = async () => {
+      if (fail) throw new Error("Provider unavailable");
+    };
+
+    await expect(app.createSamplingMessage(params)).rejects.toThrow(
+      "Provider unavailable",
+    );
+    fail = false;
+    await app.createSamplingMessage(params);
+    await app.createSamplingMessage(params);
+  });
+
+  it("meters sampling with the usage handlers report", async () => {
+    const reported: SamplingUsage[] = [];
+    await connect(
+      createAppBridgePolicy({
+        getTool: (name) => tools.get(name),
+        sampling: {
+          maxTokens: 200,
+          maxCost: 0.03,
+          onUsage: (usage) => reported.push(usage),
+        },
+      }),
+    );
+    samplingUsage = { inputTokens: 5, outputTokens: 20, cost: 0.01 };
+    const params = {
+      messages: [
+        {
+          role: "user" as const,
+          content: { type: "text" as const, text: "Hi" },
+        },
+      ],
+      maxTokens: 100,
+    };
+
+    // Only the 20 generated tokens count against maxTokens, not 100
+    await app.createSamplingMessage(params);
+    await app.createSamplingMessage(params);
+    await app.createSamplingMessage(params);
+    // The reported cost reached maxCost
+    await expectDenied(app.createSamplingMessage(params), "quota-exceeded");
+    expect(reported).toHaveLength(3);
+  });
+
+  it("applies custom policies to every View request", async () => {
+    const methods: string[] = [];
+    await connect({
+      check: (request) => {
+        methods.push(request.method);
+      },
+    });
+
+    await app.callServerTool({ name: "refresh", arguments: {} });
+    await app.requestDisplayMode({ mode: "fullscreen" });
+
+    expect(methods).toEqual(["tools/call", "ui/request-display-mode"]);
+  });
+});
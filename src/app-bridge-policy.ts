@@ -0,0 +1,323 @@
+import {
+  McpError,
+  type CallToolRequest,
+  type CreateMessageRequest,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { isToolVisibilityModelOnly, type AppBridge } from "./app-bridge";
+import {
+  POLICY_DENIED_ERROR_CODE,
+  type AppRequest,
+  type McpUiPolicyErrorData,
+} from "./types";
+
+/**
+ * Error thrown by an {@link AppBridgePolicy `AppBridgePolicy`} to reject a
+ * request from the View.
+ *
+ * The View receives it as a JSON-RPC error with code
+ * {@link POLICY_DENIED_ERROR_CODE `POLICY_DENIED_ERROR_CODE`} and
+ * {@link McpUiPolicyErrorData `McpUiPolicyErrorData`} as `data`.
+ */
+export class AppBridgePolicyError extends McpError {
+  declare readonly data: McpUiPolicyErrorData;
+
+  constructor(message: string, data: McpUiPolicyErrorData) {
+    super(POLICY_DENIED_ERROR_CODE, message, data);
+    this.name = "AppBridgePolicyError";
+  }
+}
+
+/**
+ * Gate for requests the View sends to the host.
+ *
+ * Pass a policy as the `policy` option of {@link AppBridge `AppBridge`}. The
+ * bridge calls {@link check `check`} before handling each request from the
+ * View, including the `tools/call`, `resources/read` and other requests it
+ * forwards to the MCP server, and `sampling/createMessage`. `ui/initialize`
+ * and `ping` are never checked.
+ *
+ * Use {@link createAppBridgePolicy `createAppBridgePolicy`} for the common
+ * rules, or implement `check` yourself.
+ */
+export interface AppBridgePolicy {
+  /**
+   * Decide whether a request from the View may proceed.
+   *
+   * @param request - The request the View sent
+   * @param bridge - The bridge of the View that sent it
+   * @throws {AppBridgePolicyError} To reject the request
+   */
+  check(request: AppRequest, bridge: AppBridge): void | Promise<void>;
+  /**
+   * Account for the usage of a sampling request that passed
+   * {@link check `check`}, as reported by the host's sampling handler.
+   *
+   * @param usage - Tokens and cost the request used
+   * @param params - Params of the View's `sampling/createMessage` request
+   * @param bridge - The bridge of the View that sent it
+   */
+  recordSamplingUsage?(
+    usage: SamplingUsage,
+    params: CreateMessageRequest["params"],
+    bridge: AppBridge,
+  ): void;
+  /**
+   * Release what {@link check `check`} reserved for a sampling request, once
+   * the request settled: answered, failed or cancelled. Called after the
+   * usage the host's sampling handler reported, if any, was recorded.
+   *
+   * @param params - Params of the View's `sampling/createMessage` request
+   * @param bridge - The bridge of the View that sent it
+   */
+  releaseSampling?(
+    params: CreateMessageRequest["params"],
+    bridge: AppBridge,
+  ): void;
+}
+
+/**
+ * Usage of a `sampling/createMessage` request, reported by the host's
+ * sampling handler with `extra.reportUsage` (see
+ * {@link AppBridge.oncreatesamplingmessage `AppBridge.oncreatesamplingmessage`}).
+ */
+export interface SamplingUsage {
+  /** Tokens of the prompt. */
+  inputTokens?: number;
+  /** Tokens generated. */
+  outputTokens?: number;
+  /** Cost of the request, in a unit of the host's choosing. */
+  cost?: number;
+}
+
+/**
+ * Options for {@link createAppBridgePolicy `createAppBridgePolicy`}.
+ */
+export interface AppBridgePolicyOptions {
+  /**
+   * Look up a server tool by name, e.g. from the host's cached `tools/list`
+   * result. Calls to tools this doesn't return are rejected, unless
+   * `allowUnknownTools` is set.
+   *
+   * Required unless `allowModelOnlyTools` is `true` and
+   * `approveDestructiveTool` is not set: without it, the policy can't tell
+   * which tools those rules apply to.
+   */
+  getTool?: (name: string) => Tool | undefined | Promise<Tool | undefined>;
+  /**
+   * Let Views call tools whose `_meta.ui.visibility` is `["model"]`.
+   *
+   * @default false
+   */
+  allowModelOnlyTools?: boolean;
+  /**
+   * Let Views call tools `getTool` doesn't know (e.g. listed by the server
+   * after the host cached its tools), skipping the tool rules for them.
+   *
+   * @default false
+   */
+  allowUnknownTools?: boolean;
+  /**
+   * Ask the user whether a View may call a tool annotated with
+   * `destructiveHint: true`. Resolve to `false` to reject the call. Without
+   * this callback, such calls are allowed.
+   */
+  approveDestructiveTool?: (
+    tool: Tool,
+    params: CallToolRequest["params"],
+    bridge: AppBridge,
+  ) => boolean | Promise<boolean>;
+  /**
+   * Maximum number of requests each View may send per time window.
+   */
+  rateLimit?: {
+    /** Requests allowed per window. */
+    maxRequests: number;
+    /** Length of the sliding window in milliseconds. */
+    windowMs: number;
+    /** Methods the limit applies to. Defaults to all requests. */
+    methods?: string[];
+  };
+  /**
+   * Allowance of `sampling/createMessage` requests for each View.
+   */
+  sampling?: {
+    /** Maximum number of sampling requests. */
+    maxRequests?: number;
+    /**
+     * Maximum number of tokens generated. Each request reserves its
+     * `maxTokens` until its usage reports the `outputTokens` it generated,
+     * or until it settles without reporting them.
+     */
+    maxTokens?: number;
+    /** Maximum sum of the reported `cost` of requests. */
+    maxCost?: number;
+    /** Called with the reported usage of each request, e.g. to bill it. */
+    onUsage?: (usage: SamplingUsage, bridge: AppBridge) => void;
+  };
+}
+
+interface ViewUsage {
+  requestTimes: number[];
+  samplingRequests: number;
+  samplingTokens: number;
+  samplingCost: number;
+}
+
+/**
+ * Create an {@link AppBridgePolicy `AppBridgePolicy`} enforcing common rules
+ * for View-initiated requests.
+ *
+ * By default it rejects calls to tools only visible to the model (the
+ * spec's "View attempts unauthorized tool execution" threat), as looked up
+ * with `getTool`, and to tools `getTool` doesn't know. It can additionally require user approval for destructive
+ * tools, rate-limit each View and cap its sampling usage. Usage is tracked per
+ * bridge, so one policy can be shared by all Views of a conversation.
+ *
+ * @example Protect tool calls and sampling
+ * ```ts source="./app-bridge-policy.examples.ts#createAppBridgePolicy_basicUsage"
+ * const bridge = new AppBridge(
+ *   client,
+ *   { name: "MyHost", version: "1.0.0" },
+ *   { serverTools: {}, sampling: {} },
+ *   {
+ *     policy: createAppBridgePolicy({
+ *       getTool: (name) => tools.get(name),
+ *       approveDestructiveTool: (tool) =>
+ *         confirm(`Allow this app to run "${tool.title ?? tool.name}"?`),
+ *       rateLimit: { maxRequests: 20, windowMs: 10_000 },
+ *       sampling: { maxRequests: 10, maxTokens: 20_000 },
+ *     }),
+ *   },
+ * );
+ * ```
+ *
+ * @throws {Error} If `getTool` is missing while a tool rule is enabled
+ */
+export function createAppBridgePolicy(
+  options: AppBridgePolicyOptions = {},
+): AppBridgePolicy {
+  if (
+    !options.getTool &&
+    (!options.allowModelOnlyTools || options.approveDestructiveTool)
+  ) {
+    throw new Error(
+      "createAppBridgePolicy: getTool is required to check tool calls (or set allowModelOnlyTools without approveDestructiveTool)",
+    );
+  }
+  const usage = new WeakMap<AppBridge, ViewUsage>();
+  // Sampling requests whose `maxTokens` are still reserved
+  const reservations = new WeakSet<CreateMessageRequest["params"]>();
+
+  const checkRateLimit = (method: string, view: ViewUsage) => {
+    const { rateLimit } = options;
+    if (!rateLimit || rateLimit.methods?.includes(method) === false) return;
+    const now = Date.now();
+    view.requestTimes = view.requestTimes.filter(
+      (time) => time > now - rateLimit.windowMs,
+    );
+    if (view.requestTimes.length >= rateLimit.maxRequests) {
+      throw new AppBridgePolicyError(`Too many requests (${method})`, {
+        reason: "rate-limited",
+        retryAfterMs: view.requestTimes[0] + rateLimit.windowMs - now,
+      });
+    }
+    view.requestTimes.push(now);
+  };
+
+  const checkToolCall = async (
+    params: CallToolRequest["params"],
+    bridge: AppBridge,
+  ) => {
+    if (!options.getTool) return;
+    const tool = await options.getTool(params.name);
+    if (!tool) {
+      if (options.allowUnknownTools) return;
+      throw new AppBridgePolicyError(`Unknown tool "${params.name}"`, {
+        reason: "tool-not-allowed",
+      });
+    }
+    if (!options.allowModelOnlyTools && isToolVisibilityModelOnly(tool)) {
+      throw new AppBridgePolicyError(
+        `Tool "${params.name}" is not available to apps`,
+        { reason: "tool-not-allowed" },
+      );
+    }
+    if (
+      tool.annotations?.destructiveHint === true &&
+      options.approveDestructiveTool &&
+      !(await options.approveDestructiveTool(tool, params, bridge))
+    ) {
+      throw new AppBridgePolicyError(
+        `Call to tool "${params.name}" was not approved`,
+        { reason: "approval-denied" },
+      );
+    }
+  };
+
+  const checkSampling = (
+    params: CreateMessageRequest["params"],
+    view: ViewUsage,
+  ) => {
+    const {
+      maxRequests = Infinity,
+      maxTokens = Infinity,
+      maxCost = Infinity,
+    } = options.sampling ?? {};
+    if (
+      view.samplingRequests >= maxRequests ||
+      view.samplingTokens + params.maxTokens > maxTokens ||
+      view.samplingCost >= maxCost
+    ) {
+      throw new AppBridgePolicyError("Sampling allowance exceeded", {
+        reason: "quota-exceeded",
+      });
+    }
+    view.samplingRequests++;
+    view.samplingTokens += params.maxTokens;
+    reservations.add(params);
+  };
+
+  const getViewUsage = (bridge: AppBridge) => {
+    let view = usage.get(bridge);
+    if (!view) {
+      view = {
+        requestTimes: [],
+        samplingRequests: 0,
+        samplingTokens: 0,
+        samplingCost: 0,
+      };
+      usage.set(bridge, view);
+    }
+    return view;
+  };
+
+  return {
+    async check(request, bridge) {
+      const view = getViewUsage(bridge);
+      checkRateLimit(request.method, view);
+      if (request.method === "tools/call") {
+        await checkToolCall(request.params, bridge);
+      } else if (request.method === "sampling/createMessage") {
+        checkSampling(request.params, view);
+      }
+    },
+    recordSamplingUsage(samplingUsage, params, bridge) {
+      const view = getViewUsage(bridge);
+      const { outputTokens, cost } = samplingUsage;
+      if (outputTokens !== undefined) {
+        // Replace the tokens reserved by checkSampling with the actual count
+        view.samplingTokens +=
+          outputTokens - (reservations.delete(params) ? params.maxTokens : 0);
+      }
+      view.samplingCost += cost ?? 0;
+      options.sampling?.onUsage?.(samplingUsage, bridge);
+    },
+    releaseSampling(params, bridge) {
+      if (reservations.delete(params)) {
+        getViewUsage(bridge).samplingTokens -= params.maxTokens;
+      }
+    },
+  };
+}
@@ -16,9 +16,18 @@ import {
   CreateMessageResult,
   ListResourcesResultSchema,
   ReadResourceResultSchema,
+  ElicitRequest,
+  GetPromptResultSchema,
   ListPromptsResultSchema,
+  Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import { AppBridge, PostMessageTransport } from "./app-bridge.js";
+import {
+  AppBridge,
+  AppHost,
+  AppHostOptions,
+  getToolUiResources,
+  PostMessageTransport,
+} from "./app-bridge.js";
 import type { McpUiDisplayMode } from "./types.js";
 
 /**
@@ -196,6 +205,61 @@ function AppBridge_onopenlink_handleRequest(bridge: AppBridge) {
   //#endregion AppBridge_onopenlink_handleRequest
 }
 
+/**
+ * Example: Show a host-rendered confirmation dialog for the View.
+ */
+function AppBridge_onrequestconfirmation_dialog(
+  bridge: AppBridge,
+  appName: string,
+  showHostDialog: (options: {
+    heading: string;
+    text?: string;
+    buttons: { id: string; label: string; style?: string }[];
+  }) => Promise<string | undefined>,
+) {
+  //#region AppBridge_onrequestconfirmation_dialog
+  bridge.onrequestconfirmation = async ({ title, body, actions }) => {
+    const action = await showHostDialog({
+      heading: `${appName} asks: ${title}`,
+      text: body,
+      buttons: actions ?? [
+        { id: "cancel", label: "Cancel" },
+        { id: "confirm", label: "OK", style: "primary" },
+      ],
+    });
+    return { action };
+  };
+  //#endregion AppBridge_onrequestconfirmation_dialog
+}
+
+/**
+ * Example: Open another template of the server in a modal View.
+ */
+function AppBridge_onrequestmodal_openView(
+  bridge: AppBridge,
+  client: Client,
+  openModalView: (
+    client: Client,
+    options: {
+      resourceUri: string;
+      title?: string;
+      toolInput: Record<string, unknown>;
+    },
+  ) => Promise<void>,
+) {
+  //#region AppBridge_onrequestmodal_openView
+  bridge.onrequestmodal = async ({ resourceUri, title, arguments: args }) => {
+    if (!resourceUri.startsWith("ui://")) {
+      return { isError: true };
+    }
+    // Renders the template in a modal, with a new AppBridge connected to
+    // the same server, and sends it `args` as tool input
+    await openModalView(client, { resourceUri, title, toolInput: args ?? {} });
+    return {};
+  };
+  //#endregion AppBridge_onrequestmodal_openView
+}
+
 /**
  * Example: Store model context updates from the View.
  */
@@ -250,6 +314,42 @@ function AppBridge_oncreatesamplingmessage_forwardToLlm(
   //#endregion AppBridge_oncreatesamplingmessage_forwardToLlm
 }
 
+/**
+ * Example: Stream sampling responses and report their usage.
+ */
+function AppBridge_oncreatesamplingmessage_stream(
+  bridge: AppBridge,
+  myLlmProvider: {
+    stream: (
+      params: CreateMessageRequest["params"],
+      opts: { signal: AbortSignal },
+    ) => AsyncIterable<{
+      text: string;
+      usage: { inputTokens: number; outputTokens: number };
+    }>;
+  },
+) {
+  //#region AppBridge_oncreatesamplingmessage_stream
+  bridge.oncreatesamplingmessage = async function* (params, extra) {
+    let text = "";
+    let usage = { inputTokens: 0, outputTokens: 0 };
+    const chunks = myLlmProvider.stream(params, { signal: extra.signal });
+    for await (const chunk of chunks) {
+      text += chunk.text;
+      usage = chunk.usage;
+      yield { type: "text", text: chunk.text };
+    }
+    extra.reportUsage(usage);
+    return {
+      role: "assistant",
+      content: { type: "text", text },
+      model: "my-model",
+      stopReason: "endTurn",
+    };
+  };
+  //#endregion AppBridge_oncreatesamplingmessage_stream
+}
+
 /**
  * Example: Forward list resources requests to the MCP server.
  */
@@ -304,6 +404,41 @@ function AppBridge_onlistprompts_returnPrompts(
   //#endregion AppBridge_onlistprompts_returnPrompts
 }
 
+/**
+ * Example: Forward get prompt requests to the MCP server.
+ */
+function AppBridge_ongetprompt_forwardToServer(
+  bridge: AppBridge,
+  mcpClient: Client,
+) {
+  //#region AppBridge_ongetprompt_forwardToServer
+  bridge.ongetprompt = async (params, extra) => {
+    return mcpClient.request(
+      { method: "prompts/get", params },
+      GetPromptResultSchema,
+      { signal: extra.signal },
+    );
+  };
+  //#endregion AppBridge_ongetprompt_forwardToServer
+}
+
+// Stub for the host's elicitation form
+declare function showElicitationForm(
+  params: ElicitRequest["params"],
+): Promise<Record<string, string | number | boolean> | undefined>;
+
+/**
+ * Example: Render server elicitations in a host form.
+ */
+function AppBridge_onelicitation_renderForm(bridge: AppBridge) {
+  //#region AppBridge_onelicitation_renderForm
+  bridge.onelicitation = async (params) => {
+    const content = await showElicitationForm(params);
+    return content ? { action: "accept", content } : { action: "cancel" };
+  };
+  //#endregion AppBridge_onelicitation_renderForm
+}
+
 /**
  * Example: Handle ping requests from the View.
  */
@@ -384,6 +519,31 @@ async function AppBridge_teardownResource_gracefulShutdown(
   //#endregion AppBridge_teardownResource_gracefulShutdown
 }
 
+/**
+ * Example: Run a View tool as a task and show its progress.
+ */
+async function AppBridge_callToolAsTask_pollResult(
+  bridge: AppBridge,
+  status: HTMLElement,
+) {
+  //#region AppBridge_callToolAsTask_pollResult
+  const { task } = await bridge.callToolAsTask({
+    name: "export_spreadsheet",
+    arguments: { format: "csv" },
+  });
+  const timer = setInterval(async () => {
+    const { status: taskStatus } = await bridge.getViewTask(task.taskId);
+    status.textContent = taskStatus;
+  }, 1000);
+  try {
+    const result = await bridge.getViewTaskResult(task.taskId);
+    console.log("Export finished:", result.content);
+  } finally {
+    clearInterval(timer);
+  }
+  //#endregion AppBridge_callToolAsTask_pollResult
+}
+
 /**
  * Example: Update theme when user toggles dark mode.
  */
@@ -405,6 +565,15 @@ function AppBridge_setHostContext_updateMultiple(bridge: AppBridge) {
   //#endregion AppBridge_setHostContext_updateMultiple
 }
 
+/**
+ * Example: Change one field of the host context.
+ */
+function AppBridge_getHostContext_changeLocale(bridge: AppBridge) {
+  //#region AppBridge_getHostContext_changeLocale
+  bridge.setHostContext({ ...bridge.getHostContext(), locale: "fr-FR" });
+  //#endregion AppBridge_getHostContext_changeLocale
+}
+
 /**
  * Example: Send tool input after initialization.
  */
@@ -521,3 +690,43 @@ async function AppBridge_connect_withoutMcpClient(
   await bridge.connect(transport);
   //#endregion AppBridge_connect_withoutMcpClient
 }
+
+/**
+ * Example: Persist View state in the host's conversation store.
+ */
+function AppBridge_onsavestate_persist(
+  bridge: AppBridge,
+  conversationStore: {
+    saveViewState(toolCallId: string, state: unknown): Promise<void>;
+  },
+  toolCallId: string,
+) {
+  //#region AppBridge_onsavestate_persist
+  bridge.onsavestate = async ({ state }) => {
+    await conversationStore.saveViewState(toolCallId, state);
+    return {};
+  };
+  //#endregion AppBridge_onsavestate_persist
+}
+
+/**
+ * Example: Render one View per UI resource of a tool call.
+ */
+async function getToolUiResources_renderAll(
+  client: Client,
+  hostOptions: AppHostOptions,
+  container: HTMLElement,
+  tool: Tool,
+  args: Record<string, unknown>,
+) {
+  //#region getToolUiResources_renderAll
+  const result = (await client.callTool({
+    name: tool.name,
+    arguments: args,
+  })) as CallToolResult;
+  for (const resource of getToolUiResources(tool, result)) {
+    const host = new AppHost(client, hostOptions);
+    await host.mount(container, { tool, arguments: args, result, resource });
+  }
+  //#endregion getToolUiResources_renderAll
+}
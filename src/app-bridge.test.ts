@@ -1,7 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
-import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import type { ServerCapabilities } from "@modelcontextprotocol/sdk/types.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { InMemoryTaskStore } from "@modelcontextprotocol/sdk/experimental/tasks/stores/in-memory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  CallToolResult,
+  ServerCapabilities,
+} from "@modelcontextprotocol/sdk/types.js";
 import {
   EmptyResultSchema,
   ListPromptsResultSchema,
@@ -10,16 +16,24 @@ import {
   PromptListChangedNotificationSchema,
   ReadResourceResultSchema,
   ResourceListChangedNotificationSchema,
+  SubscribeRequestSchema,
   ToolListChangedNotificationSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod/v4";
 
 import { App } from "./app";
-import { LATEST_PROTOCOL_VERSION } from "./types";
+import {
+  LATEST_PROTOCOL_VERSION,
+  McpUiReadResourceBytesResultSchema,
+} from "./types";
 import {
   AppBridge,
   buildAllowAttribute,
+  createMemoryViewStateStore,
   getToolUiResourceUri,
+  getToolUiResources,
+  RESOURCE_MIME_TYPE,
   isToolVisibilityModelOnly,
   isToolVisibilityAppOnly,
   type McpUiHostCapabilities,
@@ -262,6 +276,18 @@ describe("App <-> AppBridge integration", () => {
       ]);
     });
 
+    it("bridge.getHostContext returns the context last set", async () => {
+      await app.connect(appTransport);
+
+      bridge.setHostContext({ theme: "dark", locale: "en-US" });
+      bridge.setHostContext({ ...bridge.getHostContext(), locale: "fr-FR" });
+
+      expect(bridge.getHostContext()).toEqual({
+        theme: "dark",
+        locale: "fr-FR",
+      });
+    });
+
     it("getHostContext merges updates from onhostcontextchanged", async () => {
       // Need fresh transports for new bridge
       const [newAppTransport, newBridgeTransport] =
@@ -624,6 +650,724 @@ describe("App <-> AppBridge integration", () => {
     });
   });
 
+  describe("ui/save-state", () => {
+    const toolInfo = {
+      id: "call-1",
+      tool: { name: "budget", inputSchema: { type: "object" as const } },
+    };
+    const persistCapabilities: McpUiHostCapabilities = {
+      ...testHostCapabilities,
+      persistState: { maxBytes: 64 },
+    };
+
+    it("restores state saved under the tool call's key", async () => {
+      const stateStore = createMemoryViewStateStore();
+      await stateStore.set("budget#call-1", { budget: 42 });
+      bridge = new AppBridge(
+        createMockClient() as Client,
+        testHostInfo,
+        persistCapabilities,
+        { hostContext: { toolInfo }, stateStore },
+      );
+
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      expect(app.getRestoredState()).toEqual({ budget: 42 });
+    });
+
+    it("app.saveState stores and clears state in the stateStore", async () => {
+      const stateStore = createMemoryViewStateStore();
+      bridge = new AppBridge(
+        createMockClient() as Client,
+        testHostInfo,
+        persistCapabilities,
+        { hostContext: { toolInfo }, stateStore },
+      );
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      await app.saveState({ budget: 7 });
+      expect(await stateStore.get("budget#call-1")).toEqual({ budget: 7 });
+
+      await app.saveState(null);
+      expect(await stateStore.get("budget#call-1")).toBeUndefined();
+    });
+
+    it("rejects state exceeding persistState.maxBytes", async () => {
+      const stateStore = createMemoryViewStateStore();
+      bridge = new AppBridge(
+        createMockClient() as Client,
+        testHostInfo,
+        persistCapabilities,
+        { hostContext: { toolInfo }, stateStore },
+      );
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      await expect(app.saveState({ notes: "x".repeat(100) })).rejects.toThrow(
+        "exceeding the limit of 64",
+      );
+      expect(await stateStore.get("budget#call-1")).toBeUndefined();
+    });
+
+    it("app.saveState triggers bridge.onsavestate when set", async () => {
+      bridge = new AppBridge(
+        createMockClient() as Client,
+        testHostInfo,
+        persistCapabilities,
+      );
+      const saved: unknown[] = [];
+      bridge.onsavestate = async ({ state }) => {
+        saved.push(state);
+        return {};
+      };
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      await app.saveState({ budget: 1 });
+
+      expect(saved).toEqual([{ budget: 1 }]);
+    });
+
+    it("fails when the bridge has no key to store state under", async () => {
+      bridge = new AppBridge(
+        createMockClient() as Client,
+        testHostInfo,
+        persistCapabilities,
+        { stateStore: createMemoryViewStateStore() },
+      );
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      await expect(app.saveState({ budget: 1 })).rejects.toThrow(
+        "no stateKey and no hostContext.toolInfo",
+      );
+    });
+  });
+
+  describe("ui/read-resource-bytes", () => {
+    const bytes = Uint8Array.from({ length: 10 }, (_, i) => i);
+    const byteRangeCapabilities: McpUiHostCapabilities = {
+      ...testHostCapabilities,
+      serverResources: { byteRanges: { maxChunkBytes: 4 } },
+    };
+    let reads: string[];
+
+    async function connect(capabilities: McpUiHostCapabilities) {
+      reads = [];
+      bridge = new AppBridge(null, testHostInfo, capabilities);
+      bridge.onreadresource = async ({ uri }) => {
+        reads.push(uri);
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: "application/octet-stream",
+              blob: btoa(String.fromCharCode(...bytes)),
+            },
+          ],
+        };
+      };
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+    }
+
+    it("streams chunks capped by maxChunkBytes and reports progress", async () => {
+      await connect(byteRangeCapabilities);
+      const progress: unknown[] = [];
+
+      const stream = await app.readServerResource(
+        { uri: "test://bytes" },
+        { responseType: "stream", onprogress: (p) => progress.push(p) },
+      );
+      const chunks: number[][] = [];
+      const reader = stream.getReader();
+      for (let r = await reader.read(); !r.done; r = await reader.read()) {
+        chunks.push([...r.value]);
+      }
+
+      expect(chunks).toEqual([
+        [0, 1, 2, 3],
+        [4, 5, 6, 7],
+        [8, 9],
+      ]);
+      expect(progress).toEqual([
+        { progress: 4, total: 10 },
+        { progress: 8, total: 10 },
+        { progress: 10, total: 10 },
+      ]);
+      expect(reads).toEqual(["test://bytes"]);
+    });
+
+    it("reads a byte range as an ArrayBuffer", async () => {
+      await connect(byteRangeCapabilities);
+
+      const buffer = await app.readServerResource(
+        { uri: "test://bytes" },
+        { responseType: "arrayBuffer", range: { offset: 3, length: 5 } },
+      );
+
+      expect([...new Uint8Array(buffer)]).toEqual([3, 4, 5, 6, 7]);
+    });
+
+    it("rejects ranges that aren't within the resource", async () => {
+      await connect(byteRangeCapabilities);
+      const readBytes = (params: object) =>
+        app.request(
+          {
+            method: "ui/read-resource-bytes",
+            params: { uri: "test://bytes", ...params },
+          },
+          McpUiReadResourceBytesResultSchema,
+        );
+
+      await expect(readBytes({ offset: -2 })).rejects.toThrow();
+      await expect(readBytes({ offset: 1, length: 2.5 })).rejects.toThrow();
+      await expect(readBytes({ offset: 11 })).rejects.toThrow(
+        "Offset 11 is past the end of test://bytes (10 bytes)",
+      );
+      expect(await readBytes({ offset: 10 })).toMatchObject({
+        blob: "",
+        offset: 10,
+        totalBytes: 10,
+      });
+    });
+
+    it("re-reads the resource for reads starting at offset 0", async () => {
+      await connect(byteRangeCapabilities);
+
+      await app.readServerResource(
+        { uri: "test://bytes" },
+        { responseType: "arrayBuffer" },
+      );
+      await app.readServerResource(
+        { uri: "test://bytes" },
+        { responseType: "arrayBuffer" },
+      );
+
+      expect(reads).toEqual(["test://bytes", "test://bytes"]);
+    });
+
+    it("falls back to resources/read without the byteRanges capability", async () => {
+      await connect({ ...testHostCapabilities, serverResources: {} });
+      const progress: unknown[] = [];
+
+      const buffer = await app.readServerResource(
+        { uri: "test://bytes" },
+        {
+          responseType: "arrayBuffer",
+          range: { offset: 8 },
+          onprogress: (p) => progress.push(p),
+        },
+      );
+
+      expect([...new Uint8Array(buffer)]).toEqual([8, 9]);
+      expect(progress).toEqual([{ progress: 2, total: 2 }]);
+    });
+  });
+
+  describe("forwarding to an MCP server", () => {
+    let client: Client;
+    let server: McpServer;
+    let serverSubscriptions: string[];
+
+    let finishReport: () => void;
+
+    beforeEach(async () => {
+      server = new McpServer(
+        { name: "TestServer", version: "1.0.0" },
+        {
+          taskStore: new InMemoryTaskStore(),
+          capabilities: {
+            tasks: { list: {}, cancel: {}, requests: { tools: { call: {} } } },
+          },
+        },
+      );
+      serverSubscriptions = [];
+      const reportFinished = new Promise<void>(
+        (resolve) => (finishReport = resolve),
+      );
+      server.experimental.tasks.registerToolTask(
+        "generate_report",
+        { execution: { taskSupport: "required" } },
+        {
+          createTask: async (extra) => {
+            const task = await extra.taskStore.createTask({ pollInterval: 5 });
+            void reportFinished.then(() =>
+              extra.taskStore.storeTaskResult(task.taskId, "completed", {
+                content: [{ type: "text", text: "Report ready" }],
+              }),
+            );
+            return { task };
+          },
+          getTask: (extra) => extra.taskStore.getTask(extra.taskId),
+          getTaskResult: async (extra) =>
+            (await extra.taskStore.getTaskResult(
+              extra.taskId,
+            )) as CallToolResult,
+        },
+      );
+      server.registerResource("cpu", "metrics://cpu", {}, (uri) => ({
+        contents: [{ uri: uri.href, text: "42" }],
+      }));
+      server.server.registerCapabilities({ resources: { subscribe: true } });
+      server.server.setRequestHandler(SubscribeRequestSchema, ({ params }) => {
+        serverSubscriptions.push(`+${params.uri}`);
+        return {};
+      });
+      server.server.setRequestHandler(
+        UnsubscribeRequestSchema,
+        ({ params }) => {
+          serverSubscriptions.push(`-${params.uri}`);
+          return {};
+        },
+      );
+      server.registerTool("ask_name", {}, async () => {
+        const answer = await server.server.elicitInput({
+          message: "What is your name?",
+          requestedSchema: {
+            type: "object",
+            properties: { name: { type: "string" } },
+          },
+        });
+        return {
+          content: [{ type: "text", text: `Hello ${answer.content?.name}` }],
+        };
+      });
+      server.registerPrompt(
+        "greet",
+        {
+          argsSchema: { name: completable(z.string(), () => ["Ada", "Alan"]) },
+        },
+        ({ name }) => ({
+          messages: [
+            { role: "user", content: { type: "text", text: `Greet ${name}` } },
+          ],
+        }),
+      );
+      client = new Client(
+        { name: "TestClient", version: "1.0.0" },
+        { capabilities: { elicitation: {} } },
+      );
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    it("routes server elicitations to the host and notifies the View", async () => {
+      bridge = new AppBridge(client, testHostInfo, {
+        serverTools: {},
+        elicitation: {},
+      });
+      const rendered: unknown[] = [];
+      bridge.onelicitation = async (params) => {
+        rendered.push(params.message);
+        return { action: "accept", content: { name: "Ada" } };
+      };
+      const notified: unknown[] = [];
+      app.addEventListener("elicitation", (params) => notified.push(params));
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      const result = await app.callServerTool({ name: "ask_name" });
+
+      expect(result.content).toEqual([{ type: "text", text: "Hello Ada" }]);
+      expect(rendered).toEqual(["What is your name?"]);
+      expect(notified).toMatchObject([
+        {
+          request: { message: "What is your name?" },
+          result: { action: "accept", content: { name: "Ada" } },
+        },
+      ]);
+    });
+
+    it("leaves elicitations no View is waiting on to the host's handler", async () => {
+      const answeredByHost: unknown[] = [];
+      bridge = new AppBridge(
+        client,
+        testHostInfo,
+        { serverTools: {}, elicitation: {} },
+        {
+          elicitationHandler: async (params) => {
+            answeredByHost.push(params.message);
+            return { action: "accept", content: { name: "Host" } };
+          },
+        },
+      );
+      const rendered: unknown[] = [];
+      bridge.onelicitation = async (params) => {
+        rendered.push(params.message);
+        return { action: "accept", content: { name: "Ada" } };
+      };
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      // The host calls the tool itself, not on behalf of the View
+      const hostCall = await client.callTool({ name: "ask_name" });
+      const viewCall = await app.callServerTool({ name: "ask_name" });
+
+      expect(hostCall.content).toEqual([{ type: "text", text: "Hello Host" }]);
+      expect(viewCall.content).toEqual([{ type: "text", text: "Hello Ada" }]);
+      expect(answeredByHost).toEqual(["What is your name?"]);
+      expect(rendered).toEqual(["What is your name?"]);
+    });
+
+    it("leaves elicitations several Views may be waiting on to the host's handler", async () => {
+      const capabilities = { serverTools: {}, elicitation: {} };
+      const answeredByHost: unknown[] = [];
+      const elicitationHandler = async () => {
+        answeredByHost.push("host");
+        return { action: "accept" as const, content: { name: "Host" } };
+      };
+      bridge = new AppBridge(client, testHostInfo, capabilities, {
+        elicitationHandler,
+      });
+      const [otherAppTransport, otherBridgeTransport] =
+        InMemoryTransport.createLinkedPair();
+      const otherBridge = new AppBridge(client, testHostInfo, capabilities, {
+        elicitationHandler,
+      });
+      const otherApp = new App(testAppInfo, {}, { autoResize: false });
+      const rendered: string[] = [];
+      bridge.onelicitation = async () => {
+        rendered.push("app");
+        return { action: "accept", content: { name: "Ada" } };
+      };
+      otherBridge.onelicitation = async () => {
+        rendered.push("otherApp");
+        return { action: "accept", content: { name: "Alan" } };
+      };
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+      await otherBridge.connect(otherBridgeTransport);
+      await otherApp.connect(otherAppTransport);
+
+      const results = await Promise.all([
+        app.callServerTool({ name: "ask_name" }),
+        otherApp.callServerTool({ name: "ask_name" }),
+      ]);
+
+      expect(results.map((result) => result.content)).toEqual([
+        [{ type: "text", text: "Hello Host" }],
+        [{ type: "text", text: "Hello Host" }],
+      ]);
+      expect(answeredByHost).toEqual(["host", "host"]);
+      expect(rendered).toEqual([]);
+      await otherAppTransport.close();
+    });
+
+    it("rejects elicitations no View is waiting on without a host handler", async () => {
+      bridge = new AppBridge(client, testHostInfo, {
+        serverTools: {},
+        elicitation: {},
+      });
+      const rendered: unknown[] = [];
+      bridge.onelicitation = async (params) => {
+        rendered.push(params.message);
+        return { action: "accept", content: { name: "Ada" } };
+      };
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      const result = await client.callTool({ name: "ask_name" });
+
+      expect(result.isError).toBe(true);
+      expect(rendered).toEqual([]);
+    });
+
+    it("doesn't route elicitations through a client without the capability", async () => {
+      const plainClient = new Client({ name: "TestClient", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.close();
+      await server.connect(serverTransport);
+      await plainClient.connect(clientTransport);
+      bridge = new AppBridge(plainClient, testHostInfo, {
+        serverTools: {},
+        elicitation: {},
+      });
+
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      expect(app.getHostCapabilities()?.elicitation).toEqual({});
+      await plainClient.close();
+    });
+
+    it("runs server tools as tasks that a re-mounted View can follow", async () => {
+      const capabilities = {
+        serverTools: {},
+        serverTasks: { list: {}, cancel: {} },
+      };
+      bridge = new AppBridge(client, testHostInfo, capabilities);
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      const { task } = await app.callServerToolAsTask({
+        name: "generate_report",
+      });
+      expect(task.status).toBe("working");
+      await appTransport.close();
+
+      // The View is mounted again, with a new bridge
+      const [newAppTransport, newBridgeTransport] =
+        InMemoryTransport.createLinkedPair();
+      const newBridge = new AppBridge(client, testHostInfo, capabilities);
+      const newApp = new App(testAppInfo, {}, { autoResize: false });
+      await newBridge.connect(newBridgeTransport);
+      await newApp.connect(newAppTransport);
+      const { tasks } = await newApp.listServerTasks();
+      expect(tasks.map((t) => t.taskId)).toEqual([task.taskId]);
+      const statuses: string[] = [];
+
+      const result = await newApp.waitForServerTask(task.taskId, {
+        onstatus: ({ status }) => {
+          statuses.push(status);
+          finishReport();
+        },
+      });
+
+      expect(result.content).toEqual([{ type: "text", text: "Report ready" }]);
+      expect(statuses[0]).toBe("working");
+      expect(statuses.at(-1)).toBe("completed");
+      await newAppTransport.close();
+    });
+
+    it("relays the server's tool progress to the View", async () => {
+      server.registerTool("load_dataset", {}, async (extra) => {
+        for (const progress of [1, 2]) {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken: extra._meta!.progressToken!,
+              progress,
+              total: 2,
+            },
+          });
+        }
+        return { content: [{ type: "text", text: "Loaded" }] };
+      });
+      bridge = new AppBridge(client, testHostInfo, { serverTools: {} });
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+      const progress: unknown[] = [];
+
+      const result = await app.callServerTool(
+        { name: "load_dataset" },
+        { onprogress: (p) => progress.push(p) },
+      );
+
+      expect(result.content).toEqual([{ type: "text", text: "Loaded" }]);
+      expect(progress).toEqual([
+        { progress: 1, total: 2 },
+        { progress: 2, total: 2 },
+      ]);
+    });
+
+    it("cancels the server's tool call when the View aborts it", async () => {
+      let started!: () => void;
+      const toolStarted = new Promise<void>((resolve) => (started = resolve));
+      let signal!: AbortSignal;
+      server.registerTool("wait", {}, (extra) => {
+        signal = extra.signal;
+        started();
+        return new Promise(() => {});
+      });
+      bridge = new AppBridge(client, testHostInfo, { serverTools: {} });
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+      const controller = new AbortController();
+
+      const call = app.callServerTool(
+        { name: "wait" },
+        { signal: controller.signal },
+      );
+      await toolStarted;
+      controller.abort("Closed by user");
+
+      await expect(call).rejects.toThrow();
+      await flush();
+      expect(signal.aborted).toBe(true);
+    });
+
+    it("cancels server tasks started by the View", async () => {
+      bridge = new AppBridge(client, testHostInfo, {
+        serverTools: {},
+        serverTasks: { cancel: {} },
+      });
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+      const { task } = await app.callServerToolAsTask({
+        name: "generate_report",
+      });
+
+      const cancelled = await app.cancelServerTask(task.taskId);
+
+      expect(cancelled.status).toBe("cancelled");
+      await expect(app.waitForServerTask(task.taskId)).rejects.toThrow(
+        "was cancelled",
+      );
+    });
+
+    it("stops waiting for a server task as soon as it is aborted", async () => {
+      server.experimental.tasks.registerToolTask(
+        "slow_report",
+        { execution: { taskSupport: "required" } },
+        {
+          createTask: async (extra) => ({
+            task: await extra.taskStore.createTask({ pollInterval: 60_000 }),
+          }),
+          getTask: (extra) => extra.taskStore.getTask(extra.taskId),
+          getTaskResult: async (extra) =>
+            (await extra.taskStore.getTaskResult(
+              extra.taskId,
+            )) as CallToolResult,
+        },
+      );
+      bridge = new AppBridge(client, testHostInfo, {
+        serverTools: {},
+        serverTasks: {},
+      });
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+      const { task } = await app.callServerToolAsTask({ name: "slow_report" });
+      const controller = new AbortController();
+
+      // Aborted while sleeping until the next poll, a minute away
+      const waiting = app.waitForServerTask(task.taskId, {
+        signal: controller.signal,
+        onstatus: () => setTimeout(() => controller.abort("Closed by user")),
+      });
+
+      await expect(waiting).rejects.toBe("Closed by user");
+    });
+
+    it("shares resource subscriptions between Views and releases them on teardown", async () => {
+      const capabilities = { serverResources: { subscribe: true } };
+      bridge = new AppBridge(client, testHostInfo, capabilities);
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+      const [otherAppTransport, otherBridgeTransport] =
+        InMemoryTransport.createLinkedPair();
+      const otherBridge = new AppBridge(client, testHostInfo, capabilities);
+      const otherApp = new App(testAppInfo, {}, { autoResize: false });
+      await otherBridge.connect(otherBridgeTransport);
+      await otherApp.connect(otherAppTransport);
+      const updates: string[] = [];
+
+      const unsubscribe = await app.subscribeResource("metrics://cpu", () =>
+        updates.push("app"),
+      );
+      await otherApp.subscribeResource("metrics://cpu", () =>
+        updates.push("otherApp"),
+      );
+      await server.server.sendResourceUpdated({ uri: "metrics://cpu" });
+      await flush();
+      await unsubscribe();
+      expect(serverSubscriptions).toEqual(["+metrics://cpu"]);
+
+      await server.server.sendResourceUpdated({ uri: "metrics://cpu" });
+      await flush();
+      await otherBridge.teardownResource({});
+
+      expect(updates).toEqual(["app", "otherApp", "otherApp"]);
+      expect(serverSubscriptions).toEqual(["+metrics://cpu", "-metrics://cpu"]);
+      await otherAppTransport.close();
+    });
+
+    it("fails every View waiting on a failed resource subscription", async () => {
+      let attempts = 0;
+      server.server.setRequestHandler(SubscribeRequestSchema, async () => {
+        attempts++;
+        await flush();
+        throw new Error("Unknown resource");
+      });
+      const capabilities = { serverResources: { subscribe: true } };
+      bridge = new AppBridge(client, testHostInfo, capabilities);
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+      const [otherAppTransport, otherBridgeTransport] =
+        InMemoryTransport.createLinkedPair();
+      const otherBridge = new AppBridge(client, testHostInfo, capabilities);
+      const otherApp = new App(testAppInfo, {}, { autoResize: false });
+      await otherBridge.connect(otherBridgeTransport);
+      await otherApp.connect(otherAppTransport);
+
+      const results = await Promise.allSettled([
+        app.subscribeResource("metrics://gpu", () => {}),
+        otherApp.subscribeResource("metrics://gpu", () => {}),
+      ]);
+
+      expect(results.map(({ status }) => status)).toEqual([
+        "rejected",
+        "rejected",
+      ]);
+      expect(attempts).toBe(1);
+      // A later subscription tries again
+      await expect(
+        app.subscribeResource("metrics://gpu", () => {}),
+      ).rejects.toThrow("Unknown resource");
+      expect(attempts).toBe(2);
+      await otherAppTransport.close();
+    });
+
+    it("forwards resource updates to other Views while one is slow", async () => {
+      const capabilities = { serverResources: { subscribe: true } };
+      bridge = new AppBridge(client, testHostInfo, capabilities);
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+      const [otherAppTransport, otherBridgeTransport] =
+        InMemoryTransport.createLinkedPair();
+      const otherBridge = new AppBridge(client, testHostInfo, capabilities);
+      const otherApp = new App(testAppInfo, {}, { autoResize: false });
+      await otherBridge.connect(otherBridgeTransport);
+      await otherApp.connect(otherAppTransport);
+      const updates: string[] = [];
+      await app.subscribeResource("metrics://cpu", () => updates.push("app"));
+      await otherApp.subscribeResource("metrics://cpu", () =>
+        updates.push("otherApp"),
+      );
+      // The first View never finishes receiving its update
+      bridge.sendResourceUpdated = () => new Promise(() => {});
+
+      await server.server.sendResourceUpdated({ uri: "metrics://cpu" });
+      await flush();
+
+      expect(updates).toEqual(["otherApp"]);
+      await otherAppTransport.close();
+    });
+
+    it("forwards prompts/get and completion/complete to the server", async () => {
+      bridge = new AppBridge(client, testHostInfo, {
+        serverPrompts: {},
+        serverCompletions: {},
+      });
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      const prompt = await app.getPrompt({
+        name: "greet",
+        arguments: { name: "Ada" },
+      });
+      const completion = await app.complete({
+        ref: { type: "ref/prompt", name: "greet" },
+        argument: { name: "name", value: "A" },
+      });
+
+      expect(prompt.messages[0].content).toEqual({
+        type: "text",
+        text: "Greet Ada",
+      });
+      expect(completion.completion.values).toEqual(["Ada", "Alan"]);
+    });
+  });
+
   describe("deprecated method aliases", () => {
     beforeEach(async () => {
       await bridge.connect(bridgeTransport);
@@ -785,6 +1529,54 @@ describe("App <-> AppBridge integration", () => {
       // Tool should no longer be registered (internal check)
     });
 
+    it("registered tools report progress to the host", async () => {
+      app.registerTool("load", {}, async (extra) => {
+        await extra.reportProgress(1, 2, "Loading");
+        await extra.reportProgress(2, 2);
+        return { content: [] };
+      });
+      await app.connect(appTransport);
+      const progress: unknown[] = [];
+
+      await bridge.callTool(
+        { name: "load" },
+        { onprogress: (p) => progress.push(p) },
+      );
+      // Without a progress callback, reportProgress does nothing
+      await bridge.callTool({ name: "load" });
+
+      expect(progress).toEqual([
+        { progress: 1, total: 2, message: "Loading" },
+        { progress: 2, total: 2 },
+      ]);
+    });
+
+    it("aborting bridge.callTool aborts the registered tool", async () => {
+      let started!: () => void;
+      const toolStarted = new Promise<void>((resolve) => (started = resolve));
+      let signal!: AbortSignal;
+      app.registerTool("wait", {}, (extra) => {
+        signal = extra.signal;
+        started();
+        return new Promise(() => {});
+      });
+      await app.connect(appTransport);
+      // The SDK can't cancel the first request (ID 0), so send another first
+      await bridge.listTools({});
+      const controller = new AbortController();
+
+      const call = bridge.callTool(
+        { name: "wait" },
+        { signal: controller.signal },
+      );
+      await toolStarted;
+      controller.abort("Closed by user");
+
+      await expect(call).rejects.toThrow();
+      await flush();
+      expect(signal.aborted).toBe(true);
+    });
+
     it("registerTool throws on duplicate name", () => {
       app.registerTool("dup", {}, async () => ({ content: [] }));
       expect(() =>
@@ -1050,6 +1842,65 @@ describe("App <-> AppBridge integration", () => {
       expect(result.tools[1].name).toBe("tool2");
       expect(result.tools[2].name).toBe("tool3");
     });
+
+    it("bridge.callToolAsTask runs the tool in the background", async () => {
+      app = new App(
+        testAppInfo,
+        { tools: {}, tasks: { list: {}, cancel: {} } },
+        { autoResize: false },
+      );
+      let finish!: () => void;
+      const finished = new Promise<void>((resolve) => (finish = resolve));
+      app.oncalltool = async (params) => {
+        await finished;
+        return { content: [{ type: "text", text: `Exported ${params.name}` }] };
+      };
+      await app.connect(appTransport);
+
+      const { task } = await bridge.callToolAsTask({ name: "export" });
+      expect(task.status).toBe("working");
+      expect((await bridge.getViewTask(task.taskId)).status).toBe("working");
+      const { tasks } = await bridge.listViewTasks({});
+      expect(tasks.map((t) => t.taskId)).toEqual([task.taskId]);
+
+      finish();
+      const result = await bridge.getViewTaskResult(task.taskId);
+
+      expect(result.content).toEqual([
+        { type: "text", text: "Exported export" },
+      ]);
+      expect((await bridge.getViewTask(task.taskId)).status).toBe("completed");
+    });
+
+    it("bridge.cancelViewTask aborts the tool call", async () => {
+      app = new App(
+        testAppInfo,
+        { tools: {}, tasks: { cancel: {} } },
+        { autoResize: false },
+      );
+      let signal!: AbortSignal;
+      app.oncalltool = (_params, extra) => {
+        signal = extra.signal;
+        return new Promise(() => {});
+      };
+      await app.connect(appTransport);
+
+      const { task } = await bridge.callToolAsTask({ name: "export" });
+      const cancelled = await bridge.cancelViewTask(task.taskId);
+
+      expect(cancelled.status).toBe("cancelled");
+      expect(signal.aborted).toBe(true);
+    });
+
+    it("bridge.callToolAsTask is rejected by Apps without the tasks capability", async () => {
+      app = new App(testAppInfo, { tools: {} }, { autoResize: false });
+      app.oncalltool = async () => ({ content: [] });
+      await app.connect(appTransport);
+
+      await expect(bridge.callToolAsTask({ name: "export" })).rejects.toThrow(
+        "App does not support tasks",
+      );
+    });
   });
 
   describe("App tool capabilities", () => {
@@ -1871,6 +2722,59 @@ describe("App <-> AppBridge integration", () => {
       });
     });
 
+    it("streams the content yielded by oncreatesamplingmessage to the View", async () => {
+      bridge = new AppBridge(null, testHostInfo, {
+        ...testHostCapabilities,
+        sampling: { streaming: {} },
+      });
+      const streaming: boolean[] = [];
+      bridge.oncreatesamplingmessage = async function* (_params, extra) {
+        streaming.push(extra.streaming);
+        yield { type: "text", text: "Hello " };
+        yield { type: "text", text: "world" };
+        return {
+          role: "assistant",
+          content: { type: "text", text: "Hello world" },
+          model: "test-model",
+        };
+      };
+
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      const params = {
+        messages: [
+          {
+            role: "user" as const,
+            content: { type: "text" as const, text: "Hi" },
+          },
+        ],
+        maxTokens: 50,
+      };
+      const messages = [];
+      for await (const message of app.streamSamplingMessage(params)) {
+        messages.push(message);
+      }
+
+      expect(messages).toEqual([
+        { type: "content", content: { type: "text", text: "Hello " } },
+        { type: "content", content: { type: "text", text: "world" } },
+        {
+          type: "result",
+          result: {
+            role: "assistant",
+            content: { type: "text", text: "Hello world" },
+            model: "test-model",
+          },
+        },
+      ]);
+
+      // Without streaming, only the result is sent
+      const result = await app.createSamplingMessage(params);
+      expect(result.content).toEqual({ type: "text", text: "Hello world" });
+      expect(streaming).toEqual([true, false]);
+    });
+
     it("ondownloadfile setter registers handler for ui/download-file requests", async () => {
       const downloadParams = {
         contents: [
@@ -1901,6 +2805,136 @@ describe("App <-> AppBridge integration", () => {
       expect(result).toEqual({});
     });
 
+    it("onrequestfile setter registers handler for ui/request-file requests", async () => {
+      bridge = new AppBridge(null, testHostInfo, {
+        ...testHostCapabilities,
+        fileUpload: {},
+      });
+      const contents = [
+        {
+          type: "resource" as const,
+          resource: {
+            uri: "file:///data.csv",
+            mimeType: "text/csv",
+            blob: btoa("a,b\n1,2\n"),
+          },
+        },
+        {
+          type: "resource_link" as const,
+          uri: "https://files.example.com/scan.pdf",
+          name: "scan.pdf",
+          mimeType: "application/pdf",
+        },
+      ];
+      const receivedRequests: unknown[] = [];
+
+      bridge.onrequestfile = async (params) => {
+        receivedRequests.push(params);
+        return { contents };
+      };
+
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      const result = await app.requestFile({
+        accept: [".csv", "application/pdf"],
+        multiple: true,
+      });
+
+      expect(receivedRequests).toEqual([
+        { accept: [".csv", "application/pdf"], multiple: true },
+      ]);
+      expect(result).toEqual({ contents });
+    });
+
+    it("onrequestfile is capped at the fileUpload maxBytes capability", async () => {
+      bridge = new AppBridge(null, testHostInfo, {
+        ...testHostCapabilities,
+        fileUpload: { maxBytes: 4 },
+      });
+      const receivedRequests: unknown[] = [];
+      let blob = btoa("abcd");
+
+      bridge.onrequestfile = async (params) => {
+        receivedRequests.push(params);
+        return {
+          contents: [
+            {
+              type: "resource",
+              resource: { uri: "file:///a.bin", blob },
+            },
+          ],
+        };
+      };
+
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      const result = await app.requestFile({ maxBytes: 1024 });
+      blob = btoa("abcde");
+      await expect(app.requestFile()).rejects.toThrow(
+        "File file:///a.bin is 5 bytes, exceeding the limit of 4",
+      );
+
+      expect(result.contents).toHaveLength(1);
+      expect(receivedRequests).toEqual([{ maxBytes: 4 }, { maxBytes: 4 }]);
+    });
+
+    it("onrequestconfirmation setter registers handler for ui/request-confirmation requests", async () => {
+      bridge = new AppBridge(null, testHostInfo, {
+        ...testHostCapabilities,
+        confirmation: {},
+      });
+      const confirmationParams = {
+        title: "Revoke access token?",
+        body: "Other apps using this token will be signed out.",
+        actions: [
+          { id: "cancel", label: "Keep token" },
+          { id: "revoke", label: "Revoke", style: "destructive" as const },
+        ],
+      };
+      const receivedRequests: unknown[] = [];
+
+      bridge.onrequestconfirmation = async (params) => {
+        receivedRequests.push(params);
+        return { action: "revoke" };
+      };
+
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      const result = await app.requestConfirmation(confirmationParams);
+
+      expect(receivedRequests).toEqual([confirmationParams]);
+      expect(result).toEqual({ action: "revoke" });
+    });
+
+    it("onrequestmodal setter registers handler for ui/request-modal requests", async () => {
+      bridge = new AppBridge(null, testHostInfo, {
+        ...testHostCapabilities,
+        modal: {},
+      });
+      const modalParams = {
+        resourceUri: "ui://todo/edit-item.html",
+        title: "Edit item",
+        arguments: { itemId: "42" },
+      };
+      const receivedRequests: unknown[] = [];
+
+      bridge.onrequestmodal = async (params) => {
+        receivedRequests.push(params);
+        return {};
+      };
+
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+
+      const result = await app.requestModal(modalParams);
+
+      expect(receivedRequests).toEqual([modalParams]);
+      expect(result).toEqual({});
+    });
+
     it("callServerTool throws a helpful error when called with a string instead of params object", async () => {
       await bridge.connect(bridgeTransport);
       await app.connect(appTransport);
@@ -2366,6 +3400,65 @@ describe("App <-> AppBridge integration", () => {
   });
 });
 
+describe("getToolUiResources", () => {
+  const chart = {
+    type: "resource_link" as const,
+    uri: "ui://reports/chart.html",
+    name: "chart",
+    mimeType: RESOURCE_MIME_TYPE,
+  };
+  const table = {
+    type: "resource" as const,
+    resource: {
+      uri: "ui://reports/table.html",
+      mimeType: RESOURCE_MIME_TYPE,
+      text: "<table></table>",
+    },
+  };
+
+  it("returns the declared resource first, then result resources", () => {
+    const tool = {
+      name: "report",
+      _meta: { ui: { resourceUri: "ui://reports/summary.html" } },
+    };
+
+    expect(
+      getToolUiResources(tool, {
+        content: [{ type: "text", text: "done" }, chart, table],
+      }),
+    ).toEqual([
+      { uri: "ui://reports/summary.html" },
+      { uri: "ui://reports/chart.html" },
+      { uri: "ui://reports/table.html", contents: table.resource },
+    ]);
+  });
+
+  it("ignores non-UI resources and duplicates", () => {
+    const tool = {
+      name: "report",
+      _meta: { ui: { resourceUri: "ui://reports/chart.html" } },
+    };
+
+    expect(
+      getToolUiResources(tool, {
+        content: [
+          chart,
+          { ...chart, uri: "https://example.com/chart.html" },
+          { ...chart, uri: "ui://reports/data.json", mimeType: "text/plain" },
+        ],
+      }),
+    ).toEqual([{ uri: "ui://reports/chart.html" }]);
+  });
+
+  it("lets tools without a declared resource choose one at call time", () => {
+    const tool = { name: "report", _meta: { ui: {} } };
+    const result = { content: [table, chart] };
+
+    expect(getToolUiResources(tool)).toEqual([]);
+    expect(getToolUiResourceUri(tool, result)).toBe("ui://reports/table.html");
+  });
+});
+
 describe("getToolUiResourceUri", () => {
   describe("new nested format (_meta.ui.resourceUri)", () => {
     it("extracts resourceUri from _meta.ui.resourceUri", () => {
@@ -5,11 +5,37 @@ import {
   CallToolRequestSchema,
   CallToolResult,
   CallToolResultSchema,
+  CancelTaskRequest,
+  CancelTaskRequestSchema,
+  CancelTaskResult,
+  CancelTaskResultSchema,
   CreateMessageRequest,
   CreateMessageRequestSchema,
   CreateMessageResult,
   CreateMessageResultWithTools,
+  CompleteRequest,
+  CompleteRequestSchema,
+  CompleteResult,
+  CompleteResultSchema,
+  CreateTaskResult,
+  CreateTaskResultSchema,
+  ElicitRequest,
+  ElicitRequestSchema,
+  ElicitResult,
+  EmbeddedResource,
   EmptyResult,
+  EmptyResultSchema,
+  ErrorCode,
+  GetPromptRequest,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  GetPromptResultSchema,
+  GetTaskPayloadRequest,
+  GetTaskPayloadRequestSchema,
+  GetTaskRequest,
+  GetTaskRequestSchema,
+  GetTaskResult,
+  GetTaskResultSchema,
   Implementation,
   ListPromptsRequest,
   ListPromptsRequestSchema,
@@ -23,11 +49,16 @@ import {
   ListResourceTemplatesRequestSchema,
   ListResourceTemplatesResult,
   ListResourceTemplatesResultSchema,
+  ListTasksRequest,
+  ListTasksRequestSchema,
+  ListTasksResult,
+  ListTasksResultSchema,
   ListToolsRequest,
   ListToolsRequestSchema,
   ListToolsResultSchema,
   LoggingMessageNotification,
   LoggingMessageNotificationSchema,
+  McpError,
   PingRequest,
   PingRequestSchema,
   PromptListChangedNotification,
@@ -38,9 +69,16 @@ import {
   ReadResourceResultSchema,
   ResourceListChangedNotification,
   ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotification,
+  ResourceUpdatedNotificationSchema,
+  SamplingMessageContentBlock,
+  SubscribeRequest,
+  SubscribeRequestSchema,
   Tool,
   ToolListChangedNotification,
   ToolListChangedNotificationSchema,
+  UnsubscribeRequest,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import {
   Protocol,
@@ -48,11 +86,17 @@ import {
   RequestOptions,
 } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { ProtocolWithEvents } from "./events";
+import {
+  encodeBase64,
+  getBase64ByteLength,
+  getResourceBytes,
+} from "./resource-bytes";
 
 import {
   type AppNotification,
   type AppRequest,
   type AppResult,
+  type McpUiElicitationNotification,
   type McpUiSandboxResourceReadyNotification,
   type McpUiSizeChangedNotification,
   type McpUiToolCancelledNotification,
@@ -61,6 +105,8 @@ import {
   type McpUiToolResultNotification,
   LATEST_PROTOCOL_VERSION,
   McpUiAppCapabilities,
+  McpUiBroadcastNotification,
+  McpUiBroadcastNotificationSchema,
   McpUiUpdateModelContextRequest,
   McpUiUpdateModelContextRequestSchema,
   McpUiHostCapabilities,
@@ -77,9 +123,23 @@ import {
   McpUiOpenLinkRequest,
   McpUiOpenLinkRequestSchema,
   McpUiOpenLinkResult,
+  McpUiPeerMessageNotification,
   McpUiDownloadFileRequest,
   McpUiDownloadFileRequestSchema,
   McpUiDownloadFileResult,
+  McpUiRequestFileRequest,
+  McpUiRequestFileRequestSchema,
+  McpUiRequestFileResult,
+  McpUiRequestConfirmationRequest,
+  McpUiRequestConfirmationRequestSchema,
+  McpUiRequestConfirmationResult,
+  McpUiRequestModalRequest,
+  McpUiRequestModalRequestSchema,
+  McpUiRequestModalResult,
+  McpUiSaveStateRequest,
+  McpUiSaveStateRequestSchema,
+  McpUiSaveStateResult,
+  McpUiReadResourceBytesRequestSchema,
   McpUiResourceTeardownRequest,
   McpUiResourceTeardownResultSchema,
   McpUiRequestTeardownNotification,
@@ -92,11 +152,67 @@ import {
   McpUiRequestDisplayModeResult,
   McpUiResourcePermissions,
   McpUiToolMeta,
+  SAMPLING_STREAM_META_KEY,
 } from "./types";
 export * from "./types";
-export { RESOURCE_URI_META_KEY, RESOURCE_MIME_TYPE } from "./app";
-import { RESOURCE_URI_META_KEY } from "./app";
-export { PostMessageTransport } from "./message-transport";
+export {
+  RESOURCE_URI_META_KEY,
+  RESOURCE_MIME_TYPE,
+  RESOURCE_URL_MIME_TYPE,
+} from "./app";
+import {
+  RESOURCE_URI_META_KEY,
+  RESOURCE_MIME_TYPE,
+  RESOURCE_URL_MIME_TYPE,
+} from "./app";
+export {
+  PostMessageTransport,
+  type PostMessageTransportOptions,
+  type PostMessageSecurityViolation,
+} from "./message-transport";
+export {
+  MessagePortTransport,
+  transfer,
+  type MessagePortHandshake,
+} from "./message-port-transport";
+export {
+  AppHost,
+  McpAppFrameElement,
+  defineMcpAppFrame,
+  readUiResource,
+  DEFAULT_SANDBOX_PROXY_SANDBOX,
+  type AppHostOptions,
+  type AppHostToolCall,
+  type UiResource,
+} from "./app-host";
+export {
+  PeerMessageRouter,
+  type PeerMessageRouterOptions,
+} from "./peer-router";
+export {
+  AppBridgePolicyError,
+  createAppBridgePolicy,
+  type AppBridgePolicy,
+  type AppBridgePolicyOptions,
+  type SamplingUsage,
+} from "./app-bridge-policy";
+export {
+  createToolInputStream,
+  parsePartialJson,
+  type ToolInputStream,
+} from "./tool-input-partial";
+export {
+  RecordingTransport,
+  replaySession,
+  type RecordedMessage,
+  type RecordingTransportOptions,
+  type ReplayMismatch,
+  type ReplayResult,
+  type ReplaySessionOptions,
+  type SessionRecording,
+  type SessionSide,
+} from "./session-recording";
+import type { AppBridgePolicy, SamplingUsage } from "./app-bridge-policy";
 
 /**
  * Extract UI resource URI from tool metadata.
@@ -105,7 +221,13 @@ export { PostMessageTransport } from "./message-transport";
  * deprecated flat format (`_meta["ui/resourceUri"]`). The new nested format
  * takes precedence if both are present.
  *
+ * Tools may also pick their UI at call time by returning UI resources in the
+ * result's `content`. Pass the `result` to fall back to the first of those
+ * when the tool declares no `resourceUri`; use
+ * {@link getToolUiResources `getToolUiResources`} to get all of them.
+ *
  * @param tool - A tool object with optional `_meta` property
+ * @param result - The tool's result, if available
  * @returns The UI resource URI if valid, undefined if not present
  * @throws Error if resourceUri is present but invalid (does not start with "ui://")
  *
@@ -122,7 +244,10 @@ export { PostMessageTransport } from "./message-transport";
  * });
  * ```
  */
-export function getToolUiResourceUri(tool: Partial<Tool>): string | undefined {
+export function getToolUiResourceUri(
+  tool: Partial<Tool>,
+  result?: CallToolResult,
+): string | undefined {
   // Try new nested format first: _meta.ui.resourceUri
   const uiMeta = tool._meta?.ui as McpUiToolMeta | undefined;
   let uri: unknown = uiMeta?.resourceUri;
@@ -137,7 +262,132 @@ export function getToolUiResourceUri(tool: Partial<Tool>): string | undefined {
   } else if (uri !== undefined) {
     throw new Error(`Invalid UI resource URI: ${JSON.stringify(uri)}`);
   }
-  return undefined;
+  return result ? getResultUiResources(result)[0]?.uri : undefined;
+}
+
+/**
+ * A UI resource to render for a tool call.
+ *
+ * @see {@link getToolUiResources `getToolUiResources`}
+ */
+export interface ToolUiResource {
+  /** The `ui://` URI of the resource. */
+  uri: string;
+  /**
+   * The resource contents, if the tool result embedded them. Otherwise the
+   * host reads the resource with `resources/read`.
+   */
+  contents?: EmbeddedResource["resource"];
+}
+
+/**
+ * Collect the UI resources a tool result carries in its `content`: embedded
+ * resources and resource links with a `ui://` URI and the
+ * {@link RESOURCE_MIME_TYPE `RESOURCE_MIME_TYPE`} or
+ * {@link RESOURCE_URL_MIME_TYPE `RESOURCE_URL_MIME_TYPE`} MIME type.
+ */
+function getResultUiResources(result: CallToolResult): ToolUiResource[] {
+  const resources: ToolUiResource[] = [];
+  for (const block of result.content ?? []) {
+    const item =
+      block.type === "resource"
+        ? { uri: block.resource.uri, mimeType: block.resource.mimeType }
+        : block.type === "resource_link"
+          ? block
+          : undefined;
+    if (
+      !item?.uri.startsWith("ui://") ||
+      (item.mimeType !== RESOURCE_MIME_TYPE &&
+        item.mimeType !== RESOURCE_URL_MIME_TYPE) ||
+      resources.some((r) => r.uri === item.uri)
+    ) {
+      continue;
+    }
+    resources.push(
+      block.type === "resource"
+        ? { uri: item.uri, contents: block.resource }
+        : { uri: item.uri },
+    );
+  }
+  return resources;
+}
+
+/**
+ * Resolve every UI resource to render for a tool call.
+ *
+ * Returns the tool's declared `_meta.ui.resourceUri` first, if any, followed
+ * by the UI resources in the result's `content` (embedded resources and
+ * resource links with a `ui://` URI and the
+ * {@link RESOURCE_MIME_TYPE `RESOURCE_MIME_TYPE`} MIME type), without
+ * duplicates. Each resource is rendered as a separate View receiving the
+ * same tool input and result.
+ *
+ * The declared resource is known before the tool is called, so hosts can
+ * start rendering it while the call is in flight and add the others once the
+ * result arrives. Tools that choose their UI at call time declare no
+ * `resourceUri` and only return resources in the result.
+ *
+ * @param tool - A tool object with optional `_meta` property
+ * @param result - The tool's result, if available
+ * @returns The UI resources in rendering order; empty if the tool has no UI
+ * @throws Error if the declared resourceUri is invalid (see {@link getToolUiResourceUri `getToolUiResourceUri`})
+ *
+ * @example Render a View per UI resource
+ * ```ts source="./app-bridge.examples.ts#getToolUiResources_renderAll"
+ * const result = (await client.callTool({
+ *   name: tool.name,
+ *   arguments: args,
+ * })) as CallToolResult;
+ * for (const resource of getToolUiResources(tool, result)) {
+ *   const host = new AppHost(client, hostOptions);
+ *   await host.mount(container, { tool, arguments: args, result, resource });
+ * }
+ * ```
+ */
+export function getToolUiResources(
+  tool: Partial<Tool>,
+  result?: CallToolResult,
+): ToolUiResource[] {
+  const declared = getToolUiResourceUri(tool);
+  const resources: ToolUiResource[] = declared ? [{ uri: declared }] : [];
+  for (const resource of result ? getResultUiResources(result) : []) {
+    const existing = resources.find((r) => r.uri === resource.uri);
+    if (existing) {
+      existing.contents ??= resource.contents;
+    } else {
+      resources.push(resource);
+    }
+  }
+  return resources;
+}
+
+/**
+ * Get the page URL of an externally hosted View from the text of its
+ * {@link RESOURCE_URL_MIME_TYPE `RESOURCE_URL_MIME_TYPE`} resource.
+ *
+ * The text is a URI list: the first line that is neither empty nor a `#`
+ * comment is used. Only `https:` URLs are accepted, plus `http:` on the
+ * local machine for development. Servers are untrusted, so hosts must check
+ * this before loading the page.
+ *
+ * @param text - The resource's `text/uri-list` contents
+ * @returns The normalized URL
+ * @throws {Error} If the list has no URL, or the URL is not allowed
+ */
+export function getUiResourceUrl(text: string): string {
+  const line = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .find((l) => l !== "" && !l.startsWith("#"));
+  if (!line) {
+    throw new Error("UI resource URI list is empty");
+  }
+  const url = new URL(line);
+  const isLocal = ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && isLocal)) {
+    throw new Error(`External View URL must use https: ${url.href}`);
+  }
+  return url.href;
 }
 
 /**
@@ -198,16 +448,117 @@ export function buildAllowAttribute(
   return allowList.join("; ");
 }
 
+/**
+ * Host-side storage for View state saved via `ui/save-state`.
+ *
+ * Keys are scoped per tool call by {@link AppBridge `AppBridge`} (see
+ * {@link HostOptions `HostOptions`}), so one store can back every View in a
+ * conversation. Implementations may be synchronous (e.g. `localStorage`) or
+ * asynchronous (e.g. a server-side conversation store).
+ *
+ * @see {@link createMemoryViewStateStore `createMemoryViewStateStore`} for an in-memory implementation
+ */
+export interface ViewStateStore {
+  /** Return the state saved under `key`, or `undefined` if there is none. */
+  get(key: string): unknown | Promise<unknown>;
+  /** Save `state` under `key`, replacing any previous value. */
+  set(key: string, state: unknown): void | Promise<void>;
+  /** Remove the state saved under `key`. */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Create a {@link ViewStateStore `ViewStateStore`} backed by a `Map`.
+ *
+ * State survives iframe recreation but not a page reload; hosts that need
+ * the latter should persist alongside the conversation instead.
+ */
+export function createMemoryViewStateStore(): ViewStateStore {
+  const states = new Map<string, unknown>();
+  return {
+    get: (key) => states.get(key),
+    set: (key, state) => void states.set(key, state),
+    delete: (key) => void states.delete(key),
+  };
+}
+
+/**
+ * Default upper bound on the JSON-serialized size of saved View state, used
+ * when the host's `persistState` capability doesn't specify `maxBytes`.
+ */
+export const DEFAULT_MAX_VIEW_STATE_BYTES = 64 * 1024;
+
+/**
+ * Handler rendering an MCP elicitation, resolving with the user's response.
+ */
+export type ElicitationHandler = (
+  params: ElicitRequest["params"],
+  extra: { signal: AbortSignal },
+) => Promise<ElicitResult>;
+
+/**
+ * Bridges sharing an MCP client's `elicitation/create` handler.
+ */
+interface ElicitationRoutes {
+  bridges: Set<AppBridge>;
+  /** Answers the elicitations no single View is waiting on. */
+  hostHandler?: ElicitationHandler;
+}
+
+const elicitationRoutes = new WeakMap<Client, ElicitationRoutes>();
+
+/**
+ * Server subscription to a resource URI, shared by the bridges watching it.
+ */
+interface ResourceSubscription {
+  bridges: Set<AppBridge>;
+  /** Settles with the `resources/subscribe` request. */
+  subscribed: Promise<void>;
+}
+
+/**
+ * Subscriptions to each resource URI through each MCP client, so the client
+ * holds one server subscription per URI however many Views watch it.
+ */
+const resourceSubscriptions = new WeakMap<
+  Client,
+  Map<string, ResourceSubscription>
+>();
+
+/**
+ * Number of resources whose bytes a bridge keeps cached to serve further
+ * `ui/read-resource-bytes` chunks without re-reading them from the server.
+ */
+const RESOURCE_BYTES_CACHE_SIZE = 4;
+
 /**
  * Options for configuring {@link AppBridge `AppBridge`} behavior.
  *
  * @property hostContext - Optional initial host context to provide to the view
+ * @property stateStore - Storage for View state saved via `ui/save-state`.
+ *   When set, the bridge handles `ui/save-state` itself and returns the saved
+ *   state as `restoredState` on `ui/initialize`. Advertise the
+ *   `persistState` host capability alongside it.
+ * @property stateKey - Key the View's state is stored under. Defaults to the
+ *   tool name and call id from `hostContext.toolInfo`, so each tool call gets
+ *   its own state.
+ * @property policy - Gate for requests from the View, checked before they
+ *   are handled or forwarded to the MCP server. Rejections reach the View as
+ *   JSON-RPC errors with code `POLICY_DENIED_ERROR_CODE`.
+ * @property elicitationHandler - The host's own handler for server
+ *   elicitations no single View is waiting on, used when the bridge routes
+ *   the MCP client's elicitations (see {@link AppBridge.onelicitation `onelicitation`}).
+ *   Bridges sharing a client use the first one given.
  *
  * @see `ProtocolOptions` from @modelcontextprotocol/sdk for available options
  * @see {@link McpUiHostContext `McpUiHostContext`} for the hostContext structure
  */
 export type HostOptions = ProtocolOptions & {
   hostContext?: McpUiHostContext;
+  stateStore?: ViewStateStore;
+  stateKey?: string;
+  policy?: AppBridgePolicy;
+  elicitationHandler?: ElicitationHandler;
 };
 
 /**
@@ -231,6 +582,38 @@ type RequestHandlerExtra = Parameters<
   Parameters<AppBridge["setRequestHandler"]>[1]
 >[1];
 
+/**
+ * Request metadata passed to the
+ * {@link AppBridge.oncreatesamplingmessage `oncreatesamplingmessage`} handler.
+ */
+export type AppBridgeSamplingExtra = RequestHandlerExtra & {
+  /**
+   * Whether the View asked for the response to be streamed. Handlers that
+   * return an async iterator stream its content only if so.
+   */
+  streaming: boolean;
+  /**
+   * Report the tokens and cost the request used, so the bridge's
+   * {@link AppBridgePolicy `policy`} can meter the View.
+   *
+   * @param usage - Usage of the request
+   */
+  reportUsage(usage: SamplingUsage): void;
+};
+
+/**
+ * Result of the {@link AppBridge.oncreatesamplingmessage `oncreatesamplingmessage`}
+ * handler: the complete result, or an async iterator (e.g. an async generator)
+ * yielding the response's content as it is generated and returning the
+ * complete result.
+ */
+export type AppBridgeSamplingResponse =
+  | Promise<CreateMessageResult | CreateMessageResultWithTools>
+  | AsyncIterator<
+      SamplingMessageContentBlock,
+      CreateMessageResult | CreateMessageResultWithTools
+    >;
+
 /**
  * Maps DOM-style event names to their notification `params` types.
  *
@@ -244,6 +627,7 @@ export type AppBridgeEventMap = {
   initialized: McpUiInitializedNotification["params"];
   requestteardown: McpUiRequestTeardownNotification["params"];
   loggingmessage: LoggingMessageNotification["params"];
+  broadcast: McpUiBroadcastNotification["params"];
 };
 
 /**
@@ -313,6 +697,15 @@ export class AppBridge extends ProtocolWithEvents<
   private _hostContext: McpUiHostContext = {};
   private _appInfo?: Implementation;
   private _initializedReceived = false;
+  private _toolCallsInFlight = 0;
+  private _stateStore?: ViewStateStore;
+  private _stateKey?: string;
+  private _policy?: AppBridgePolicy;
+  private _elicitationHandler?: ElicitationHandler;
+  private _resourceBytes = new Map<
+    string,
+    Promise<{ bytes: Uint8Array; mimeType?: string }>
+  >();
 
   /**
    * Wrap every handler registered via `replaceRequestHandler` with a check
@@ -322,6 +715,9 @@ export class AppBridge extends ProtocolWithEvents<
    * `ui/initialize` and `ping` use `setRequestHandler` directly and are
    * intentionally exempt.
    *
+   * The wrapper also applies the `policy` option, so every View-initiated
+   * request is checked before its handler runs.
+   *
    * @see {@link https://github.com/anthropics/claude-ai-mcp/issues/149 claude-ai-mcp#149}
    */
   private _baseReplaceRequestHandler = this.replaceRequestHandler;
@@ -330,7 +726,7 @@ export class AppBridge extends ProtocolWithEvents<
     AppNotification,
     AppResult
   >["setRequestHandler"] = (schema, handler) => {
-    this._baseReplaceRequestHandler(schema, (request, extra) => {
+    this._baseReplaceRequestHandler(schema, async (request, extra) => {
       if (!this._initializedReceived) {
         console.warn(
           `[ext-apps] AppBridge received '${request.method}' before ` +
@@ -339,6 +735,7 @@ export class AppBridge extends ProtocolWithEvents<
             `app.connect() first.`,
         );
       }
+      await this._policy?.check(request as AppRequest, this);
       return handler(request, extra);
     });
   };
@@ -349,6 +746,7 @@ export class AppBridge extends ProtocolWithEvents<
     initialized: McpUiInitializedNotificationSchema,
     requestteardown: McpUiRequestTeardownNotificationSchema,
     loggingmessage: LoggingMessageNotificationSchema,
+    broadcast: McpUiBroadcastNotificationSchema,
   };
 
   /**
@@ -397,6 +795,10 @@ export class AppBridge extends ProtocolWithEvents<
     });
 
     this._hostContext = options?.hostContext || {};
+    this._stateStore = options?.stateStore;
+    this._stateKey = options?.stateKey;
+    this._policy = options?.policy;
+    this._elicitationHandler = options?.elicitationHandler;
 
     this.setRequestHandler(McpUiInitializeRequestSchema, (request) =>
       this._oninitialize(request),
@@ -416,6 +818,120 @@ export class AppBridge extends ProtocolWithEvents<
         return { mode: currentMode };
       },
     );
+
+    // Size limits and scoping apply whether the state goes to the configured
+    // stateStore or to a custom onsavestate handler.
+    this.replaceRequestHandler(
+      McpUiSaveStateRequestSchema,
+      async (request, extra) => {
+        const { state } = request.params;
+        const maxBytes =
+          this._capabilities.persistState?.maxBytes ??
+          DEFAULT_MAX_VIEW_STATE_BYTES;
+        const size = new TextEncoder().encode(
+          JSON.stringify(state ?? null),
+        ).length;
+        if (size > maxBytes) {
+          throw new Error(
+            `View state is ${size} bytes, exceeding the limit of ${maxBytes}`,
+          );
+        }
+        if (this._onsavestate) {
+          return this._onsavestate(request.params, extra);
+        }
+        if (!this._stateStore) throw new Error("No onsavestate handler set");
+        const key = this.getStateKey();
+        if (key === undefined) {
+          throw new Error(
+            "Cannot save View state: no stateKey and no hostContext.toolInfo",
+          );
+        }
+        if (state === null || state === undefined) {
+          await this._stateStore.delete(key);
+        } else {
+          await this._stateStore.set(key, state);
+        }
+        return {};
+      },
+    );
+
+    // Byte ranges are served from whatever onreadresource returns (the MCP
+    // server, when a client was passed), so hosts only advertise the
+    // serverResources.byteRanges capability to enable chunked reads. MCP has
+    // no ranged reads: the whole resource is read from the server and cached
+    // for the following chunks, which bounds the size of each message to the
+    // View but not what the host reads.
+    this.replaceRequestHandler(
+      McpUiReadResourceBytesRequestSchema,
+      async (request, extra) => {
+        const { uri, offset = 0, length } = request.params;
+        const { bytes, mimeType } = await this._readResourceBytes(
+          uri,
+          offset === 0,
+          extra,
+        );
+        if (offset > bytes.length) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Offset ${offset} is past the end of ${uri} (${bytes.length} bytes)`,
+          );
+        }
+        const maxChunkBytes =
+          this._capabilities.serverResources?.byteRanges?.maxChunkBytes ??
+          Infinity;
+        const chunkLength = Math.min(length ?? Infinity, maxChunkBytes);
+        return {
+          blob: encodeBase64(bytes.subarray(offset, offset + chunkLength)),
+          offset,
+          totalBytes: bytes.length,
+          ...(mimeType && { mimeType }),
+        };
+      },
+    );
+  }
+
+  /**
+   * Read a resource's bytes with {@link onreadresource `onreadresource`},
+   * reusing a cached read unless `refresh` is set.
+   */
+  private _readResourceBytes(
+    uri: string,
+    refresh: boolean,
+    extra: RequestHandlerExtra,
+  ) {
+    let read = this._resourceBytes.get(uri);
+    this._resourceBytes.delete(uri);
+    if (!read || refresh) {
+      if (!this._onreadresource) {
+        throw new Error("No onreadresource handler set");
+      }
+      read = this._onreadresource({ uri }, extra).then(getResourceBytes);
+      read.catch(() => {
+        if (this._resourceBytes.get(uri) === read) {
+          this._resourceBytes.delete(uri);
+        }
+      });
+    }
+    // Re-insert so the map stays ordered from least to most recently used.
+    this._resourceBytes.set(uri, read);
+    for (const key of this._resourceBytes.keys()) {
+      if (this._resourceBytes.size <= RESOURCE_BYTES_CACHE_SIZE) break;
+      this._resourceBytes.delete(key);
+    }
+    return read;
+  }
+
+  /**
+   * Get the key this View's state is stored under.
+   *
+   * Returns the `stateKey` option if set, otherwise `"<tool name>#<call id>"`
+   * from `hostContext.toolInfo`, or `undefined` if neither is available.
+   */
+  getStateKey(): string | undefined {
+    if (this._stateKey !== undefined) return this._stateKey;
+    const toolInfo = this._hostContext.toolInfo;
+    if (toolInfo?.id === undefined) return undefined;
+    return `${toolInfo.tool.name}#${toolInfo.id}`;
   }
 
   /**
@@ -803,6 +1319,297 @@ export class AppBridge extends ProtocolWithEvents<
     );
   }
 
+  /**
+   * Register a handler for file requests from the View.
+   *
+   * The View sends `ui/request-file` requests (via
+   * {@link app!App.requestFile `App.requestFile`}) when it needs the user to
+   * pick local files. The host should show a file picker honoring `accept`
+   * and `multiple`, and return the picked files as `EmbeddedResource` items
+   * with a base64 `blob`, or as `ResourceLink`s to where it uploaded them.
+   * Return empty `contents` if the user cancels.
+   *
+   * `params.maxBytes` is already capped at `hostCapabilities.fileUpload.maxBytes`.
+   * The bridge rejects the request if an embedded file exceeds it, so the
+   * View never receives larger files.
+   *
+   * @param callback - Handler that receives the file request and returns the picked files
+   *   - `params.accept` - Accepted MIME types or extensions, if restricted
+   *   - `params.multiple` - Whether the user may pick several files
+   *   - `params.maxBytes` - Maximum size of each file in bytes, if limited
+   *   - `extra` - Request metadata (abort signal, session info)
+   *   - Returns: `Promise<McpUiRequestFileResult>` with the picked files
+   *
+   * @example
+   * ```ts
+   * bridge.onrequestfile = async ({ accept, multiple, maxBytes }) => {
+   *   const input = document.createElement("input");
+   *   input.type = "file";
+   *   input.accept = accept?.join(",") ?? "";
+   *   input.multiple = multiple ?? false;
+   *   const files = await new Promise<File[]>((resolve) => {
+   *     input.onchange = () => resolve([...(input.files ?? [])]);
+   *     input.oncancel = () => resolve([]);
+   *     input.click();
+   *   });
+   *   if (maxBytes !== undefined && files.some((file) => file.size > maxBytes)) {
+   *     return { contents: [], isError: true };
+   *   }
+   *   const contents = await Promise.all(
+   *     files.map(async (file) => ({
+   *       type: "resource" as const,
+   *       resource: {
+   *         uri: `file:///${file.name}`,
+   *         mimeType: file.type || "application/octet-stream",
+   *         blob: await toBase64(file),
+   *       },
+   *     })),
+   *   );
+   *   return { contents };
+   * };
+   * ```
+   *
+   * @see {@link McpUiRequestFileRequest `McpUiRequestFileRequest`} for the request type
+   * @see {@link McpUiRequestFileResult `McpUiRequestFileResult`} for the result type
+   */
+  private _onrequestfile?: (
+    params: McpUiRequestFileRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<McpUiRequestFileResult>;
+  get onrequestfile() {
+    return this._onrequestfile;
+  }
+  set onrequestfile(
+    callback:
+      | ((
+          params: McpUiRequestFileRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<McpUiRequestFileResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "onrequestfile",
+      this._onrequestfile,
+      callback,
+    );
+    this._onrequestfile = callback;
+    this.replaceRequestHandler(
+      McpUiRequestFileRequestSchema,
+      async (request, extra) => {
+        if (!this._onrequestfile)
+          throw new Error("No onrequestfile handler set");
+        const maxBytes = Math.min(
+          request.params.maxBytes ?? Infinity,
+          this._capabilities.fileUpload?.maxBytes ?? Infinity,
+        );
+        const params = Number.isFinite(maxBytes)
+          ? { ...request.params, maxBytes }
+          : request.params;
+        const result = await this._onrequestfile(params, extra);
+        for (const item of result.contents) {
+          if (item.type !== "resource") continue;
+          const size =
+            "blob" in item.resource
+              ? getBase64ByteLength(item.resource.blob)
+              : new TextEncoder().encode(item.resource.text).length;
+          if (size > maxBytes) {
+            throw new Error(
+              `File ${item.resource.uri} is ${size} bytes, exceeding the limit of ${maxBytes}`,
+            );
+          }
+        }
+        return result;
+      },
+    );
+  }
+
+  /**
+   * Register a handler for confirmation requests from the View.
+   *
+   * The View sends `ui/request-confirmation` requests (via
+   * {@link app!App.requestConfirmation `App.requestConfirmation`}) before
+   * destructive or consequential actions. The host should show a modal
+   * dialog outside the View, clearly attributed to the app, with a button
+   * per action, and return the `id` of the action the user picked. Return
+   * no `action` if the user dismisses the dialog.
+   *
+   * @param callback - Handler that receives the dialog content and returns the user's choice
+   *   - `params.title` - Dialog title
+   *   - `params.body` - Plain-text explanation, if any; never render it as HTML
+   *   - `params.actions` - Buttons to show; if omitted, show "Cancel" (`"cancel"`) and "OK" (`"confirm"`)
+   *   - `extra` - Request metadata (abort signal, session info)
+   *   - Returns: `Promise<McpUiRequestConfirmationResult>` with the picked `action`
+   *
+   * @example
+   * ```ts source="./app-bridge.examples.ts#AppBridge_onrequestconfirmation_dialog"
+   * bridge.onrequestconfirmation = async ({ title, body, actions }) => {
+   *   const action = await showHostDialog({
+   *     heading: `${appName} asks: ${title}`,
+   *     text: body,
+   *     buttons: actions ?? [
+   *       { id: "cancel", label: "Cancel" },
+   *       { id: "confirm", label: "OK", style: "primary" },
+   *     ],
+   *   });
+   *   return { action };
+   * };
+   * ```
+   *
+   * @see {@link McpUiRequestConfirmationRequest `McpUiRequestConfirmationRequest`} for the request type
+   * @see {@link McpUiRequestConfirmationResult `McpUiRequestConfirmationResult`} for the result type
+   */
+  private _onrequestconfirmation?: (
+    params: McpUiRequestConfirmationRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<McpUiRequestConfirmationResult>;
+  get onrequestconfirmation() {
+    return this._onrequestconfirmation;
+  }
+  set onrequestconfirmation(
+    callback:
+      | ((
+          params: McpUiRequestConfirmationRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<McpUiRequestConfirmationResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "onrequestconfirmation",
+      this._onrequestconfirmation,
+      callback,
+    );
+    this._onrequestconfirmation = callback;
+    this.replaceRequestHandler(
+      McpUiRequestConfirmationRequestSchema,
+      async (request, extra) => {
+        if (!this._onrequestconfirmation)
+          throw new Error("No onrequestconfirmation handler set");
+        return this._onrequestconfirmation(request.params, extra);
+      },
+    );
+  }
+
+  /**
+   * Register a handler for modal requests from the View.
+   *
+   * The View sends `ui/request-modal` requests (via
+   * {@link app!App.requestModal `App.requestModal`}) to open another `ui://`
+   * template in a modal dialog. The host should read the resource from the
+   * same server as the requesting View, render it as a new View with its own
+   * `AppBridge`, send it `params.arguments` with
+   * {@link sendToolInput `sendToolInput`}, and close the modal when that View
+   * requests teardown. Resolve once the modal is shown, or return
+   * `isError: true` to refuse.
+   *
+   * @param callback - Handler that receives the modal request
+   *   - `params.resourceUri` - `ui://` URI of the template to render
+   *   - `params.title` - Modal title, if any
+   *   - `params.arguments` - Tool input for the modal View, if any
+   *   - `extra` - Request metadata (abort signal, session info)
+   *   - Returns: `Promise<McpUiRequestModalResult>` with optional `isError` flag
+   *
+   * @example
+   * ```ts source="./app-bridge.examples.ts#AppBridge_onrequestmodal_openView"
+   * bridge.onrequestmodal = async ({ resourceUri, title, arguments: args }) => {
+   *   if (!resourceUri.startsWith("ui://")) {
+   *     return { isError: true };
+   *   }
+   *   // Renders the template in a modal, with a new AppBridge connected to
+   *   // the same server, and sends it `args` as tool input
+   *   await openModalView(client, { resourceUri, title, toolInput: args ?? {} });
+   *   return {};
+   * };
+   * ```
+   *
+   * @see {@link McpUiRequestModalRequest `McpUiRequestModalRequest`} for the request type
+   * @see {@link McpUiRequestModalResult `McpUiRequestModalResult`} for the result type
+   */
+  private _onrequestmodal?: (
+    params: McpUiRequestModalRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<McpUiRequestModalResult>;
+  get onrequestmodal() {
+    return this._onrequestmodal;
+  }
+  set onrequestmodal(
+    callback:
+      | ((
+          params: McpUiRequestModalRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<McpUiRequestModalResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "onrequestmodal",
+      this._onrequestmodal,
+      callback,
+    );
+    this._onrequestmodal = callback;
+    this.replaceRequestHandler(
+      McpUiRequestModalRequestSchema,
+      async (request, extra) => {
+        if (!this._onrequestmodal)
+          throw new Error("No onrequestmodal handler set");
+        return this._onrequestmodal(request.params, extra);
+      },
+    );
+  }
+
+  /**
+   * Register a handler for save-state requests from the view.
+   *
+   * The view sends `ui/save-state` requests (via
+   * {@link app!App.saveState `App.saveState`}) to persist state such as form
+   * inputs or scroll position, so it can pick up where it left off when it is
+   * recreated. The host should store the state so that it can pass it back as
+   * `restoredState` in the `ui/initialize` result.
+   *
+   * Most hosts don't need this: passing a `stateStore` in
+   * {@link HostOptions `HostOptions`} handles both saving and restoring. In
+   * either case the bridge rejects state larger than
+   * `hostCapabilities.persistState.maxBytes` (default
+   * {@link DEFAULT_MAX_VIEW_STATE_BYTES `DEFAULT_MAX_VIEW_STATE_BYTES`}) before
+   * this handler is called.
+   *
+   * @param callback - Handler that receives the state to persist
+   *   - `params.state` - JSON-serializable state, or `null` to clear
+   *   - `extra` - Request metadata (abort signal, session info)
+   *   - Returns: `Promise<McpUiSaveStateResult>`
+   *
+   * @example
+   * ```ts source="./app-bridge.examples.ts#AppBridge_onsavestate_persist"
+   * bridge.onsavestate = async ({ state }) => {
+   *   await conversationStore.saveViewState(toolCallId, state);
+   *   return {};
+   * };
+   * ```
+   *
+   * @see {@link McpUiSaveStateRequest `McpUiSaveStateRequest`} for the request type
+   * @see {@link McpUiSaveStateResult `McpUiSaveStateResult`} for the result type
+   */
+  private _onsavestate?: (
+    params: McpUiSaveStateRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<McpUiSaveStateResult>;
+  get onsavestate() {
+    return this._onsavestate;
+  }
+  set onsavestate(
+    callback:
+      | ((
+          params: McpUiSaveStateRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<McpUiSaveStateResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "onsavestate",
+      this._onsavestate,
+      callback,
+    );
+    this._onsavestate = callback;
+  }
+
   /**
    * Register a handler for app-initiated teardown request notifications from the view.
    *
@@ -1008,7 +1815,8 @@ export class AppBridge extends ProtocolWithEvents<
    * by forwarding them to the MCP server.
    *
    * @param callback - Handler that receives tool call params and returns a
-   *   `CallToolResult`
+   *   `CallToolResult`, or a `CreateTaskResult` if `params.task` asks to run
+   *   the tool as a task and the host advertises `serverTasks`
    *   - `params` - Tool call parameters (name and arguments)
    *   - `extra` - Request metadata (abort signal, session info)
    *
@@ -1029,7 +1837,7 @@ export class AppBridge extends ProtocolWithEvents<
   private _oncalltool?: (
     params: CallToolRequest["params"],
     extra: RequestHandlerExtra,
-  ) => Promise<CallToolResult>;
+  ) => Promise<CallToolResult | CreateTaskResult>;
   get oncalltool() {
     return this._oncalltool;
   }
@@ -1038,7 +1846,7 @@ export class AppBridge extends ProtocolWithEvents<
       | ((
           params: CallToolRequest["params"],
           extra: RequestHandlerExtra,
-        ) => Promise<CallToolResult>)
+        ) => Promise<CallToolResult | CreateTaskResult>)
       | undefined,
   ) {
     this.warnIfRequestHandlerReplaced("oncalltool", this._oncalltool, callback);
@@ -1064,11 +1872,23 @@ export class AppBridge extends ProtocolWithEvents<
    * `sampling.tools` if tool-calling is supported) in
    * {@link McpUiHostCapabilities `McpUiHostCapabilities`}.
    *
+   * The handler may return an async iterator (e.g. be an async generator)
+   * instead, yielding the response's content as the model generates it and
+   * returning the complete result. When the View asked for a streamed
+   * response (see {@link app!App.streamSamplingMessage `App.streamSamplingMessage`}),
+   * each piece of content is sent to it with `ui/notifications/sampling-stream`.
+   * Hosts supporting this SHOULD advertise `sampling.streaming`.
+   *
+   * Handlers can report the tokens and cost each request used with
+   * `extra.reportUsage`, so the bridge's `policy` can meter the View (see
+   * {@link createAppBridgePolicy `createAppBridgePolicy`}).
+   *
    * @param callback - Handler that receives `CreateMessageRequest` params and
    *   returns a `CreateMessageResult` (or `CreateMessageResultWithTools` when
-   *   `params.tools` was provided)
+   *   `params.tools` was provided), or an async iterator streaming it
    *   - `params` - Standard MCP sampling params (messages, maxTokens, tools, etc.)
-   *   - `extra` - Request metadata (abort signal, session info)
+   *   - `extra` - Request metadata (abort signal, session info), whether the
+   *     View asked for streaming, and the `reportUsage` hook
    *
    * @example Forward to your LLM provider
    * ```ts source="./app-bridge.examples.ts#AppBridge_oncreatesamplingmessage_forwardToLlm"
@@ -1078,19 +1898,73 @@ export class AppBridge extends ProtocolWithEvents<
    * };
    * ```
    *
+   * @example Stream the response and report its usage
+   * ```ts source="./app-bridge.examples.ts#AppBridge_oncreatesamplingmessage_stream"
+   * bridge.oncreatesamplingmessage = async function* (params, extra) {
+   *   let text = "";
+   *   let usage = { inputTokens: 0, outputTokens: 0 };
+   *   const chunks = myLlmProvider.stream(params, { signal: extra.signal });
+   *   for await (const chunk of chunks) {
+   *     text += chunk.text;
+   *     usage = chunk.usage;
+   *     yield { type: "text", text: chunk.text };
+   *   }
+   *   extra.reportUsage(usage);
+   *   return {
+   *     role: "assistant",
+   *     content: { type: "text", text },
+   *     model: "my-model",
+   *     stopReason: "endTurn",
+   *   };
+   * };
+   * ```
+   *
    * @see `CreateMessageRequest` from @modelcontextprotocol/sdk for the request type
    * @see `CreateMessageResult` / `CreateMessageResultWithTools` from @modelcontextprotocol/sdk for result types
    */
   set oncreatesamplingmessage(
     callback: (
       params: CreateMessageRequest["params"],
-      extra: RequestHandlerExtra,
-    ) => Promise<CreateMessageResult | CreateMessageResultWithTools>,
+      extra: AppBridgeSamplingExtra,
+    ) => AppBridgeSamplingResponse,
   ) {
     this.setRequestHandler(
       CreateMessageRequestSchema,
       async (request, extra) => {
-        return callback(request.params, extra);
+        await this._policy?.check(request, this);
+        const streamId = request.params._meta?.[SAMPLING_STREAM_META_KEY];
+        try {
+          const response = callback(request.params, {
+            ...extra,
+            streaming: typeof streamId === "string",
+            reportUsage: (usage) =>
+              this._policy?.recordSamplingUsage?.(usage, request.params, this),
+          });
+          if (!("next" in response)) return await response;
+          for (;;) {
+            const next = await response.next();
+            if (next.done) {
+              if (!next.value) {
+                throw new Error("Sampling handler returned no result");
+              }
+              return next.value;
+            }
+            if (extra.signal.aborted) {
+              // Stop generating once the View cancelled the request
+              await response.return?.();
+              throw new Error("Sampling request cancelled");
+            }
+            if (typeof streamId === "string") {
+              await extra.sendNotification({
+                method: "ui/notifications/sampling-stream",
+                params: { streamId, content: next.value },
+              });
+            }
+          }
+        } finally {
+          // Whether or not the handler reported its usage
+          this._policy?.releaseSampling?.(request.params, this);
+        }
       },
     );
   }
@@ -1242,6 +2116,13 @@ export class AppBridge extends ProtocolWithEvents<
    * MCP resource. This handler allows the host to intercept and process these
    * requests, typically by forwarding them to the MCP server.
    *
+   * The bridge also reads resources with this handler to answer
+   * `ui/read-resource-bytes` requests, which Views send for chunked reads
+   * when the host advertises `serverResources.byteRanges`. Each resource is
+   * read whole, then its chunks are served from a cache of the last few
+   * resources read, so chunking limits the size of the messages sent to the
+   * View, not of the reads.
+   *
    * @param callback - Handler that receives read params and returns a
    *   `ReadResourceResult`
    *   - `params` - Read parameters including the resource URI
@@ -1293,31 +2174,144 @@ export class AppBridge extends ProtocolWithEvents<
   }
 
   /**
-   * Notify the view that the MCP server's resource list has changed.
+   * Register a handler for resource subscription requests from the view.
    *
-   * The host sends `notifications/resources/list_changed` to the view when it
-   * receives this notification from the MCP server. This allows the view
-   * to refresh its resource cache or UI accordingly.
+   * The view sends `resources/subscribe` requests (via
+   * {@link app!App.subscribeResource `App.subscribeResource`}) to be notified
+   * with `notifications/resources/updated` when a resource changes. Forward
+   * updates with {@link sendResourceUpdated `sendResourceUpdated`}.
    *
-   * @param params - Optional notification params (typically empty)
+   * Bridges with an MCP client forward subscriptions automatically when the
+   * server supports them. Views sharing the client share one server
+   * subscription per URI, which is released when the last of them
+   * unsubscribes or its bridge is closed.
    *
-   * @example
-   * ```typescript
-   * // In your MCP client notification handler:
-   * mcpClient.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
-   *   bridge.sendResourceListChanged();
-   * });
-   * ```
+   * @param callback - Handler that receives the resource URI and returns an
+   *   empty result once subscribed
+   *   - `params` - The URI of the resource to watch
+   *   - `extra` - Request metadata (abort signal, session info)
    *
-   * @see `ResourceListChangedNotification` from @modelcontextprotocol/sdk for the notification type
+   * @see `SubscribeRequest` from @modelcontextprotocol/sdk for the request type
    */
-  sendResourceListChanged(
-    params: ResourceListChangedNotification["params"] = {},
-  ) {
-    return this.notification({
-      method: "notifications/resources/list_changed" as const,
-      params,
-    });
+  private _onsubscriberesource?: (
+    params: SubscribeRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<EmptyResult>;
+  get onsubscriberesource() {
+    return this._onsubscriberesource;
+  }
+  set onsubscriberesource(
+    callback:
+      | ((
+          params: SubscribeRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<EmptyResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "onsubscriberesource",
+      this._onsubscriberesource,
+      callback,
+    );
+    this._onsubscriberesource = callback;
+    this.replaceRequestHandler(
+      SubscribeRequestSchema,
+      async (request, extra) => {
+        if (!this._onsubscriberesource)
+          throw new Error("No onsubscriberesource handler set");
+        return this._onsubscriberesource(request.params, extra);
+      },
+    );
+  }
+
+  /**
+   * Register a handler for resource unsubscription requests from the view.
+   *
+   * The view sends `resources/unsubscribe` when it no longer needs updates of
+   * a resource it subscribed to, or when it is torn down.
+   *
+   * @param callback - Handler that receives the resource URI and returns an
+   *   empty result once unsubscribed
+   *   - `params` - The URI of the resource
+   *   - `extra` - Request metadata (abort signal, session info)
+   *
+   * @see {@link onsubscriberesource `onsubscriberesource`} for subscribing
+   * @see `UnsubscribeRequest` from @modelcontextprotocol/sdk for the request type
+   */
+  private _onunsubscriberesource?: (
+    params: UnsubscribeRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<EmptyResult>;
+  get onunsubscriberesource() {
+    return this._onunsubscriberesource;
+  }
+  set onunsubscriberesource(
+    callback:
+      | ((
+          params: UnsubscribeRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<EmptyResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "onunsubscriberesource",
+      this._onunsubscriberesource,
+      callback,
+    );
+    this._onunsubscriberesource = callback;
+    this.replaceRequestHandler(
+      UnsubscribeRequestSchema,
+      async (request, extra) => {
+        if (!this._onunsubscriberesource)
+          throw new Error("No onunsubscriberesource handler set");
+        return this._onunsubscriberesource(request.params, extra);
+      },
+    );
+  }
+
+  /**
+   * Notify the view that the MCP server's resource list has changed.
+   *
+   * The host sends `notifications/resources/list_changed` to the view when it
+   * receives this notification from the MCP server. This allows the view
+   * to refresh its resource cache or UI accordingly.
+   *
+   * @param params - Optional notification params (typically empty)
+   *
+   * @example
+   * ```typescript
+   * // In your MCP client notification handler:
+   * mcpClient.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+   *   bridge.sendResourceListChanged();
+   * });
+   * ```
+   *
+   * @see `ResourceListChangedNotification` from @modelcontextprotocol/sdk for the notification type
+   */
+  sendResourceListChanged(
+    params: ResourceListChangedNotification["params"] = {},
+  ) {
+    return this.notification({
+      method: "notifications/resources/list_changed" as const,
+      params,
+    });
+  }
+
+  /**
+   * Notify the view that a resource it subscribed to has changed.
+   *
+   * Bridges with an MCP client send this automatically for subscriptions they
+   * forwarded (see {@link onsubscriberesource `onsubscriberesource`}).
+   *
+   * @param params - The URI of the updated resource
+   *
+   * @see `ResourceUpdatedNotification` from @modelcontextprotocol/sdk for the notification type
+   */
+  sendResourceUpdated(params: ResourceUpdatedNotification["params"]) {
+    return this.notification({
+      method: "notifications/resources/updated" as const,
+      params,
+    });
   }
 
   /**
@@ -1377,6 +2371,318 @@ export class AppBridge extends ProtocolWithEvents<
     );
   }
 
+  /**
+   * Register a handler for get prompt requests from the view.
+   *
+   * The view sends `prompts/get` requests (via
+   * {@link app!App.getPrompt `App.getPrompt`}) to expand an MCP prompt with
+   * arguments. This handler allows the host to intercept and process these
+   * requests, typically by forwarding them to the MCP server.
+   *
+   * @param callback - Handler that receives the prompt name and arguments and
+   *   returns a `GetPromptResult`
+   *   - `params` - Prompt name and arguments
+   *   - `extra` - Request metadata (abort signal, session info)
+   *
+   * @example
+   * ```ts source="./app-bridge.examples.ts#AppBridge_ongetprompt_forwardToServer"
+   * bridge.ongetprompt = async (params, extra) => {
+   *   return mcpClient.request(
+   *     { method: "prompts/get", params },
+   *     GetPromptResultSchema,
+   *     { signal: extra.signal },
+   *   );
+   * };
+   * ```
+   *
+   * @see `GetPromptRequest` from @modelcontextprotocol/sdk for the request type
+   * @see `GetPromptResult` from @modelcontextprotocol/sdk for the result type
+   */
+  private _ongetprompt?: (
+    params: GetPromptRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<GetPromptResult>;
+  get ongetprompt() {
+    return this._ongetprompt;
+  }
+  set ongetprompt(
+    callback:
+      | ((
+          params: GetPromptRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<GetPromptResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "ongetprompt",
+      this._ongetprompt,
+      callback,
+    );
+    this._ongetprompt = callback;
+    this.replaceRequestHandler(
+      GetPromptRequestSchema,
+      async (request, extra) => {
+        if (!this._ongetprompt) throw new Error("No ongetprompt handler set");
+        return this._ongetprompt(request.params, extra);
+      },
+    );
+  }
+
+  /**
+   * Register a handler for completion requests from the view.
+   *
+   * The view sends `completion/complete` requests (via
+   * {@link app!App.complete `App.complete`}) to autocomplete prompt or
+   * resource template arguments. This handler allows the host to intercept
+   * and process these requests, typically by forwarding them to the MCP
+   * server.
+   *
+   * @param callback - Handler that receives the reference and argument and
+   *   returns a `CompleteResult`
+   *   - `params` - The prompt or resource template, and the argument to complete
+   *   - `extra` - Request metadata (abort signal, session info)
+   *
+   * @see `CompleteRequest` from @modelcontextprotocol/sdk for the request type
+   * @see `CompleteResult` from @modelcontextprotocol/sdk for the result type
+   */
+  private _oncomplete?: (
+    params: CompleteRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<CompleteResult>;
+  get oncomplete() {
+    return this._oncomplete;
+  }
+  set oncomplete(
+    callback:
+      | ((
+          params: CompleteRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<CompleteResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced("oncomplete", this._oncomplete, callback);
+    this._oncomplete = callback;
+    this.replaceRequestHandler(
+      CompleteRequestSchema,
+      async (request, extra) => {
+        if (!this._oncomplete) throw new Error("No oncomplete handler set");
+        return this._oncomplete(request.params, extra);
+      },
+    );
+  }
+
+  /**
+   * Register a handler for `tasks/get` requests from the view.
+   *
+   * The view sends `tasks/get` requests (via
+   * {@link app!App.getServerTask `App.getServerTask`}) to check on a server task. This handler
+   * allows the host to intercept and process these requests, typically by
+   * forwarding them to the MCP server.
+   *
+   * @param callback - Handler that receives the request params and returns a
+   *   `GetTaskResult`
+   *   - `params` - ID of the task
+   *   - `extra` - Request metadata (abort signal, session info)
+   *
+   * @see `GetTaskRequest` from @modelcontextprotocol/sdk for the request type
+   * @see `GetTaskResult` from @modelcontextprotocol/sdk for the result type
+   */
+  private _ongettask?: (
+    params: GetTaskRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<GetTaskResult>;
+  get ongettask() {
+    return this._ongettask;
+  }
+  set ongettask(
+    callback:
+      | ((
+          params: GetTaskRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<GetTaskResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced("ongettask", this._ongettask, callback);
+    this._ongettask = callback;
+    this.replaceRequestHandler(GetTaskRequestSchema, async (request, extra) => {
+      if (!this._ongettask) throw new Error("No ongettask handler set");
+      return this._ongettask(request.params, extra);
+    });
+  }
+
+  /**
+   * Register a handler for `tasks/result` requests from the view.
+   *
+   * The view sends `tasks/result` requests (via
+   * {@link app!App.getServerTaskResult `App.getServerTaskResult`}) to get the result of a tool call running as a server task. This handler
+   * allows the host to intercept and process these requests, typically by
+   * forwarding them to the MCP server.
+   *
+   * @param callback - Handler that receives the request params and returns a
+   *   `CallToolResult`
+   *   - `params` - ID of the task
+   *   - `extra` - Request metadata (abort signal, session info)
+   *
+   * @see `GetTaskPayloadRequest` from @modelcontextprotocol/sdk for the request type
+   * @see `CallToolResult` from @modelcontextprotocol/sdk for the result type
+   */
+  private _ongettaskresult?: (
+    params: GetTaskPayloadRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<CallToolResult>;
+  get ongettaskresult() {
+    return this._ongettaskresult;
+  }
+  set ongettaskresult(
+    callback:
+      | ((
+          params: GetTaskPayloadRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<CallToolResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "ongettaskresult",
+      this._ongettaskresult,
+      callback,
+    );
+    this._ongettaskresult = callback;
+    this.replaceRequestHandler(
+      GetTaskPayloadRequestSchema,
+      async (request, extra) => {
+        if (!this._ongettaskresult)
+          throw new Error("No ongettaskresult handler set");
+        return this._ongettaskresult(request.params, extra);
+      },
+    );
+  }
+
+  /**
+   * Register a handler for `tasks/list` requests from the view.
+   *
+   * The view sends `tasks/list` requests (via
+   * {@link app!App.listServerTasks `App.listServerTasks`}) to list server tasks. This handler
+   * allows the host to intercept and process these requests, typically by
+   * forwarding them to the MCP server.
+   *
+   * @param callback - Handler that receives the request params and returns a
+   *   `ListTasksResult`
+   *   - `params` - Pagination cursor
+   *   - `extra` - Request metadata (abort signal, session info)
+   *
+   * @see `ListTasksRequest` from @modelcontextprotocol/sdk for the request type
+   * @see `ListTasksResult` from @modelcontextprotocol/sdk for the result type
+   */
+  private _onlisttasks?: (
+    params: ListTasksRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<ListTasksResult>;
+  get onlisttasks() {
+    return this._onlisttasks;
+  }
+  set onlisttasks(
+    callback:
+      | ((
+          params: ListTasksRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<ListTasksResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "onlisttasks",
+      this._onlisttasks,
+      callback,
+    );
+    this._onlisttasks = callback;
+    this.replaceRequestHandler(
+      ListTasksRequestSchema,
+      async (request, extra) => {
+        if (!this._onlisttasks) throw new Error("No onlisttasks handler set");
+        return this._onlisttasks(request.params, extra);
+      },
+    );
+  }
+
+  /**
+   * Register a handler for `tasks/cancel` requests from the view.
+   *
+   * The view sends `tasks/cancel` requests (via
+   * {@link app!App.cancelServerTask `App.cancelServerTask`}) to cancel a server task. This handler
+   * allows the host to intercept and process these requests, typically by
+   * forwarding them to the MCP server.
+   *
+   * @param callback - Handler that receives the request params and returns a
+   *   `CancelTaskResult`
+   *   - `params` - ID of the task
+   *   - `extra` - Request metadata (abort signal, session info)
+   *
+   * @see `CancelTaskRequest` from @modelcontextprotocol/sdk for the request type
+   * @see `CancelTaskResult` from @modelcontextprotocol/sdk for the result type
+   */
+  private _oncanceltask?: (
+    params: CancelTaskRequest["params"],
+    extra: RequestHandlerExtra,
+  ) => Promise<CancelTaskResult>;
+  get oncanceltask() {
+    return this._oncanceltask;
+  }
+  set oncanceltask(
+    callback:
+      | ((
+          params: CancelTaskRequest["params"],
+          extra: RequestHandlerExtra,
+        ) => Promise<CancelTaskResult>)
+      | undefined,
+  ) {
+    this.warnIfRequestHandlerReplaced(
+      "oncanceltask",
+      this._oncanceltask,
+      callback,
+    );
+    this._oncanceltask = callback;
+    this.replaceRequestHandler(
+      CancelTaskRequestSchema,
+      async (request, extra) => {
+        if (!this._oncanceltask) throw new Error("No oncanceltask handler set");
+        return this._oncanceltask(request.params, extra);
+      },
+    );
+  }
+
+  /**
+   * Render MCP elicitations raised while this View is waiting on the server.
+   *
+   * When the host advertises the `elicitation` capability and the bridge was
+   * given an MCP client, `elicitation/create` requests from the server are
+   * routed to the bridge whose View is waiting on a tool call. The host
+   * renders the form with this handler; its result is returned to the server
+   * and sent to the View as a `ui/notifications/elicitation` notification.
+   *
+   * The MCP client doesn't tell which request an elicitation was raised
+   * for, so elicitations go to the host's
+   * {@link HostOptions `elicitationHandler`} instead when no View, or more
+   * than one, is waiting on a tool call; without one, they are rejected.
+   *
+   * The bridge replaces the MCP client's `elicitation/create` handler. The
+   * client must declare the `elicitation` client capability, otherwise
+   * elicitations aren't routed.
+   *
+   * Without an MCP client, hosts handle elicitation themselves and can notify
+   * the View with {@link sendElicitation `sendElicitation`}.
+   *
+   * The handler receives the server's elicitation params and the abort signal
+   * of the server request, and resolves with the user's response.
+   *
+   * @example
+   * ```ts source="./app-bridge.examples.ts#AppBridge_onelicitation_renderForm"
+   * bridge.onelicitation = async (params) => {
+   *   const content = await showElicitationForm(params);
+   *   return content ? { action: "accept", content } : { action: "cancel" };
+   * };
+   * ```
+   */
+  onelicitation?: ElicitationHandler;
+
   /**
    * Notify the view that the MCP server's prompt list has changed.
    *
@@ -1431,16 +2737,20 @@ export class AppBridge extends ProtocolWithEvents<
    * Verify that task creation is supported for the given request method.
    * @internal
    */
-  protected assertTaskCapability(_method: string): void {
-    throw new Error("Tasks are not supported in MCP Apps");
+  protected assertTaskCapability(method: string): void {
+    if (method === "tools/call" && !this._appCapabilities?.tasks) {
+      throw new Error(`View does not support tasks (required for ${method})`);
+    }
   }
 
   /**
    * Verify that task handler is supported for the given method.
    * @internal
    */
-  protected assertTaskHandlerCapability(_method: string): void {
-    throw new Error("Task handlers are not supported in MCP Apps");
+  protected assertTaskHandlerCapability(method: string): void {
+    if (method !== "tools/call" || !this._capabilities.serverTasks) {
+      throw new Error(`Host does not support tasks (required for ${method})`);
+    }
   }
 
   /**
@@ -1481,12 +2791,42 @@ export class AppBridge extends ProtocolWithEvents<
       ? requestedVersion
       : LATEST_PROTOCOL_VERSION;
 
-    return {
+    const result: McpUiInitializeResult = {
       protocolVersion,
       hostCapabilities: this.getCapabilities(),
       hostInfo: this._hostInfo,
       hostContext: this._hostContext,
     };
+    const stateKey = this.getStateKey();
+    if (this._stateStore && stateKey !== undefined) {
+      try {
+        const restoredState = await this._stateStore.get(stateKey);
+        if (restoredState !== undefined) {
+          result.restoredState = restoredState;
+        }
+      } catch (error) {
+        console.warn("[ext-apps] Failed to load saved View state:", error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the host context last set with the constructor's `hostContext`
+   * option or {@link setHostContext `setHostContext`}.
+   *
+   * Changes sent with {@link sendHostContextChange `sendHostContextChange`}
+   * alone aren't included.
+   *
+   * @returns The current host context
+   *
+   * @example Change one field of the host context
+   * ```ts source="./app-bridge.examples.ts#AppBridge_getHostContext_changeLocale"
+   * bridge.setHostContext({ ...bridge.getHostContext(), locale: "fr-FR" });
+   * ```
+   */
+  getHostContext(): McpUiHostContext {
+    return this._hostContext;
   }
 
   /**
@@ -1598,6 +2938,8 @@ export class AppBridge extends ProtocolWithEvents<
    *
    * The arguments represent best-effort recovery of incomplete JSON. views
    * SHOULD handle missing or changing fields gracefully between notifications.
+   * Use {@link createToolInputStream `createToolInputStream`} to recover them
+   * from the model's JSON deltas, with the `finalized` arguments listed.
    *
    * @param params - Partial tool call arguments (may be incomplete)
    *
@@ -1690,6 +3032,44 @@ export class AppBridge extends ProtocolWithEvents<
     });
   }
 
+  /**
+   * Notify the view of an elicitation the host answered on its behalf.
+   *
+   * Sent after the user responded to an `elicitation/create` request the
+   * server raised while handling one of the view's requests, so the view can
+   * reflect the answer. Bridges with an MCP client send this automatically
+   * (see {@link onelicitation `onelicitation`}).
+   *
+   * @param params - The server's elicitation request and the user's response
+   *
+   * @see {@link McpUiElicitationNotification `McpUiElicitationNotification`} for the notification type
+   */
+  sendElicitation(params: McpUiElicitationNotification["params"]) {
+    return this.notification({
+      method: "ui/notifications/elicitation" as const,
+      params,
+    });
+  }
+
+  /**
+   * Deliver a message broadcast by another View.
+   *
+   * Views broadcast with {@link app!App.broadcast `App.broadcast`}, which
+   * arrives at their bridge as a `"broadcast"` event. Hosts normally let a
+   * {@link PeerMessageRouter `PeerMessageRouter`} decide which Views receive
+   * it rather than calling this directly.
+   *
+   * @param params - The message, with the sender's app info if known
+   *
+   * @see {@link McpUiPeerMessageNotification `McpUiPeerMessageNotification`} for the notification type
+   */
+  sendPeerMessage(params: McpUiPeerMessageNotification["params"]) {
+    return this.notification({
+      method: "ui/notifications/peer-message" as const,
+      params,
+    });
+  }
+
   /**
    * Send HTML resource to the sandbox proxy for secure loading.
    *
@@ -1759,9 +3139,11 @@ export class AppBridge extends ProtocolWithEvents<
    * Call a tool on the view.
    *
    * Sends a `tools/call` request to the view and returns the result.
+   * Pass `options.onprogress` to receive the progress the tool reports, and
+   * `options.signal` to cancel the call.
    *
    * @param params - Tool call parameters (name and arguments)
-   * @param options - Request options (timeout, abort signal, etc.)
+   * @param options - Request options (timeout, abort signal, progress callback, etc.)
    * @returns Promise resolving to the tool call result
    */
   callTool(params: CallToolRequest["params"], options?: RequestOptions) {
@@ -1789,15 +3171,123 @@ export class AppBridge extends ProtocolWithEvents<
     );
   }
 
+  /**
+   * Call a tool on the view as an MCP task.
+   *
+   * Sends a `tools/call` request with a `task` parameter and returns as soon
+   * as the view created the task. Follow it with
+   * {@link getViewTask `getViewTask`} and {@link getViewTaskResult `getViewTaskResult`}.
+   * Requires the view's `tasks` capability.
+   *
+   * @param params - Tool call parameters (name and arguments)
+   * @param options - Request options; `options.task` sets the requested `ttl`
+   * @returns Promise resolving to the created task
+   *
+   * @example
+   * ```ts source="./app-bridge.examples.ts#AppBridge_callToolAsTask_pollResult"
+   * const { task } = await bridge.callToolAsTask({
+   *   name: "export_spreadsheet",
+   *   arguments: { format: "csv" },
+   * });
+   * const timer = setInterval(async () => {
+   *   const { status: taskStatus } = await bridge.getViewTask(task.taskId);
+   *   status.textContent = taskStatus;
+   * }, 1000);
+   * try {
+   *   const result = await bridge.getViewTaskResult(task.taskId);
+   *   console.log("Export finished:", result.content);
+   * } finally {
+   *   clearInterval(timer);
+   * }
+   * ```
+   */
+  callToolAsTask(params: CallToolRequest["params"], options?: RequestOptions) {
+    return this.request(
+      { method: "tools/call", params },
+      CreateTaskResultSchema,
+      { ...options, task: options?.task ?? {} },
+    );
+  }
+
+  /**
+   * Get the status of a task on the view.
+   *
+   * @param taskId - ID of the task, from {@link callToolAsTask `callToolAsTask`}
+   * @param options - Request options (timeout, abort signal, etc.)
+   * @returns Promise resolving to the task
+   */
+  getViewTask(taskId: string, options?: RequestOptions) {
+    return this.request(
+      { method: "tasks/get", params: { taskId } },
+      GetTaskResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Get the result of a tool call running as a task on the view, waiting for
+   * the task to finish.
+   *
+   * @param taskId - ID of the task, from {@link callToolAsTask `callToolAsTask`}
+   * @param options - Request options (timeout, abort signal, etc.)
+   * @returns Promise resolving to the tool call result
+   */
+  getViewTaskResult(taskId: string, options?: RequestOptions) {
+    return this.request(
+      { method: "tasks/result", params: { taskId } },
+      CallToolResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * List the tasks on the view.
+   *
+   * @param params - List tasks parameters (may include cursor for pagination)
+   * @param options - Request options (timeout, abort signal, etc.)
+   * @returns Promise resolving to the list of tasks
+   */
+  listViewTasks(params: ListTasksRequest["params"], options?: RequestOptions) {
+    return this.request(
+      { method: "tasks/list", params },
+      ListTasksResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Cancel a task on the view, aborting its tool call.
+   *
+   * @param taskId - ID of the task, from {@link callToolAsTask `callToolAsTask`}
+   * @param options - Request options (timeout, abort signal, etc.)
+   * @returns Promise resolving to the cancelled task
+   */
+  cancelViewTask(taskId: string, options?: RequestOptions) {
+    return this.request(
+      { method: "tasks/cancel", params: { taskId } },
+      CancelTaskResultSchema,
+      options,
+    );
+  }
+
   /**
    * Connect to the view via transport and optionally set up message forwarding.
    *
    * This method establishes the transport connection. If an MCP client was passed
    * to the constructor, it also automatically sets up request/notification forwarding
    * based on the MCP server's capabilities, proxying the following to the view:
-   * - Tools (tools/call, notifications/tools/list_changed)
-   * - Resources (resources/list, resources/read, resources/templates/list, notifications/resources/list_changed)
-   * - Prompts (prompts/list, notifications/prompts/list_changed)
+   * - Tools (tools/call with its progress notifications, notifications/tools/list_changed)
+   * - Resources (resources/list, resources/read, resources/templates/list, notifications/resources/list_changed),
+   *   plus resources/subscribe, resources/unsubscribe and notifications/resources/updated when the server supports subscriptions,
+   *   which also serve `ui/read-resource-bytes` chunks when the host advertises `serverResources.byteRanges`
+   * - Prompts (prompts/list, prompts/get, notifications/prompts/list_changed)
+   * - Completions (completion/complete)
+   * - Tasks (tools/call with a `task` parameter, tasks/get, tasks/result, and
+   *   tasks/list and tasks/cancel as supported), when the server supports
+   *   tasks for tools/call; tool calls only run as tasks when the host
+   *   advertises `serverTasks`
+   * - Elicitations (elicitation/create from the server), rendered with
+   *   {@link onelicitation `onelicitation`} when the host advertises `elicitation`
    *
    * If no client was passed to the constructor, no automatic forwarding is set up
    * and you must register handlers manually using the {@link oncalltool `oncalltool`}, {@link onlistresources `onlistresources`},
@@ -1806,7 +3296,7 @@ export class AppBridge extends ProtocolWithEvents<
    * After calling connect, wait for the {@link oninitialized `oninitialized`} callback before sending
    * tool input and other data to the View.
    *
-   * @param transport - Transport layer (typically {@link PostMessageTransport `PostMessageTransport`})
+   * @param transport - Transport layer (typically {@link PostMessageTransport `PostMessageTransport`}, or {@link MessagePortTransport `MessagePortTransport`} accepting the port offered by the sandbox proxy)
    * @returns Promise resolving when connection is established
    *
    * @throws {Error} If a client was passed but server capabilities are not available.
@@ -1860,11 +3350,33 @@ export class AppBridge extends ProtocolWithEvents<
 
       if (serverCapabilities.tools) {
         this.oncalltool = async (params, extra) => {
-          return this._client!.request(
-            { method: "tools/call", params },
-            CallToolResultSchema,
-            { signal: extra.signal },
-          );
+          this._toolCallsInFlight++;
+          // The client sends the server its own progress token, so relay
+          // progress to the View under the View's token
+          const progressToken = extra._meta?.progressToken;
+          try {
+            // Tool calls the View started as tasks return the created task
+            return await this._client!.request(
+              { method: "tools/call", params },
+              params.task ? CreateTaskResultSchema : CallToolResultSchema,
+              {
+                signal: extra.signal,
+                ...(progressToken !== undefined && {
+                  onprogress: (progress) =>
+                    void extra
+                      .sendNotification({
+                        method: "notifications/progress",
+                        params: { ...progress, progressToken },
+                      })
+                      // The View may have gone away meanwhile
+                      .catch(() => {}),
+                  resetTimeoutOnProgress: true,
+                }),
+              },
+            );
+          } finally {
+            this._toolCallsInFlight--;
+          }
         };
         if (serverCapabilities.tools.listChanged) {
           this._client.setNotificationHandler(
@@ -1895,6 +3407,16 @@ export class AppBridge extends ProtocolWithEvents<
             { signal: extra.signal },
           );
         };
+        if (serverCapabilities.resources.subscribe) {
+          this.onsubscriberesource = async ({ uri }) => {
+            await this.subscribeServerResource(this._client!, uri);
+            return {};
+          };
+          this.onunsubscriberesource = async ({ uri }) => {
+            await this.unsubscribeServerResource(this._client!, uri);
+            return {};
+          };
+        }
         if (serverCapabilities.resources.listChanged) {
           this._client.setNotificationHandler(
             ResourceListChangedNotificationSchema,
@@ -1910,6 +3432,13 @@ export class AppBridge extends ProtocolWithEvents<
             { signal: extra.signal },
           );
         };
+        this.ongetprompt = async (params, extra) => {
+          return this._client!.request(
+            { method: "prompts/get", params },
+            GetPromptResultSchema,
+            { signal: extra.signal },
+          );
+        };
         if (serverCapabilities.prompts.listChanged) {
           this._client.setNotificationHandler(
             PromptListChangedNotificationSchema,
@@ -1917,6 +3446,53 @@ export class AppBridge extends ProtocolWithEvents<
           );
         }
       }
+      if (serverCapabilities.completions) {
+        this.oncomplete = async (params, extra) => {
+          return this._client!.request(
+            { method: "completion/complete", params },
+            CompleteResultSchema,
+            { signal: extra.signal },
+          );
+        };
+      }
+      const serverTasks = serverCapabilities.tasks;
+      if (serverTasks?.requests?.tools?.call) {
+        this.ongettask = async (params, extra) => {
+          return this._client!.request(
+            { method: "tasks/get", params },
+            GetTaskResultSchema,
+            { signal: extra.signal },
+          );
+        };
+        this.ongettaskresult = async (params, extra) => {
+          return this._client!.request(
+            { method: "tasks/result", params },
+            CallToolResultSchema,
+            { signal: extra.signal },
+          );
+        };
+        if (serverTasks.list) {
+          this.onlisttasks = async (params, extra) => {
+            return this._client!.request(
+              { method: "tasks/list", params },
+              ListTasksResultSchema,
+              { signal: extra.signal },
+            );
+          };
+        }
+        if (serverTasks.cancel) {
+          this.oncanceltask = async (params, extra) => {
+            return this._client!.request(
+              { method: "tasks/cancel", params },
+              CancelTaskResultSchema,
+              { signal: extra.signal },
+            );
+          };
+        }
+      }
+      if (this._capabilities.elicitation) {
+        this.routeElicitations(this._client);
+      }
     }
 
     // MCP-UI specific handlers are registered by the host component
@@ -1925,6 +3501,156 @@ export class AppBridge extends ProtocolWithEvents<
 
     return super.connect(transport);
   }
+
+  /**
+   * Close the connection to the view, releasing the server resource
+   * subscriptions it still holds.
+   */
+  override async close() {
+    const subscriptions =
+      this._client && resourceSubscriptions.get(this._client);
+    if (subscriptions) {
+      const client = this._client!;
+      await Promise.allSettled(
+        [...subscriptions]
+          .filter(([, { bridges }]) => bridges.has(this))
+          .map(([uri]) => this.unsubscribeServerResource(client, uri)),
+      );
+    }
+    return super.close();
+  }
+
+  /**
+   * Subscribe this bridge to `uri` on `client`. The server subscription is
+   * shared by all bridges of the client and made when the first subscribes;
+   * bridges subscribing meanwhile share its outcome.
+   */
+  private async subscribeServerResource(client: Client, uri: string) {
+    let subscriptions = resourceSubscriptions.get(client);
+    if (!subscriptions) {
+      const byUri = new Map<string, ResourceSubscription>();
+      subscriptions = byUri;
+      resourceSubscriptions.set(client, byUri);
+      client.setNotificationHandler(
+        ResourceUpdatedNotificationSchema,
+        async (n) => {
+          const bridges = byUri.get(n.params.uri)?.bridges ?? [];
+          // One slow or closed View doesn't hold up the others
+          await Promise.allSettled(
+            [...bridges].map((bridge) =>
+              bridge.transport
+                ? bridge.sendResourceUpdated(n.params)
+                : // The bridge was closed without unsubscribing
+                  bridge.unsubscribeServerResource(client, n.params.uri),
+            ),
+          );
+        },
+      );
+    }
+    let subscription = subscriptions.get(uri);
+    if (!subscription) {
+      const byUri = subscriptions;
+      const created: ResourceSubscription = {
+        bridges: new Set(),
+        subscribed: client
+          .request(
+            { method: "resources/subscribe", params: { uri } },
+            EmptyResultSchema,
+          )
+          .then(
+            () => {},
+            (error) => {
+              if (byUri.get(uri) === created) byUri.delete(uri);
+              throw error;
+            },
+          ),
+      };
+      subscription = created;
+      subscriptions.set(uri, subscription);
+    }
+    subscription.bridges.add(this);
+    await subscription.subscribed;
+  }
+
+  /**
+   * Unsubscribe this bridge from `uri`, releasing the server subscription
+   * once no bridge of `client` needs it.
+   */
+  private async unsubscribeServerResource(client: Client, uri: string) {
+    const subscriptions = resourceSubscriptions.get(client);
+    const subscription = subscriptions?.get(uri);
+    if (!subscription?.bridges.delete(this) || subscription.bridges.size) {
+      return;
+    }
+    subscriptions!.delete(uri);
+    try {
+      await subscription.subscribed;
+    } catch {
+      // The server never subscribed
+      return;
+    }
+    await client.request(
+      { method: "resources/unsubscribe", params: { uri } },
+      EmptyResultSchema,
+    );
+  }
+
+  /**
+   * Route `client`'s `elicitation/create` requests to this bridge's
+   * {@link onelicitation `onelicitation`} while its View is the only one
+   * waiting on a tool call, sharing one handler between all bridges of the
+   * client. Other elicitations go to the host's `elicitationHandler`, if any.
+   *
+   * Does nothing if the client doesn't declare the `elicitation` capability:
+   * its server can't elicit then.
+   */
+  private routeElicitations(client: Client) {
+    let routes = elicitationRoutes.get(client);
+    if (!routes) {
+      const created: ElicitationRoutes = { bridges: new Set() };
+      try {
+        client.setRequestHandler(
+          ElicitRequestSchema,
+          async (request, extra) => {
+            for (const bridge of created.bridges) {
+              if (!bridge.transport) created.bridges.delete(bridge);
+            }
+            // The server elicits while handling a request, but the client
+            // isn't told which one: only route when a single View can be
+            // waiting for the answer
+            const waiting = [...created.bridges].filter(
+              (bridge) => bridge._toolCallsInFlight > 0 && bridge.onelicitation,
+            );
+            if (waiting.length !== 1) {
+              if (created.hostHandler) {
+                return created.hostHandler(request.params, {
+                  signal: extra.signal,
+                });
+              }
+              throw new Error(
+                waiting.length
+                  ? "Several Views are waiting on tool calls, so this elicitation can't be routed to one"
+                  : "No View is waiting on this elicitation",
+              );
+            }
+            const [caller] = waiting;
+            const result = await caller.onelicitation!(request.params, {
+              signal: extra.signal,
+            });
+            await caller.sendElicitation({ request: request.params, result });
+            return result;
+          },
+        );
+      } catch {
+        // The client doesn't declare the elicitation capability
+        return;
+      }
+      routes = created;
+      elicitationRoutes.set(client, created);
+    }
+    routes.hostHandler ??= this._elicitationHandler;
+    routes.bridges.add(this);
+  }
 }
 
 function deepEqual(a: any, b: any): boolean {
@@ -0,0 +1,81 @@
+/**
+ * Type-checked examples for {@link AppHost `AppHost`} and
+ * {@link McpAppFrameElement `McpAppFrameElement`}.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  AppHost,
+  McpAppFrameElement,
+  defineMcpAppFrame,
+} from "./app-bridge.js";
+
+/**
+ * Example: Render a tool call's UI with AppHost.
+ */
+async function AppHost_basicUsage(
+  client: Client,
+  container: HTMLElement,
+  tool: Tool,
+  args: Record<string, unknown>,
+) {
+  //#region AppHost_basicUsage
+  const host = new AppHost(client, {
+    sandboxProxyUrl: "https://sandbox.example.com/sandbox.html",
+    hostInfo: { name: "MyHost", version: "1.0.0" },
+    hostContext: { theme: "dark", platform: "web" },
+  });
+
+  host.bridge.onopenlink = async ({ url }) => {
+    window.open(url, "_blank", "noopener,noreferrer");
+    return {};
+  };
+
+  const result = client.callTool({ name: tool.name, arguments: args });
+  await host.mount(container, {
+    tool,
+    arguments: args,
+    result: result as Promise<CallToolResult>,
+  });
+
+  // Later, when the View should go away:
+  await host.unmount();
+  //#endregion AppHost_basicUsage
+}
+
+/**
+ * Example: Render a tool call's UI with the <mcp-app-frame> element.
+ */
+function McpAppFrameElement_basicUsage(
+  client: Client,
+  tool: Tool,
+  args: Record<string, unknown>,
+  result: Promise<CallToolResult>,
+) {
+  //#region McpAppFrameElement_basicUsage
+  defineMcpAppFrame();
+
+  const frame = document.createElement("mcp-app-frame") as McpAppFrameElement;
+  frame.setAttribute(
+    "sandbox-proxy-url",
+    "https://sandbox.example.com/sandbox.html",
+  );
+  frame.client = client;
+  frame.hostInfo = { name: "MyHost", version: "1.0.0" };
+  frame.toolCall = { tool, arguments: args, result };
+  frame.addEventListener("hostcreated", (e) => {
+    const host = (e as CustomEvent<AppHost>).detail;
+    host.bridge.onopenlink = async ({ url }) => {
+      window.open(url, "_blank", "noopener,noreferrer");
+      return {};
+    };
+  });
+  document.body.appendChild(frame);
+  //#endregion McpAppFrameElement_basicUsage
+}
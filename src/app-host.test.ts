@@ -0,0 +1,491 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type {
+  CallToolResult,
+  JSONRPCMessage,
+  ReadResourceResult,
+  Resource,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { App, RESOURCE_MIME_TYPE, RESOURCE_URL_MIME_TYPE } from "./app";
+import {
+  AppHost,
+  McpAppFrameElement,
+  readUiResource,
+  type AppHostOptions,
+  type AppHostToolCall,
+} from "./app-host";
+import type { McpUiSandboxResourceReadyNotification } from "./types";
+
+/** Wait for pending microtasks to complete */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const testHostInfo = { name: "TestHost", version: "1.0.0" };
+const testAppInfo = { name: "TestApp", version: "1.0.0" };
+const resourceUri = "ui://test/app.html";
+const testTool: Tool = {
+  name: "show",
+  inputSchema: { type: "object" },
+  _meta: { ui: { resourceUri } },
+};
+
+/**
+ * Create a minimal mock MCP client for testing AppHost.
+ * Only implements methods that AppHost and AppBridge call.
+ */
+function createMockClient(
+  read: ReadResourceResult,
+  listing: Resource[] = [],
+): Pick<
+  Client,
+  | "getServerCapabilities"
+  | "request"
+  | "notification"
+  | "readResource"
+  | "listResources"
+> {
+  return {
+    getServerCapabilities: () => ({ tools: {}, resources: {} }),
+    request: async () => ({}) as never,
+    notification: async () => {},
+    readResource: async () => read,
+    listResources: async () => ({ resources: listing }),
+  };
+}
+
+function urlResource(text: string): ReadResourceResult {
+  return {
+    contents: [{ uri: resourceUri, mimeType: RESOURCE_URL_MIME_TYPE, text }],
+  };
+}
+
+function htmlResource(meta?: Record<string, unknown>): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: resourceUri,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: "<html></html>",
+        _meta: meta,
+      },
+    ],
+  };
+}
+
+/**
+ * Minimal iframe/container stand-ins for bun's DOM-less test environment.
+ * Setting `src` simulates the sandbox proxy page finishing loading.
+ */
+function createFakeContainer(onLoad: () => void) {
+  const children: unknown[] = [];
+  const iframe = {
+    attributes: new Map<string, string>(),
+    style: {} as Record<string, string>,
+    contentWindow: {},
+    ownerDocument: { defaultView: undefined },
+    srcValue: "",
+    setAttribute(name: string, value: string) {
+      this.attributes.set(name, value);
+    },
+    set src(value: string) {
+      this.srcValue = value;
+      onLoad();
+    },
+    get src() {
+      return this.srcValue;
+    },
+    remove() {
+      children.splice(children.indexOf(this), 1);
+    },
+  };
+  const container = {
+    ownerDocument: { createElement: () => iframe },
+    appendChild: (child: unknown) => children.push(child),
+  };
+  return { container: container as unknown as HTMLElement, iframe, children };
+}
+
+/**
+ * AppHost wired to an in-memory transport whose far end plays the sandbox
+ * proxy: it announces readiness when the iframe loads, then connects an
+ * `App` once the HTML arrives.
+ */
+class TestAppHost extends AppHost {
+  constructor(
+    client: Client,
+    private readonly _transport: InMemoryTransport,
+  ) {
+    super(client, {
+      sandboxProxyUrl: "https://sandbox.example.com/sandbox.html",
+      hostInfo: testHostInfo,
+    });
+  }
+
+  protected override createTransport() {
+    return this._transport;
+  }
+}
+
+describe("readUiResource", () => {
+  it("returns html and content-level _meta.ui", async () => {
+    const csp = { connectDomains: ["https://api.example.com"] };
+    const client = createMockClient(htmlResource({ ui: { csp } }));
+
+    const resource = await readUiResource(client as Client, resourceUri);
+
+    expect(resource.html).toBe("<html></html>");
+    expect(resource.csp).toEqual(csp);
+  });
+
+  it("falls back to listing-level _meta.ui", async () => {
+    const permissions = { camera: {} };
+    const client = createMockClient(htmlResource(), [
+      { uri: resourceUri, name: "app", _meta: { ui: { permissions } } },
+    ]);
+
+    const resource = await readUiResource(client as Client, resourceUri);
+
+    expect(resource.permissions).toEqual(permissions);
+  });
+
+  it("decodes blob contents", async () => {
+    const client = createMockClient({
+      contents: [
+        {
+          uri: resourceUri,
+          mimeType: RESOURCE_MIME_TYPE,
+          blob: btoa("<p>hi</p>"),
+        },
+      ],
+    });
+
+    const resource = await readUiResource(client as Client, resourceUri);
+
+    expect(resource.html).toBe("<p>hi</p>");
+  });
+
+  it("picks the matching item from a multi-item response", async () => {
+    const client = createMockClient({
+      contents: [
+        { uri: "ui://test/other.html", mimeType: RESOURCE_MIME_TYPE, text: "" },
+        { uri: resourceUri, mimeType: RESOURCE_MIME_TYPE, text: "<p>app</p>" },
+      ],
+    });
+
+    const resource = await readUiResource(client as Client, resourceUri);
+
+    expect(resource.html).toBe("<p>app</p>");
+  });
+
+  it("uses contents embedded in the tool result without reading", async () => {
+    const client = createMockClient({ contents: [] });
+    client.readResource = async () => {
+      throw new Error("unexpected read");
+    };
+
+    const resource = await readUiResource(client as Client, {
+      uri: resourceUri,
+      contents: {
+        uri: resourceUri,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: "<p>embedded</p>",
+      },
+    });
+
+    expect(resource.html).toBe("<p>embedded</p>");
+  });
+
+  it("rejects resources with the wrong MIME type", async () => {
+    const client = createMockClient({
+      contents: [{ uri: resourceUri, mimeType: "text/html", text: "" }],
+    });
+
+    await expect(readUiResource(client as Client, resourceUri)).rejects.toThrow(
+      "Unsupported MIME type: text/html",
+    );
+  });
+
+  it("returns the URL of a text/uri-list resource", async () => {
+    const client = createMockClient(
+      urlResource("# Ticket board\r\nhttps://tickets.example.com/embed\r\n"),
+    );
+
+    const resource = await readUiResource(client as Client, resourceUri);
+
+    expect(resource.url).toBe("https://tickets.example.com/embed");
+    expect(resource.html).toBeUndefined();
+  });
+
+  it("rejects text/uri-list resources with non-https URLs", async () => {
+    for (const text of ["http://tickets.example.com/", "javascript:alert(1)"]) {
+      const client = createMockClient(urlResource(text));
+      await expect(
+        readUiResource(client as Client, resourceUri),
+      ).rejects.toThrow("External View URL must use https");
+    }
+  });
+});
+
+describe("AppHost", () => {
+  let hostTransport: InMemoryTransport;
+  let sandboxTransport: InMemoryTransport;
+  let app: App;
+  let resourceReady: McpUiSandboxResourceReadyNotification["params"][];
+  let fake: ReturnType<typeof createFakeContainer>;
+
+  beforeEach(() => {
+    [hostTransport, sandboxTransport] = InMemoryTransport.createLinkedPair();
+    app = new App(testAppInfo, {}, { autoResize: false });
+    resourceReady = [];
+    sandboxTransport.onmessage = (message: JSONRPCMessage) => {
+      if (
+        "method" in message &&
+        message.method === "ui/notifications/sandbox-resource-ready"
+      ) {
+        resourceReady.push(
+          message.params as McpUiSandboxResourceReadyNotification["params"],
+        );
+        void app.connect(sandboxTransport);
+      }
+    };
+    fake = createFakeContainer(() => {
+      void sandboxTransport.send({
+        jsonrpc: "2.0",
+        method: "ui/notifications/sandbox-proxy-ready",
+        params: {},
+      });
+    });
+  });
+
+  afterEach(async () => {
+    await hostTransport.close();
+    await sandboxTransport.close();
+  });
+
+  it("mounts the View and sends tool input and result", async () => {
+    const csp = { connectDomains: ["https://api.example.com"] };
+    const client = createMockClient(
+      htmlResource({ ui: { csp, permissions: { camera: {} } } }),
+    );
+    const host = new TestAppHost(client as Client, hostTransport);
+    const inputs: unknown[] = [];
+    const results: CallToolResult[] = [];
+    app.ontoolinput = (params) => inputs.push(params.arguments);
+    app.ontoolresult = (params) => results.push(params);
+
+    const result: CallToolResult = { content: [{ type: "text", text: "ok" }] };
+    await host.mount(fake.container, {
+      tool: testTool,
+      arguments: { city: "NYC" },
+      result: Promise.resolve(result),
+    });
+    await flush();
+
+    expect(fake.children).toEqual([fake.iframe]);
+    expect(fake.iframe.attributes.get("allow")).toBe("camera");
+    const src = new URL(fake.iframe.src);
+    expect(JSON.parse(src.searchParams.get("csp")!)).toEqual(csp);
+    expect(resourceReady).toEqual([
+      { html: "<html></html>", csp, permissions: { camera: {} } },
+    ]);
+    expect(inputs).toEqual([{ city: "NYC" }]);
+    expect(results).toEqual([result]);
+  });
+
+  it("loads external URL Views and lets the proxy frame their origin", async () => {
+    const client = createMockClient(
+      urlResource("https://tickets.example.com/embed"),
+    );
+    const host = new TestAppHost(client as Client, hostTransport);
+
+    await host.mount(fake.container, {
+      tool: testTool,
+      result: Promise.resolve({ content: [] }),
+    });
+    await flush();
+
+    const csp = { frameDomains: ["https://tickets.example.com"] };
+    const src = new URL(fake.iframe.src);
+    expect(JSON.parse(src.searchParams.get("csp")!)).toEqual(csp);
+    expect(resourceReady).toEqual([
+      { url: "https://tickets.example.com/embed", csp },
+    ]);
+  });
+
+  it("sends tool-cancelled when the tool call fails", async () => {
+    const client = createMockClient(htmlResource());
+    const host = new TestAppHost(client as Client, hostTransport);
+    const reasons: (string | undefined)[] = [];
+    app.ontoolcancelled = (params) => reasons.push(params.reason);
+
+    await host.mount(fake.container, {
+      tool: testTool,
+      result: Promise.reject(new Error("boom")),
+    });
+    await flush();
+
+    expect(reasons).toEqual(["boom"]);
+  });
+
+  it("applies size changes to the iframe", async () => {
+    const client = createMockClient(htmlResource());
+    const host = new TestAppHost(client as Client, hostTransport);
+
+    await host.mount(fake.container, {
+      tool: testTool,
+      result: new Promise(() => {}),
+    });
+    await app.sendSizeChanged({ width: 320, height: 240 });
+    await flush();
+
+    expect(fake.iframe.style.height).toBe("240px");
+    expect(fake.iframe.style.minWidth).toBe("min(320px, 100%)");
+  });
+
+  it("unmount() sends resource-teardown and removes the iframe", async () => {
+    const client = createMockClient(htmlResource());
+    const host = new TestAppHost(client as Client, hostTransport);
+    let teardownCalled = false;
+    app.onteardown = async () => {
+      teardownCalled = true;
+      return {};
+    };
+
+    await host.mount(fake.container, {
+      tool: testTool,
+      result: new Promise(() => {}),
+    });
+    await host.unmount();
+
+    expect(teardownCalled).toBe(true);
+    expect(fake.children).toEqual([]);
+    expect(host.iframe).toBeUndefined();
+  });
+
+  it("can be mounted again after failing to read the resource", async () => {
+    const client = createMockClient(htmlResource());
+    client.readResource = async () => {
+      throw new Error("Server unavailable");
+    };
+    const host = new TestAppHost(client as Client, hostTransport);
+    const toolCall = { tool: testTool, result: new Promise<never>(() => {}) };
+    app.onteardown = async () => ({});
+
+    await expect(host.mount(fake.container, toolCall)).rejects.toThrow(
+      "Server unavailable",
+    );
+    client.readResource = async () => htmlResource();
+    await host.mount(fake.container, toolCall);
+
+    expect(fake.children).toEqual([fake.iframe]);
+    await host.unmount();
+    expect(fake.children).toEqual([]);
+  });
+
+  it("rejects tools without a UI resource", async () => {
+    const client = createMockClient(htmlResource());
+    const host = new TestAppHost(client as Client, hostTransport);
+
+    await expect(
+      host.mount(fake.container, {
+        tool: { name: "plain", inputSchema: { type: "object" } },
+        result: { content: [] },
+      }),
+    ).rejects.toThrow('Tool "plain" has no UI resource');
+  });
+});
+
+describe("McpAppFrameElement", () => {
+  /** Host whose `unmount()` takes a tick, like a real teardown. */
+  function createStubHost(toolCall: AppHostToolCall) {
+    return {
+      toolCall,
+      mounted: false,
+      unmounted: false,
+      async mount() {
+        this.mounted = true;
+      },
+      async unmount() {
+        await flush();
+        this.unmounted = true;
+      },
+    };
+  }
+
+  /** The element without a DOM: attributes and events are stubbed. */
+  class TestFrame extends McpAppFrameElement {
+    isConnected = true;
+    hosts: ReturnType<typeof createStubHost>[] = [];
+    events: string[] = [];
+
+    getAttribute(name: string) {
+      return name === "sandbox-proxy-url"
+        ? "https://sandbox.example.com/sandbox.html"
+        : null;
+    }
+    dispatchEvent(event: Event) {
+      this.events.push(event.type);
+      return true;
+    }
+    protected override createHost(_client: Client, _options: AppHostOptions) {
+      const host = createStubHost(this.toolCall!);
+      this.hosts.push(host);
+      return host as unknown as AppHost;
+    }
+  }
+
+  function createFrame() {
+    const frame = new TestFrame();
+    frame.client = createMockClient(htmlResource()) as Client;
+    frame.hostInfo = testHostInfo;
+    return frame;
+  }
+
+  const toolCall = (city: string) => ({
+    tool: testTool,
+    arguments: { city },
+    result: { content: [] },
+  });
+
+  it("mounts a single host for overlapping tool call changes", async () => {
+    const frame = createFrame();
+    frame.toolCall = toolCall("Paris");
+    await flush();
+
+    frame.toolCall = toolCall("London");
+    frame.toolCall = toolCall("Tokyo");
+    await flush();
+    await flush();
+
+    expect(frame.hosts.map((h) => h.toolCall.arguments)).toEqual([
+      { city: "Paris" },
+      { city: "Tokyo" },
+    ]);
+    expect(frame.hosts[0].unmounted).toBe(true);
+    expect(frame.host as unknown).toBe(frame.hosts[1]);
+    expect(frame.events).toEqual([
+      "hostcreated",
+      "mounted",
+      "hostcreated",
+      "mounted",
+    ]);
+  });
+
+  it("does not mount once disconnected during a remount", async () => {
+    const frame = createFrame();
+    frame.toolCall = toolCall("Paris");
+    await flush();
+
+    frame.toolCall = toolCall("London");
+    frame.isConnected = false;
+    frame.disconnectedCallback();
+    await flush();
+    await flush();
+
+    expect(frame.hosts).toHaveLength(1);
+    expect(frame.hosts[0].unmounted).toBe(true);
+    expect(frame.host).toBeUndefined();
+  });
+});
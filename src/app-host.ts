@@ -0,0 +1,628 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolResult,
+  Implementation,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  AppBridge,
+  getToolUiResourceUri,
+  buildAllowAttribute,
+  getUiResourceUrl,
+  type ToolUiResource,
+} from "./app-bridge";
+import { RESOURCE_MIME_TYPE, RESOURCE_URL_MIME_TYPE } from "./app";
+import { PostMessageTransport } from "./message-transport";
+import type { AppBridgePolicy } from "./app-bridge-policy";
+import {
+  McpUiHostCapabilities,
+  McpUiHostContext,
+  McpUiResourceCsp,
+  McpUiResourceMeta,
+  McpUiResourcePermissions,
+  McpUiResourceTeardownRequest,
+} from "./types";
+
+/**
+ * Default `sandbox` attribute for the outer (sandbox proxy) iframe.
+ *
+ * The proxy must run on a different origin than the host, and needs
+ * `allow-same-origin` so it can create the inner View iframe.
+ */
+export const DEFAULT_SANDBOX_PROXY_SANDBOX =
+  "allow-scripts allow-same-origin allow-forms";
+
+/**
+ * A UI resource read from an MCP server, ready to be loaded into a sandbox.
+ *
+ * @see {@link readUiResource `readUiResource`}
+ */
+export interface UiResource {
+  /** The `ui://` URI the resource was read from. */
+  uri: string;
+  /** Raw HTML of the View. Unset for externally hosted Views. */
+  html?: string;
+  /**
+   * Page URL of an externally hosted View, read from a
+   * {@link RESOURCE_URL_MIME_TYPE `RESOURCE_URL_MIME_TYPE`} resource.
+   */
+  url?: string;
+  /** CSP domains declared in the resource's `_meta.ui`. */
+  csp?: McpUiResourceCsp;
+  /** Sandbox permissions declared in the resource's `_meta.ui`. */
+  permissions?: McpUiResourcePermissions;
+  /** The full `_meta.ui` object (content-level, falling back to listing-level). */
+  meta?: McpUiResourceMeta;
+}
+
+/**
+ * Read a UI resource from an MCP server and extract its `_meta.ui` metadata.
+ *
+ * Uses the contents embedded in the tool result when given a
+ * {@link ToolUiResource `ToolUiResource`} that has them, and `resources/read`
+ * otherwise. A `resources/read` response may carry several items; the one
+ * whose URI matches is used, or the only item if there is just one. Decodes
+ * `blob` contents, and resolves `_meta.ui` from the content item, falling
+ * back to the `resources/list` entry for the same URI as the spec requires.
+ * For {@link RESOURCE_URL_MIME_TYPE `RESOURCE_URL_MIME_TYPE`} resources the
+ * page URL is returned instead of HTML (see
+ * {@link getUiResourceUrl `getUiResourceUrl`}).
+ *
+ * @param client - Connected MCP client for the server that owns the resource
+ * @param resource - The `ui://` resource URI, or a resource from {@link app-bridge!getToolUiResources `getToolUiResources`}
+ * @returns The resource HTML or URL, and metadata
+ * @throws {Error} If no content item matches the URI, it has a MIME type
+ *   other than {@link RESOURCE_MIME_TYPE `RESOURCE_MIME_TYPE`} or
+ *   {@link RESOURCE_URL_MIME_TYPE `RESOURCE_URL_MIME_TYPE`}, or its URL is
+ *   not allowed
+ */
+export async function readUiResource(
+  client: Client,
+  resource: string | ToolUiResource,
+): Promise<UiResource> {
+  const { uri, contents } =
+    typeof resource === "string" ? { uri: resource } : resource;
+  let content = contents;
+  if (!content) {
+    const result = await client.readResource({ uri });
+    content =
+      result.contents.length === 1
+        ? result.contents[0]
+        : result.contents.find((c) => c.uri === uri);
+    if (!content) {
+      throw new Error(
+        `No content for ${uri} among ${result.contents.length} items`,
+      );
+    }
+  }
+
+  // Per the MCP Apps specification, "text/html;profile=mcp-app" signals this
+  // resource is indeed for an MCP App UI; "text/uri-list" points to one
+  // hosted elsewhere.
+  if (
+    content.mimeType !== RESOURCE_MIME_TYPE &&
+    content.mimeType !== RESOURCE_URL_MIME_TYPE
+  ) {
+    throw new Error(`Unsupported MIME type: ${content.mimeType}`);
+  }
+
+  const text = "blob" in content ? atob(content.blob) : content.text;
+  const body =
+    content.mimeType === RESOURCE_URL_MIME_TYPE
+      ? { url: getUiResourceUrl(text) }
+      : { html: text };
+
+  // Content-level metadata takes precedence. Some SDKs emit `meta` instead of
+  // `_meta`, so accept both.
+  const contentMeta = (content._meta ??
+    (content as { meta?: Record<string, unknown> }).meta) as
+    | { ui?: McpUiResourceMeta }
+    | undefined;
+  let meta = contentMeta?.ui;
+  if (!meta && client.getServerCapabilities()?.resources) {
+    const { resources } = await client.listResources();
+    const listing = resources.find((r) => r.uri === uri);
+    meta = (listing?._meta as { ui?: McpUiResourceMeta } | undefined)?.ui;
+  }
+
+  return { uri, ...body, csp: meta?.csp, permissions: meta?.permissions, meta };
+}
+
+/**
+ * A tool call whose UI should be rendered by {@link AppHost `AppHost`}.
+ */
+export interface AppHostToolCall {
+  /** The tool definition (as returned by `tools/list`), including `_meta.ui`. */
+  tool: Tool;
+  /** Arguments the tool was called with. */
+  arguments?: Record<string, unknown>;
+  /**
+   * The tool's result, or a promise for it. A rejected promise is forwarded
+   * to the View as `ui/notifications/tool-cancelled`.
+   */
+  result: CallToolResult | Promise<CallToolResult>;
+  /**
+   * Which of the tool call's UI resources to render (see
+   * {@link app-bridge!getToolUiResources `getToolUiResources`}). Defaults to the tool's
+   * declared `_meta.ui.resourceUri`.
+   */
+  resource?: string | ToolUiResource;
+}
+
+/**
+ * Options for {@link AppHost `AppHost`}.
+ */
+export interface AppHostOptions {
+  /**
+   * URL of the sandbox proxy page. MUST be on a different origin than the
+   * host. The resource's CSP is passed as a JSON-encoded `csp` query
+   * parameter so the proxy can enforce it via HTTP headers.
+   */
+  sandboxProxyUrl: string | URL;
+  /** Host application identification. */
+  hostInfo: Implementation;
+  /**
+   * Capabilities advertised to the View. Defaults to proxying whatever the
+   * MCP server supports (`serverTools`, `serverPrompts`,
+   * `serverCompletions`, `serverTasks`, `serverResources` with byte ranges)
+   * plus `logging`.
+   */
+  hostCapabilities?: McpUiHostCapabilities;
+  /** Initial host context sent in the `ui/initialize` response. */
+  hostContext?: McpUiHostContext;
+  /**
+   * Gate for requests from the View, e.g. from
+   * {@link app-bridge!createAppBridgePolicy `createAppBridgePolicy`}.
+   */
+  policy?: AppBridgePolicy;
+  /**
+   * `sandbox` attribute for the sandbox proxy iframe.
+   * @default {@link DEFAULT_SANDBOX_PROXY_SANDBOX `DEFAULT_SANDBOX_PROXY_SANDBOX`}
+   */
+  sandbox?: string;
+}
+
+/**
+ * Framework-agnostic host runtime for a single MCP App View.
+ *
+ * `AppHost` owns the full lifecycle that every web host otherwise has to
+ * assemble by hand around {@link AppBridge `AppBridge`}:
+ *
+ * 1. Read the tool's UI resource and validate its MIME type
+ * 2. Create the sandbox proxy iframe (permissions via `allow`, CSP via URL)
+ * 3. Connect the bridge and wait for `ui/notifications/sandbox-proxy-ready`
+ * 4. Send the HTML via `ui/notifications/sandbox-resource-ready`
+ * 5. Wait for the View to initialize, then send tool input
+ * 6. Forward the tool result (or a cancellation if the call fails)
+ * 7. On {@link unmount `unmount`}, send `ui/resource-teardown`, close the
+ *    bridge and remove the iframe
+ *
+ * Register View request handlers on {@link bridge `bridge`} before calling
+ * {@link mount `mount`}. Size changes are applied to the iframe
+ * automatically.
+ *
+ * @example
+ * ```ts source="./app-host.examples.ts#AppHost_basicUsage"
+ * const host = new AppHost(client, {
+ *   sandboxProxyUrl: "https://sandbox.example.com/sandbox.html",
+ *   hostInfo: { name: "MyHost", version: "1.0.0" },
+ *   hostContext: { theme: "dark", platform: "web" },
+ * });
+ *
+ * host.bridge.onopenlink = async ({ url }) => {
+ *   window.open(url, "_blank", "noopener,noreferrer");
+ *   return {};
+ * };
+ *
+ * const result = client.callTool({ name: tool.name, arguments: args });
+ * await host.mount(container, {
+ *   tool,
+ *   arguments: args,
+ *   result: result as Promise<CallToolResult>,
+ * });
+ *
+ * // Later, when the View should go away:
+ * await host.unmount();
+ * ```
+ */
+export class AppHost {
+  /**
+   * The bridge connected to the View. Register request handlers
+   * (`onmessage`, `onopenlink`, …) here before calling {@link mount `mount`}.
+   */
+  readonly bridge: AppBridge;
+
+  private _iframe?: HTMLIFrameElement;
+  private _resource?: UiResource;
+  private _state: "idle" | "mounting" | "mounted" | "unmounted" = "idle";
+  private _unmountController = new AbortController();
+
+  /**
+   * Create a host runtime for one View.
+   *
+   * @param client - Connected MCP client for the server that owns the tool
+   * @param options - Sandbox, host info, capabilities and context
+   */
+  constructor(
+    private readonly _client: Client,
+    private readonly _options: AppHostOptions,
+  ) {
+    const serverCapabilities = _client.getServerCapabilities();
+    this.bridge = new AppBridge(
+      _client,
+      _options.hostInfo,
+      _options.hostCapabilities ?? {
+        serverTools: serverCapabilities?.tools,
+        serverPrompts: serverCapabilities?.prompts,
+        serverCompletions: serverCapabilities?.completions,
+        serverTasks: serverCapabilities?.tasks?.requests?.tools?.call && {
+          list: serverCapabilities.tasks.list,
+          cancel: serverCapabilities.tasks.cancel,
+        },
+        serverResources: serverCapabilities?.resources && {
+          ...serverCapabilities.resources,
+          byteRanges: {},
+        },
+        logging: {},
+      },
+      { hostContext: _options.hostContext, policy: _options.policy },
+    );
+    this.bridge.addEventListener("sizechange", (params) =>
+      this._applySize(params),
+    );
+  }
+
+  /** The sandbox proxy iframe, once {@link mount `mount`} has created it. */
+  get iframe(): HTMLIFrameElement | undefined {
+    return this._iframe;
+  }
+
+  /** The UI resource loaded into the View, once it has been read. */
+  get resource(): UiResource | undefined {
+    return this._resource;
+  }
+
+  /**
+   * Render the tool call's UI into `container`.
+   *
+   * Resolves once the View has initialized and received the tool input. The
+   * tool result is forwarded whenever it settles.
+   *
+   * @param container - Element the sandbox proxy iframe is appended to
+   * @param toolCall - The tool, its arguments and its (pending) result
+   * @throws {Error} If the tool has no UI resource, the resource is invalid,
+   *   or the host was already mounted. A host that failed before creating its
+   *   iframe can be mounted again; otherwise it is unmounted.
+   */
+  async mount(container: HTMLElement, toolCall: AppHostToolCall) {
+    if (this._state !== "idle") {
+      throw new Error(`AppHost cannot be mounted (state: ${this._state})`);
+    }
+    this._state = "mounting";
+    try {
+      await this._mount(container, toolCall);
+    } catch (error) {
+      if (this._state === "mounting") {
+        if (this._iframe) {
+          await this.unmount();
+        } else {
+          this._state = "idle";
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async _mount(container: HTMLElement, toolCall: AppHostToolCall) {
+    const target = toolCall.resource ?? getToolUiResourceUri(toolCall.tool);
+    if (!target) {
+      throw new Error(`Tool "${toolCall.tool.name}" has no UI resource`);
+    }
+    const resource = await readUiResource(this._client, target);
+    if (this._state !== "mounting") return;
+    this._resource = resource;
+
+    const iframe = container.ownerDocument.createElement("iframe");
+    iframe.setAttribute(
+      "sandbox",
+      this._options.sandbox ?? DEFAULT_SANDBOX_PROXY_SANDBOX,
+    );
+    const allow = buildAllowAttribute(resource.permissions);
+    if (allow) {
+      iframe.setAttribute("allow", allow);
+    }
+    container.appendChild(iframe);
+    this._iframe = iframe;
+
+    // Register before connecting so neither notification can be missed.
+    const sandboxReady = this._nextEvent("sandboxready");
+    const initialized = this._nextEvent("initialized");
+    await this.bridge.connect(this.createTransport(iframe));
+
+    // The proxy page must be allowed to frame an externally hosted View.
+    const csp = resource.url
+      ? {
+          ...resource.csp,
+          frameDomains: [
+            ...(resource.csp?.frameDomains ?? []),
+            new URL(resource.url).origin,
+          ],
+        }
+      : resource.csp;
+    const sandboxUrl = new URL(this._options.sandboxProxyUrl);
+    if (csp) {
+      sandboxUrl.searchParams.set("csp", JSON.stringify(csp));
+    }
+    iframe.src = sandboxUrl.href;
+
+    await sandboxReady;
+    if (this._state !== "mounting") return;
+    await this.bridge.sendSandboxResourceReady({
+      ...(resource.url ? { url: resource.url } : { html: resource.html }),
+      csp,
+      permissions: resource.permissions,
+    });
+    await initialized;
+    if (this._state !== "mounting") return;
+    this._state = "mounted";
+
+    await this.bridge.sendToolInput({ arguments: toolCall.arguments ?? {} });
+    Promise.resolve(toolCall.result).then(
+      (result) => {
+        if (this._state === "mounted") this.bridge.sendToolResult(result);
+      },
+      (error) => {
+        if (this._state === "mounted") {
+          this.bridge.sendToolCancelled({
+            reason: error instanceof Error ? error.message : String(error),
+          });
+        }
+      },
+    );
+  }
+
+  /**
+   * Gracefully tear down the View and remove its iframe.
+   *
+   * Sends `ui/resource-teardown` and waits for the View to respond (so it
+   * can persist state), then closes the bridge and removes the iframe. A
+   * failed or timed-out teardown request does not prevent cleanup.
+   *
+   * @param params - Teardown request params
+   */
+  async unmount(params: McpUiResourceTeardownRequest["params"] = {}) {
+    if (this._state === "unmounted") return;
+    const wasMounted = this._state === "mounted";
+    this._state = "unmounted";
+    this._unmountController.abort();
+    try {
+      if (wasMounted) {
+        await this.bridge.teardownResource(params);
+      }
+    } catch (error) {
+      console.warn("[MCP Apps] Teardown request failed:", error);
+    } finally {
+      await this.bridge.close();
+      this._iframe?.remove();
+      this._iframe = undefined;
+    }
+  }
+
+  /**
+   * Create the transport used to talk to the sandbox proxy. Override to use
+   * a different transport (e.g. in tests).
+   *
+   * The default transport is pinned to the origin of
+   * {@link AppHostOptions.sandboxProxyUrl `sandboxProxyUrl`}. A message from
+   * the proxy iframe with any other origin means the frame was navigated
+   * away, so the View is unmounted.
+   *
+   * @param iframe - The sandbox proxy iframe
+   */
+  protected createTransport(iframe: HTMLIFrameElement): Transport {
+    const transport = new PostMessageTransport(
+      iframe.contentWindow!,
+      iframe.contentWindow!,
+      { origin: new URL(this._options.sandboxProxyUrl).origin },
+    );
+    transport.onSecurityViolation = ({ origin }) => {
+      console.error(
+        `[MCP Apps] Sandbox proxy sent a message from unexpected origin ${origin}, unmounting`,
+      );
+      void this.unmount();
+    };
+    return transport;
+  }
+
+  /**
+   * Resolve on the next `event` from the View, or as soon as the host is
+   * unmounted so that an abandoned {@link mount `mount`} doesn't hang.
+   */
+  private _nextEvent(event: "sandboxready" | "initialized"): Promise<void> {
+    const signal = this._unmountController.signal;
+    return new Promise((resolve) => {
+      const listener = () => {
+        this.bridge.removeEventListener(event, listener);
+        signal.removeEventListener("abort", listener);
+        resolve();
+      };
+      this.bridge.addEventListener(event, listener);
+      signal.addEventListener("abort", listener);
+    });
+  }
+
+  private _applySize({ width, height }: { width?: number; height?: number }) {
+    const iframe = this._iframe;
+    if (!iframe) return;
+    // With `box-sizing: border-box` the border eats into the requested size,
+    // so add it back to avoid a resize feedback loop.
+    const style = iframe.ownerDocument.defaultView?.getComputedStyle(iframe);
+    const isBorderBox = style?.boxSizing === "border-box";
+    if (width !== undefined) {
+      if (isBorderBox) {
+        width +=
+          parseFloat(style.borderLeftWidth) +
+          parseFloat(style.borderRightWidth);
+      }
+      // min-width lets the View grow with the container; min(…, 100%) lets
+      // it shrink with it.
+      iframe.style.minWidth = `min(${width}px, 100%)`;
+    }
+    if (height !== undefined) {
+      if (isBorderBox) {
+        height +=
+          parseFloat(style.borderTopWidth) +
+          parseFloat(style.borderBottomWidth);
+      }
+      iframe.style.height = `${height}px`;
+    }
+  }
+}
+
+// `HTMLElement` doesn't exist outside the browser; fall back to a plain class
+// so this module can still be imported (e.g. during SSR or in tests).
+const HTMLElementBase = (
+  typeof HTMLElement === "undefined" ? class {} : HTMLElement
+) as typeof HTMLElement;
+
+/**
+ * `<mcp-app-frame>` custom element wrapping {@link AppHost `AppHost`}.
+ *
+ * Set the {@link client `client`}, {@link hostInfo `hostInfo`} and
+ * {@link toolCall `toolCall`} properties and the `sandbox-proxy-url`
+ * attribute; the View mounts once the element is connected and all are
+ * present, and is torn down when the element is removed.
+ *
+ * Events:
+ * - `hostcreated` — fired synchronously with the new {@link AppHost `AppHost`}
+ *   as `detail`, before the bridge connects. Register bridge handlers here.
+ * - `mounted` — the View has initialized and received the tool input.
+ * - `error` — mounting failed; `detail` is the error.
+ *
+ * Call {@link defineMcpAppFrame `defineMcpAppFrame`} to register the element.
+ *
+ * @example
+ * ```ts source="./app-host.examples.ts#McpAppFrameElement_basicUsage"
+ * defineMcpAppFrame();
+ *
+ * const frame = document.createElement("mcp-app-frame") as McpAppFrameElement;
+ * frame.setAttribute(
+ *   "sandbox-proxy-url",
+ *   "https://sandbox.example.com/sandbox.html",
+ * );
+ * frame.client = client;
+ * frame.hostInfo = { name: "MyHost", version: "1.0.0" };
+ * frame.toolCall = { tool, arguments: args, result };
+ * frame.addEventListener("hostcreated", (e) => {
+ *   const host = (e as CustomEvent<AppHost>).detail;
+ *   host.bridge.onopenlink = async ({ url }) => {
+ *     window.open(url, "_blank", "noopener,noreferrer");
+ *     return {};
+ *   };
+ * });
+ * document.body.appendChild(frame);
+ * ```
+ */
+export class McpAppFrameElement extends HTMLElementBase {
+  /** Connected MCP client for the server that owns the tool. */
+  client?: Client;
+  /** Host application identification. */
+  hostInfo?: Implementation;
+  /** Capabilities advertised to the View (see {@link AppHostOptions `AppHostOptions`}). */
+  hostCapabilities?: McpUiHostCapabilities;
+  /** Initial host context sent to the View. */
+  hostContext?: McpUiHostContext;
+
+  private _toolCall?: AppHostToolCall;
+  private _host?: AppHost;
+  // Bumped on each remount and disconnect, so a remount that was superseded
+  // while awaiting stops there.
+  private _generation = 0;
+
+  /** The tool call to render. Setting a new value remounts the View. */
+  get toolCall(): AppHostToolCall | undefined {
+    return this._toolCall;
+  }
+  set toolCall(toolCall: AppHostToolCall | undefined) {
+    this._toolCall = toolCall;
+    if (this.isConnected) {
+      void this._remount();
+    }
+  }
+
+  /** The running {@link AppHost `AppHost`}, if mounted or mounting. */
+  get host(): AppHost | undefined {
+    return this._host;
+  }
+
+  /** @internal */
+  connectedCallback() {
+    if (!this._host) {
+      void this._remount();
+    }
+  }
+
+  /** @internal */
+  disconnectedCallback() {
+    this._generation++;
+    const host = this._host;
+    this._host = undefined;
+    void host?.unmount();
+  }
+
+  /**
+   * Create the host runtime for a tool call. Override to customize it (e.g.
+   * in tests).
+   *
+   * @param client - The element's {@link client `client`}
+   * @param options - Options built from the element's properties and attributes
+   */
+  protected createHost(client: Client, options: AppHostOptions): AppHost {
+    return new AppHost(client, options);
+  }
+
+  private async _remount() {
+    const generation = ++this._generation;
+    const isCurrent = () => generation === this._generation && this.isConnected;
+    const previous = this._host;
+    this._host = undefined;
+    await previous?.unmount();
+    if (!isCurrent()) return;
+
+    const sandboxProxyUrl = this.getAttribute("sandbox-proxy-url");
+    const { client, hostInfo, toolCall } = this;
+    if (!client || !hostInfo || !toolCall || !sandboxProxyUrl) return;
+
+    const host = this.createHost(client, {
+      sandboxProxyUrl,
+      hostInfo,
+      hostCapabilities: this.hostCapabilities,
+      hostContext: this.hostContext,
+      sandbox: this.getAttribute("sandbox") ?? undefined,
+    });
+    this._host = host;
+    this.dispatchEvent(new CustomEvent("hostcreated", { detail: host }));
+    try {
+      await host.mount(this, toolCall);
+      if (isCurrent()) this.dispatchEvent(new CustomEvent("mounted"));
+    } catch (error) {
+      if (isCurrent()) {
+        this.dispatchEvent(new CustomEvent("error", { detail: error }));
+      }
+    }
+  }
+}
+
+/**
+ * Register {@link McpAppFrameElement `McpAppFrameElement`} as a custom element.
+ * Does nothing if the name is already defined.
+ *
+ * @param tagName - Element name to register
+ */
+export function defineMcpAppFrame(tagName = "mcp-app-frame") {
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, McpAppFrameElement);
+  }
+}
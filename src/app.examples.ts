@@ -7,7 +7,7 @@
  * @module
  */
 
-import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
 import type {
   McpServer,
   ToolCallback,
@@ -159,6 +159,56 @@ async function App_getHostContext_accessAfterConnection(
   //#endregion App_getHostContext_accessAfterConnection
 }
 
+/**
+ * Example: Restore previously saved state after connecting.
+ */
+async function App_getRestoredState_restoreSliders(
+  app: App,
+  slider: HTMLInputElement,
+) {
+  //#region App_getRestoredState_restoreSliders
+  await app.connect();
+  const saved = app.getRestoredState() as { budget?: number } | undefined;
+  slider.value = String(saved?.budget ?? 50);
+  //#endregion App_getRestoredState_restoreSliders
+}
+
+/**
+ * Example: Save state whenever the user changes an input.
+ */
+function App_saveState_sliders(app: App, slider: HTMLInputElement) {
+  //#region App_saveState_sliders
+  slider.addEventListener("change", () => {
+    app.saveState({ budget: Number(slider.value) });
+  });
+  //#endregion App_saveState_sliders
+}
+
+/**
+ * Example: Keep selection in sync across Views with broadcast.
+ */
+function App_broadcast_syncSelection(
+  app: App,
+  map: {
+    on(event: "select", cb: (region: { id: string }) => void): void;
+    highlight(regionId: string): void;
+  },
+) {
+  //#region App_broadcast_syncSelection
+  // Tell peer Views which region the user selected
+  map.on("select", (region) => {
+    app.broadcast("selection", { regionId: region.id });
+  });
+
+  // Follow selections made in peer Views
+  app.addEventListener("peermessage", ({ topic, payload }) => {
+    if (topic === "selection") {
+      map.highlight((payload as { regionId: string }).regionId);
+    }
+  });
+  //#endregion App_broadcast_syncSelection
+}
+
 /**
  * Example: Using the ontoolinput setter (simpler approach).
  */
@@ -346,6 +396,55 @@ async function App_callServerTool_fetchWeather(app: App) {
   //#endregion App_callServerTool_fetchWeather
 }
 
+/**
+ * Example: Show the progress of a slow tool.
+ */
+async function App_callServerTool_showProgress(
+  app: App,
+  progressBar: HTMLProgressElement,
+) {
+  //#region App_callServerTool_showProgress
+  const result = await app.callServerTool(
+    { name: "load_dataset", arguments: {} },
+    {
+      onprogress: ({ progress, total }) => {
+        progressBar.max = total ?? 0;
+        progressBar.value = progress;
+      },
+    },
+  );
+  //#endregion App_callServerTool_showProgress
+}
+
+/**
+ * Example: Run a report as a task and resume it after re-mounting.
+ */
+async function App_callServerToolAsTask_resume(
+  app: App,
+  status: HTMLElement,
+  renderReport: (result: CallToolResult) => void,
+) {
+  //#region App_callServerToolAsTask_resume
+  await app.connect();
+  const saved = app.getRestoredState() as { taskId?: string } | undefined;
+  let taskId = saved?.taskId;
+  if (!taskId) {
+    const { task } = await app.callServerToolAsTask({
+      name: "generate_report",
+      arguments: { quarter: "Q3" },
+    });
+    taskId = task.taskId;
+    await app.saveState({ taskId });
+  }
+  const result = await app.waitForServerTask(taskId, {
+    onstatus: (task) => {
+      status.textContent = task.statusMessage ?? task.status;
+    },
+  });
+  renderReport(result);
+  //#endregion App_callServerToolAsTask_resume
+}
+
 /**
  * Example: Simple LLM completion via host sampling.
  */
@@ -394,6 +493,39 @@ async function App_createSamplingMessage_withTools(
   //#endregion App_createSamplingMessage_withTools
 }
 
+/**
+ * Example: Show a sampled answer as it is typed out.
+ */
+async function App_streamSamplingMessage_typeOut(
+  app: App,
+  output: HTMLElement,
+  transcript: string,
+) {
+  //#region App_streamSamplingMessage_typeOut
+  const stream = app.streamSamplingMessage({
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text: `Summarize:\n${transcript}` },
+      },
+    ],
+    maxTokens: 500,
+  });
+  output.textContent = "";
+  for await (const message of stream) {
+    if (message.type === "content" && message.content.type === "text") {
+      output.textContent += message.content.text;
+    } else if (
+      message.type === "result" &&
+      message.result.content.type === "text"
+    ) {
+      // Hosts without sampling.streaming only send the result
+      output.textContent = message.result.content.text;
+    }
+  }
+  //#endregion App_streamSamplingMessage_typeOut
+}
+
 /**
  * Example: Read a video resource and play it.
  */
@@ -423,6 +555,45 @@ async function App_readServerResource_playVideo(
   //#endregion App_readServerResource_playVideo
 }
 
+/**
+ * Example: Stream a large PDF with a progress bar.
+ */
+async function App_readServerResource_streamWithProgress(
+  app: App,
+  progressBar: HTMLProgressElement,
+  loader: { append(chunk: Uint8Array): void },
+) {
+  //#region App_readServerResource_streamWithProgress
+  const stream = await app.readServerResource(
+    { uri: "pdfs://annual-report" },
+    {
+      responseType: "stream",
+      onprogress: ({ progress, total }) => {
+        progressBar.value = total ? progress / total : 0;
+      },
+    },
+  );
+  const reader = stream.getReader();
+  for (let r = await reader.read(); !r.done; r = await reader.read()) {
+    loader.append(r.value);
+  }
+  //#endregion App_readServerResource_streamWithProgress
+}
+
+/**
+ * Example: Read a byte range as an ArrayBuffer.
+ */
+async function App_readServerResource_byteRange(app: App) {
+  //#region App_readServerResource_byteRange
+  const header = await app.readServerResource(
+    { uri: "videos://bunny-1mb" },
+    { responseType: "arrayBuffer", range: { offset: 0, length: 64 } },
+  );
+  const view = new DataView(header);
+  console.log("Box size:", view.getUint32(0));
+  //#endregion App_readServerResource_byteRange
+}
+
 /**
  * Example: Discover available videos and build a picker UI.
  */
@@ -448,6 +619,31 @@ async function App_listServerResources_buildPicker(
   //#endregion App_listServerResources_buildPicker
 }
 
+// Stub for the view's metrics chart
+declare function renderMetrics(metrics: unknown): void;
+
+/**
+ * Example: Re-render live metrics whenever the server updates them.
+ */
+async function App_subscribeResource_liveMetrics(
+  app: App,
+  pauseButton: HTMLButtonElement,
+) {
+  //#region App_subscribeResource_liveMetrics
+  const unsubscribe = await app.subscribeResource(
+    "metrics://cpu",
+    async ({ uri }) => {
+      const { contents } = await app.readServerResource({ uri });
+      const content = contents[0];
+      if (content && "text" in content) {
+        renderMetrics(JSON.parse(content.text));
+      }
+    },
+  );
+  pauseButton.onclick = () => unsubscribe();
+  //#endregion App_subscribeResource_liveMetrics
+}
+
 /**
  * Example: Send a text message from user interaction.
  */
@@ -571,6 +767,96 @@ async function App_openLink_documentation(app: App) {
   //#endregion App_openLink_documentation
 }
 
+/**
+ * Example: Send a server prompt as a chat message.
+ */
+async function App_getPrompt_sendAsMessage(app: App) {
+  //#region App_getPrompt_sendAsMessage
+  const { messages } = await app.getPrompt({
+    name: "summarize_report",
+    arguments: { reportId: "q4-2025" },
+  });
+  const text = messages
+    .flatMap(({ content }) => (content.type === "text" ? [content.text] : []))
+    .join("\n\n");
+  await app.sendMessage({ role: "user", content: [{ type: "text", text }] });
+  //#endregion App_getPrompt_sendAsMessage
+}
+
+/**
+ * Example: Autocomplete a form field from prompt argument completions.
+ */
+function App_complete_autocomplete(
+  app: App,
+  input: HTMLInputElement,
+  datalist: HTMLDataListElement,
+) {
+  //#region App_complete_autocomplete
+  input.addEventListener("input", async () => {
+    const { completion } = await app.complete({
+      ref: { type: "ref/prompt", name: "weather_report" },
+      argument: { name: "city", value: input.value },
+    });
+    datalist.replaceChildren(
+      ...completion.values.map((value) => new Option(value)),
+    );
+  });
+  //#endregion App_complete_autocomplete
+}
+
+/**
+ * Example: Show what the user entered in a host-rendered elicitation.
+ */
+function App_elicitation_showAnswer(app: App, status: HTMLElement) {
+  //#region App_elicitation_showAnswer
+  app.addEventListener("elicitation", ({ request, result }) => {
+    status.textContent =
+      result.action === "accept"
+        ? `Continuing with ${JSON.stringify(result.content)}`
+        : `"${request.message}" was ${result.action === "decline" ? "declined" : "cancelled"}`;
+  });
+  //#endregion App_elicitation_showAnswer
+}
+
+/**
+ * Example: Confirm a destructive action with a host-rendered dialog.
+ */
+async function App_requestConfirmation_destructive(app: App) {
+  //#region App_requestConfirmation_destructive
+  const { action } = await app.requestConfirmation({
+    title: "Revoke access token?",
+    body: "Other apps using this token will be signed out.",
+    actions: [
+      { id: "cancel", label: "Keep token" },
+      { id: "revoke", label: "Revoke", style: "destructive" },
+    ],
+  });
+  if (action === "revoke") {
+    await app.callServerTool({ name: "revoke_auth_token", arguments: {} });
+  }
+  //#endregion App_requestConfirmation_destructive
+}
+
+/**
+ * Example: Open an editor template in a host modal.
+ */
+async function App_requestModal_editItem(
+  app: App,
+  item: { id: string },
+  showInlineEditor: (item: { id: string }) => void,
+) {
+  //#region App_requestModal_editItem
+  const { isError } = await app.requestModal({
+    resourceUri: "ui://todo/edit-item.html",
+    title: "Edit item",
+    arguments: { itemId: item.id },
+  });
+  if (isError) {
+    showInlineEditor(item);
+  }
+  //#endregion App_requestModal_editItem
+}
+
 /**
  * Example: Toggle between inline and fullscreen display modes.
  */
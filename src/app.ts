@@ -1,32 +1,54 @@
 import {
+  type ProgressCallback,
   type RequestOptions,
   mergeCapabilities,
   ProtocolOptions,
 } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { isTerminal } from "@modelcontextprotocol/sdk/experimental/tasks/interfaces.js";
 
 import {
   CallToolRequest,
   CallToolRequestSchema,
   CallToolResult,
   CallToolResultSchema,
+  CancelTaskRequestSchema,
+  CancelTaskResult,
+  CancelTaskResultSchema,
+  CompleteRequest,
+  CompleteResult,
+  CompleteResultSchema,
   CreateMessageRequest,
   CreateMessageResult,
   CreateMessageResultSchema,
   CreateMessageResultWithTools,
   CreateMessageResultWithToolsSchema,
+  CreateTaskResult,
+  CreateTaskResultSchema,
   EmptyResultSchema,
+  ErrorCode,
+  GetPromptRequest,
+  GetPromptResult,
+  GetPromptResultSchema,
+  GetTaskResult,
+  GetTaskResultSchema,
   Implementation,
   ListResourcesRequest,
   ListResourcesResult,
   ListResourcesResultSchema,
+  ListTasksResult,
+  ListTasksResultSchema,
   ListToolsRequest,
   ListToolsRequestSchema,
   ListToolsResult,
   LoggingMessageNotification,
+  McpError,
   PingRequestSchema,
   ReadResourceRequest,
   ReadResourceResult,
   ReadResourceResultSchema,
+  ResourceUpdatedNotification,
+  ResourceUpdatedNotificationSchema,
+  SamplingMessageContentBlock,
   Tool,
   ToolAnnotations,
   ToolListChangedNotification,
@@ -38,6 +60,9 @@ import { PostMessageTransport } from "./message-transport";
 import {
   LATEST_PROTOCOL_VERSION,
   McpUiAppCapabilities,
+  McpUiBroadcastNotification,
+  McpUiElicitationNotification,
+  McpUiElicitationNotificationSchema,
   McpUiUpdateModelContextRequest,
   McpUiHostCapabilities,
   McpUiHostContext,
@@ -50,8 +75,21 @@ import {
   McpUiMessageResultSchema,
   McpUiOpenLinkRequest,
   McpUiOpenLinkResultSchema,
+  McpUiPeerMessageNotification,
+  McpUiPeerMessageNotificationSchema,
+  McpUiSamplingStreamNotificationSchema,
   McpUiDownloadFileRequest,
   McpUiDownloadFileResultSchema,
+  McpUiRequestFileRequest,
+  McpUiRequestFileResultSchema,
+  McpUiRequestConfirmationRequest,
+  McpUiRequestConfirmationResultSchema,
+  McpUiRequestModalRequest,
+  McpUiRequestModalResultSchema,
+  McpUiSaveStateRequest,
+  McpUiSaveStateResultSchema,
+  McpUiReadResourceBytesRequest,
+  McpUiReadResourceBytesResultSchema,
   McpUiResourceTeardownRequest,
   McpUiResourceTeardownRequestSchema,
   McpUiResourceTeardownResult,
@@ -67,6 +105,7 @@ import {
   McpUiToolResultNotificationSchema,
   McpUiRequestDisplayModeRequest,
   McpUiRequestDisplayModeResultSchema,
+  SAMPLING_STREAM_META_KEY,
 } from "./types";
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
@@ -75,13 +114,24 @@ import {
   validateStandardSchema,
 } from "./standard-schema";
 import { z } from "zod/v4";
+import { decodeBase64, getResourceBytes } from "./resource-bytes";
+import { ViewTaskStore } from "./task-store";
 
 export type {
   StandardSchemaV1,
   StandardSchemaWithJSON,
 } from "./standard-schema";
 
-export { PostMessageTransport } from "./message-transport";
+export {
+  PostMessageTransport,
+  type PostMessageTransportOptions,
+  type PostMessageSecurityViolation,
+} from "./message-transport";
+export {
+  MessagePortTransport,
+  transfer,
+  type MessagePortHandshake,
+} from "./message-port-transport";
 export * from "./types";
 export {
   applyHostStyleVariables,
@@ -89,6 +139,9 @@ export {
   getDocumentTheme,
   applyDocumentTheme,
 } from "./styles";
+export * from "./view-channel";
+export * from "./tool-input-partial";
+export * from "./session-recording";
 
 /**
  * Metadata key for associating a UI resource URI with a tool.
@@ -157,6 +210,17 @@ export const RESOURCE_URI_META_KEY = "ui/resourceUri";
  */
 export const RESOURCE_MIME_TYPE = "text/html;profile=mcp-app";
 
+/**
+ * MIME type for MCP UI resources that point to an externally hosted web app.
+ *
+ * The resource text is a URI list (RFC 2483) whose first entry is the page to
+ * load in place of inline HTML. Hosts that can embed such pages include this
+ * type in their `mimeTypes` capability.
+ *
+ * Used by {@link server-helpers!registerAppResource `registerAppResource`} when given a URL.
+ */
+export const RESOURCE_URL_MIME_TYPE = "text/uri-list";
+
 /**
  * Options for configuring {@link App `App`} behavior.
  *
@@ -204,6 +268,44 @@ export type AppOptions = ProtocolOptions & {
   allowUnsafeEval?: boolean;
 };
 
+/**
+ * Options for reading a server resource as raw bytes with
+ * {@link App.readServerResource `App.readServerResource`}.
+ *
+ * When the host advertises `serverResources.byteRanges`, the resource is read
+ * in chunks of at most `chunkSize` bytes via `ui/read-resource-bytes`.
+ * Otherwise it is read with a single `resources/read` request and sliced
+ * locally.
+ */
+export type ReadServerResourceOptions = Omit<RequestOptions, "onprogress"> & {
+  /**
+   * Resolve with the whole (range of the) resource as an `ArrayBuffer`, or
+   * with a `ReadableStream` that yields it chunk by chunk.
+   */
+  responseType: "arrayBuffer" | "stream";
+  /**
+   * Byte range to read. Reads the whole resource by default.
+   */
+  range?: { offset: number; length?: number };
+  /**
+   * Maximum number of bytes to request at a time. The host may return
+   * smaller chunks.
+   *
+   * @default 524288 (512 KiB)
+   */
+  chunkSize?: number;
+  /**
+   * Called after each chunk with the number of bytes read so far (`progress`)
+   * and the number of bytes in the requested range (`total`).
+   */
+  onprogress?: ProgressCallback;
+};
+
+const DEFAULT_CHUNK_SIZE = 512 * 1024;
+
+/** How often {@link App.waitForServerTask `waitForServerTask`} polls tasks that don't set a `pollInterval`. */
+const DEFAULT_TASK_POLL_INTERVAL_MS = 1000;
+
 type RequestHandlerExtra = Parameters<
   Parameters<App["setRequestHandler"]>[1]
 >[1];
@@ -223,6 +325,40 @@ export type AppToolResult<
       | (CallToolResult & { isError: true })
   : CallToolResult;
 
+/**
+ * Request metadata passed to {@link AppToolCallback `AppToolCallback`}s.
+ */
+export type AppToolExtra = RequestHandlerExtra & {
+  /**
+   * Report the tool's progress to the host, as a `notifications/progress`
+   * notification for the call. Does nothing if the host didn't ask for
+   * progress.
+   *
+   * @param progress - Progress so far, increasing with each call
+   * @param total - Total progress to reach, if known
+   * @param message - Description of the current step
+   */
+  reportProgress(
+    progress: number,
+    total?: number,
+    message?: string,
+  ): Promise<void>;
+};
+
+/**
+ * Message yielded by {@link App.streamSamplingMessage `App.streamSamplingMessage`}:
+ * content generated so far, then the complete result.
+ */
+export type SamplingStreamMessage<
+  Result = CreateMessageResult | CreateMessageResultWithTools,
+> =
+  | {
+      type: "content";
+      /** New content. Text blocks carry only the text generated since the previous one. */
+      content: SamplingMessageContentBlock;
+    }
+  | { type: "result"; result: Result };
+
 /**
  * Callback for an app-registered tool. When `In` is provided, `args` is the
  * validated/parsed input; when `In` is `undefined`, the callback receives only
@@ -238,11 +374,9 @@ export type AppToolCallback<
 > = In extends StandardSchemaV1
   ? (
       args: StandardSchemaV1.InferOutput<In>,
-      extra: RequestHandlerExtra,
+      extra: AppToolExtra,
     ) => AppToolResult<Out> | Promise<AppToolResult<Out>>
-  : (
-      extra: RequestHandlerExtra,
-    ) => AppToolResult<Out> | Promise<AppToolResult<Out>>;
+  : (extra: AppToolExtra) => AppToolResult<Out> | Promise<AppToolResult<Out>>;
 
 /**
  * Handle returned by {@link App.registerTool}. Mirrors `RegisteredTool` from
@@ -281,6 +415,9 @@ export type AppEventMap = {
   toolresult: McpUiToolResultNotification["params"];
   toolcancelled: McpUiToolCancelledNotification["params"];
   hostcontextchanged: McpUiHostContextChangedNotification["params"];
+  peermessage: McpUiPeerMessageNotification["params"];
+  elicitation: McpUiElicitationNotification["params"];
+  resourceupdated: ResourceUpdatedNotification["params"];
 };
 
 /**
@@ -351,8 +488,20 @@ export class App extends ProtocolWithEvents<
   private _hostCapabilities?: McpUiHostCapabilities;
   private _hostInfo?: Implementation;
   private _hostContext?: McpUiHostContext;
+  private _restoredState?: unknown;
   private _registeredTools: { [name: string]: RegisteredAppTool } = {};
+  private _resourceSubscriptions = new Map<
+    string,
+    Set<(params: ResourceUpdatedNotification["params"]) => void>
+  >();
   private _initializedSent = false;
+  /** Aborts the tool calls running as tasks, by task ID. */
+  private _runningTasks = new Map<string, AbortController>();
+  /** Receives the content of streamed sampling responses, by stream ID. */
+  private _samplingStreams = new Map<
+    string,
+    (content: SamplingMessageContentBlock) => void
+  >();
 
   /**
    * Warn if a host-bound method is called before {@link connect `connect`} has
@@ -384,6 +533,9 @@ export class App extends ProtocolWithEvents<
     toolresult: McpUiToolResultNotificationSchema,
     toolcancelled: McpUiToolCancelledNotificationSchema,
     hostcontextchanged: McpUiHostContextChangedNotificationSchema,
+    peermessage: McpUiPeerMessageNotificationSchema,
+    elicitation: McpUiElicitationNotificationSchema,
+    resourceupdated: ResourceUpdatedNotificationSchema,
   };
 
   /**
@@ -473,7 +625,12 @@ export class App extends ProtocolWithEvents<
     private _capabilities: McpUiAppCapabilities = {},
     private options: AppOptions = { autoResize: true },
   ) {
-    super(options);
+    // Apps running tool calls as tasks keep them in memory unless given a store
+    super(
+      _capabilities.tasks && !options.taskStore
+        ? { ...options, taskStore: new ViewTaskStore() }
+        : options,
+    );
 
     if (!options.allowUnsafeEval) {
       z.config({ jitless: true });
@@ -488,6 +645,44 @@ export class App extends ProtocolWithEvents<
     // onEventDispatch (which merges into _hostContext) fires even if the
     // user never assigns onhostcontextchanged or calls addEventListener.
     this.setEventHandler("hostcontextchanged", undefined);
+
+    this.addEventListener("resourceupdated", (params) => {
+      this._resourceSubscriptions
+        .get(params.uri)
+        ?.forEach((listener) => listener(params));
+    });
+
+    this.setNotificationHandler(
+      McpUiSamplingStreamNotificationSchema,
+      (notification) => {
+        const { streamId, content } = notification.params;
+        this._samplingStreams.get(streamId)?.(content);
+      },
+    );
+
+    if (_capabilities.tasks) {
+      // Replaces the SDK's tasks/cancel handler to also abort the tool call
+      this.replaceRequestHandler(
+        CancelTaskRequestSchema,
+        async (request, extra) => {
+          const { taskId } = request.params;
+          const task = await extra.taskStore!.getTask(taskId);
+          if (isTerminal(task.status)) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Cannot cancel task in terminal status: ${task.status}`,
+            );
+          }
+          await extra.taskStore!.updateTaskStatus(
+            taskId,
+            "cancelled",
+            "Host cancelled task execution.",
+          );
+          this._runningTasks.get(taskId)?.abort();
+          return extra.taskStore!.getTask(taskId);
+        },
+      );
+    }
   }
 
   private registerCapabilities(capabilities: McpUiAppCapabilities): void {
@@ -555,6 +750,17 @@ export class App extends ProtocolWithEvents<
         if (!registeredTool.enabled) {
           throw new Error(`Tool ${name} is disabled`);
         }
+        const toolExtra: AppToolExtra = {
+          ...extra,
+          reportProgress: async (progress, total, message) => {
+            const progressToken = extra._meta?.progressToken;
+            if (progressToken === undefined) return;
+            await extra.sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress, total, message },
+            });
+          },
+        };
         let result: CallToolResult;
         if (cbTakesArgs) {
           const schema = registeredTool.inputSchema;
@@ -567,10 +773,10 @@ export class App extends ProtocolWithEvents<
             : (rawArgs ?? {});
           result = await (
             cb as AppToolCallback<StandardSchemaV1, StandardSchemaV1>
-          )(parsedArgs, extra);
+          )(parsedArgs, toolExtra);
         } else {
           result = await (cb as AppToolCallback<undefined, StandardSchemaV1>)(
-            extra,
+            toolExtra,
           );
         }
         if (registeredTool.outputSchema && !result.isError) {
@@ -739,6 +945,32 @@ export class App extends ProtocolWithEvents<
     return this._hostContext;
   }
 
+  /**
+   * Get the state this View last saved for the current tool call.
+   *
+   * Returns the `restoredState` the host delivered in the initialization
+   * response — the value most recently passed to {@link saveState `saveState`}
+   * by a previous instance of this View (e.g. before the conversation was
+   * reloaded). Returns `undefined` if nothing was saved, the host doesn't
+   * support state persistence, or called before connection is established.
+   *
+   * The host does not validate the shape; treat it as untrusted input.
+   *
+   * @returns The restored state, or `undefined`
+   *
+   * @example Restore slider values
+   * ```ts source="./app.examples.ts#App_getRestoredState_restoreSliders"
+   * await app.connect();
+   * const saved = app.getRestoredState() as { budget?: number } | undefined;
+   * slider.value = String(saved?.budget ?? 50);
+   * ```
+   *
+   * @see {@link saveState `saveState`} for persisting state
+   */
+  getRestoredState(): unknown {
+    return this._restoredState;
+  }
+
   /**
    * Convenience handler for receiving complete tool input from the host.
    *
@@ -788,7 +1020,9 @@ export class App extends ProtocolWithEvents<
    * **Important:** Partial arguments are "healed" JSON — the host closes unclosed
    * brackets/braces to produce valid JSON. This means objects may be incomplete
    * (e.g., the last item in an array may be truncated). Use partial data only
-   * for preview UI, not for critical operations.
+   * for preview UI, not for critical operations. Arguments listed in
+   * `params.finalized` are complete; see
+   * {@link onToolInputPartial `onToolInputPartial`} for a typed listener.
    *
    * Assigning replaces the previous handler; assigning `undefined` clears it.
    * Use {@link addEventListener `addEventListener`} to attach multiple listeners
@@ -1004,11 +1238,23 @@ export class App extends ProtocolWithEvents<
   ) {
     this.warnIfRequestHandlerReplaced("onteardown", this._onteardown, callback);
     this._onteardown = callback;
+    this.registerTeardownHandler();
+  }
+
+  /**
+   * Handle `ui/resource-teardown` with {@link onteardown `onteardown`}, then
+   * release the App's resource subscriptions.
+   */
+  private registerTeardownHandler() {
     this.replaceRequestHandler(
       McpUiResourceTeardownRequestSchema,
-      (request, extra) => {
-        if (!this._onteardown) throw new Error("No onteardown handler set");
-        return this._onteardown(request.params, extra);
+      async (request, extra) => {
+        if (!this._onteardown && !this._resourceSubscriptions.size) {
+          throw new Error("No onteardown handler set");
+        }
+        const result = (await this._onteardown?.(request.params, extra)) ?? {};
+        await this.unsubscribeAllResources();
+        return result;
       },
     );
   }
@@ -1030,6 +1276,11 @@ export class App extends ProtocolWithEvents<
    *   The callback will only be invoked if the app declared tool capabilities
    *   in the constructor.
    *
+   * If the app declared the `tasks` capability and the host calls the tool as
+   * a task, the host gets the task right away and the callback runs in the
+   * background; its result (or error) becomes the task result. `extra.signal`
+   * is aborted if the host cancels the task.
+   *
    * @example Handle tool calls from the host
    * ```ts source="./app.examples.ts#App_oncalltool_handleFromHost"
    * app.oncalltool = async (params, extra) => {
@@ -1060,10 +1311,62 @@ export class App extends ProtocolWithEvents<
     this._oncalltool = callback;
     this.replaceRequestHandler(CallToolRequestSchema, (request, extra) => {
       if (!this._oncalltool) throw new Error("No oncalltool handler set");
+      if (request.params.task && extra.taskStore) {
+        return this.runToolAsTask(this._oncalltool, request.params, extra);
+      }
       return this._oncalltool(request.params, extra);
     });
   }
 
+  /**
+   * Create a task for a tool call from the host and run `handler` in the
+   * background, storing its result as the task result.
+   */
+  private async runToolAsTask(
+    handler: NonNullable<App["_oncalltool"]>,
+    params: CallToolRequest["params"],
+    extra: RequestHandlerExtra,
+  ): Promise<CreateTaskResult> {
+    const taskStore = extra.taskStore!;
+    const task = await taskStore.createTask({ ttl: extra.taskRequestedTtl });
+    const controller = new AbortController();
+    this._runningTasks.set(task.taskId, controller);
+    void (async () => {
+      let result: CallToolResult;
+      try {
+        result = await handler(params, {
+          ...extra,
+          signal: controller.signal,
+          taskId: task.taskId,
+        });
+      } catch (error) {
+        result = {
+          content: [
+            {
+              type: "text",
+              text: error instanceof Error ? error.message : String(error),
+            },
+          ],
+          isError: true,
+        };
+      } finally {
+        this._runningTasks.delete(task.taskId);
+      }
+      if (controller.signal.aborted) return;
+      try {
+        await taskStore.storeTaskResult(
+          task.taskId,
+          result.isError ? "failed" : "completed",
+          result,
+        );
+      } catch (error) {
+        // The task expired or was cancelled meanwhile
+        console.warn(`Failed to store result of task ${task.taskId}:`, error);
+      }
+    })();
+    return { task };
+  }
+
   /**
    * Convenience handler for listing available tools.
    *
@@ -1148,6 +1451,78 @@ export class App extends ProtocolWithEvents<
           );
         }
         break;
+      case "resources/subscribe":
+      case "resources/unsubscribe":
+        if (!this._hostCapabilities?.serverResources?.subscribe) {
+          throw new Error(
+            `Host does not support resource subscriptions (required for ${method})`,
+          );
+        }
+        break;
+      case "prompts/get":
+        if (!this._hostCapabilities?.serverPrompts) {
+          throw new Error(
+            `Host does not support prompts (required for ${method})`,
+          );
+        }
+        break;
+      case "tasks/get":
+      case "tasks/result":
+        if (!this._hostCapabilities?.serverTasks) {
+          throw new Error(
+            `Host does not support tasks (required for ${method})`,
+          );
+        }
+        break;
+      case "tasks/list":
+        if (!this._hostCapabilities?.serverTasks?.list) {
+          throw new Error(
+            `Host does not support listing tasks (required for ${method})`,
+          );
+        }
+        break;
+      case "tasks/cancel":
+        if (!this._hostCapabilities?.serverTasks?.cancel) {
+          throw new Error(
+            `Host does not support cancelling tasks (required for ${method})`,
+          );
+        }
+        break;
+      case "completion/complete":
+        if (!this._hostCapabilities?.serverCompletions) {
+          throw new Error(
+            `Host does not support completions (required for ${method})`,
+          );
+        }
+        break;
+      case "ui/save-state":
+        if (!this._hostCapabilities?.persistState) {
+          throw new Error(
+            `Host does not support state persistence (required for ${method})`,
+          );
+        }
+        break;
+      case "ui/request-file":
+        if (!this._hostCapabilities?.fileUpload) {
+          throw new Error(
+            `Host does not support file upload (required for ${method})`,
+          );
+        }
+        break;
+      case "ui/request-confirmation":
+        if (!this._hostCapabilities?.confirmation) {
+          throw new Error(
+            `Host does not support confirmation dialogs (required for ${method})`,
+          );
+        }
+        break;
+      case "ui/request-modal":
+        if (!this._hostCapabilities?.modal) {
+          throw new Error(
+            `Host does not support modals (required for ${method})`,
+          );
+        }
+        break;
     }
   }
 
@@ -1157,6 +1532,12 @@ export class App extends ProtocolWithEvents<
    */
   assertRequestHandlerCapability(method: AppRequest["method"]): void {
     switch (method) {
+      // Registered by the SDK when the app has a task store
+      case "tasks/get":
+      case "tasks/result":
+      case "tasks/list":
+      case "tasks/cancel":
+        return;
       case "tools/call":
       case "tools/list":
         if (!this._capabilities.tools) {
@@ -1177,24 +1558,36 @@ export class App extends ProtocolWithEvents<
    * Verify that the app supports the capability required for the given notification method.
    * @internal
    */
-  assertNotificationCapability(_method: AppNotification["method"]): void {
-    // TODO
+  assertNotificationCapability(method: AppNotification["method"]): void {
+    switch (method) {
+      case "ui/notifications/broadcast":
+        if (!this._hostCapabilities?.peerMessaging) {
+          throw new Error(
+            `Host does not support peer messaging (required for ${method})`,
+          );
+        }
+        break;
+    }
   }
 
   /**
    * Verify that task creation is supported for the given request method.
    * @internal
    */
-  protected assertTaskCapability(_method: string): void {
-    throw new Error("Tasks are not supported in MCP Apps");
+  protected assertTaskCapability(method: string): void {
+    if (method === "tools/call" && !this._hostCapabilities?.serverTasks) {
+      throw new Error(`Host does not support tasks (required for ${method})`);
+    }
   }
 
   /**
    * Verify that task handler is supported for the given method.
    * @internal
    */
-  protected assertTaskHandlerCapability(_method: string): void {
-    throw new Error("Task handlers are not supported in MCP Apps");
+  protected assertTaskHandlerCapability(method: string): void {
+    if (method !== "tools/call" || !this._capabilities.tasks) {
+      throw new Error(`App does not support tasks (required for ${method})`);
+    }
   }
 
   /**
@@ -1203,8 +1596,12 @@ export class App extends ProtocolWithEvents<
    * Apps can call tools to fetch fresh data or trigger server-side actions.
    * The host proxies the request to the actual MCP server and returns the result.
    *
+   * Pass `options.onprogress` to receive the `notifications/progress` the
+   * server sends for the call (relayed by the host), e.g. to show a
+   * determinate progress bar, and `options.signal` to cancel the call.
+   *
    * @param params - Tool name and arguments
-   * @param options - Request options (timeout, etc.)
+   * @param options - Request options (timeout, abort signal, progress callback, etc.)
    * @returns Tool execution result
    *
    * @throws {Error} If the tool does not exist on the server
@@ -1215,6 +1612,11 @@ export class App extends ProtocolWithEvents<
    * rather than throwing exceptions. Always check `result.isError` to distinguish
    * between transport failures (thrown) and tool execution failures (returned).
    *
+   * If the server asks the user for input (`elicitation/create`) while
+   * handling the call, hosts with the `elicitation` capability show the form
+   * themselves and then emit an `"elicitation"` event with the request and
+   * the user's response, so the View can reflect it.
+   *
    * @example Fetch updated weather data
    * ```ts source="./app.examples.ts#App_callServerTool_fetchWeather"
    * try {
@@ -1231,6 +1633,29 @@ export class App extends ProtocolWithEvents<
    *   console.error("Tool call failed:", error);
    * }
    * ```
+   *
+   * @example Show the progress of a slow tool
+   * ```ts source="./app.examples.ts#App_callServerTool_showProgress"
+   * const result = await app.callServerTool(
+   *   { name: "load_dataset", arguments: {} },
+   *   {
+   *     onprogress: ({ progress, total }) => {
+   *       progressBar.max = total ?? 0;
+   *       progressBar.value = progress;
+   *     },
+   *   },
+   * );
+   * ```
+   *
+   * @example Show what the user entered in a host-rendered elicitation
+   * ```ts source="./app.examples.ts#App_elicitation_showAnswer"
+   * app.addEventListener("elicitation", ({ request, result }) => {
+   *   status.textContent =
+   *     result.action === "accept"
+   *       ? `Continuing with ${JSON.stringify(result.content)}`
+   *       : `"${request.message}" was ${result.action === "decline" ? "declined" : "cancelled"}`;
+   * });
+   * ```
    */
   async callServerTool(
     params: CallToolRequest["params"],
@@ -1257,6 +1682,189 @@ export class App extends ProtocolWithEvents<
     );
   }
 
+  /**
+   * Start a tool on the originating MCP server as an MCP task (proxied
+   * through the host).
+   *
+   * Unlike {@link callServerTool `callServerTool`}, this returns as soon as
+   * the server created the task. The task keeps running if the View is
+   * unmounted, so save its ID (e.g. with {@link saveState `saveState`}) and
+   * follow it with {@link waitForServerTask `waitForServerTask`} when the View
+   * is mounted again.
+   *
+   * Requires the host's `serverTasks` capability, and a server tool that
+   * supports task execution.
+   *
+   * @param params - Tool name and arguments
+   * @param options - Request options; `options.task` sets the requested `ttl`
+   * @returns The created task
+   *
+   * @throws {Error} If the host or server rejects the request
+   *
+   * @example Run a report as a task and resume it after re-mounting
+   * ```ts source="./app.examples.ts#App_callServerToolAsTask_resume"
+   * await app.connect();
+   * const saved = app.getRestoredState() as { taskId?: string } | undefined;
+   * let taskId = saved?.taskId;
+   * if (!taskId) {
+   *   const { task } = await app.callServerToolAsTask({
+   *     name: "generate_report",
+   *     arguments: { quarter: "Q3" },
+   *   });
+   *   taskId = task.taskId;
+   *   await app.saveState({ taskId });
+   * }
+   * const result = await app.waitForServerTask(taskId, {
+   *   onstatus: (task) => {
+   *     status.textContent = task.statusMessage ?? task.status;
+   *   },
+   * });
+   * renderReport(result);
+   * ```
+   */
+  async callServerToolAsTask(
+    params: CallToolRequest["params"],
+    options?: RequestOptions,
+  ): Promise<CreateTaskResult> {
+    this._assertInitialized("callServerToolAsTask");
+    return await this.request(
+      { method: "tools/call", params },
+      CreateTaskResultSchema,
+      { ...options, task: options?.task ?? {} },
+    );
+  }
+
+  /**
+   * Get the status of a task on the originating MCP server (proxied through
+   * the host).
+   *
+   * @param taskId - ID of the task, from {@link callServerToolAsTask `callServerToolAsTask`}
+   * @param options - Request options (timeout, etc.)
+   * @returns The task, including its `status` and `statusMessage`
+   */
+  async getServerTask(
+    taskId: string,
+    options?: RequestOptions,
+  ): Promise<GetTaskResult> {
+    this._assertInitialized("getServerTask");
+    return await this.request(
+      { method: "tasks/get", params: { taskId } },
+      GetTaskResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Get the result of a tool call running as a task on the originating MCP
+   * server (proxied through the host).
+   *
+   * The server answers once the task has finished, so this waits for it.
+   *
+   * @param taskId - ID of the task, from {@link callServerToolAsTask `callServerToolAsTask`}
+   * @param options - Request options (timeout, etc.)
+   * @returns The tool call result
+   *
+   * @throws {Error} If the task was cancelled, or is unknown to the server
+   */
+  async getServerTaskResult(
+    taskId: string,
+    options?: RequestOptions,
+  ): Promise<CallToolResult> {
+    this._assertInitialized("getServerTaskResult");
+    return await this.request(
+      { method: "tasks/result", params: { taskId } },
+      CallToolResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * List the tasks on the originating MCP server (proxied through the host).
+   *
+   * Requires the host's `serverTasks.list` capability.
+   *
+   * @param cursor - Pagination cursor from a previous result
+   * @param options - Request options (timeout, etc.)
+   * @returns The tasks, and a cursor if there are more
+   */
+  async listServerTasks(
+    cursor?: string,
+    options?: RequestOptions,
+  ): Promise<ListTasksResult> {
+    this._assertInitialized("listServerTasks");
+    return await this.request(
+      { method: "tasks/list", params: cursor ? { cursor } : {} },
+      ListTasksResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Cancel a task on the originating MCP server (proxied through the host).
+   *
+   * Requires the host's `serverTasks.cancel` capability.
+   *
+   * @param taskId - ID of the task, from {@link callServerToolAsTask `callServerToolAsTask`}
+   * @param options - Request options (timeout, etc.)
+   * @returns The cancelled task
+   *
+   * @throws {Error} If the task already finished
+   */
+  async cancelServerTask(
+    taskId: string,
+    options?: RequestOptions,
+  ): Promise<CancelTaskResult> {
+    this._assertInitialized("cancelServerTask");
+    return await this.request(
+      { method: "tasks/cancel", params: { taskId } },
+      CancelTaskResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Poll a task on the originating MCP server until it finishes, and return
+   * its result.
+   *
+   * Polls at the task's `pollInterval` (1 second if the server doesn't set
+   * one), calling `options.onstatus` with each status. Use it to follow a task
+   * started by {@link callServerToolAsTask `callServerToolAsTask`}, including
+   * one started before the View was re-mounted.
+   *
+   * @param taskId - ID of the task
+   * @param options - Request options, and `onstatus` to observe progress
+   * @returns The tool call result; failed tool calls have `isError: true`
+   *
+   * @throws {Error} If the task was cancelled, or `options.signal` is aborted
+   */
+  async waitForServerTask(
+    taskId: string,
+    options?: RequestOptions & { onstatus?: (task: GetTaskResult) => void },
+  ): Promise<CallToolResult> {
+    for (;;) {
+      const task = await this.getServerTask(taskId, options);
+      options?.onstatus?.(task);
+      if (task.status === "cancelled") {
+        throw new Error(`Task ${taskId} was cancelled`);
+      }
+      if (isTerminal(task.status)) break;
+      await new Promise<void>((resolve, reject) => {
+        const signal = options?.signal;
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        }, task.pollInterval ?? DEFAULT_TASK_POLL_INTERVAL_MS);
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+    return this.getServerTaskResult(taskId, options);
+  }
+
   /**
    * Read a resource from the originating MCP server (proxied through the host).
    *
@@ -1265,9 +1873,17 @@ export class App extends ProtocolWithEvents<
    * or custom schemes like `videos://bunny-1mb`). The host proxies the request to
    * the actual MCP server and returns the resource content.
    *
+   * Pass {@link ReadServerResourceOptions `ReadServerResourceOptions`} with a
+   * `responseType` to get the raw bytes instead, as an `ArrayBuffer` or a
+   * `ReadableStream`. Large binary resources are then transferred in chunks
+   * (when the host supports `serverResources.byteRanges`), optionally limited
+   * to a byte range, with progress reported per chunk.
+   *
    * @param params - Resource URI to read
-   * @param options - Request options (timeout, etc.)
-   * @returns Resource content with URI, name, description, mimeType, and contents array
+   * @param options - Request options (timeout, etc.), or
+   *   {@link ReadServerResourceOptions `ReadServerResourceOptions`} to read raw bytes
+   * @returns Resource content with URI, name, description, mimeType, and
+   *   contents array; or the bytes as an `ArrayBuffer` or `ReadableStream`
    *
    * @throws {Error} If the resource does not exist on the server
    * @throws {Error} If the request times out or the connection is lost
@@ -1295,18 +1911,139 @@ export class App extends ProtocolWithEvents<
    * }
    * ```
    *
+   * @example Stream a large PDF with a progress bar
+   * ```ts source="./app.examples.ts#App_readServerResource_streamWithProgress"
+   * const stream = await app.readServerResource(
+   *   { uri: "pdfs://annual-report" },
+   *   {
+   *     responseType: "stream",
+   *     onprogress: ({ progress, total }) => {
+   *       progressBar.value = total ? progress / total : 0;
+   *     },
+   *   },
+   * );
+   * const reader = stream.getReader();
+   * for (let r = await reader.read(); !r.done; r = await reader.read()) {
+   *   loader.append(r.value);
+   * }
+   * ```
+   *
+   * @example Read a byte range as an ArrayBuffer
+   * ```ts source="./app.examples.ts#App_readServerResource_byteRange"
+   * const header = await app.readServerResource(
+   *   { uri: "videos://bunny-1mb" },
+   *   { responseType: "arrayBuffer", range: { offset: 0, length: 64 } },
+   * );
+   * const view = new DataView(header);
+   * console.log("Box size:", view.getUint32(0));
+   * ```
+   *
    * @see {@link listServerResources `listServerResources`} to discover available resources
+   * @see {@link ReadServerResourceOptions `ReadServerResourceOptions`} for reading raw bytes in chunks
    */
   async readServerResource(
     params: ReadResourceRequest["params"],
     options?: RequestOptions,
-  ): Promise<ReadResourceResult> {
+  ): Promise<ReadResourceResult>;
+  async readServerResource(
+    params: ReadResourceRequest["params"],
+    options: ReadServerResourceOptions & { responseType: "arrayBuffer" },
+  ): Promise<ArrayBuffer>;
+  async readServerResource(
+    params: ReadResourceRequest["params"],
+    options: ReadServerResourceOptions & { responseType: "stream" },
+  ): Promise<ReadableStream<Uint8Array>>;
+  async readServerResource(
+    params: ReadResourceRequest["params"],
+    options?: RequestOptions | ReadServerResourceOptions,
+  ): Promise<ReadResourceResult | ArrayBuffer | ReadableStream<Uint8Array>> {
     this._assertInitialized("readServerResource");
-    return await this.request(
-      { method: "resources/read", params },
-      ReadResourceResultSchema,
-      options,
-    );
+    if (!options || !("responseType" in options)) {
+      return await this.request(
+        { method: "resources/read", params },
+        ReadResourceResultSchema,
+        options,
+      );
+    }
+    const chunks = this._readServerResourceBytes(params.uri, options);
+    if (options.responseType === "stream") {
+      return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const { done, value } = await chunks.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        },
+        async cancel() {
+          await chunks.return(undefined);
+        },
+      });
+    }
+    const parts: Uint8Array[] = [];
+    for await (const chunk of chunks) parts.push(chunk);
+    const buffer = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      buffer.set(part, offset);
+      offset += part.length;
+    }
+    return buffer.buffer;
+  }
+
+  /**
+   * Read (a range of) a resource chunk by chunk, using `ui/read-resource-bytes`
+   * when the host supports it and a single `resources/read` otherwise.
+   */
+  private async *_readServerResourceBytes(
+    uri: string,
+    {
+      responseType: _,
+      range,
+      chunkSize = DEFAULT_CHUNK_SIZE,
+      onprogress,
+      ...options
+    }: ReadServerResourceOptions,
+  ): AsyncGenerator<Uint8Array, void, undefined> {
+    const start = range?.offset ?? 0;
+    let end = range?.length === undefined ? undefined : start + range.length;
+
+    if (!this._hostCapabilities?.serverResources?.byteRanges) {
+      const { bytes } = getResourceBytes(
+        await this.request(
+          { method: "resources/read", params: { uri } },
+          ReadResourceResultSchema,
+          options,
+        ),
+      );
+      const chunk = bytes.subarray(start, end);
+      onprogress?.({ progress: chunk.length, total: chunk.length });
+      yield chunk;
+      return;
+    }
+
+    let offset = start;
+    do {
+      const length = Math.max(
+        0,
+        end === undefined ? chunkSize : Math.min(chunkSize, end - offset),
+      );
+      const result = await this.request(
+        <McpUiReadResourceBytesRequest>{
+          method: "ui/read-resource-bytes",
+          params: { uri, offset, length },
+        },
+        McpUiReadResourceBytesResultSchema,
+        options,
+      );
+      end = Math.min(end ?? result.totalBytes, result.totalBytes);
+      const chunk = decodeBase64(result.blob);
+      if (chunk.length === 0) break;
+      offset += chunk.length;
+      onprogress?.({ progress: offset - start, total: end - start });
+      yield chunk;
+    } while (offset < end);
   }
 
   /**
@@ -1357,6 +2094,176 @@ export class App extends ProtocolWithEvents<
     );
   }
 
+  /**
+   * Subscribe to updates of a resource on the originating MCP server (proxied
+   * through the host).
+   *
+   * `onUpdate` is called with each `notifications/resources/updated` the server
+   * sends for `uri`; read the resource again with
+   * {@link readServerResource `readServerResource`} to get its new contents.
+   * Use this instead of polling a tool on a timer when the server supports
+   * subscriptions. Requires the host's `serverResources.subscribe` capability.
+   *
+   * Several subscriptions to the same `uri` share one server subscription.
+   * The App unsubscribes from every resource when the host tears it down.
+   *
+   * @param uri - URI of the resource to watch
+   * @param onUpdate - Called whenever the server reports that the resource changed
+   * @param options - Request options (timeout, abort signal, etc.)
+   * @returns A function that cancels this subscription
+   *
+   * @throws {Error} If the request times out or the connection is lost
+   * @throws {Error} If the host or server rejects the subscription
+   *
+   * @example Re-render live metrics whenever they change
+   * ```ts source="./app.examples.ts#App_subscribeResource_liveMetrics"
+   * const unsubscribe = await app.subscribeResource(
+   *   "metrics://cpu",
+   *   async ({ uri }) => {
+   *     const { contents } = await app.readServerResource({ uri });
+   *     const content = contents[0];
+   *     if (content && "text" in content) {
+   *       renderMetrics(JSON.parse(content.text));
+   *     }
+   *   },
+   * );
+   * pauseButton.onclick = () => unsubscribe();
+   * ```
+   *
+   * @see `SubscribeRequest` from @modelcontextprotocol/sdk for the request type
+   */
+  async subscribeResource(
+    uri: string,
+    onUpdate: (params: ResourceUpdatedNotification["params"]) => void,
+    options?: RequestOptions,
+  ): Promise<() => Promise<void>> {
+    this._assertInitialized("subscribeResource");
+    let listeners = this._resourceSubscriptions.get(uri);
+    if (listeners) {
+      listeners.add(onUpdate);
+    } else {
+      listeners = new Set([onUpdate]);
+      this._resourceSubscriptions.set(uri, listeners);
+      this.registerTeardownHandler();
+      try {
+        await this.request(
+          { method: "resources/subscribe", params: { uri } },
+          EmptyResultSchema,
+          options,
+        );
+      } catch (error) {
+        this._resourceSubscriptions.delete(uri);
+        throw error;
+      }
+    }
+    const subscription = listeners;
+    return async () => {
+      if (!subscription.delete(onUpdate) || subscription.size) return;
+      if (this._resourceSubscriptions.get(uri) !== subscription) return;
+      this._resourceSubscriptions.delete(uri);
+      await this.request(
+        { method: "resources/unsubscribe", params: { uri } },
+        EmptyResultSchema,
+      );
+    };
+  }
+
+  private async unsubscribeAllResources() {
+    const uris = [...this._resourceSubscriptions.keys()];
+    this._resourceSubscriptions.clear();
+    await Promise.allSettled(
+      uris.map((uri) =>
+        this.request(
+          { method: "resources/unsubscribe", params: { uri } },
+          EmptyResultSchema,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get a prompt from the originating MCP server (proxied through the host).
+   *
+   * Returns the prompt's messages with `arguments` filled in, e.g. to preview
+   * a prompt or to send it with {@link sendMessage `sendMessage`}. Requires
+   * the host's `serverPrompts` capability.
+   *
+   * @param params - Prompt name and arguments
+   * @param options - Request options (timeout, etc.)
+   * @returns The prompt's description and messages
+   *
+   * @throws {Error} If the prompt does not exist on the server
+   * @throws {Error} If the request times out or the connection is lost
+   * @throws {Error} If the host rejects the request
+   *
+   * @example Send a server prompt as a chat message
+   * ```ts source="./app.examples.ts#App_getPrompt_sendAsMessage"
+   * const { messages } = await app.getPrompt({
+   *   name: "summarize_report",
+   *   arguments: { reportId: "q4-2025" },
+   * });
+   * const text = messages
+   *   .flatMap(({ content }) => (content.type === "text" ? [content.text] : []))
+   *   .join("\n\n");
+   * await app.sendMessage({ role: "user", content: [{ type: "text", text }] });
+   * ```
+   *
+   * @see `GetPromptRequest` from @modelcontextprotocol/sdk for the request type
+   */
+  async getPrompt(
+    params: GetPromptRequest["params"],
+    options?: RequestOptions,
+  ): Promise<GetPromptResult> {
+    this._assertInitialized("getPrompt");
+    return await this.request(
+      { method: "prompts/get", params },
+      GetPromptResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Ask the originating MCP server to complete a prompt or resource template
+   * argument (proxied through the host).
+   *
+   * Use this for autocompletion in forms whose fields map to prompt
+   * arguments or resource template variables. Requires the host's
+   * `serverCompletions` capability.
+   *
+   * @param params - The prompt or resource template, the argument being completed and its current value
+   * @param options - Request options (timeout, abort signal, etc.)
+   * @returns Suggested values (at most 100), and whether there are more
+   *
+   * @throws {Error} If the request times out or the connection is lost
+   * @throws {Error} If the host rejects the request
+   *
+   * @example Suggest cities while the user types
+   * ```ts source="./app.examples.ts#App_complete_autocomplete"
+   * input.addEventListener("input", async () => {
+   *   const { completion } = await app.complete({
+   *     ref: { type: "ref/prompt", name: "weather_report" },
+   *     argument: { name: "city", value: input.value },
+   *   });
+   *   datalist.replaceChildren(
+   *     ...completion.values.map((value) => new Option(value)),
+   *   );
+   * });
+   * ```
+   *
+   * @see `CompleteRequest` from @modelcontextprotocol/sdk for the request type
+   */
+  async complete(
+    params: CompleteRequest["params"],
+    options?: RequestOptions,
+  ): Promise<CompleteResult> {
+    this._assertInitialized("complete");
+    return await this.request(
+      { method: "completion/complete", params },
+      CompleteResultSchema,
+      options,
+    );
+  }
+
   /**
    * Request an LLM completion from the host (standard MCP `sampling/createMessage`).
    *
@@ -1441,6 +2348,115 @@ export class App extends ProtocolWithEvents<
     );
   }
 
+  /**
+   * Request an LLM completion from the host, receiving its content as it is
+   * generated.
+   *
+   * Sends the same `sampling/createMessage` request as
+   * {@link createSamplingMessage `createSamplingMessage`}, asking the host to
+   * stream the response with `ui/notifications/sampling-stream`. Yields each
+   * piece of content the host streams, then the complete result. Hosts
+   * without {@link McpUiHostCapabilities `sampling.streaming`} only respond
+   * with the result, so it is the only message yielded.
+   *
+   * Stopping the iteration early (e.g. with `break`) cancels the request.
+   *
+   * @param params - Standard MCP `CreateMessageRequest` params, as for
+   *   {@link createSamplingMessage `createSamplingMessage`}
+   * @param options - Request options (timeout, abort signal)
+   * @returns Messages with the streamed content, ending with the result
+   *
+   * @throws {Error} If the host rejects the request or does not support sampling
+   * @throws {Error} If the request times out or the connection is lost
+   *
+   * @example Show the answer as it is typed out
+   * ```ts source="./app.examples.ts#App_streamSamplingMessage_typeOut"
+   * const stream = app.streamSamplingMessage({
+   *   messages: [
+   *     {
+   *       role: "user",
+   *       content: { type: "text", text: `Summarize:\n${transcript}` },
+   *     },
+   *   ],
+   *   maxTokens: 500,
+   * });
+   * output.textContent = "";
+   * for await (const message of stream) {
+   *   if (message.type === "content" && message.content.type === "text") {
+   *     output.textContent += message.content.text;
+   *   } else if (
+   *     message.type === "result" &&
+   *     message.result.content.type === "text"
+   *   ) {
+   *     // Hosts without sampling.streaming only send the result
+   *     output.textContent = message.result.content.text;
+   *   }
+   * }
+   * ```
+   *
+   * @see {@link SamplingStreamMessage `SamplingStreamMessage`} for the yielded messages
+   */
+  streamSamplingMessage(
+    params: CreateMessageRequest["params"] & { tools?: undefined },
+    options?: RequestOptions,
+  ): AsyncGenerator<SamplingStreamMessage<CreateMessageResult>, void, void>;
+  streamSamplingMessage(
+    params: CreateMessageRequest["params"],
+    options?: RequestOptions,
+  ): AsyncGenerator<
+    SamplingStreamMessage<CreateMessageResultWithTools>,
+    void,
+    void
+  >;
+  async *streamSamplingMessage(
+    params: CreateMessageRequest["params"],
+    options?: RequestOptions,
+  ): AsyncGenerator<SamplingStreamMessage, void, void> {
+    this._assertInitialized("streamSamplingMessage");
+    const streamId = crypto.randomUUID();
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options?.signal?.reason);
+    if (options?.signal?.aborted) onAbort();
+    options?.signal?.addEventListener("abort", onAbort);
+
+    const received: SamplingMessageContentBlock[] = [];
+    let wake: (() => void) | undefined;
+    let done = false;
+    this._samplingStreams.set(streamId, (content) => {
+      received.push(content);
+      wake?.();
+    });
+    const response = this.createSamplingMessage(
+      {
+        ...params,
+        _meta: { ...params._meta, [SAMPLING_STREAM_META_KEY]: streamId },
+      },
+      { ...options, signal: controller.signal },
+    ).finally(() => {
+      done = true;
+      wake?.();
+    });
+    // Rejections are rethrown below, unless the caller stopped iterating
+    response.catch(() => {});
+
+    try {
+      // The host sends all content before responding
+      while (received.length || !done) {
+        if (!received.length) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+          continue;
+        }
+        yield { type: "content", content: received.shift()! };
+      }
+      yield { type: "result", result: await response };
+    } finally {
+      this._samplingStreams.delete(streamId);
+      options?.signal?.removeEventListener("abort", onAbort);
+      if (!done) controller.abort();
+    }
+  }
+
   /**
    * Send a message to the host's chat interface.
    *
@@ -1715,6 +2731,246 @@ export class App extends ProtocolWithEvents<
     );
   }
 
+  /**
+   * Ask the host to let the user pick local files.
+   *
+   * The inverse of {@link downloadFile `downloadFile`}: the host shows its own
+   * file picker, so the sandboxed View never needs direct file system access.
+   * Requires the host's `fileUpload` capability.
+   *
+   * The host returns each file as an `EmbeddedResource` with a base64 `blob`,
+   * or as a `ResourceLink` to a location it uploaded the file to (e.g. for
+   * files too large to embed).
+   *
+   * @param params - Accepted file types, whether to allow several files, and a size limit
+   * @param options - Request options (timeout, etc.)
+   * @returns The picked files; `contents` is empty if the user cancelled, and `isError` is `true` if the host denied the request
+   *
+   * @throws {Error} If the request times out or the connection is lost
+   *
+   * @example Let the user pick a CSV file
+   * ```ts
+   * const { contents, isError } = await app.requestFile({
+   *   accept: [".csv", "text/csv"],
+   *   maxBytes: 5 * 1024 * 1024,
+   * });
+   * const file = contents[0];
+   * if (!isError && file?.type === "resource" && "blob" in file.resource) {
+   *   const csv = new TextDecoder().decode(
+   *     Uint8Array.from(atob(file.resource.blob), (c) => c.charCodeAt(0)),
+   *   );
+   *   renderTable(csv);
+   * }
+   * ```
+   *
+   * @example Let the user pick several images
+   * ```ts
+   * const { contents } = await app.requestFile({
+   *   accept: ["image/*"],
+   *   multiple: true,
+   * });
+   * for (const file of contents) {
+   *   if (file.type === "resource_link") {
+   *     addThumbnail(file.uri);
+   *   } else if ("blob" in file.resource) {
+   *     addThumbnail(`data:${file.resource.mimeType};base64,${file.resource.blob}`);
+   *   }
+   * }
+   * ```
+   *
+   * @see {@link McpUiRequestFileRequest `McpUiRequestFileRequest`} for request structure
+   * @see {@link McpUiRequestFileResult `McpUiRequestFileResult`} for result structure
+   */
+  requestFile(
+    params: McpUiRequestFileRequest["params"] = {},
+    options?: RequestOptions,
+  ) {
+    this._assertInitialized("requestFile");
+    return this.request(
+      <McpUiRequestFileRequest>{
+        method: "ui/request-file",
+        params,
+      },
+      McpUiRequestFileResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Ask the host to show a confirmation dialog.
+   *
+   * A dialog drawn inside the View is confined to its iframe and could be
+   * faked by any content, so users can't tell whether to trust it. The host's
+   * dialog is rendered outside the View, making it suitable to confirm
+   * destructive or consequential actions. Requires the host's `confirmation`
+   * capability.
+   *
+   * @param params - Title, body text and the actions to offer (default: "Cancel" and "OK", with ids `"cancel"` and `"confirm"`)
+   * @param options - Request options (timeout, etc.)
+   * @returns The `action` id the user picked, or no `action` if they dismissed the dialog
+   *
+   * @throws {Error} If the request times out or the connection is lost
+   *
+   * @example Confirm a destructive action
+   * ```ts source="./app.examples.ts#App_requestConfirmation_destructive"
+   * const { action } = await app.requestConfirmation({
+   *   title: "Revoke access token?",
+   *   body: "Other apps using this token will be signed out.",
+   *   actions: [
+   *     { id: "cancel", label: "Keep token" },
+   *     { id: "revoke", label: "Revoke", style: "destructive" },
+   *   ],
+   * });
+   * if (action === "revoke") {
+   *   await app.callServerTool({ name: "revoke_auth_token", arguments: {} });
+   * }
+   * ```
+   *
+   * @see {@link McpUiRequestConfirmationRequest `McpUiRequestConfirmationRequest`} for request structure
+   * @see {@link McpUiRequestConfirmationResult `McpUiRequestConfirmationResult`} for result structure
+   */
+  requestConfirmation(
+    params: McpUiRequestConfirmationRequest["params"],
+    options?: RequestOptions,
+  ) {
+    this._assertInitialized("requestConfirmation");
+    return this.request(
+      <McpUiRequestConfirmationRequest>{
+        method: "ui/request-confirmation",
+        params,
+      },
+      McpUiRequestConfirmationResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Ask the host to open another UI template of the same server in a modal.
+   *
+   * The host renders the `ui://` resource as a separate View in a modal
+   * dialog, and sends it `arguments` as its tool input (see
+   * {@link ontoolinput `ontoolinput`}). The modal View closes itself with
+   * {@link requestTeardown `requestTeardown`}, and can report back to this
+   * View with {@link broadcast `broadcast`}. Requires the host's `modal`
+   * capability.
+   *
+   * @param params - The template's `resourceUri`, an optional title and the arguments for the modal View
+   * @param options - Request options (timeout, etc.)
+   * @returns Once the modal is shown; `isError` is `true` if the host did not open it
+   *
+   * @throws {Error} If the request times out or the connection is lost
+   *
+   * @example Edit an item in a modal
+   * ```ts source="./app.examples.ts#App_requestModal_editItem"
+   * const { isError } = await app.requestModal({
+   *   resourceUri: "ui://todo/edit-item.html",
+   *   title: "Edit item",
+   *   arguments: { itemId: item.id },
+   * });
+   * if (isError) {
+   *   showInlineEditor(item);
+   * }
+   * ```
+   *
+   * @see {@link McpUiRequestModalRequest `McpUiRequestModalRequest`} for request structure
+   * @see {@link McpUiRequestModalResult `McpUiRequestModalResult`} for result structure
+   */
+  requestModal(
+    params: McpUiRequestModalRequest["params"],
+    options?: RequestOptions,
+  ) {
+    this._assertInitialized("requestModal");
+    return this.request(
+      <McpUiRequestModalRequest>{
+        method: "ui/request-modal",
+        params,
+      },
+      McpUiRequestModalResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Ask the host to persist this View's state.
+   *
+   * The host stores the state for the current tool call and returns it via
+   * {@link getRestoredState `getRestoredState`} the next time this View is
+   * created for the same call (e.g. after the conversation is reloaded). Each
+   * call replaces the previously saved state; pass `null` to clear it.
+   *
+   * Requires the host's `persistState` capability. State must be
+   * JSON-serializable and no larger than `persistState.maxBytes`.
+   *
+   * @param state - JSON-serializable state, or `null` to clear
+   * @param options - Request options (timeout, etc.)
+   *
+   * @throws {Error} If the host rejects the state (e.g. it is too large) or
+   *   does not support state persistence
+   *
+   * @example Save slider values as they change
+   * ```ts source="./app.examples.ts#App_saveState_sliders"
+   * slider.addEventListener("change", () => {
+   *   app.saveState({ budget: Number(slider.value) });
+   * });
+   * ```
+   *
+   * @see {@link McpUiSaveStateRequest `McpUiSaveStateRequest`} for request structure
+   */
+  saveState(state: unknown, options?: RequestOptions) {
+    this._assertInitialized("saveState");
+    return this.request(
+      <McpUiSaveStateRequest>{
+        method: "ui/save-state",
+        params: { state },
+      },
+      McpUiSaveStateResultSchema,
+      options,
+    );
+  }
+
+  /**
+   * Broadcast a message to other Views in the conversation.
+   *
+   * The host delivers the message to the Views it considers peers of this
+   * one — by default, other Views of the same MCP server — which receive it
+   * as a `"peermessage"` event. The sender does not receive its own
+   * broadcasts. Delivery is best-effort: this is a fire-and-forget
+   * notification, and there may be no peers listening.
+   *
+   * Requires the host's `peerMessaging` capability.
+   *
+   * @param topic - Application-defined topic, e.g. `"selection"`
+   * @param payload - JSON-serializable message payload
+   * @returns Promise that resolves when the notification is sent
+   *
+   * @throws {Error} If the host does not support peer messaging
+   *
+   * @example Keep selection in sync across Views
+   * ```ts source="./app.examples.ts#App_broadcast_syncSelection"
+   * // Tell peer Views which region the user selected
+   * map.on("select", (region) => {
+   *   app.broadcast("selection", { regionId: region.id });
+   * });
+   *
+   * // Follow selections made in peer Views
+   * app.addEventListener("peermessage", ({ topic, payload }) => {
+   *   if (topic === "selection") {
+   *     map.highlight((payload as { regionId: string }).regionId);
+   *   }
+   * });
+   * ```
+   *
+   * @see {@link McpUiBroadcastNotification `McpUiBroadcastNotification`} for notification structure
+   * @see {@link McpUiPeerMessageNotification `McpUiPeerMessageNotification`} for the delivered message
+   */
+  broadcast(topic: string, payload?: unknown) {
+    this._assertInitialized("broadcast");
+    return this.notification(<McpUiBroadcastNotification>{
+      method: "ui/notifications/broadcast",
+      params: { topic, payload },
+    });
+  }
+
   /**
    * Request the host to tear down this app.
    *
@@ -1919,7 +3175,7 @@ export class App extends ProtocolWithEvents<
    * If initialization fails, the connection is automatically closed and an error
    * is thrown.
    *
-   * @param transport - Transport layer (typically {@link PostMessageTransport `PostMessageTransport`})
+   * @param transport - Transport layer (typically {@link PostMessageTransport `PostMessageTransport`}, or {@link MessagePortTransport `MessagePortTransport`} offering a port to `window.parent`)
    * @param options - Request options for the initialize request
    *
    * @throws {Error} If initialization fails or connection is lost
@@ -1944,6 +3200,7 @@ export class App extends ProtocolWithEvents<
     transport: Transport = new PostMessageTransport(
       window.parent,
       window.parent,
+      { pinOrigin: true },
     ),
     options?: RequestOptions,
   ): Promise<void> {
@@ -1976,6 +3233,7 @@ export class App extends ProtocolWithEvents<
       this._hostCapabilities = result.hostCapabilities;
       this._hostInfo = result.hostInfo;
       this._hostContext = result.hostContext;
+      this._restoredState = result.restoredState;
 
       await this.notification(<McpUiInitializedNotification>{
         method: "ui/notifications/initialized",
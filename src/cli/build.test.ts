@@ -0,0 +1,30 @@
+import { describe, it, expect } from "bun:test";
+import { findLocalAssets } from "./build";
+
+describe("findLocalAssets", () => {
+  it("finds scripts and stylesheets loaded from local files", () => {
+    const html = `<!doctype html>
+      <head>
+        <script type="module" crossorigin src="/assets/mcp-app-3f2a.js"></script>
+        <link rel="stylesheet" href="./assets/mcp-app.css">
+      </head>`;
+
+    expect(findLocalAssets(html)).toEqual([
+      "/assets/mcp-app-3f2a.js",
+      "./assets/mcp-app.css",
+    ]);
+  });
+
+  it("ignores inlined code and remote or data URLs", () => {
+    const html = `<!doctype html>
+      <head>
+        <script type="module">console.log("inlined");</script>
+        <script src="https://cdn.example.com/lib.js"></script>
+        <link rel="icon" href="data:image/png;base64,AAAA">
+        <link rel="preconnect" href="//fonts.example.com">
+        <style>body { margin: 0 }</style>
+      </head>`;
+
+    expect(findLocalAssets(html)).toEqual([]);
+  });
+});
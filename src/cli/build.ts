@@ -0,0 +1,59 @@
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { run } from "./processes.js";
+
+/**
+ * HTML entry points of a project's Views: the `.html` files at its root, each
+ * bundled into a file of the same name in `dist/`.
+ */
+export function findViewEntries(projectDir: string): string[] {
+  const entries = readdirSync(projectDir)
+    .filter((name) => name.endsWith(".html"))
+    .sort();
+  if (entries.length === 0) {
+    throw new Error(`No View found: expected an .html file in ${projectDir}`);
+  }
+  return entries;
+}
+
+/**
+ * Local files a bundled View still loads: hosts serve a View as a single
+ * HTML resource, so these would be missing.
+ */
+export function findLocalAssets(html: string): string[] {
+  const pattern =
+    /<(?:script|link)\b[^>]*?\b(?:src|href)=["'](?![a-z][a-z0-9+.-]*:|\/\/|#)([^"']+)["']/gi;
+  return [...html.matchAll(pattern)].map(([, asset]) => asset);
+}
+
+/**
+ * Type-check a project and bundle each of its Views into a single HTML file.
+ *
+ * @returns The bundled files, relative to `projectDir`
+ * @throws If a check fails, or a bundle loads local assets (the project's
+ *   Vite config must use `vite-plugin-singlefile`)
+ */
+export async function build(projectDir: string): Promise<string[]> {
+  const entries = findViewEntries(projectDir);
+  if (existsSync(join(projectDir, "tsconfig.json"))) {
+    await run("tsc", "tsc", ["--noEmit"], { cwd: projectDir });
+  }
+  const outputs: string[] = [];
+  for (const entry of entries) {
+    await run("view", "vite", ["build"], {
+      cwd: projectDir,
+      env: { INPUT: entry, NODE_ENV: "production" },
+    });
+    const output = join("dist", entry);
+    const assets = findLocalAssets(
+      readFileSync(join(projectDir, output), "utf-8"),
+    );
+    if (assets.length > 0) {
+      throw new Error(
+        `${output} loads local files (${assets.join(", ")}), which hosts can't serve: bundle them with vite-plugin-singlefile`,
+      );
+    }
+    outputs.push(output);
+  }
+  return outputs;
+}
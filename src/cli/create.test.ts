@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BASIC_HOST_PACKAGE, createProject, type Framework } from "./create";
+
+describe("createProject", () => {
+  let tmp: string;
+
+  beforeEach(() => {
+    tmp = mkdtempSync(join(tmpdir(), "mcp-apps-create-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it("copies the framework's example without its build output", () => {
+    const dir = join(tmp, "My Weather App");
+
+    const files = createProject(dir, "react");
+
+    expect(files).toEqual(
+      expect.arrayContaining([
+        ".gitignore",
+        "main.ts",
+        "mcp-app.html",
+        "package.json",
+        "server.ts",
+        join("src", "mcp-app.tsx"),
+        "tsconfig.json",
+        "vite.config.ts",
+      ]),
+    );
+    for (const file of files) {
+      expect(existsSync(join(dir, file))).toBe(true);
+    }
+    for (const skipped of ["README.md", "dist", "node_modules"]) {
+      expect(existsSync(join(dir, skipped))).toBe(false);
+    }
+  });
+
+  it("writes a package.json running the mcp-apps CLI", () => {
+    const dir = join(tmp, "My Weather App");
+
+    createProject(dir, "vanilla");
+
+    const packageJson = JSON.parse(
+      readFileSync(join(dir, "package.json"), "utf-8"),
+    );
+    expect(packageJson).toMatchObject({
+      name: "my-weather-app",
+      private: true,
+      type: "module",
+      scripts: { dev: "mcp-apps dev", build: "mcp-apps build" },
+      dependencies: {
+        "@modelcontextprotocol/ext-apps": expect.any(String),
+        express: expect.any(String),
+      },
+      devDependencies: {
+        tsx: expect.any(String),
+        vite: expect.any(String),
+        "vite-plugin-singlefile": expect.any(String),
+      },
+    });
+    expect(packageJson.devDependencies).not.toHaveProperty("concurrently");
+    expect(packageJson.devDependencies).not.toHaveProperty("cross-env");
+    // basic-host isn't published
+    expect(packageJson.devDependencies).not.toHaveProperty(BASIC_HOST_PACKAGE);
+  });
+
+  it("rejects unknown frameworks and non-empty directories", () => {
+    expect(() =>
+      createProject(join(tmp, "app"), "angular" as Framework),
+    ).toThrow("Unknown framework: angular");
+
+    mkdirSync(join(tmp, "app"));
+    writeFileSync(join(tmp, "app", "index.ts"), "");
+    expect(() => createProject(join(tmp, "app"), "vue")).toThrow(
+      "Directory is not empty",
+    );
+  });
+});
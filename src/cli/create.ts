@@ -0,0 +1,166 @@
+import {
+  cpSync,
+  existsSync,
+  readFileSync,
+  readdirSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { basename, join, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/** Frameworks `mcp-apps create` can scaffold a View with. */
+export const FRAMEWORKS = [
+  "vanilla",
+  "react",
+  "vue",
+  "svelte",
+  "solid",
+  "preact",
+] as const;
+
+export type Framework = (typeof FRAMEWORKS)[number];
+
+/**
+ * Package name of basic-host, which `mcp-apps dev` runs. It isn't published:
+ * projects install it from a checkout of the repository.
+ */
+export const BASIC_HOST_PACKAGE = "@modelcontextprotocol/ext-apps-basic-host";
+
+// Runs the server from source, with `mcp-apps dev` and `npm start`
+const TSX_VERSION = "^4.21.0";
+
+// Files of the examples that aren't part of their templates
+const SKIPPED_FILES = new Set([
+  "node_modules",
+  "dist",
+  "README.md",
+  ".gitignore",
+  "tsconfig.server.json",
+]);
+
+/**
+ * Name of the example a framework's template is made from.
+ */
+export function templateName(framework: Framework): string {
+  return `basic-server-${framework === "vanilla" ? "vanillajs" : framework}`;
+}
+
+/**
+ * Whether a file of an example (given by its name) belongs in its template.
+ */
+export function isTemplateFile(name: string): boolean {
+  return !SKIPPED_FILES.has(name) && !name.endsWith(".png");
+}
+
+/**
+ * Directory of a framework's template: copied into the package on build, or
+ * the example itself when running from a checkout of the repository.
+ */
+function findTemplate(framework: Framework): string {
+  const name = templateName(framework);
+  const candidates = [
+    fileURLToPath(new URL(`../../templates/${name}`, import.meta.url)),
+    fileURLToPath(new URL(`../../examples/${name}`, import.meta.url)),
+  ];
+  const dir = candidates.find((dir) => existsSync(dir));
+  if (!dir) {
+    throw new Error(`Template not found for ${framework}: ${name}`);
+  }
+  return dir;
+}
+
+interface TemplatePackageJson {
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+/**
+ * The `package.json` of a new project: the dependencies of its template, with
+ * scripts running the `mcp-apps` CLI in place of the example's build setup.
+ */
+function projectPackageJson(name: string, template: TemplatePackageJson) {
+  // `mcp-apps dev` replaces these
+  const {
+    concurrently: _concurrently,
+    "cross-env": _crossEnv,
+    ...devDependencies
+  } = template.devDependencies;
+  return {
+    name,
+    version: "0.1.0",
+    private: true,
+    type: "module",
+    scripts: {
+      dev: "mcp-apps dev",
+      build: "mcp-apps build",
+      start: "mcp-apps build && tsx main.ts",
+      "start:stdio": "mcp-apps build 1>&2 && tsx main.ts --stdio",
+    },
+    dependencies: template.dependencies,
+    devDependencies: Object.fromEntries(
+      Object.entries({
+        ...devDependencies,
+        tsx: TSX_VERSION,
+      }).sort(([a], [b]) => a.localeCompare(b)),
+    ),
+  };
+}
+
+/** Turn a directory name into a valid npm package name. */
+function toPackageName(dir: string): string {
+  return (
+    basename(resolve(dir))
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, "-")
+      .replace(/^[._-]+/, "") || "mcp-app"
+  );
+}
+
+/**
+ * Create an MCP App project in `dir`: a server with a tool and its UI
+ * resource, and a View made with `framework`.
+ *
+ * @param dir - Directory to create, which must not exist or be empty
+ * @param framework - Framework of the View
+ * @returns The files created, relative to `dir`
+ */
+export function createProject(dir: string, framework: Framework): string[] {
+  if (!FRAMEWORKS.includes(framework)) {
+    throw new Error(
+      `Unknown framework: ${framework} (expected one of ${FRAMEWORKS.join(", ")})`,
+    );
+  }
+  if (existsSync(dir) && readdirSync(dir).length > 0) {
+    throw new Error(`Directory is not empty: ${dir}`);
+  }
+  const template = findTemplate(framework);
+  const packageJson: TemplatePackageJson = JSON.parse(
+    readFileSync(join(template, "package.json"), "utf-8"),
+  );
+
+  const files: string[] = [];
+  cpSync(template, dir, {
+    recursive: true,
+    filter: (src) => {
+      const name = relative(template, src);
+      if (name === "package.json" || !isTemplateFile(basename(src))) {
+        return false;
+      }
+      if (statSync(src).isFile()) {
+        files.push(name);
+      }
+      return true;
+    },
+  });
+  writeFileSync(
+    join(dir, "package.json"),
+    JSON.stringify(
+      projectPackageJson(toPackageName(dir), packageJson),
+      null,
+      2,
+    ) + "\n",
+  );
+  writeFileSync(join(dir, ".gitignore"), "node_modules/\ndist/\n");
+  return [...files, "package.json", ".gitignore"].sort();
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BASIC_HOST_PACKAGE } from "./create";
+import { devCommands, findBasicHost } from "./dev";
+
+describe("devCommands", () => {
+  let project: string;
+  let basicHost: string;
+
+  beforeEach(() => {
+    project = mkdtempSync(join(tmpdir(), "mcp-apps-dev-"));
+    writeFileSync(join(project, "package.json"), "{}");
+    writeFileSync(join(project, "mcp-app.html"), "");
+    writeFileSync(join(project, "settings.html"), "");
+    // basic-host installed from a checkout
+    basicHost = join(project, "node_modules", BASIC_HOST_PACKAGE);
+    mkdirSync(join(basicHost, "dist"), { recursive: true });
+    writeFileSync(
+      join(basicHost, "package.json"),
+      JSON.stringify({ name: BASIC_HOST_PACKAGE }),
+    );
+    writeFileSync(join(basicHost, "dist", "serve.js"), "");
+  });
+
+  afterEach(() => {
+    rmSync(project, { recursive: true, force: true });
+  });
+
+  it("watches each View and the server, and runs basic-host against them", () => {
+    const commands = devCommands(project, { port: 4000 });
+
+    expect(commands).toEqual([
+      {
+        name: "view",
+        command: "vite",
+        args: ["build", "--watch"],
+        options: {
+          cwd: project,
+          env: { INPUT: "mcp-app.html", NODE_ENV: "development" },
+        },
+      },
+      {
+        name: "view",
+        command: "vite",
+        args: ["build", "--watch"],
+        options: {
+          cwd: project,
+          env: { INPUT: "settings.html", NODE_ENV: "development" },
+        },
+      },
+      {
+        name: "server",
+        command: "tsx",
+        args: ["watch", "--clear-screen=false", "main.ts"],
+        options: { cwd: project, env: { PORT: "4000" } },
+      },
+      {
+        name: "host",
+        command: process.execPath,
+        args: [join(basicHost, "dist", "serve.js")],
+        options: {
+          cwd: project,
+          env: {
+            SERVERS: '["http://localhost:4000/mcp"]',
+            WATCH_DIRS: JSON.stringify([join(project, "dist")]),
+          },
+        },
+      },
+    ]);
+  });
+
+  it("requires basic-host to be built", () => {
+    rmSync(join(basicHost, "dist"), { recursive: true });
+
+    expect(() => findBasicHost(project)).toThrow("basic-host is not built");
+  });
+});
@@ -0,0 +1,131 @@
+import { existsSync, mkdirSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { findViewEntries } from "./build.js";
+import { BASIC_HOST_PACKAGE } from "./create.js";
+import { runTogether, start, type RunOptions } from "./processes.js";
+
+export interface DevOptions {
+  /** Port of the MCP server (default 3001). */
+  port?: number;
+}
+
+/**
+ * Directories basic-host may be in: installed in the project (e.g. with
+ * `npm install -D <checkout>/examples/basic-host`), or next to this CLI when
+ * run from a checkout of the repository.
+ */
+function basicHostCandidates(projectDir: string): string[] {
+  const candidates: string[] = [];
+  const require = createRequire(join(resolve(projectDir), "package.json"));
+  try {
+    candidates.push(
+      dirname(require.resolve(`${BASIC_HOST_PACKAGE}/package.json`)),
+    );
+  } catch {
+    // Not installed
+  }
+  // From `src/cli/` or its build in `dist/src/cli/`
+  for (const path of [
+    "../../examples/basic-host",
+    "../../../examples/basic-host",
+  ]) {
+    candidates.push(fileURLToPath(new URL(path, import.meta.url)));
+  }
+  return candidates;
+}
+
+/**
+ * Path of the basic-host server script for a project.
+ *
+ * @throws If basic-host isn't installed or built
+ */
+export function findBasicHost(projectDir: string): string {
+  const dir = basicHostCandidates(projectDir).find((dir) =>
+    existsSync(join(dir, "package.json")),
+  );
+  if (!dir) {
+    throw new Error(
+      "basic-host not found: install it from a checkout of https://github.com/modelcontextprotocol/ext-apps with npm install -D <checkout>/examples/basic-host",
+    );
+  }
+  const script = join(dir, "dist", "serve.js");
+  if (!existsSync(script)) {
+    throw new Error(
+      `basic-host is not built: run npm run build in ${dir} (${script} is missing)`,
+    );
+  }
+  return script;
+}
+
+/** A command run by {@link dev `dev`}. */
+export interface DevCommand {
+  name: string;
+  command: string;
+  args: string[];
+  options: RunOptions;
+}
+
+/**
+ * Commands developing a project: one rebuilding each View, one restarting
+ * the server and one running basic-host against it.
+ */
+export function devCommands(
+  projectDir: string,
+  { port = 3001 }: DevOptions = {},
+): DevCommand[] {
+  const entries = findViewEntries(projectDir);
+  const hostScript = findBasicHost(projectDir);
+  const distDir = resolve(projectDir, "dist");
+  return [
+    ...entries.map((entry) => ({
+      name: "view",
+      command: "vite",
+      args: ["build", "--watch"],
+      options: {
+        cwd: projectDir,
+        env: { INPUT: entry, NODE_ENV: "development" },
+      },
+    })),
+    {
+      name: "server",
+      command: "tsx",
+      args: ["watch", "--clear-screen=false", "main.ts"],
+      options: { cwd: projectDir, env: { PORT: String(port) } },
+    },
+    {
+      name: "host",
+      command: process.execPath,
+      args: [hostScript],
+      options: {
+        cwd: projectDir,
+        env: {
+          SERVERS: JSON.stringify([`http://localhost:${port}/mcp`]),
+          WATCH_DIRS: JSON.stringify([distDir]),
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * Develop a project: rebuild its Views on change, restart its server
+ * (`main.ts`) on change, and run basic-host against it. basic-host reloads
+ * open Views once rebuilt, without calling their tool again.
+ *
+ * Resolves once stopped (with Ctrl+C) or once one of these processes exits.
+ */
+export async function dev(
+  projectDir: string,
+  options: DevOptions = {},
+): Promise<void> {
+  const commands = devCommands(projectDir, options);
+  // basic-host watches it from the start
+  mkdirSync(resolve(projectDir, "dist"), { recursive: true });
+  await runTogether(
+    commands.map(({ name, command, args, options }) =>
+      start(name, command, args, options),
+    ),
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * `mcp-apps` command line: scaffold, develop and build MCP Apps.
+ *
+ * ```sh
+ * mcp-apps create <dir> [--framework <name>]
+ * mcp-apps dev [--port <port>]
+ * mcp-apps build
+ * ```
+ *
+ * @module
+ */
+
+import { statSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { build } from "./build.js";
+import { createProject, FRAMEWORKS, type Framework } from "./create.js";
+import { dev } from "./dev.js";
+
+const USAGE = `Usage: mcp-apps <command> [options]
+
+Commands:
+  create <dir>   Create an MCP App project: a server with a tool and its View
+    --framework  ${FRAMEWORKS.join(", ")} (default: vanilla)
+  dev            Rebuild the View and restart the server on change, and test
+                 them in basic-host (http://localhost:8080)
+    --port       Port of the MCP server (default: 3001)
+  build          Type-check and bundle each View into a single HTML file
+`;
+
+async function main(argv: string[]): Promise<void> {
+  const { positionals, values } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      framework: { type: "string", short: "f", default: "vanilla" },
+      port: { type: "string", short: "p", default: "3001" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, ...args] = positionals;
+  const projectDir = process.cwd();
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  switch (command) {
+    case "create": {
+      const [dir] = args;
+      if (!dir) {
+        throw new Error("Missing directory: mcp-apps create <dir>");
+      }
+      const files = createProject(dir, values.framework as Framework);
+      console.log(`Created ${dir}:\n  ${files.join("\n  ")}`);
+      console.log(`\nNext:\n  cd ${dir}\n  npm install\n  npm run dev`);
+      return;
+    }
+    case "dev": {
+      const port = Number(values.port);
+      if (!Number.isInteger(port)) {
+        throw new Error(`Invalid port: ${values.port}`);
+      }
+      await dev(projectDir, { port });
+      return;
+    }
+    case "build": {
+      for (const output of await build(projectDir)) {
+        const { size } = statSync(join(projectDir, output));
+        console.log(`${output}  ${(size / 1024).toFixed(1)} kB`);
+      }
+      return;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "bun:test";
+import { type ChildProcess } from "node:child_process";
+import { delimiter, join, resolve } from "node:path";
+import { localBinPath, run, runTogether, start } from "./processes";
+
+const cwd = process.cwd();
+
+/** Start a script run by this runtime. */
+function startScript(name: string, script: string): ChildProcess {
+  return start(name, process.execPath, ["-e", script], { cwd });
+}
+
+function exited(child: ChildProcess): Promise<unknown> {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => child.once("exit", resolve));
+}
+
+describe("localBinPath", () => {
+  it("puts the local binaries of a directory and its parents first", () => {
+    const dir = resolve("/projects/app");
+
+    const path = localBinPath(dir);
+
+    expect(path.split(delimiter).slice(0, 2)).toEqual([
+      join(dir, "node_modules", ".bin"),
+      join(dir, "..", "node_modules", ".bin"),
+    ]);
+    expect(path.endsWith(`${delimiter}${process.env.PATH ?? ""}`)).toBe(true);
+  });
+});
+
+describe("run", () => {
+  it("resolves once the command succeeds, and rejects if it fails", async () => {
+    await run("ok", process.execPath, ["-e", "process.exit()"], { cwd });
+
+    await expect(
+      run("fail", process.execPath, ["-e", "process.exit(3)"], { cwd }),
+    ).rejects.toThrow("failed (exit code 3)");
+  });
+});
+
+describe("runTogether", () => {
+  it("stops the other commands once one exits", async () => {
+    const server = startScript("server", "setTimeout(() => {}, 60_000)");
+    const build = startScript("build", "process.exit()");
+
+    await runTogether([server, build]);
+
+    expect(build.exitCode).toBe(0);
+    expect(server.signalCode).toBe("SIGTERM");
+  });
+
+  it("stops the other commands if one can't be started", async () => {
+    const server = startScript("server", "setTimeout(() => {}, 60_000)");
+    const missing = start("missing", "mcp-apps-missing-command", [], { cwd });
+
+    await expect(runTogether([server, missing])).rejects.toThrow();
+    await exited(server);
+
+    expect(server.signalCode).toBe("SIGTERM");
+  });
+
+  it("stops listening for interrupts once done", async () => {
+    const count = () =>
+      process.listenerCount("SIGINT") + process.listenerCount("SIGTERM");
+    const listeners = count();
+
+    const running = runTogether([startScript("build", "process.exit()")]);
+    expect(count()).toBe(listeners + 2);
+    await running;
+
+    expect(count()).toBe(listeners);
+  });
+});
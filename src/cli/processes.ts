@@ -0,0 +1,107 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { delimiter, dirname, join, resolve } from "node:path";
+import { createInterface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+
+export interface RunOptions {
+  /** Directory to run in; its local binaries come first on the `PATH`. */
+  cwd: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * `PATH` with the `node_modules/.bin` directories of `dir` and its parents
+ * first, as `npm run` sets it.
+ */
+export function localBinPath(dir: string): string {
+  const bins: string[] = [];
+  for (let d = resolve(dir); ; d = dirname(d)) {
+    bins.push(join(d, "node_modules", ".bin"));
+    if (dirname(d) === d) break;
+  }
+  return [...bins, process.env.PATH ?? ""].join(delimiter);
+}
+
+/**
+ * Start a command, prefixing each line it outputs with `[name]` so the
+ * output of several commands can be told apart.
+ */
+export function start(
+  name: string,
+  command: string,
+  args: string[],
+  { cwd, env }: RunOptions,
+): ChildProcess {
+  const child = spawn(command, args, {
+    cwd,
+    env: { ...process.env, ...env, PATH: localBinPath(cwd) },
+    stdio: ["ignore", "pipe", "pipe"],
+    // Local binaries are `.cmd` scripts on Windows
+    shell: process.platform === "win32",
+  });
+  prefixLines(child.stdout!, process.stdout, name);
+  prefixLines(child.stderr!, process.stderr, name);
+  return child;
+}
+
+/** Run a command to completion, rejecting if it fails. */
+export function run(
+  name: string,
+  command: string,
+  args: string[],
+  options: RunOptions,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    start(name, command, args, options)
+      .on("error", reject)
+      .on("exit", (code, signal) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(
+            new Error(
+              `${[command, ...args].join(" ")} failed (${signal ?? `exit code ${code}`})`,
+            ),
+          );
+        }
+      });
+  });
+}
+
+/**
+ * Run commands until one of them exits or this process is interrupted, then
+ * stop the others.
+ *
+ * Resolves once all of them exited, or rejects if one couldn't be started.
+ */
+export function runTogether(children: ChildProcess[]): Promise<void> {
+  const stop = () => {
+    for (const child of children) {
+      if (child.exitCode === null && child.signalCode === null) child.kill();
+    }
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+  return new Promise<void>((resolve, reject) => {
+    let running = children.length;
+    for (const child of children) {
+      child.on("error", (error) => {
+        stop();
+        reject(error);
+      });
+      child.on("exit", () => {
+        stop();
+        if (--running === 0) resolve();
+      });
+    }
+  }).finally(() => {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  });
+}
+
+function prefixLines(input: Readable, output: Writable, name: string) {
+  createInterface({ input }).on("line", (line) => {
+    output.write(`[${name}] ${line}\n`);
+  });
+}
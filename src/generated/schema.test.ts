@@ -11,6 +11,10 @@ function expectType<T>(_: T) {
   /* noop */
 }
 
+export type McpUiPolicyErrorDataSchemaInferredType = z.infer<
+  typeof generated.McpUiPolicyErrorDataSchema
+>;
+
 export type McpUiThemeSchemaInferredType = z.infer<
   typeof generated.McpUiThemeSchema
 >;
@@ -39,6 +43,50 @@ export type McpUiDownloadFileResultSchemaInferredType = z.infer<
   typeof generated.McpUiDownloadFileResultSchema
 >;
 
+export type McpUiRequestFileRequestSchemaInferredType = z.infer<
+  typeof generated.McpUiRequestFileRequestSchema
+>;
+
+export type McpUiConfirmationActionSchemaInferredType = z.infer<
+  typeof generated.McpUiConfirmationActionSchema
+>;
+
+export type McpUiRequestConfirmationRequestSchemaInferredType = z.infer<
+  typeof generated.McpUiRequestConfirmationRequestSchema
+>;
+
+export type McpUiRequestConfirmationResultSchemaInferredType = z.infer<
+  typeof generated.McpUiRequestConfirmationResultSchema
+>;
+
+export type McpUiRequestModalRequestSchemaInferredType = z.infer<
+  typeof generated.McpUiRequestModalRequestSchema
+>;
+
+export type McpUiRequestModalResultSchemaInferredType = z.infer<
+  typeof generated.McpUiRequestModalResultSchema
+>;
+
+export type McpUiSaveStateRequestSchemaInferredType = z.infer<
+  typeof generated.McpUiSaveStateRequestSchema
+>;
+
+export type McpUiSaveStateResultSchemaInferredType = z.infer<
+  typeof generated.McpUiSaveStateResultSchema
+>;
+
+export type McpUiByteCountSchemaInferredType = z.infer<
+  typeof generated.McpUiByteCountSchema
+>;
+
+export type McpUiReadResourceBytesRequestSchemaInferredType = z.infer<
+  typeof generated.McpUiReadResourceBytesRequestSchema
+>;
+
+export type McpUiReadResourceBytesResultSchemaInferredType = z.infer<
+  typeof generated.McpUiReadResourceBytesResultSchema
+>;
+
 export type McpUiMessageResultSchemaInferredType = z.infer<
   typeof generated.McpUiMessageResultSchema
 >;
@@ -71,6 +119,10 @@ export type McpUiToolCancelledNotificationSchemaInferredType = z.infer<
   typeof generated.McpUiToolCancelledNotificationSchema
 >;
 
+export type McpUiBroadcastNotificationSchemaInferredType = z.infer<
+  typeof generated.McpUiBroadcastNotificationSchema
+>;
+
 export type McpUiHostCssSchemaInferredType = z.infer<
   typeof generated.McpUiHostCssSchema
 >;
@@ -135,6 +187,10 @@ export type McpUiDownloadFileRequestSchemaInferredType = z.infer<
   typeof generated.McpUiDownloadFileRequestSchema
 >;
 
+export type McpUiRequestFileResultSchemaInferredType = z.infer<
+  typeof generated.McpUiRequestFileResultSchema
+>;
+
 export type McpUiMessageRequestSchemaInferredType = z.infer<
   typeof generated.McpUiMessageRequestSchema
 >;
@@ -147,6 +203,18 @@ export type McpUiToolResultNotificationSchemaInferredType = z.infer<
   typeof generated.McpUiToolResultNotificationSchema
 >;
 
+export type McpUiElicitationNotificationSchemaInferredType = z.infer<
+  typeof generated.McpUiElicitationNotificationSchema
+>;
+
+export type McpUiPeerMessageNotificationSchemaInferredType = z.infer<
+  typeof generated.McpUiPeerMessageNotificationSchema
+>;
+
+export type McpUiSamplingStreamNotificationSchemaInferredType = z.infer<
+  typeof generated.McpUiSamplingStreamNotificationSchema
+>;
+
 export type McpUiHostContextSchemaInferredType = z.infer<
   typeof generated.McpUiHostContextSchema
 >;
@@ -167,6 +235,12 @@ export type McpUiInitializeResultSchemaInferredType = z.infer<
   typeof generated.McpUiInitializeResultSchema
 >;
 
+expectType<spec.McpUiPolicyErrorData>(
+  {} as McpUiPolicyErrorDataSchemaInferredType,
+);
+expectType<McpUiPolicyErrorDataSchemaInferredType>(
+  {} as spec.McpUiPolicyErrorData,
+);
 expectType<spec.McpUiTheme>({} as McpUiThemeSchemaInferredType);
 expectType<McpUiThemeSchemaInferredType>({} as spec.McpUiTheme);
 expectType<spec.McpUiDisplayMode>({} as McpUiDisplayModeSchemaInferredType);
@@ -197,6 +271,68 @@ expectType<spec.McpUiDownloadFileResult>(
 expectType<McpUiDownloadFileResultSchemaInferredType>(
   {} as spec.McpUiDownloadFileResult,
 );
+expectType<spec.McpUiRequestFileRequest>(
+  {} as McpUiRequestFileRequestSchemaInferredType,
+);
+expectType<McpUiRequestFileRequestSchemaInferredType>(
+  {} as spec.McpUiRequestFileRequest,
+);
+expectType<spec.McpUiConfirmationAction>(
+  {} as McpUiConfirmationActionSchemaInferredType,
+);
+expectType<McpUiConfirmationActionSchemaInferredType>(
+  {} as spec.McpUiConfirmationAction,
+);
+expectType<spec.McpUiRequestConfirmationRequest>(
+  {} as McpUiRequestConfirmationRequestSchemaInferredType,
+);
+expectType<McpUiRequestConfirmationRequestSchemaInferredType>(
+  {} as spec.McpUiRequestConfirmationRequest,
+);
+expectType<spec.McpUiRequestConfirmationResult>(
+  {} as McpUiRequestConfirmationResultSchemaInferredType,
+);
+expectType<McpUiRequestConfirmationResultSchemaInferredType>(
+  {} as spec.McpUiRequestConfirmationResult,
+);
+expectType<spec.McpUiRequestModalRequest>(
+  {} as McpUiRequestModalRequestSchemaInferredType,
+);
+expectType<McpUiRequestModalRequestSchemaInferredType>(
+  {} as spec.McpUiRequestModalRequest,
+);
+expectType<spec.McpUiRequestModalResult>(
+  {} as McpUiRequestModalResultSchemaInferredType,
+);
+expectType<McpUiRequestModalResultSchemaInferredType>(
+  {} as spec.McpUiRequestModalResult,
+);
+expectType<spec.McpUiSaveStateRequest>(
+  {} as McpUiSaveStateRequestSchemaInferredType,
+);
+expectType<McpUiSaveStateRequestSchemaInferredType>(
+  {} as spec.McpUiSaveStateRequest,
+);
+expectType<spec.McpUiSaveStateResult>(
+  {} as McpUiSaveStateResultSchemaInferredType,
+);
+expectType<McpUiSaveStateResultSchemaInferredType>(
+  {} as spec.McpUiSaveStateResult,
+);
+expectType<spec.McpUiByteCount>({} as McpUiByteCountSchemaInferredType);
+expectType<McpUiByteCountSchemaInferredType>({} as spec.McpUiByteCount);
+expectType<spec.McpUiReadResourceBytesRequest>(
+  {} as McpUiReadResourceBytesRequestSchemaInferredType,
+);
+expectType<McpUiReadResourceBytesRequestSchemaInferredType>(
+  {} as spec.McpUiReadResourceBytesRequest,
+);
+expectType<spec.McpUiReadResourceBytesResult>(
+  {} as McpUiReadResourceBytesResultSchemaInferredType,
+);
+expectType<McpUiReadResourceBytesResultSchemaInferredType>(
+  {} as spec.McpUiReadResourceBytesResult,
+);
 expectType<spec.McpUiMessageResult>({} as McpUiMessageResultSchemaInferredType);
 expectType<McpUiMessageResultSchemaInferredType>({} as spec.McpUiMessageResult);
 expectType<spec.McpUiSandboxProxyReadyNotification>(
@@ -237,6 +373,12 @@ expectType<spec.McpUiToolCancelledNotification>(
 expectType<McpUiToolCancelledNotificationSchemaInferredType>(
   {} as spec.McpUiToolCancelledNotification,
 );
+expectType<spec.McpUiBroadcastNotification>(
+  {} as McpUiBroadcastNotificationSchemaInferredType,
+);
+expectType<McpUiBroadcastNotificationSchemaInferredType>(
+  {} as spec.McpUiBroadcastNotification,
+);
 expectType<spec.McpUiHostCss>({} as McpUiHostCssSchemaInferredType);
 expectType<McpUiHostCssSchemaInferredType>({} as spec.McpUiHostCss);
 expectType<spec.McpUiHostStyles>({} as McpUiHostStylesSchemaInferredType);
@@ -317,6 +459,12 @@ expectType<spec.McpUiDownloadFileRequest>(
 expectType<McpUiDownloadFileRequestSchemaInferredType>(
   {} as spec.McpUiDownloadFileRequest,
 );
+expectType<spec.McpUiRequestFileResult>(
+  {} as McpUiRequestFileResultSchemaInferredType,
+);
+expectType<McpUiRequestFileResultSchemaInferredType>(
+  {} as spec.McpUiRequestFileResult,
+);
 expectType<spec.McpUiMessageRequest>(
   {} as McpUiMessageRequestSchemaInferredType,
 );
@@ -335,6 +483,24 @@ expectType<spec.McpUiToolResultNotification>(
 expectType<McpUiToolResultNotificationSchemaInferredType>(
   {} as spec.McpUiToolResultNotification,
 );
+expectType<spec.McpUiElicitationNotification>(
+  {} as McpUiElicitationNotificationSchemaInferredType,
+);
+expectType<McpUiElicitationNotificationSchemaInferredType>(
+  {} as spec.McpUiElicitationNotification,
+);
+expectType<spec.McpUiPeerMessageNotification>(
+  {} as McpUiPeerMessageNotificationSchemaInferredType,
+);
+expectType<McpUiPeerMessageNotificationSchemaInferredType>(
+  {} as spec.McpUiPeerMessageNotification,
+);
+expectType<spec.McpUiSamplingStreamNotification>(
+  {} as McpUiSamplingStreamNotificationSchemaInferredType,
+);
+expectType<McpUiSamplingStreamNotificationSchemaInferredType>(
+  {} as spec.McpUiSamplingStreamNotification,
+);
 expectType<spec.McpUiHostContext>({} as McpUiHostContextSchemaInferredType);
 expectType<McpUiHostContextSchemaInferredType>({} as spec.McpUiHostContext);
 expectType<spec.McpUiHostContextChangedNotification>(
@@ -5,13 +5,47 @@ import { z } from "zod/v4";
 import {
   ContentBlockSchema,
   CallToolResultSchema,
+  ElicitRequestParamsSchema,
+  ElicitResultSchema,
   EmbeddedResourceSchema,
   ImplementationSchema,
   RequestIdSchema,
   ResourceLinkSchema,
+  SamplingMessageContentBlockSchema,
   ToolSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
+/**
+ * @description Data of the JSON-RPC error a host returns with
+ * `POLICY_DENIED_ERROR_CODE` when its policy rejects a request from the View.
+ */
+export const McpUiPolicyErrorDataSchema = z.object({
+  /**
+   * @description Why the request was rejected.
+   * - `"tool-not-allowed"`: the View may not call this tool (e.g. it is only visible to the model).
+   * - `"rate-limited"`: the View sent too many requests; retry after `retryAfterMs`.
+   * - `"approval-denied"`: the user did not approve the request.
+   * - `"quota-exceeded"`: the View used up its allowance (e.g. of sampling requests or tokens).
+   */
+  reason: z
+    .union([
+      z.literal("tool-not-allowed"),
+      z.literal("rate-limited"),
+      z.literal("approval-denied"),
+      z.literal("quota-exceeded"),
+    ])
+    .describe(
+      'Why the request was rejected.\n- `"tool-not-allowed"`: the View may not call this tool (e.g. it is only visible to the model).\n- `"rate-limited"`: the View sent too many requests; retry after `retryAfterMs`.\n- `"approval-denied"`: the user did not approve the request.\n- `"quota-exceeded"`: the View used up its allowance (e.g. of sampling requests or tokens).',
+    ),
+  /** @description Milliseconds after which the request may succeed again, for `"rate-limited"`. */
+  retryAfterMs: z
+    .number()
+    .optional()
+    .describe(
+      'Milliseconds after which the request may succeed again, for `"rate-limited"`.',
+    ),
+});
+
 /**
  * @description Color theme preference for the host environment.
  */
@@ -178,6 +212,255 @@ export const McpUiDownloadFileResultSchema = z
   })
   .passthrough();
 
+/**
+ * @description Request to let the user pick local files through the host.
+ *
+ * Sent from the View to the Host when the app needs user-provided files.
+ * The host shows its own file picker, so the sandboxed iframe never needs
+ * direct file system access. This is the inverse of `ui/download-file`.
+ *
+ * @see {@link app!App.requestFile `App.requestFile`} for the method that sends this request
+ */
+export const McpUiRequestFileRequestSchema = z.object({
+  method: z.literal("ui/request-file"),
+  params: z.object({
+    /** @description Accepted file types, as MIME types (`"image/png"`, `"image/*"`) or extensions (`".csv"`). Same semantics as the HTML `accept` attribute. */
+    accept: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Accepted file types, as MIME types (`"image/png"`, `"image/*"`) or extensions (`".csv"`). Same semantics as the HTML `accept` attribute.',
+      ),
+    /** @description Let the user pick more than one file. */
+    multiple: z
+      .boolean()
+      .optional()
+      .describe("Let the user pick more than one file."),
+    /** @description Maximum size of each file in bytes. The host rejects larger files. */
+    maxBytes: z
+      .number()
+      .optional()
+      .describe(
+        "Maximum size of each file in bytes. The host rejects larger files.",
+      ),
+  }),
+});
+
+/**
+ * @description A button in a host-rendered confirmation dialog.
+ */
+export const McpUiConfirmationActionSchema = z.object({
+  /** @description Identifier returned in the result when the user picks this action. */
+  id: z
+    .string()
+    .describe(
+      "Identifier returned in the result when the user picks this action.",
+    ),
+  /** @description Button label. */
+  label: z.string().describe("Button label."),
+  /** @description How the host styles the button. Hosts SHOULD make `"destructive"` actions visually distinct. */
+  style: z
+    .union([
+      z.literal("default"),
+      z.literal("primary"),
+      z.literal("destructive"),
+    ])
+    .optional()
+    .describe(
+      'How the host styles the button. Hosts SHOULD make `"destructive"` actions visually distinct.',
+    ),
+});
+
+/**
+ * @description Request to show a confirmation dialog rendered by the host.
+ *
+ * Sent from the View to the Host before a consequential action (e.g.
+ * revoking access or overwriting a file). Unlike a dialog drawn inside the
+ * View's iframe, the host's dialog is clearly attributable to the host, so
+ * the user can trust what it says about the app and the action.
+ *
+ * @see {@link app!App.requestConfirmation `App.requestConfirmation`} for the method that sends this request
+ */
+export const McpUiRequestConfirmationRequestSchema = z.object({
+  method: z.literal("ui/request-confirmation"),
+  params: z.object({
+    /** @description Dialog title, e.g. the question to confirm. */
+    title: z.string().describe("Dialog title, e.g. the question to confirm."),
+    /** @description Plain-text explanation shown below the title. Hosts MUST NOT render it as HTML or Markdown. */
+    body: z
+      .string()
+      .optional()
+      .describe(
+        "Plain-text explanation shown below the title. Hosts MUST NOT render it as HTML or Markdown.",
+      ),
+    /** @description Buttons to show, in order. Defaults to a `"cancel"` ("Cancel") and a `"confirm"` ("OK") action. */
+    actions: z
+      .array(McpUiConfirmationActionSchema)
+      .optional()
+      .describe(
+        'Buttons to show, in order. Defaults to a `"cancel"` ("Cancel") and a `"confirm"` ("OK") action.',
+      ),
+  }),
+});
+
+/**
+ * @description Result from a confirmation request.
+ * @see {@link McpUiRequestConfirmationRequest `McpUiRequestConfirmationRequest`}
+ */
+export const McpUiRequestConfirmationResultSchema = z
+  .object({
+    /** @description `id` of the action the user picked. Absent if the user dismissed the dialog. */
+    action: z
+      .string()
+      .optional()
+      .describe(
+        "`id` of the action the user picked. Absent if the user dismissed the dialog.",
+      ),
+    /** @description True if the host could not show the dialog. */
+    isError: z
+      .boolean()
+      .optional()
+      .describe("True if the host could not show the dialog."),
+  })
+  .passthrough();
+
+/**
+ * @description Request to open another UI template of the same server in a host modal.
+ *
+ * The host renders the `ui://` resource as a separate View in a modal
+ * dialog above the conversation and sends it `arguments` as its tool input.
+ * The modal View can close itself with `ui/notifications/request-teardown`.
+ *
+ * @see {@link app!App.requestModal `App.requestModal`} for the method that sends this request
+ */
+export const McpUiRequestModalRequestSchema = z.object({
+  method: z.literal("ui/request-modal"),
+  params: z.object({
+    /** @description URI of the `ui://` resource to render. Must belong to the same server as the requesting View. */
+    resourceUri: z
+      .string()
+      .describe(
+        "URI of the `ui://` resource to render. Must belong to the same server as the requesting View.",
+      ),
+    /** @description Title of the modal. */
+    title: z.string().optional().describe("Title of the modal."),
+    /** @description Arguments sent to the modal View in `ui/notifications/tool-input`. */
+    arguments: z
+      .record(
+        z.string(),
+        z
+          .unknown()
+          .describe(
+            "Arguments sent to the modal View in `ui/notifications/tool-input`.",
+          ),
+      )
+      .optional()
+      .describe(
+        "Arguments sent to the modal View in `ui/notifications/tool-input`.",
+      ),
+  }),
+});
+
+/**
+ * @description Result from a modal request, returned once the modal is shown.
+ * @see {@link McpUiRequestModalRequest `McpUiRequestModalRequest`}
+ */
+export const McpUiRequestModalResultSchema = z
+  .object({
+    /** @description True if the host did not open the modal (e.g., unknown resource or host denied). */
+    isError: z
+      .boolean()
+      .optional()
+      .describe(
+        "True if the host did not open the modal (e.g., unknown resource or host denied).",
+      ),
+  })
+  .passthrough();
+
+/**
+ * @description Request to persist View state so it can be restored later (View -> Host).
+ *
+ * Each request replaces the state previously saved by the same View for the
+ * same tool call. The host delivers the last saved state back in
+ * {@link McpUiInitializeResult.restoredState `McpUiInitializeResult.restoredState`}
+ * when the View is recreated (e.g. after the conversation is reloaded).
+ *
+ * @see {@link app!App.saveState `App.saveState`} for the method that sends this request
+ */
+export const McpUiSaveStateRequestSchema = z.object({
+  method: z.literal("ui/save-state"),
+  params: z.object({
+    /** @description JSON-serializable state to persist. Pass `null` to clear previously saved state. */
+    state: z
+      .unknown()
+      .describe(
+        "JSON-serializable state to persist. Pass `null` to clear previously saved state.",
+      ),
+  }),
+});
+
+/**
+ * @description Result from a save-state request.
+ * @see {@link McpUiSaveStateRequest `McpUiSaveStateRequest`}
+ */
+export const McpUiSaveStateResultSchema = z.record(z.string(), z.unknown());
+
+/**
+ * @description A number of bytes, or an offset in bytes: a nonnegative integer.
+ * @schema number().int().nonnegative()
+ */
+export const McpUiByteCountSchema = z.number().int().nonnegative();
+
+/**
+ * @description Request to read a byte range of a server resource (View -> Host).
+ *
+ * The host reads the resource from the MCP server with `resources/read` and
+ * returns the requested bytes, so Views can fetch large binary resources in
+ * chunks instead of as one base64 blob. Hosts may cache the resource between
+ * requests for the same URI; a request at offset 0 always reads it afresh.
+ *
+ * @see {@link app!App.readServerResource `App.readServerResource`} for the method that sends this request
+ */
+export const McpUiReadResourceBytesRequestSchema = z.object({
+  method: z.literal("ui/read-resource-bytes"),
+  params: z.object({
+    /** @description URI of the resource to read. */
+    uri: z.string().describe("URI of the resource to read."),
+    /** @description Offset of the first byte to return, at most the size of the resource. Defaults to 0. */
+    offset: McpUiByteCountSchema.optional().describe(
+      "Offset of the first byte to return, at most the size of the resource. Defaults to 0.",
+    ),
+    /** @description Maximum number of bytes to return. The host may return fewer (see `maxChunkBytes`). Defaults to the rest of the resource. */
+    length: McpUiByteCountSchema.optional().describe(
+      "Maximum number of bytes to return. The host may return fewer (see `maxChunkBytes`). Defaults to the rest of the resource.",
+    ),
+  }),
+});
+
+/**
+ * @description Result from a read-resource-bytes request.
+ * @see {@link McpUiReadResourceBytesRequest `McpUiReadResourceBytesRequest`}
+ */
+export const McpUiReadResourceBytesResultSchema = z
+  .object({
+    /** @description Base64-encoded bytes, starting at `offset`. Empty at or past the end of the resource. */
+    blob: z
+      .string()
+      .describe(
+        "Base64-encoded bytes, starting at `offset`. Empty at or past the end of the resource.",
+      ),
+    /** @description Offset of the first returned byte. */
+    offset: z.number().describe("Offset of the first returned byte."),
+    /** @description Total size of the resource in bytes. */
+    totalBytes: z.number().describe("Total size of the resource in bytes."),
+    /** @description MIME type of the resource, if known. */
+    mimeType: z
+      .string()
+      .optional()
+      .describe("MIME type of the resource, if known."),
+  })
+  .passthrough();
+
 /**
  * @description Result from sending a message.
  * @see {@link McpUiMessageRequest `McpUiMessageRequest`}
@@ -387,6 +670,13 @@ export const McpUiToolInputPartialNotificationSchema = z.object({
       )
       .optional()
       .describe("Partial tool call arguments (incomplete, may change)."),
+    /** @description Names of the arguments whose values are complete and won't change in later notifications. */
+    finalized: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Names of the arguments whose values are complete and won't change in later notifications.",
+      ),
   }),
 });
 
@@ -408,6 +698,25 @@ export const McpUiToolCancelledNotificationSchema = z.object({
   }),
 });
 
+/**
+ * @description Notification broadcasting a message to other Views (View -> Host).
+ * The host routes it to other Views it considers peers of the sender (by
+ * default, Views of the same MCP server) as `ui/notifications/peer-message`.
+ * @see {@link app!App.broadcast `App.broadcast`} for the method that sends this
+ */
+export const McpUiBroadcastNotificationSchema = z.object({
+  method: z.literal("ui/notifications/broadcast"),
+  params: z.object({
+    /** @description Application-defined topic, e.g. "selection". */
+    topic: z.string().describe('Application-defined topic, e.g. "selection".'),
+    /** @description JSON-serializable message payload. */
+    payload: z
+      .unknown()
+      .optional()
+      .describe("JSON-serializable message payload."),
+  }),
+});
+
 /**
  * @description CSS blocks that can be injected by apps.
  */
@@ -516,6 +825,27 @@ export const McpUiHostCapabilitiesSchema = z.object({
     .object({})
     .optional()
     .describe("Host supports file downloads via ui/download-file."),
+  /** @description Host lets the user pick local files via ui/request-file. */
+  fileUpload: z
+    .object({
+      /** @description Maximum size of each file in bytes. */
+      maxBytes: z
+        .number()
+        .optional()
+        .describe("Maximum size of each file in bytes."),
+    })
+    .optional()
+    .describe("Host lets the user pick local files via ui/request-file."),
+  /** @description Host renders confirmation dialogs via ui/request-confirmation. */
+  confirmation: z
+    .object({})
+    .optional()
+    .describe("Host renders confirmation dialogs via ui/request-confirmation."),
+  /** @description Host opens UI templates in a modal via ui/request-modal. */
+  modal: z
+    .object({})
+    .optional()
+    .describe("Host opens UI templates in a modal via ui/request-modal."),
   /** @description Host can proxy tool calls to the MCP server. */
   serverTools: z
     .object({
@@ -527,6 +857,45 @@ export const McpUiHostCapabilitiesSchema = z.object({
     })
     .optional()
     .describe("Host can proxy tool calls to the MCP server."),
+  /** @description Host can proxy prompt requests (prompts/list, prompts/get) to the MCP server. */
+  serverPrompts: z
+    .object({
+      /** @description Host supports prompts/list_changed notifications. */
+      listChanged: z
+        .boolean()
+        .optional()
+        .describe("Host supports prompts/list_changed notifications."),
+    })
+    .optional()
+    .describe(
+      "Host can proxy prompt requests (prompts/list, prompts/get) to the MCP server.",
+    ),
+  /** @description Host can proxy argument completion requests (completion/complete) to the MCP server. */
+  serverCompletions: z
+    .object({})
+    .optional()
+    .describe(
+      "Host can proxy argument completion requests (completion/complete) to the MCP server.",
+    ),
+  /** @description Host renders elicitation/create requests the server sends during the View's tool calls, and notifies the View via ui/notifications/elicitation. */
+  elicitation: z
+    .object({})
+    .optional()
+    .describe(
+      "Host renders elicitation/create requests the server sends during the View's tool calls, and notifies the View via ui/notifications/elicitation.",
+    ),
+  /** @description Host can proxy MCP tasks to the MCP server: tools/call with a `task` parameter, tasks/get and tasks/result. */
+  serverTasks: z
+    .object({
+      /** @description Host proxies tasks/list. */
+      list: z.object({}).optional().describe("Host proxies tasks/list."),
+      /** @description Host proxies tasks/cancel. */
+      cancel: z.object({}).optional().describe("Host proxies tasks/cancel."),
+    })
+    .optional()
+    .describe(
+      "Host can proxy MCP tasks to the MCP server: tools/call with a `task` parameter, tasks/get and tasks/result.",
+    ),
   /** @description Host can proxy resource reads to the MCP server. */
   serverResources: z
     .object({
@@ -535,6 +904,26 @@ export const McpUiHostCapabilitiesSchema = z.object({
         .boolean()
         .optional()
         .describe("Host supports resources/list_changed notifications."),
+      /** @description Host forwards resources/subscribe and notifications/resources/updated. */
+      subscribe: z
+        .boolean()
+        .optional()
+        .describe(
+          "Host forwards resources/subscribe and notifications/resources/updated.",
+        ),
+      /** @description Host serves byte ranges of resources via ui/read-resource-bytes. */
+      byteRanges: z
+        .object({
+          /** @description Maximum number of bytes returned per request. */
+          maxChunkBytes: z
+            .number()
+            .optional()
+            .describe("Maximum number of bytes returned per request."),
+        })
+        .optional()
+        .describe(
+          "Host serves byte ranges of resources via ui/read-resource-bytes.",
+        ),
     })
     .optional()
     .describe("Host can proxy resource reads to the MCP server."),
@@ -576,11 +965,36 @@ export const McpUiHostCapabilitiesSchema = z.object({
         .describe(
           "Host supports tool use via `tools` and `toolChoice` parameters.",
         ),
+      /** @description Host streams responses with ui/notifications/sampling-stream when requested. */
+      streaming: z
+        .object({})
+        .optional()
+        .describe(
+          "Host streams responses with ui/notifications/sampling-stream when requested.",
+        ),
     })
     .optional()
     .describe(
       "Host supports LLM sampling (sampling/createMessage) from the view.\nMirrors the MCP `ClientCapabilities.sampling` shape so hosts can pass it through.",
     ),
+  /** @description Host routes ui/notifications/broadcast to peer Views. */
+  peerMessaging: z
+    .object({})
+    .optional()
+    .describe("Host routes ui/notifications/broadcast to peer Views."),
+  /** @description Host persists View state via ui/save-state and restores it on initialization. */
+  persistState: z
+    .object({
+      /** @description Maximum size in bytes of the JSON-serialized state. */
+      maxBytes: z
+        .number()
+        .optional()
+        .describe("Maximum size in bytes of the JSON-serialized state."),
+    })
+    .optional()
+    .describe(
+      "Host persists View state via ui/save-state and restores it on initialization.",
+    ),
 });
 
 /**
@@ -609,6 +1023,18 @@ export const McpUiAppCapabilitiesSchema = z.object({
     })
     .optional()
     .describe("App exposes MCP-style tools that the host can call."),
+  /** @description App runs tool calls as MCP tasks when the host sends tools/call with a `task` parameter, and answers tasks/get and tasks/result. */
+  tasks: z
+    .object({
+      /** @description App supports tasks/list. */
+      list: z.object({}).optional().describe("App supports tasks/list."),
+      /** @description App supports tasks/cancel. */
+      cancel: z.object({}).optional().describe("App supports tasks/cancel."),
+    })
+    .optional()
+    .describe(
+      "App runs tool calls as MCP tasks when the host sends tools/call with a `task` parameter, and answers tasks/get and tasks/result.",
+    ),
   /** @description Display modes the app supports. */
   availableDisplayModes: z
     .array(McpUiDisplayModeSchema)
@@ -763,12 +1189,13 @@ export const McpUiClientCapabilitiesSchema = z.object({
   /**
    * @description Array of supported MIME types for UI resources.
    * Must include `"text/html;profile=mcp-app"` for MCP Apps support.
+   * Include `"text/uri-list"` if the host can embed externally hosted Views.
    */
   mimeTypes: z
     .array(z.string())
     .optional()
     .describe(
-      'Array of supported MIME types for UI resources.\nMust include `"text/html;profile=mcp-app"` for MCP Apps support.',
+      'Array of supported MIME types for UI resources.\nMust include `"text/html;profile=mcp-app"` for MCP Apps support.\nInclude `"text/uri-list"` if the host can embed externally hosted Views.',
     ),
 });
 
@@ -794,6 +1221,28 @@ export const McpUiDownloadFileRequestSchema = z.object({
   }),
 });
 
+/**
+ * @description Result from a file request.
+ * @see {@link McpUiRequestFileRequest `McpUiRequestFileRequest`}
+ */
+export const McpUiRequestFileResultSchema = z
+  .object({
+    /** @description Picked files — embedded (inline base64 `blob`) or linked (e.g. a URL the host uploaded the file to). Empty if the user cancelled. */
+    contents: z
+      .array(z.union([EmbeddedResourceSchema, ResourceLinkSchema]))
+      .describe(
+        "Picked files \u2014 embedded (inline base64 `blob`) or linked (e.g. a URL the host uploaded the file to). Empty if the user cancelled.",
+      ),
+    /** @description True if the request failed (e.g., host denied or a file exceeded the size limit). */
+    isError: z
+      .boolean()
+      .optional()
+      .describe(
+        "True if the request failed (e.g., host denied or a file exceeded the size limit).",
+      ),
+  })
+  .passthrough();
+
 /**
  * @description Request to send a message to the host's chat interface.
  * @see {@link app!App.sendMessage `App.sendMessage`} for the method that sends this request
@@ -820,8 +1269,20 @@ export const McpUiMessageRequestSchema = z.object({
 export const McpUiSandboxResourceReadyNotificationSchema = z.object({
   method: z.literal("ui/notifications/sandbox-resource-ready"),
   params: z.object({
-    /** @description HTML content to load into the inner iframe. */
-    html: z.string().describe("HTML content to load into the inner iframe."),
+    /** @description HTML content to load into the inner iframe. Exactly one of `html` and `url` is set. */
+    html: z
+      .string()
+      .optional()
+      .describe(
+        "HTML content to load into the inner iframe. Exactly one of `html` and `url` is set.",
+      ),
+    /** @description URL of an externally hosted View (`text/uri-list` resource) to load into the inner iframe instead of `html`. */
+    url: z
+      .string()
+      .optional()
+      .describe(
+        "URL of an externally hosted View (`text/uri-list` resource) to load into the inner iframe instead of `html`.",
+      ),
     /** @description Optional override for the inner iframe's sandbox attribute. */
     sandbox: z
       .string()
@@ -847,6 +1308,76 @@ export const McpUiToolResultNotificationSchema = z.object({
   params: CallToolResultSchema.describe("Standard MCP tool execution result."),
 });
 
+/**
+ * @description Notification that the host handled an elicitation the MCP server
+ * raised while handling one of the View's tool calls (Host -> View).
+ *
+ * The host renders `elicitation/create` requests itself, since only it can
+ * show a trustworthy form. This notification lets the View reflect the
+ * outcome (e.g. show the values the user entered) while its
+ * `tools/call` is still pending.
+ */
+export const McpUiElicitationNotificationSchema = z.object({
+  method: z.literal("ui/notifications/elicitation"),
+  params: z.object({
+    /** @description Params of the server's `elicitation/create` request. */
+    request: ElicitRequestParamsSchema.describe(
+      "Params of the server's `elicitation/create` request.",
+    ),
+    /** @description The user's response, as returned to the server. */
+    result: ElicitResultSchema.describe(
+      "The user's response, as returned to the server.",
+    ),
+  }),
+});
+
+/**
+ * @description Notification delivering a message broadcast by another View (Host -> View).
+ */
+export const McpUiPeerMessageNotificationSchema = z.object({
+  method: z.literal("ui/notifications/peer-message"),
+  params: z.object({
+    /** @description Topic the sender broadcast on. */
+    topic: z.string().describe("Topic the sender broadcast on."),
+    /** @description Message payload as sent by the sender. */
+    payload: z
+      .unknown()
+      .optional()
+      .describe("Message payload as sent by the sender."),
+    /** @description Name and version of the sending View, if known. */
+    sender: ImplementationSchema.optional().describe(
+      "Name and version of the sending View, if known.",
+    ),
+  }),
+});
+
+/**
+ * @description Notification carrying part of a streamed sampling response (Host -> View).
+ *
+ * The View asks for a streamed response by setting
+ * {@link SAMPLING_STREAM_META_KEY `SAMPLING_STREAM_META_KEY`} in the `_meta` of its
+ * `sampling/createMessage` request. Hosts advertising `sampling.streaming` then send
+ * the response's content as it is generated, before responding with the complete
+ * `CreateMessageResult`.
+ * @see {@link app!App.streamSamplingMessage `App.streamSamplingMessage`} for the method that consumes these
+ */
+export const McpUiSamplingStreamNotificationSchema = z.object({
+  method: z.literal("ui/notifications/sampling-stream"),
+  params: z.object({
+    /** @description Stream ID the View set in its request's `_meta`. */
+    streamId: z
+      .string()
+      .describe("Stream ID the View set in its request's `_meta`."),
+    /**
+     * @description Content generated since the previous notification. Text blocks
+     * carry only the new text, to be appended to the preceding text.
+     */
+    content: SamplingMessageContentBlockSchema.describe(
+      "Content generated since the previous notification. Text blocks\ncarry only the new text, to be appended to the preceding text.",
+    ),
+  }),
+});
+
 /**
  * @description Rich context about the host environment provided to views.
  */
@@ -1054,5 +1585,12 @@ export const McpUiInitializeResultSchema = z
     hostContext: McpUiHostContextSchema.describe(
       "Rich context about the host environment.",
     ),
+    /** @description State last saved by this View (via ui/save-state) for the same tool call, if any. */
+    restoredState: z
+      .unknown()
+      .optional()
+      .describe(
+        "State last saved by this View (via ui/save-state) for the same tool call, if any.",
+      ),
   })
   .passthrough();
@@ -0,0 +1,52 @@
+/**
+ * Type-checked examples for {@link MessagePortTransport `MessagePortTransport`}.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { MessagePortTransport, transfer } from "./message-port-transport.js";
+import type { App } from "./app.js";
+import type { AppBridge } from "./app-bridge.js";
+
+/**
+ * Example: View offering a port to its parent.
+ */
+async function MessagePortTransport_view(app: App) {
+  //#region MessagePortTransport_view
+  await app.connect(new MessagePortTransport({ offer: window.parent }));
+  //#endregion MessagePortTransport_view
+}
+
+/**
+ * Example: Host accepting the port offered by the sandbox proxy.
+ */
+async function MessagePortTransport_host(bridge: AppBridge) {
+  //#region MessagePortTransport_host
+  const iframe = document.getElementById("app-iframe") as HTMLIFrameElement;
+  await bridge.connect(
+    new MessagePortTransport({
+      accept: iframe.contentWindow!,
+      origin: "https://sandbox.example.com",
+    }),
+  );
+  iframe.src = "https://sandbox.example.com/sandbox.html";
+  //#endregion MessagePortTransport_host
+}
+
+/**
+ * Example: Share a canvas snapshot with other Views without copying it.
+ */
+async function transfer_binaryPayload(app: App, canvas: HTMLCanvasElement) {
+  //#region transfer_binaryPayload
+  const { width, height, data } = canvas
+    .getContext("2d")!
+    .getImageData(0, 0, canvas.width, canvas.height);
+  await app.broadcast(
+    "snapshot",
+    transfer({ width, height, pixels: data.buffer }, [data.buffer]),
+  );
+  //#endregion transfer_binaryPayload
+}
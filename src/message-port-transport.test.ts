@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+import { App } from "./app";
+import { AppBridge } from "./app-bridge";
+import { MessagePortTransport, transfer } from "./message-port-transport";
+
+/** Wait for pending port messages to be delivered */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+const validRequest: JSONRPCMessage = { jsonrpc: "2.0", id: 1, method: "ping" };
+
+describe("MessagePortTransport", () => {
+  let channel: MessageChannel;
+
+  beforeEach(() => {
+    channel = new MessageChannel();
+  });
+
+  afterEach(() => {
+    channel.port1.close();
+    channel.port2.close();
+  });
+
+  it("connects an App and an AppBridge over a channel", async () => {
+    const client = {
+      getServerCapabilities: () => ({}),
+      request: async () => ({}) as never,
+      notification: async () => {},
+    };
+    const bridge = new AppBridge(
+      client as unknown as Client,
+      { name: "TestHost", version: "1.0.0" },
+      {},
+    );
+    const app = new App(
+      { name: "TestApp", version: "1.0.0" },
+      {},
+      { autoResize: false },
+    );
+
+    await bridge.connect(new MessagePortTransport(channel.port1));
+    await app.connect(new MessagePortTransport(channel.port2));
+
+    expect(app.getHostVersion()).toEqual({
+      name: "TestHost",
+      version: "1.0.0",
+    });
+    expect(bridge.getAppVersion()).toEqual({
+      name: "TestApp",
+      version: "1.0.0",
+    });
+    await app.close();
+    await bridge.close();
+  });
+
+  it("transfers marked objects instead of copying them", async () => {
+    const sender = new MessagePortTransport(channel.port1);
+    const receiver = new MessagePortTransport(channel.port2);
+    const received: JSONRPCMessage[] = [];
+    receiver.onmessage = (message) => received.push(message);
+    await sender.start();
+    await receiver.start();
+
+    const bytes = new Uint8Array([1, 2, 3]).buffer;
+    await sender.send({
+      jsonrpc: "2.0",
+      method: "ui/notifications/broadcast",
+      params: transfer({ topic: "bytes", payload: bytes }, [bytes]),
+    });
+    await tick();
+
+    expect(bytes.byteLength).toBe(0);
+    const { params } = received[0] as unknown as {
+      params: { payload: ArrayBuffer };
+    };
+    expect([...new Uint8Array(params.payload)]).toEqual([1, 2, 3]);
+  });
+
+  it("reports malformed messages as errors", async () => {
+    const transport = new MessagePortTransport(channel.port1);
+    const errors: Error[] = [];
+    transport.onerror = (error) => errors.push(error);
+    await transport.start();
+
+    channel.port2.postMessage({ jsonrpc: "2.0" });
+    await tick();
+
+    expect(errors).toHaveLength(1);
+  });
+
+  it("close() closes the port and invokes onclose", async () => {
+    const transport = new MessagePortTransport(channel.port1);
+    const onclose = mock(() => {});
+    transport.onclose = onclose;
+    await transport.start();
+
+    await transport.close();
+
+    expect(onclose).toHaveBeenCalledTimes(1);
+    await expect(transport.send(validRequest)).rejects.toThrow();
+  });
+
+  describe("handshake", () => {
+    type Listener = (event: Partial<MessageEvent>) => void;
+    let listeners: Set<Listener>;
+    let restoreWindow: () => void;
+
+    beforeEach(() => {
+      listeners = new Set();
+      const g = globalThis as { window?: unknown };
+      const prev = g.window;
+      g.window = {
+        addEventListener: (_: string, l: Listener) => listeners.add(l),
+        removeEventListener: (_: string, l: Listener) => listeners.delete(l),
+      };
+      const debug = console.debug;
+      console.debug = () => {};
+      restoreWindow = () => {
+        g.window = prev;
+        console.debug = debug;
+      };
+    });
+
+    afterEach(() => {
+      restoreWindow();
+    });
+
+    function dispatch(event: Partial<MessageEvent>) {
+      for (const l of [...listeners]) l(event);
+    }
+
+    it("accepts the first port sent by the expected window and origin", async () => {
+      const iframeWindow = {};
+      const transport = new MessagePortTransport({
+        accept: iframeWindow as MessageEventSource,
+        origin: "https://sandbox.example.com",
+      });
+      const received: JSONRPCMessage[] = [];
+      transport.onmessage = (message) => received.push(message);
+      await transport.start();
+      const ready: JSONRPCMessage = {
+        jsonrpc: "2.0",
+        method: "ui/notifications/sandbox-proxy-ready",
+        params: {},
+      };
+
+      await expect(transport.send(validRequest)).rejects.toThrow(
+        "has not received a port yet",
+      );
+      dispatch({
+        source: {} as MessageEventSource,
+        origin: "https://sandbox.example.com",
+        data: ready,
+        ports: [new MessageChannel().port1],
+      });
+      dispatch({
+        source: iframeWindow as MessageEventSource,
+        origin: "https://evil.example.com",
+        data: ready,
+        ports: [new MessageChannel().port1],
+      });
+      dispatch({
+        source: iframeWindow as MessageEventSource,
+        origin: "https://sandbox.example.com",
+        data: ready,
+        ports: [channel.port1],
+      });
+
+      expect(received).toEqual([ready]);
+      expect(listeners.size).toBe(0);
+
+      const echoed: unknown[] = [];
+      channel.port2.onmessage = (e) => echoed.push(e.data);
+      await transport.send(validRequest);
+      await tick();
+      expect(echoed).toEqual([validRequest]);
+    });
+
+    it("offers a port with the first message, then uses it", async () => {
+      const target = { postMessage: mock(() => {}) };
+      const transport = new MessagePortTransport({
+        offer: target as unknown as Window,
+        origin: "https://host.example.com",
+      });
+      const received: JSONRPCMessage[] = [];
+      transport.onmessage = (message) => received.push(message);
+      await transport.start();
+
+      await transport.send(validRequest);
+      const [data, origin, [port]] = target.postMessage.mock
+        .calls[0] as unknown as [unknown, string, MessagePort[]];
+      port.postMessage({ jsonrpc: "2.0", id: 1, result: {} });
+      const echoed: unknown[] = [];
+      port.onmessage = (e) => echoed.push(e.data);
+      await transport.send({ jsonrpc: "2.0", method: "ping", id: 2 });
+      await tick();
+      port.close();
+
+      expect(data).toEqual(validRequest);
+      expect(origin).toBe("https://host.example.com");
+      expect(target.postMessage).toHaveBeenCalledTimes(1);
+      expect(received).toEqual([{ jsonrpc: "2.0", id: 1, result: {} }]);
+      expect(echoed).toEqual([{ jsonrpc: "2.0", method: "ping", id: 2 }]);
+      await transport.close();
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  MessageExtraInfo,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  Transport,
+  TransportSendOptions,
+} from "@modelcontextprotocol/sdk/shared/transport.js";
+
+/**
+ * How a {@link MessagePortTransport `MessagePortTransport`} obtains its
+ * `MessagePort` when it isn't given one directly.
+ *
+ * - `accept`: wait for the first JSON-RPC message from this window that
+ *   carries a port (e.g. the sandbox proxy's
+ *   `ui/notifications/sandbox-proxy-ready`), then use that port. Hosts use
+ *   this with the sandbox proxy iframe.
+ * - `offer`: create a `MessageChannel` and hand one end to this window along
+ *   with the first message sent (e.g. `ui/initialize`). Views use this with
+ *   `window.parent`.
+ *
+ * `origin` restricts which origin the port is accepted from, or offered to
+ * (`"*"` by default).
+ */
+export type MessagePortHandshake =
+  | { accept: MessageEventSource; origin?: string }
+  | { offer: Window; origin?: string };
+
+const transferables = new WeakMap<object, Transferable[]>();
+
+/**
+ * Mark objects to be transferred rather than copied when a message containing
+ * `value` is sent over a {@link MessagePortTransport `MessagePortTransport`}.
+ *
+ * Transferred objects (e.g. the `ArrayBuffer` behind a large binary payload)
+ * are moved to the receiving side without copying, and become unusable on
+ * the sending side.
+ *
+ * @param value - An object that will be part of a request, result or
+ *   notification
+ * @param transferList - Objects inside `value` to transfer
+ * @returns `value`, so the call can be inlined
+ *
+ * @example Share a canvas snapshot with other Views without copying it
+ * ```ts source="./message-port-transport.examples.ts#transfer_binaryPayload"
+ * const { width, height, data } = canvas
+ *   .getContext("2d")!
+ *   .getImageData(0, 0, canvas.width, canvas.height);
+ * await app.broadcast(
+ *   "snapshot",
+ *   transfer({ width, height, pixels: data.buffer }, [data.buffer]),
+ * );
+ * ```
+ */
+export function transfer<T extends object>(
+  value: T,
+  transferList: Transferable[],
+): T {
+  transferables.set(value, transferList);
+  return value;
+}
+
+/**
+ * Collect the objects marked with {@link transfer `transfer`} anywhere in a
+ * message.
+ */
+function getTransferables(message: unknown): Transferable[] {
+  const found: Transferable[] = [];
+  const seen = new Set<object>();
+  const visit = (value: unknown) => {
+    if (typeof value !== "object" || value === null || seen.has(value)) {
+      return;
+    }
+    seen.add(value);
+    const marked = transferables.get(value);
+    if (marked) found.push(...marked);
+    if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) return;
+    for (const child of Object.values(value)) visit(child);
+  };
+  visit(message);
+  return [...new Set(found)];
+}
+
+/**
+ * JSON-RPC transport over a dedicated `MessagePort`.
+ *
+ * Unlike {@link message-transport!PostMessageTransport `PostMessageTransport`}, which adds a
+ * `message` listener on `window` per instance and filters every message in
+ * the page by source, each `MessagePortTransport` only ever sees its own
+ * channel. That keeps hosts rendering many Views cheap, and no other frame
+ * can inject or observe messages once the channel is set up. Payloads marked
+ * with {@link transfer `transfer`} are transferred instead of copied.
+ *
+ * The port is negotiated with a {@link MessagePortHandshake `MessagePortHandshake`}:
+ * the sandbox proxy created by
+ * {@link sandbox!createSandboxProxy `createSandboxProxy`} offers a port to the
+ * host with `ui/notifications/sandbox-proxy-ready`, and accepts the port a
+ * View offers with `ui/initialize`. Both peers must support ports: a peer
+ * using `PostMessageTransport` ignores the offered port.
+ *
+ * ## Usage
+ *
+ * **View**:
+ * ```ts source="./message-port-transport.examples.ts#MessagePortTransport_view"
+ * await app.connect(new MessagePortTransport({ offer: window.parent }));
+ * ```
+ *
+ * **Host**:
+ * ```ts source="./message-port-transport.examples.ts#MessagePortTransport_host"
+ * const iframe = document.getElementById("app-iframe") as HTMLIFrameElement;
+ * await bridge.connect(
+ *   new MessagePortTransport({
+ *     accept: iframe.contentWindow!,
+ *     origin: "https://sandbox.example.com",
+ *   }),
+ * );
+ * iframe.src = "https://sandbox.example.com/sandbox.html";
+ * ```
+ *
+ * @see {@link app!App.connect `App.connect`} for View usage
+ * @see {@link app-bridge!AppBridge.connect `AppBridge.connect`} for Host usage
+ */
+export class MessagePortTransport implements Transport {
+  private _port?: MessagePort;
+  private _offer?: { target: Window; origin: string; port: MessagePort };
+  private _windowListener?: (event: MessageEvent) => void;
+
+  /**
+   * Create a new MessagePortTransport.
+   *
+   * @param source - The port to use, or how to negotiate one
+   */
+  constructor(private readonly source: MessagePort | MessagePortHandshake) {}
+
+  /**
+   * Start listening on the port, or start the handshake.
+   */
+  async start() {
+    const source = this.source;
+    if (source instanceof MessagePort) {
+      this._listen(source);
+    } else if ("offer" in source) {
+      const channel = new MessageChannel();
+      this._offer = {
+        target: source.offer,
+        origin: source.origin ?? "*",
+        port: channel.port2,
+      };
+      this._listen(channel.port1);
+    } else {
+      this._windowListener = (event) => {
+        if (event.source !== source.accept) return;
+        if (source.origin && event.origin !== source.origin) {
+          console.debug("Ignoring port from unexpected origin", event.origin);
+          return;
+        }
+        const [port] = event.ports;
+        if (!port) {
+          console.debug("Ignoring message without a port", event);
+          return;
+        }
+        window.removeEventListener("message", this._windowListener!);
+        this._windowListener = undefined;
+        this._listen(port);
+        this._receive(event.data);
+      };
+      window.addEventListener("message", this._windowListener);
+    }
+  }
+
+  /**
+   * Send a JSON-RPC message over the port.
+   *
+   * When offering a port, the first message is posted to the target window
+   * together with the port; later ones go over the port.
+   *
+   * @param message - JSON-RPC message to send
+   * @param options - Optional send options (currently unused)
+   * @throws {Error} If accepting a port and none has been received yet
+   */
+  async send(message: JSONRPCMessage, options?: TransportSendOptions) {
+    const transfer = getTransferables(message);
+    if (this._offer) {
+      const { target, origin, port } = this._offer;
+      this._offer = undefined;
+      target.postMessage(message, origin, [port, ...transfer]);
+      return;
+    }
+    if (!this._port) {
+      throw new Error("MessagePortTransport has not received a port yet");
+    }
+    this._port.postMessage(message, transfer);
+  }
+
+  /**
+   * Close the port (or stop waiting for one) and call
+   * {@link onclose `onclose`}.
+   */
+  async close() {
+    if (this._windowListener) {
+      window.removeEventListener("message", this._windowListener);
+      this._windowListener = undefined;
+    }
+    this._port?.close();
+    this._port = undefined;
+    this.onclose?.();
+  }
+
+  private _listen(port: MessagePort) {
+    this._port = port;
+    port.onmessage = (event) => this._receive(event.data);
+    port.onmessageerror = () => {
+      this.onerror?.(new Error("Failed to deserialize message"));
+    };
+  }
+
+  private _receive(data: unknown) {
+    const parsed = JSONRPCMessageSchema.safeParse(data);
+    if (parsed.success) {
+      this.onmessage?.(parsed.data);
+    } else {
+      // Unlike a window, a dedicated port carries nothing but protocol
+      // messages, so anything malformed is a real error.
+      this.onerror?.(
+        new Error("Invalid JSON-RPC message received: " + parsed.error.message),
+      );
+    }
+  }
+
+  /**
+   * Called when the transport is closed.
+   */
+  onclose?: () => void;
+
+  /**
+   * Called when a received message is not valid JSON-RPC or can't be
+   * deserialized.
+   */
+  onerror?: (error: Error) => void;
+
+  /**
+   * Called when a valid JSON-RPC message is received.
+   */
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  /**
+   * Optional session identifier for this transport connection.
+   */
+  sessionId?: string;
+
+  /**
+   * Callback to set the negotiated protocol version.
+   */
+  setProtocolVersion?: (version: string) => void;
+}
@@ -21,6 +21,18 @@ async function PostMessageTransport_view(app: App) {
   //#endregion PostMessageTransport_view
 }
 
+/**
+ * Example: Externally hosted View that only talks to a known host.
+ */
+async function PostMessageTransport_viewWithOrigin(app: App) {
+  //#region PostMessageTransport_viewWithOrigin
+  const transport = new PostMessageTransport(window.parent, window.parent, {
+    origin: "https://sandbox.chat.example.com",
+  });
+  await app.connect(transport);
+  //#endregion PostMessageTransport_viewWithOrigin
+}
+
 /**
  * Example: Host connecting to an iframe.
  */
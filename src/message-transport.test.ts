@@ -69,11 +69,14 @@ describe("PostMessageTransport", () => {
     eventTarget = { postMessage: targetPostMessage };
 
     const origDebug = console.debug;
+    const origWarn = console.warn;
     const origError = console.error;
     console.debug = () => {};
+    console.warn = () => {};
     console.error = () => {};
     restoreConsole = () => {
       console.debug = origDebug;
+      console.warn = origWarn;
       console.error = origError;
     };
   });
@@ -95,10 +98,10 @@ describe("PostMessageTransport", () => {
 
   // ==========================================================================
   // Source validation — the security boundary at this layer.
-  // The transport validates `event.source` (window identity), not `event.origin`.
-  // Origin checks live in the sandbox proxy relay between the two endpoints
-  // (see examples/basic-host/src/sandbox.ts). Here, source===contentWindow is
-  // the narrower check; the app side can't know its sandbox's origin anyway.
+  // The transport always validates `event.source` (window identity). It only
+  // checks `event.origin` once pinned, via the `origin` or `pinOrigin`
+  // options (see below); the sandbox proxy relay between the two endpoints
+  // checks origins as well (see src/sandbox/index.ts).
   // ==========================================================================
   describe("source validation", () => {
     it("delivers messages from the configured eventSource", async () => {
@@ -168,6 +171,183 @@ describe("PostMessageTransport", () => {
     });
   });
 
+  // ==========================================================================
+  // Origin pinning — opt-in, for peers whose origin is known in advance.
+  // ==========================================================================
+  describe("origin option", () => {
+    const origin = "https://sandbox.example.com";
+
+    async function createPinnedTransport() {
+      const transport = new PostMessageTransport(
+        eventTarget as unknown as Window,
+        trustedSource as MessageEventSource,
+        { origin },
+      );
+      await transport.start();
+      return transport;
+    }
+
+    it("posts to the configured origin instead of '*'", async () => {
+      const transport = await createPinnedTransport();
+
+      await transport.send(validRequest);
+
+      expect(targetPostMessage).toHaveBeenCalledWith(validRequest, origin);
+    });
+
+    it("drops messages from other origins", async () => {
+      const transport = await createPinnedTransport();
+      const received: JSONRPCMessage[] = [];
+      transport.onmessage = (msg) => received.push(msg);
+
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin: "https://evil.example.com",
+        data: validRequest,
+      });
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin,
+        data: validRequest,
+      });
+
+      expect(received).toEqual([validRequest]);
+    });
+
+    it("reports messages from the trusted source with the wrong origin", async () => {
+      const transport = await createPinnedTransport();
+      const violations: unknown[] = [];
+      transport.onSecurityViolation = (v) => violations.push(v);
+
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin: "https://evil.example.com",
+        data: validRequest,
+      });
+      // Other windows' traffic is routine on a host page, not a violation.
+      fakeWindow.dispatch("message", {
+        source: untrustedSource,
+        origin: "https://evil.example.com",
+        data: validRequest,
+      });
+
+      expect(violations).toEqual([
+        {
+          origin: "https://evil.example.com",
+          expectedOrigin: origin,
+          data: validRequest,
+        },
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // pinOrigin — learn the peer origin from the ui/initialize exchange.
+  // ==========================================================================
+  describe("pinOrigin option", () => {
+    const origin = "https://sandbox.example.com";
+    const initialize: JSONRPCMessage = {
+      jsonrpc: "2.0",
+      id: 0,
+      method: "ui/initialize",
+      params: {},
+    };
+
+    async function createLearningTransport() {
+      const transport = new PostMessageTransport(
+        eventTarget as unknown as Window,
+        trustedSource as MessageEventSource,
+        { pinOrigin: true },
+      );
+      await transport.start();
+      return transport;
+    }
+
+    it("pins the origin of a received ui/initialize request", async () => {
+      const transport = await createLearningTransport();
+      const received: JSONRPCMessage[] = [];
+      transport.onmessage = (msg) => received.push(msg);
+
+      // Messages before the handshake are accepted from any origin...
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin: "https://other.example.com",
+        data: validRequest,
+      });
+      await transport.send(validRequest);
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin,
+        data: initialize,
+      });
+      // ...and only from the pinned one afterwards.
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin: "https://other.example.com",
+        data: validRequest,
+      });
+      await transport.send(validRequest);
+
+      expect(transport.origin).toBe(origin);
+      expect(received).toEqual([validRequest, initialize]);
+      expect(targetPostMessage.mock.calls.map((c) => c[1])).toEqual([
+        "*",
+        origin,
+      ]);
+    });
+
+    it("pins the origin of the response to a sent ui/initialize", async () => {
+      const transport = await createLearningTransport();
+
+      await transport.send(initialize);
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin: "https://other.example.com",
+        data: { jsonrpc: "2.0", id: 99, result: {} },
+      });
+      expect(transport.origin).toBeUndefined();
+
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin,
+        data: { jsonrpc: "2.0", id: 0, result: {} },
+      });
+
+      expect(transport.origin).toBe(origin);
+    });
+
+    it("does not pin on an error response", async () => {
+      const transport = await createLearningTransport();
+
+      await transport.send(initialize);
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin,
+        data: {
+          jsonrpc: "2.0",
+          id: 0,
+          error: { code: -32600, message: "nope" },
+        },
+      });
+
+      expect(transport.origin).toBeUndefined();
+    });
+
+    it("still posts to '*' for opaque origins", async () => {
+      const transport = await createLearningTransport();
+
+      fakeWindow.dispatch("message", {
+        source: trustedSource,
+        origin: "null",
+        data: initialize,
+      });
+      await transport.send(validRequest);
+
+      expect(transport.origin).toBe("null");
+      expect(targetPostMessage).toHaveBeenCalledWith(validRequest, "*");
+    });
+  });
+
   // ==========================================================================
   // Message format validation.
   // Three paths: valid → onmessage, non-JSON-RPC → silent, malformed → onerror.
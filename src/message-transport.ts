@@ -7,7 +7,54 @@ import {
   Transport,
   TransportSendOptions,
 } from "@modelcontextprotocol/sdk/shared/transport.js";
-import { TOOL_INPUT_PARTIAL_METHOD } from "./spec.types";
+import { INITIALIZE_METHOD, TOOL_INPUT_PARTIAL_METHOD } from "./spec.types";
+
+/**
+ * Options for {@link PostMessageTransport `PostMessageTransport`}.
+ */
+export interface PostMessageTransportOptions {
+  /**
+   * Origin of the peer window. When set, messages are posted to this origin
+   * instead of `"*"`, and received messages from any other origin are
+   * dropped.
+   *
+   * Externally hosted Views (see
+   * {@link app!RESOURCE_URL_MIME_TYPE `RESOURCE_URL_MIME_TYPE`}) should set
+   * this to the origin of the host's sandbox proxy, so that only that host
+   * can talk to them.
+   */
+  origin?: string;
+  /**
+   * Learn the peer's origin from the `ui/initialize` exchange and pin it, as
+   * if it had been passed as {@link origin `origin`}.
+   *
+   * The origin is taken from the first valid `ui/initialize` request
+   * received (host side), or from the successful response to the
+   * `ui/initialize` request sent (View side). Messages before that are
+   * posted to `"*"`. Ignored when `origin` is set.
+   *
+   * Peers with an opaque origin (a sandboxed frame without
+   * `allow-same-origin`) can only be checked inbound: messages to them are
+   * still posted to `"*"`.
+   */
+  pinOrigin?: boolean;
+}
+
+/**
+ * A message rejected by a {@link PostMessageTransport `PostMessageTransport`}
+ * because it came from the expected window but an unexpected origin, e.g.
+ * because the peer frame navigated away.
+ *
+ * @see {@link PostMessageTransport.onSecurityViolation `PostMessageTransport.onSecurityViolation`}
+ */
+export interface PostMessageSecurityViolation {
+  /** Origin the message was sent from. */
+  origin: string;
+  /** Origin the transport is pinned to. */
+  expectedOrigin: string;
+  /** The dropped message. */
+  data: unknown;
+}
 
 /**
  * JSON-RPC transport using `window.postMessage` for iframe↔parent communication.
@@ -22,6 +69,23 @@ import { TOOL_INPUT_PARTIAL_METHOD } from "./spec.types";
  * by checking `event.source`. For views, pass `window.parent`.
  * For hosts, pass `iframe.contentWindow` to validate the iframe source.
  *
+ * Messages are posted with `"*"` as target origin unless
+ * {@link PostMessageTransportOptions.origin `origin`} is set, which also
+ * rejects messages from other origins. Set it whenever the peer's origin is
+ * known in advance, e.g. in an externally hosted View:
+ *
+ * ```ts source="./message-transport.examples.ts#PostMessageTransport_viewWithOrigin"
+ * const transport = new PostMessageTransport(window.parent, window.parent, {
+ *   origin: "https://sandbox.chat.example.com",
+ * });
+ * await app.connect(transport);
+ * ```
+ *
+ * Otherwise, {@link PostMessageTransportOptions.pinOrigin `pinOrigin`} pins
+ * the origin seen during the `ui/initialize` handshake. Messages from the
+ * right window but the wrong origin are reported to
+ * {@link onSecurityViolation `onSecurityViolation`}.
+ *
  * ## Usage
  *
  * **View**:
@@ -48,6 +112,8 @@ export class PostMessageTransport implements Transport {
     this: Window,
     ev: WindowEventMap["message"],
   ) => any | undefined;
+  private _origin?: string;
+  private _initializeRequestId?: string | number;
 
   /**
    * Create a new PostMessageTransport.
@@ -55,6 +121,8 @@ export class PostMessageTransport implements Transport {
    * @param eventTarget - Target window to send messages to (default: `window.parent`)
    * @param eventSource - Source window for message validation. For views, pass
    *   `window.parent`. For hosts, pass `iframe.contentWindow`.
+   * @param options - Optional strict origin for sending and receiving, or
+   *   whether to learn it from the handshake
    *
    * @example View connecting to parent
    * ```ts source="./message-transport.examples.ts#PostMessageTransport_constructor_view"
@@ -73,15 +141,33 @@ export class PostMessageTransport implements Transport {
   constructor(
     private eventTarget: Window = window.parent,
     private eventSource: MessageEventSource,
+    private options: PostMessageTransportOptions = {},
   ) {
+    this._origin = options.origin;
     this.messageListener = (event) => {
       if (eventSource && event.source !== this.eventSource) {
         console.debug("Ignoring message from unknown source", event);
         return;
       }
+      if (this._origin && event.origin !== this._origin) {
+        console.warn("Ignoring message from unexpected origin", event.origin);
+        this.onSecurityViolation?.({
+          origin: event.origin,
+          expectedOrigin: this._origin,
+          data: event.data,
+        });
+        return;
+      }
       const parsed = JSONRPCMessageSchema.safeParse(event.data);
       if (parsed.success) {
         console.debug("Parsed message", parsed.data);
+        if (
+          !this._origin &&
+          this.options.pinOrigin &&
+          this._isInitializeExchange(parsed.data)
+        ) {
+          this._origin = event.origin;
+        }
         this.onmessage?.(parsed.data);
       } else if (event.data?.jsonrpc !== "2.0") {
         // Not a JSON-RPC message at all (e.g. internal frames injected by
@@ -104,6 +190,31 @@ export class PostMessageTransport implements Transport {
     };
   }
 
+  /**
+   * The origin this transport is pinned to, if any: the
+   * {@link PostMessageTransportOptions.origin `origin`} option, or the origin
+   * learned during the handshake with
+   * {@link PostMessageTransportOptions.pinOrigin `pinOrigin`}.
+   */
+  get origin(): string | undefined {
+    return this._origin;
+  }
+
+  /**
+   * Whether a received message completes the `ui/initialize` exchange: the
+   * request itself (host side) or the successful response to ours (View side).
+   */
+  private _isInitializeExchange(message: JSONRPCMessage): boolean {
+    if ("method" in message) {
+      return message.method === INITIALIZE_METHOD && "id" in message;
+    }
+    return (
+      "result" in message &&
+      this._initializeRequestId !== undefined &&
+      message.id === this._initializeRequestId
+    );
+  }
+
   /**
    * Begin listening for messages from the event source.
    *
@@ -117,8 +228,10 @@ export class PostMessageTransport implements Transport {
   /**
    * Send a JSON-RPC message to the target window.
    *
-   * Messages are sent using `postMessage` with `"*"` origin, meaning they are visible
-   * to all frames. The receiver should validate the message source for security.
+   * Messages are sent using `postMessage` with the pinned {@link origin `origin`},
+   * or `"*"` if none is pinned (yet), meaning they are visible to any frame
+   * loaded in the target window.
+   * The receiver should validate the message source for security.
    *
    * @param message - JSON-RPC message to send
    * @param options - Optional send options (currently unused)
@@ -129,7 +242,13 @@ export class PostMessageTransport implements Transport {
     if ((message as { method?: string }).method !== TOOL_INPUT_PARTIAL_METHOD) {
       console.debug("Sending message", message);
     }
-    this.eventTarget.postMessage(message, "*");
+    if ("method" in message && message.method === INITIALIZE_METHOD) {
+      if ("id" in message) this._initializeRequestId = message.id;
+    }
+    // Opaque origins can't be targeted, see `pinOrigin`.
+    const targetOrigin =
+      this._origin && this._origin !== "null" ? this._origin : "*";
+    this.eventTarget.postMessage(message, targetOrigin);
   }
 
   /**
@@ -159,6 +278,17 @@ export class PostMessageTransport implements Transport {
    */
   onerror?: (error: Error) => void;
 
+  /**
+   * Called when a message from the expected window is dropped because it
+   * came from an origin other than the pinned {@link origin `origin`}.
+   *
+   * The message is never delivered. Hosts can use this to log the incident
+   * or tear down the View.
+   *
+   * @param violation - The rejected origin and message
+   */
+  onSecurityViolation?: (violation: PostMessageSecurityViolation) => void;
+
   /**
    * Called when a valid JSON-RPC message is received.
    *
@@ -0,0 +1,22 @@
+/**
+ * Type-checked examples for the OpenAI Apps SDK compatibility layer.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { installOpenAiPolyfill } from "./index.js";
+
+/**
+ * Example: Run an existing OpenAI widget in an MCP Apps host.
+ */
+function installOpenAiPolyfill_basicUsage() {
+  //#region installOpenAiPolyfill_basicUsage
+  // openai-shim.ts, imported before the widget's own modules
+  installOpenAiPolyfill().catch((error) => {
+    console.error("Failed to connect to the host:", error);
+  });
+  //#endregion installOpenAiPolyfill_basicUsage
+}
@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+import { App } from "../app";
+import {
+  AppBridge,
+  createMemoryViewStateStore,
+  type McpUiHostCapabilities,
+  type McpUiHostContext,
+} from "../app-bridge";
+import {
+  installOpenAiPolyfill,
+  SET_GLOBALS_EVENT_TYPE,
+  type OpenAiWindow,
+  type SetGlobalsEvent,
+} from "./index";
+
+/** Wait for pending microtasks to complete */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const testHostInfo = { name: "TestHost", version: "1.0.0" };
+const testHostCapabilities: McpUiHostCapabilities = {
+  openLinks: {},
+  serverTools: {},
+  persistState: {},
+  modal: {},
+};
+const toolInfo = {
+  id: "call-1",
+  tool: { name: "show_weather", inputSchema: { type: "object" as const } },
+};
+
+/**
+ * Conformance of the `window.openai` polyfill with the OpenAI Apps SDK,
+ * running against a real AppBridge.
+ */
+describe("window.openai polyfill", () => {
+  let bridge: AppBridge;
+  let appTransport: InMemoryTransport;
+  let bridgeTransport: InMemoryTransport;
+  let target: EventTarget & { openai?: OpenAiWindow };
+  let events: SetGlobalsEvent["detail"]["globals"][];
+
+  beforeEach(() => {
+    [appTransport, bridgeTransport] = InMemoryTransport.createLinkedPair();
+    target = new EventTarget();
+    events = [];
+    target.addEventListener(SET_GLOBALS_EVENT_TYPE, (event) => {
+      events.push((event as SetGlobalsEvent).detail.globals);
+    });
+  });
+
+  afterEach(async () => {
+    await appTransport.close();
+    await bridgeTransport.close();
+  });
+
+  async function install(hostContext: McpUiHostContext = { toolInfo }) {
+    const stateStore = createMemoryViewStateStore();
+    bridge = new AppBridge(null, testHostInfo, testHostCapabilities, {
+      hostContext,
+      stateStore,
+    });
+    await bridge.connect(bridgeTransport);
+    const app = new App(
+      { name: "Widget", version: "1.0.0" },
+      {},
+      { autoResize: false },
+    );
+    const installed = installOpenAiPolyfill({
+      app,
+      transport: appTransport,
+      target,
+    });
+    expect(target.openai).toBeDefined();
+    return { openai: await installed, stateStore };
+  }
+
+  describe("globals", () => {
+    it("has OpenAI defaults before the host context arrives", async () => {
+      const { openai } = await install({});
+
+      expect(openai).toMatchObject({
+        theme: "light",
+        locale: "en-US",
+        displayMode: "inline",
+        maxHeight: undefined,
+        safeArea: { insets: { top: 0, bottom: 0, left: 0, right: 0 } },
+        toolInput: {},
+        toolOutput: null,
+        toolResponseMetadata: null,
+        widgetState: null,
+      });
+    });
+
+    it("maps the host context", async () => {
+      const { openai } = await install({
+        theme: "dark",
+        locale: "de-DE",
+        displayMode: "fullscreen",
+        containerDimensions: { maxHeight: 600 },
+        safeAreaInsets: { top: 10, right: 0, bottom: 20, left: 0 },
+        platform: "mobile",
+        deviceCapabilities: { touch: true, hover: false },
+      });
+
+      expect(openai).toMatchObject({
+        theme: "dark",
+        locale: "de-DE",
+        displayMode: "fullscreen",
+        maxHeight: 600,
+        safeArea: { insets: { top: 10, right: 0, bottom: 20, left: 0 } },
+        userAgent: {
+          device: { type: "mobile" },
+          capabilities: { hover: false, touch: true },
+        },
+      });
+      expect(events.at(-1)).toMatchObject({ theme: "dark", locale: "de-DE" });
+    });
+
+    it("dispatches openai:set_globals for host context changes", async () => {
+      const { openai } = await install();
+      events = [];
+
+      bridge.sendHostContextChange({ theme: "dark" });
+      await flush();
+
+      expect(openai.theme).toBe("dark");
+      expect(events).toEqual([{ theme: "dark" }]);
+    });
+
+    it("exposes tool input, output and response metadata", async () => {
+      const { openai } = await install();
+      events = [];
+
+      await bridge.sendToolInput({ arguments: { city: "Tokyo" } });
+      await bridge.sendToolResult({
+        content: [],
+        structuredContent: { temperature: 21 },
+        _meta: { "openai/widget": true },
+      });
+      await flush();
+
+      expect(openai.toolInput).toEqual({ city: "Tokyo" });
+      expect(openai.toolOutput).toEqual({ temperature: 21 });
+      expect(openai.toolResponseMetadata).toEqual({ "openai/widget": true });
+      expect(events).toEqual([
+        { toolInput: { city: "Tokyo" } },
+        {
+          toolOutput: { temperature: 21 },
+          toolResponseMetadata: { "openai/widget": true },
+        },
+      ]);
+    });
+
+    it("restores widgetState saved by the host", async () => {
+      const stateStore = createMemoryViewStateStore();
+      await stateStore.set("show_weather#call-1", { unit: "celsius" });
+      bridge = new AppBridge(null, testHostInfo, testHostCapabilities, {
+        hostContext: { toolInfo },
+        stateStore,
+      });
+      await bridge.connect(bridgeTransport);
+
+      const openai = await installOpenAiPolyfill({
+        app: new App({ name: "Widget", version: "1.0.0" }, {}, {}),
+        transport: appTransport,
+        target,
+      });
+
+      expect(openai.widgetState).toEqual({ unit: "celsius" });
+    });
+  });
+
+  describe("API", () => {
+    it("callTool calls the server tool and joins its text as result", async () => {
+      const { openai } = await install();
+      const calls: unknown[] = [];
+      bridge.oncalltool = async (params) => {
+        calls.push(params);
+        return {
+          content: [
+            { type: "text", text: "Sunny" },
+            { type: "text", text: "21°C" },
+          ],
+          structuredContent: { temperature: 21 },
+        };
+      };
+
+      const response = await openai.callTool("get_weather", { city: "Oslo" });
+
+      expect(calls).toMatchObject([
+        { name: "get_weather", arguments: { city: "Oslo" } },
+      ]);
+      expect(response.result).toBe("Sunny\n21°C");
+      expect(response.structuredContent).toEqual({ temperature: 21 });
+    });
+
+    it("sendFollowUpMessage sends a user message", async () => {
+      const { openai } = await install();
+      const messages: unknown[] = [];
+      bridge.onmessage = async (params) => {
+        messages.push(params);
+        return {};
+      };
+
+      await openai.sendFollowUpMessage({ prompt: "Compare with Paris" });
+
+      expect(messages).toEqual([
+        {
+          role: "user",
+          content: [{ type: "text", text: "Compare with Paris" }],
+        },
+      ]);
+    });
+
+    it("openExternal opens the link through the host", async () => {
+      const { openai } = await install();
+      const urls: string[] = [];
+      bridge.onopenlink = async ({ url }) => {
+        urls.push(url);
+        return {};
+      };
+
+      await openai.openExternal({ href: "https://example.com" });
+
+      expect(urls).toEqual(["https://example.com"]);
+    });
+
+    it("requestDisplayMode resolves with the granted mode", async () => {
+      const { openai } = await install();
+      bridge.onrequestdisplaymode = async () => ({ mode: "inline" });
+
+      expect(await openai.requestDisplayMode({ mode: "fullscreen" })).toEqual({
+        mode: "inline",
+      });
+    });
+
+    it("setWidgetState updates widgetState and saves it", async () => {
+      const { openai, stateStore } = await install();
+      events = [];
+
+      await openai.setWidgetState({ unit: "fahrenheit" });
+
+      expect(openai.widgetState).toEqual({ unit: "fahrenheit" });
+      expect(events).toEqual([{ widgetState: { unit: "fahrenheit" } }]);
+      expect(await stateStore.get("show_weather#call-1")).toEqual({
+        unit: "fahrenheit",
+      });
+    });
+
+    it("notifyIntrinsicHeight and requestClose notify the host", async () => {
+      const { openai } = await install();
+      const sizes: unknown[] = [];
+      let teardownRequested = false;
+      bridge.addEventListener("sizechange", (params) => sizes.push(params));
+      bridge.addEventListener("requestteardown", () => {
+        teardownRequested = true;
+      });
+
+      openai.notifyIntrinsicHeight(420);
+      openai.requestClose();
+      await flush();
+
+      expect(sizes).toEqual([{ height: 420 }]);
+      expect(teardownRequested).toBe(true);
+    });
+
+    it("requestModal opens the template in a host modal", async () => {
+      const { openai } = await install();
+      const modals: unknown[] = [];
+      bridge.onrequestmodal = async (params) => {
+        modals.push(params);
+        return {};
+      };
+
+      await openai.requestModal({
+        title: "Details",
+        template: "ui://weather/details.html",
+        params: { city: "Oslo" },
+      });
+
+      expect(modals).toEqual([
+        {
+          resourceUri: "ui://weather/details.html",
+          title: "Details",
+          arguments: { city: "Oslo" },
+        },
+      ]);
+    });
+
+    it("rejects APIs MCP Apps hosts don't support", async () => {
+      const { openai } = await install();
+
+      await expect(openai.requestModal({})).rejects.toThrow("not supported");
+      await expect(
+        openai.getFileDownloadUrl({ fileId: "file-1" }),
+      ).rejects.toThrow("not supported");
+    });
+  });
+});
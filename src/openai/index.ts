@@ -0,0 +1,306 @@
+/**
+ * Compatibility layer for widgets written against the OpenAI Apps SDK.
+ *
+ * {@link installOpenAiPolyfill `installOpenAiPolyfill`} installs a
+ * `window.openai` object implemented on top of {@link app!App `App`}, so
+ * existing widgets run unmodified in MCP Apps hosts while they are migrated.
+ * New code should use {@link app!App `App`} directly; the migration guide
+ * maps each `window.openai` member to its `App` counterpart.
+ *
+ * @module openai
+ */
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type {
+  CallToolResult,
+  ContentBlock,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { App, type McpUiHostContext } from "../app";
+
+/**
+ * Name of the event dispatched on `window` whenever a
+ * {@link OpenAiGlobals `OpenAiGlobals`} property changes.
+ */
+export const SET_GLOBALS_EVENT_TYPE = "openai:set_globals";
+
+/**
+ * Event dispatched with {@link SET_GLOBALS_EVENT_TYPE `SET_GLOBALS_EVENT_TYPE`};
+ * `detail.globals` holds the properties that changed.
+ */
+export type SetGlobalsEvent = CustomEvent<{ globals: Partial<OpenAiGlobals> }>;
+
+/**
+ * Properties of `window.openai` that describe the widget's environment.
+ */
+export interface OpenAiGlobals {
+  theme: "light" | "dark";
+  userAgent: {
+    device: { type: "mobile" | "tablet" | "desktop" | "unknown" };
+    capabilities: { hover: boolean; touch: boolean };
+  };
+  locale: string;
+  /** Maximum height of the widget in pixels, if the host limits it. */
+  maxHeight: number | undefined;
+  displayMode: "inline" | "pip" | "fullscreen";
+  safeArea: {
+    insets: { top: number; bottom: number; left: number; right: number };
+  };
+  /** Arguments of the tool call that rendered the widget. */
+  toolInput: Record<string, unknown>;
+  /** `structuredContent` of the tool result, once available. */
+  toolOutput: Record<string, unknown> | null;
+  /** `_meta` of the tool result, once available. */
+  toolResponseMetadata: Record<string, unknown> | null;
+  /** State last passed to `setWidgetState`, or restored by the host. */
+  widgetState: unknown;
+}
+
+/**
+ * Result of `window.openai.callTool`: the MCP `CallToolResult`, plus its text
+ * content joined as `result`.
+ */
+export type OpenAiCallToolResponse = CallToolResult & { result: string };
+
+/**
+ * Methods of `window.openai`.
+ */
+export interface OpenAiApi {
+  callTool(
+    name: string,
+    args: Record<string, unknown>,
+  ): Promise<OpenAiCallToolResponse>;
+  sendFollowUpMessage(args: { prompt: string }): Promise<void>;
+  openExternal(payload: { href: string }): Promise<void>;
+  requestDisplayMode(args: {
+    mode: OpenAiGlobals["displayMode"];
+  }): Promise<{ mode: OpenAiGlobals["displayMode"] }>;
+  setWidgetState(state: unknown): Promise<void>;
+  notifyIntrinsicHeight(height: number): void;
+  requestClose(): void;
+  /**
+   * Not supported by MCP Apps hosts; always rejects. Use
+   * {@link app!App.requestFile `App.requestFile`} instead.
+   */
+  uploadFile(file: File): Promise<{ fileId: string }>;
+  /** Not supported by MCP Apps hosts; always rejects. */
+  getFileDownloadUrl(args: {
+    fileId: string;
+  }): Promise<{ downloadUrl: string }>;
+  /**
+   * Open `template` (a `ui://` URI of the same server) in a host modal, with
+   * `params` as its tool input. Rejects if the host has no `modal`
+   * capability, or without a `template`.
+   */
+  requestModal(options: {
+    title?: string;
+    params?: Record<string, unknown>;
+    template?: string;
+  }): Promise<void>;
+}
+
+/**
+ * The `window.openai` object installed by
+ * {@link installOpenAiPolyfill `installOpenAiPolyfill`}.
+ */
+export type OpenAiWindow = OpenAiGlobals & OpenAiApi;
+
+/**
+ * Options for {@link installOpenAiPolyfill `installOpenAiPolyfill`}.
+ */
+export interface OpenAiPolyfillOptions {
+  /**
+   * The App to implement `window.openai` with. Must not be connected yet, so
+   * the polyfill sees the tool input and result.
+   *
+   * @default An App named after the document title, with auto-resize enabled
+   */
+  app?: App;
+  /**
+   * Transport to connect the App with.
+   *
+   * @default The App's default, talking to `window.parent`
+   */
+  transport?: Transport;
+  /**
+   * Object to install `openai` on and dispatch
+   * {@link SET_GLOBALS_EVENT_TYPE `SET_GLOBALS_EVENT_TYPE`} events on.
+   *
+   * @default window
+   */
+  target?: EventTarget & { openai?: OpenAiWindow };
+}
+
+function getContextGlobals(
+  context: McpUiHostContext | undefined,
+): Partial<OpenAiGlobals> {
+  if (!context) return {};
+  const globals: Partial<OpenAiGlobals> = {};
+  if (context.theme) globals.theme = context.theme;
+  if (context.locale) globals.locale = context.locale;
+  if (context.displayMode) globals.displayMode = context.displayMode;
+  if (context.containerDimensions) {
+    const dimensions = context.containerDimensions;
+    globals.maxHeight =
+      "height" in dimensions ? dimensions.height : dimensions.maxHeight;
+  }
+  if (context.safeAreaInsets) {
+    globals.safeArea = { insets: { ...context.safeAreaInsets } };
+  }
+  if (context.platform || context.deviceCapabilities) {
+    globals.userAgent = {
+      device: {
+        type: context.platform === "mobile" ? "mobile" : "desktop",
+      },
+      capabilities: {
+        hover: context.deviceCapabilities?.hover ?? true,
+        touch: context.deviceCapabilities?.touch ?? false,
+      },
+    };
+  }
+  return globals;
+}
+
+function notSupported(name: string): Promise<never> {
+  return Promise.reject(
+    new Error(`window.openai.${name} is not supported by MCP Apps hosts`),
+  );
+}
+
+/**
+ * Create a `window.openai`-compatible object backed by `app`, whose globals
+ * follow the App's tool input, tool result and host context.
+ */
+function createOpenAiWindow(app: App, target: EventTarget) {
+  const openai: OpenAiWindow = {
+    theme: "light",
+    userAgent: {
+      device: { type: "unknown" },
+      capabilities: { hover: true, touch: false },
+    },
+    locale: "en-US",
+    maxHeight: undefined,
+    displayMode: "inline",
+    safeArea: { insets: { top: 0, bottom: 0, left: 0, right: 0 } },
+    toolInput: {},
+    toolOutput: null,
+    toolResponseMetadata: null,
+    widgetState: null,
+
+    async callTool(name, args) {
+      const result = await app.callServerTool({ name, arguments: args });
+      const text = (result.content as ContentBlock[])
+        .flatMap((block) => (block.type === "text" ? [block.text] : []))
+        .join("\n");
+      return { ...result, result: text };
+    },
+    async sendFollowUpMessage({ prompt }) {
+      const { isError } = await app.sendMessage({
+        role: "user",
+        content: [{ type: "text", text: prompt }],
+      });
+      if (isError) throw new Error("Host rejected the follow-up message");
+    },
+    async openExternal({ href }) {
+      const { isError } = await app.openLink({ url: href });
+      if (isError) throw new Error(`Host refused to open ${href}`);
+    },
+    async requestDisplayMode({ mode }) {
+      const result = await app.requestDisplayMode({ mode });
+      return { mode: result.mode };
+    },
+    async setWidgetState(state) {
+      setGlobals({ widgetState: state });
+      if (app.getHostCapabilities()?.persistState) {
+        await app.saveState(state);
+      }
+    },
+    notifyIntrinsicHeight(height) {
+      void app.sendSizeChanged({ height });
+    },
+    requestClose() {
+      void app.requestTeardown();
+    },
+    uploadFile: () => notSupported("uploadFile"),
+    getFileDownloadUrl: () => notSupported("getFileDownloadUrl"),
+    async requestModal({ title, params, template }) {
+      if (!template || !app.getHostCapabilities()?.modal) {
+        return notSupported("requestModal");
+      }
+      const { isError } = await app.requestModal({
+        resourceUri: template,
+        title,
+        arguments: params,
+      });
+      if (isError) throw new Error(`Host refused to open ${template}`);
+    },
+  };
+
+  const setGlobals = (globals: Partial<OpenAiGlobals>) => {
+    Object.assign(openai, globals);
+    target.dispatchEvent(
+      new CustomEvent(SET_GLOBALS_EVENT_TYPE, { detail: { globals } }),
+    );
+  };
+
+  app.addEventListener("toolinput", (params) => {
+    setGlobals({ toolInput: params.arguments ?? {} });
+  });
+  app.addEventListener("toolresult", (params) => {
+    setGlobals({
+      toolOutput: params.structuredContent ?? null,
+      toolResponseMetadata: params._meta ?? null,
+    });
+  });
+  app.addEventListener("hostcontextchanged", (params) => {
+    setGlobals(getContextGlobals(params));
+  });
+
+  return { openai, setGlobals };
+}
+
+/**
+ * Install a `window.openai` object implemented on top of {@link app!App `App`}.
+ *
+ * `window.openai` is available as soon as this function returns its promise,
+ * with defaults for every global. Once the App has connected, the globals
+ * reflect the host context, and they follow the tool input, tool result and
+ * later host context changes. Every change is announced with an
+ * `openai:set_globals` event, as OpenAI widgets (e.g. their
+ * `useOpenAiGlobal` hook) expect.
+ *
+ * `window.openai` methods map to App requests: `callTool` to
+ * `tools/call`, `sendFollowUpMessage` to `ui/message`, `openExternal` to
+ * `ui/open-link`, `setWidgetState` to `ui/save-state` (when the host
+ * supports it), `requestModal` to `ui/request-modal` and so on.
+ * `uploadFile` and `getFileDownloadUrl` always reject.
+ *
+ * Import and call this before any widget code reads `window.openai`.
+ *
+ * @param options - The App, transport and target to use
+ * @returns The installed `window.openai`, once the App has connected
+ *
+ * @example Run an existing OpenAI widget in an MCP Apps host
+ * ```ts source="./index.examples.ts#installOpenAiPolyfill_basicUsage"
+ * // openai-shim.ts, imported before the widget's own modules
+ * installOpenAiPolyfill().catch((error) => {
+ *   console.error("Failed to connect to the host:", error);
+ * });
+ * ```
+ */
+export async function installOpenAiPolyfill(
+  options: OpenAiPolyfillOptions = {},
+): Promise<OpenAiWindow> {
+  const target: NonNullable<OpenAiPolyfillOptions["target"]> =
+    options.target ?? (window as Window & { openai?: OpenAiWindow });
+  const app =
+    options.app ??
+    new App({ name: document.title || "OpenAI widget", version: "1.0.0" });
+  const { openai, setGlobals } = createOpenAiWindow(app, target);
+  target.openai = openai;
+  await app.connect(options.transport);
+  setGlobals({
+    ...getContextGlobals(app.getHostContext()),
+    widgetState: app.getRestoredState() ?? null,
+  });
+  return openai;
+}
@@ -0,0 +1,43 @@
+/**
+ * Type-checked examples for {@link PeerMessageRouter `PeerMessageRouter`}.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { AppBridge, PeerMessageRouter } from "./app-bridge.js";
+
+/**
+ * Example: Route messages between Views of the same server.
+ */
+function PeerMessageRouter_basicUsage(client: Client, serverUrl: string) {
+  //#region PeerMessageRouter_basicUsage
+  const router = new PeerMessageRouter();
+
+  const bridge = new AppBridge(
+    client,
+    { name: "MyHost", version: "1.0.0" },
+    { serverTools: {}, peerMessaging: {} },
+  );
+  const unregister = router.add(bridge, serverUrl);
+
+  // When the View is unmounted:
+  unregister();
+  //#endregion PeerMessageRouter_basicUsage
+}
+
+/**
+ * Example: Let Views of two trusted servers talk to each other.
+ */
+function PeerMessageRouterOptions_allowlist() {
+  //#region PeerMessageRouterOptions_allowlist
+  const router = new PeerMessageRouter({
+    allowlist: [
+      ["https://maps.example.com/mcp", "https://pdf.example.com/mcp"],
+    ],
+  });
+  //#endregion PeerMessageRouterOptions_allowlist
+}
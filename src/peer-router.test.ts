@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+
+import { App } from "./app";
+import {
+  AppBridge,
+  PeerMessageRouter,
+  type McpUiHostCapabilities,
+  type McpUiPeerMessageNotification,
+} from "./app-bridge";
+
+/** Wait for pending microtasks to complete */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function createMockClient(): Pick<
+  Client,
+  "getServerCapabilities" | "request" | "notification"
+> {
+  return {
+    getServerCapabilities: () => ({}),
+    request: async () => ({}) as never,
+    notification: async () => {},
+  };
+}
+
+const testHostInfo = { name: "TestHost", version: "1.0.0" };
+const testHostCapabilities: McpUiHostCapabilities = { peerMessaging: {} };
+
+interface TestView {
+  app: App;
+  bridge: AppBridge;
+  received: McpUiPeerMessageNotification["params"][];
+  close(): Promise<void>;
+}
+
+async function createView(
+  name: string,
+  hostCapabilities = testHostCapabilities,
+): Promise<TestView> {
+  const [appTransport, bridgeTransport] = InMemoryTransport.createLinkedPair();
+  const app = new App({ name, version: "1.0.0" }, {}, { autoResize: false });
+  const bridge = new AppBridge(
+    createMockClient() as Client,
+    testHostInfo,
+    hostCapabilities,
+  );
+  const received: McpUiPeerMessageNotification["params"][] = [];
+  app.addEventListener("peermessage", (params) => received.push(params));
+  await bridge.connect(bridgeTransport);
+  await app.connect(appTransport);
+  return {
+    app,
+    bridge,
+    received,
+    close: async () => {
+      await appTransport.close();
+      await bridgeTransport.close();
+    },
+  };
+}
+
+describe("PeerMessageRouter", () => {
+  let views: TestView[];
+
+  beforeEach(() => {
+    views = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(views.map((view) => view.close()));
+  });
+
+  async function addViews(...names: string[]) {
+    const created = await Promise.all(names.map((name) => createView(name)));
+    views.push(...created);
+    return created;
+  }
+
+  it("delivers broadcasts to other Views of the same server", async () => {
+    const router = new PeerMessageRouter();
+    const [map, pdf, other] = await addViews("Map", "Pdf", "Other");
+    router.add(map.bridge, "server-a");
+    router.add(pdf.bridge, "server-a");
+    router.add(other.bridge, "server-b");
+
+    await map.app.broadcast("selection", { regionId: "eu" });
+    await flush();
+
+    expect(pdf.received).toEqual([
+      {
+        topic: "selection",
+        payload: { regionId: "eu" },
+        sender: { name: "Map", version: "1.0.0" },
+      },
+    ]);
+    expect(map.received).toEqual([]);
+    expect(other.received).toEqual([]);
+  });
+
+  it("delivers across servers on the allowlist in both directions", async () => {
+    const router = new PeerMessageRouter({
+      allowlist: [["server-a", "server-b"]],
+    });
+    const [a, b, c] = await addViews("A", "B", "C");
+    router.add(a.bridge, "server-a");
+    router.add(b.bridge, "server-b");
+    router.add(c.bridge, "server-c");
+
+    await a.app.broadcast("ping", 1);
+    await b.app.broadcast("pong", 2);
+    await flush();
+
+    expect(b.received.map((m) => m.topic)).toEqual(["ping"]);
+    expect(a.received.map((m) => m.topic)).toEqual(["pong"]);
+    expect(c.received).toEqual([]);
+  });
+
+  it("stops routing for removed Views", async () => {
+    const router = new PeerMessageRouter();
+    const [a, b] = await addViews("A", "B");
+    router.add(a.bridge, "server-a");
+    const unregister = router.add(b.bridge, "server-a");
+
+    unregister();
+    await a.app.broadcast("selection", {});
+    await b.app.broadcast("selection", {});
+    await flush();
+
+    expect(a.received).toEqual([]);
+    expect(b.received).toEqual([]);
+  });
+
+  it("App.broadcast fails without the peerMessaging capability", async () => {
+    const view = await createView("A", {});
+    views.push(view);
+
+    await expect(view.app.broadcast("selection", {})).rejects.toThrow(
+      "Host does not support peer messaging",
+    );
+  });
+});
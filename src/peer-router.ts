@@ -0,0 +1,131 @@
+import type { AppBridge } from "./app-bridge";
+import type { McpUiBroadcastNotification } from "./types";
+
+/**
+ * Options for {@link PeerMessageRouter `PeerMessageRouter`}.
+ */
+export interface PeerMessageRouterOptions {
+  /**
+   * Pairs of server IDs whose Views may also message each other.
+   *
+   * By default a broadcast only reaches Views of the sender's own server.
+   * Each pair additionally connects the Views of two different servers, in
+   * both directions.
+   *
+   * @example Let Views of two trusted servers talk to each other
+   * ```ts source="./peer-router.examples.ts#PeerMessageRouterOptions_allowlist"
+   * const router = new PeerMessageRouter({
+   *   allowlist: [
+   *     ["https://maps.example.com/mcp", "https://pdf.example.com/mcp"],
+   *   ],
+   * });
+   * ```
+   */
+  allowlist?: ReadonlyArray<readonly [string, string]>;
+}
+
+interface RoutedView {
+  serverId: string;
+  listener: (params: McpUiBroadcastNotification["params"]) => void;
+}
+
+/**
+ * Host-side router for View-to-View messages.
+ *
+ * Views send messages with {@link app!App.broadcast `App.broadcast`}. The
+ * router listens for the resulting `"broadcast"` event on every registered
+ * {@link AppBridge `AppBridge`} and forwards the message to the other
+ * initialized Views that are allowed to receive it, via
+ * {@link AppBridge.sendPeerMessage `AppBridge.sendPeerMessage`}.
+ *
+ * Views are grouped by a server ID chosen by the host (e.g. the server URL
+ * the host connected to). Don't derive it from the server's self-reported
+ * name: a malicious server could claim another server's name to eavesdrop
+ * on its Views.
+ *
+ * Use one router per conversation. Advertise the `peerMessaging` host
+ * capability on each bridge so Views know they can broadcast.
+ *
+ * @example Route messages between Views of the same server
+ * ```ts source="./peer-router.examples.ts#PeerMessageRouter_basicUsage"
+ * const router = new PeerMessageRouter();
+ *
+ * const bridge = new AppBridge(
+ *   client,
+ *   { name: "MyHost", version: "1.0.0" },
+ *   { serverTools: {}, peerMessaging: {} },
+ * );
+ * const unregister = router.add(bridge, serverUrl);
+ *
+ * // When the View is unmounted:
+ * unregister();
+ * ```
+ */
+export class PeerMessageRouter {
+  private _views = new Map<AppBridge, RoutedView>();
+  private _allowed = new Set<string>();
+
+  constructor(options: PeerMessageRouterOptions = {}) {
+    for (const [a, b] of options.allowlist ?? []) {
+      this._allowed.add(JSON.stringify([a, b]));
+      this._allowed.add(JSON.stringify([b, a]));
+    }
+  }
+
+  /**
+   * Start routing broadcasts from and to a View.
+   *
+   * @param bridge - The bridge of the View to add
+   * @param serverId - Host-chosen identifier of the MCP server the View belongs to
+   * @returns A function that removes the View again, same as {@link remove `remove`}
+   */
+  add(bridge: AppBridge, serverId: string): () => void {
+    this.remove(bridge);
+    const listener = (params: McpUiBroadcastNotification["params"]) =>
+      this._route(bridge, params);
+    bridge.addEventListener("broadcast", listener);
+    this._views.set(bridge, { serverId, listener });
+    return () => this.remove(bridge);
+  }
+
+  /**
+   * Stop routing broadcasts from and to a View.
+   *
+   * Closed bridges are skipped automatically, but should still be removed so
+   * the router doesn't keep them alive.
+   */
+  remove(bridge: AppBridge): void {
+    const view = this._views.get(bridge);
+    if (!view) return;
+    bridge.removeEventListener("broadcast", view.listener);
+    this._views.delete(bridge);
+  }
+
+  private _canDeliver(from: string, to: string): boolean {
+    return from === to || this._allowed.has(JSON.stringify([from, to]));
+  }
+
+  private _route(
+    source: AppBridge,
+    { topic, payload }: McpUiBroadcastNotification["params"],
+  ): void {
+    const sourceView = this._views.get(source);
+    if (!sourceView) return;
+    const sender = source.getAppVersion();
+    for (const [target, view] of this._views) {
+      if (
+        target === source ||
+        !target.transport ||
+        !target.getAppCapabilities() ||
+        !this._canDeliver(sourceView.serverId, view.serverId)
+      ) {
+        continue;
+      }
+      target
+        .sendPeerMessage({ topic, payload, ...(sender && { sender }) })
+        .catch((error) => {
+          console.warn("[ext-apps] Failed to deliver peer message:", error);
+        });
+    }
+  }
+}
@@ -12,6 +12,8 @@
  * - {@link useHostStyleVariables `useHostStyleVariables`} - React hook to apply host style variables and theme
  * - {@link useHostFonts `useHostFonts`} - React hook to apply host fonts
  * - {@link useDocumentTheme `useDocumentTheme`} - React hook for reactive document theme
+ * - {@link usePersistentState `usePersistentState`} - React hook for state that survives View reloads
+ * - {@link useViewChannel `useViewChannel`} - React hook to receive commands pushed by the server
  * - {@link useAutoResize `useAutoResize`} - React hook for manual auto-resize control (rarely needed)
  *
  * @module @modelcontextprotocol/ext-apps/react
@@ -35,3 +37,5 @@ export * from "./useApp";
 export * from "./useAutoResize";
 export * from "./useDocumentTheme";
 export * from "./useHostStyles";
+export * from "./usePersistentState";
+export * from "./useViewChannel";
@@ -0,0 +1,27 @@
+/**
+ * Type-checked examples for the usePersistentState hook.
+ *
+ * @module
+ */
+
+import type { App } from "../app.js";
+import { usePersistentState } from "./usePersistentState.js";
+
+/**
+ * Example: Persist a slider value across View reloads.
+ */
+function usePersistentState_slider() {
+  //#region usePersistentState_slider
+  function BudgetSlider({ app }: { app: App | null }) {
+    const [budget, setBudget] = usePersistentState(app, "budget", 50);
+
+    return (
+      <input
+        type="range"
+        value={budget}
+        onChange={(e) => setBudget(Number(e.target.value))}
+      />
+    );
+  }
+  //#endregion usePersistentState_slider
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { App } from "../app";
+
+/**
+ * Latest state of every `usePersistentState` key, per App. The host stores a
+ * single state object per View, so hooks share it and each owns one key.
+ */
+const savedStates = new WeakMap<App, Record<string, unknown>>();
+
+function getSavedState(app: App): Record<string, unknown> {
+  let state = savedStates.get(app);
+  if (!state) {
+    const restored = app.getRestoredState();
+    state =
+      restored && typeof restored === "object" && !Array.isArray(restored)
+        ? { ...(restored as Record<string, unknown>) }
+        : {};
+    savedStates.set(app, state);
+  }
+  return state;
+}
+
+/**
+ * React hook for state that survives the View being recreated.
+ *
+ * Works like `useState`, but the value is restored from the host
+ * (`restoredState` in the initialization response) and every update is sent
+ * back with {@link App.saveState `App.saveState`}. Values are stored under
+ * `key` in a single state object shared by all `usePersistentState` hooks of
+ * the same App, so several pieces of state can be persisted independently.
+ *
+ * If the host doesn't advertise the `persistState` capability, the hook
+ * behaves like plain `useState`.
+ *
+ * @param app - The connected {@link App `App`} instance, or null during initialization
+ * @param key - Name of this value within the View's saved state
+ * @param initialValue - Value to use when nothing was saved
+ * @returns A `[value, setValue]` tuple, like `useState`
+ *
+ * @example Persist a slider value
+ * ```tsx source="./usePersistentState.examples.tsx#usePersistentState_slider"
+ * function BudgetSlider({ app }: { app: App | null }) {
+ *   const [budget, setBudget] = usePersistentState(app, "budget", 50);
+ *
+ *   return (
+ *     <input
+ *       type="range"
+ *       value={budget}
+ *       onChange={(e) => setBudget(Number(e.target.value))}
+ *     />
+ *   );
+ * }
+ * ```
+ *
+ * @see {@link App.saveState `App.saveState`} for the underlying request
+ * @see {@link App.getRestoredState `App.getRestoredState`} for the restored state
+ */
+export function usePersistentState<T>(
+  app: App | null,
+  key: string,
+  initialValue: T,
+): [T, (value: T | ((prev: T) => T)) => void] {
+  const [value, setValue] = useState<T>(() =>
+    app && key in getSavedState(app)
+      ? (getSavedState(app)[key] as T)
+      : initialValue,
+  );
+  const restoredFor = useRef<App | null>(app);
+
+  // Pick up the restored value once the App connects.
+  useEffect(() => {
+    if (!app || restoredFor.current === app) return;
+    restoredFor.current = app;
+    const saved = getSavedState(app);
+    if (key in saved) {
+      setValue(saved[key] as T);
+    }
+  }, [app, key]);
+
+  // Track the latest value outside the state updater so saving (a side
+  // effect) doesn't run twice under StrictMode.
+  const latest = useRef(value);
+  latest.current = value;
+
+  const update = useCallback(
+    (next: T | ((prev: T) => T)) => {
+      const resolved =
+        typeof next === "function"
+          ? (next as (prev: T) => T)(latest.current)
+          : next;
+      latest.current = resolved;
+      setValue(resolved);
+      if (app?.getHostCapabilities()?.persistState) {
+        const saved = getSavedState(app);
+        saved[key] = resolved;
+        app.saveState({ ...saved }).catch((error) => {
+          console.warn(`Failed to save state "${key}":`, error);
+        });
+      }
+    },
+    [app, key],
+  );
+
+  return [value, update];
+}
@@ -0,0 +1,37 @@
+/**
+ * Type-checked examples for the useViewChannel hook.
+ *
+ * @module
+ */
+
+import { useState } from "react";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { getViewChannelInfo, type App } from "../app.js";
+import { useViewChannel } from "./useViewChannel.js";
+
+type ViewerCommand = { type: "goto"; page: number };
+
+/**
+ * Example: Navigate a viewer on the model's request.
+ */
+function useViewChannel_navigate() {
+  //#region useViewChannel_navigate
+  function Viewer({
+    app,
+    toolResult,
+  }: {
+    app: App | null;
+    toolResult: CallToolResult | null;
+  }) {
+    const [page, setPage] = useState(1);
+    const channel = toolResult ? getViewChannelInfo(toolResult) : undefined;
+
+    useViewChannel<ViewerCommand, number>(app, channel, (command) => {
+      setPage(command.page);
+      return command.page;
+    });
+
+    return <div>Page {page}</div>;
+  }
+  //#endregion useViewChannel_navigate
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from "react";
+import {
+  App,
+  connectViewChannel,
+  type ViewChannelHandler,
+  type ViewChannelInfo,
+} from "../app";
+
+/**
+ * React hook that receives the commands a server sends to this View through
+ * a channel opened with
+ * {@link server-helpers!createViewChannel `createViewChannel`}.
+ *
+ * Polls while the component is mounted and `channel` is set, and stops on
+ * unmount or when the channel changes. `onCommand` may change between
+ * renders; the latest one handles each command.
+ *
+ * @param app - The connected {@link App `App`} instance, or null during initialization
+ * @param channel - The View's channel, from {@link getViewChannelInfo `getViewChannelInfo`} applied to the tool result
+ * @param onCommand - Handles each command and returns its reply
+ *
+ * @example Navigate a viewer on the model's request
+ * ```tsx source="./useViewChannel.examples.tsx#useViewChannel_navigate"
+ * function Viewer({
+ *   app,
+ *   toolResult,
+ * }: {
+ *   app: App | null;
+ *   toolResult: CallToolResult | null;
+ * }) {
+ *   const [page, setPage] = useState(1);
+ *   const channel = toolResult ? getViewChannelInfo(toolResult) : undefined;
+ *
+ *   useViewChannel<ViewerCommand, number>(app, channel, (command) => {
+ *     setPage(command.page);
+ *     return command.page;
+ *   });
+ *
+ *   return <div>Page {page}</div>;
+ * }
+ * ```
+ *
+ * @see {@link connectViewChannel `connectViewChannel`} for the framework-agnostic equivalent
+ */
+export function useViewChannel<Command, Reply = unknown>(
+  app: App | null,
+  channel: ViewChannelInfo | undefined,
+  onCommand: ViewChannelHandler<Command, Reply>,
+): void {
+  const handler = useRef(onCommand);
+  handler.current = onCommand;
+
+  const viewId = channel?.viewId;
+  const toolName = channel?.toolName;
+  useEffect(() => {
+    if (!app || !viewId || !toolName) return;
+    return connectViewChannel<Command, Reply>(
+      app,
+      { viewId, toolName },
+      (command) => handler.current(command),
+    );
+  }, [app, viewId, toolName]);
+}
@@ -0,0 +1,50 @@
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Decode a base64 string to bytes.
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Encode bytes as a base64 string.
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Convert in slices: spreading a large array into fromCharCode overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Get the number of bytes a base64 string decodes to, without decoding it.
+ */
+export function getBase64ByteLength(base64: string): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/**
+ * Get the bytes of the first content item of a `resources/read` result.
+ *
+ * Binary contents are decoded from base64; text contents are UTF-8 encoded.
+ *
+ * @throws {Error} If the result has no contents
+ */
+export function getResourceBytes(result: ReadResourceResult): {
+  bytes: Uint8Array;
+  mimeType?: string;
+} {
+  const content = result.contents[0];
+  if (!content) {
+    throw new Error("Resource has no contents");
+  }
+  const bytes =
+    "blob" in content
+      ? decodeBase64(content.blob)
+      : new TextEncoder().encode(content.text);
+  return { bytes, mimeType: content.mimeType };
+}
@@ -0,0 +1,69 @@
+/**
+ * Type-checked examples for the sandbox proxy helpers.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { readFile } from "node:fs/promises";
+import type { ServerResponse } from "node:http";
+import express from "express";
+import {
+  buildCspHeader,
+  createSandboxProxy,
+  createSandboxProxyHandler,
+} from "./index.js";
+
+/**
+ * Example: Script of the sandbox proxy page.
+ */
+function index_proxyPage() {
+  //#region index_proxyPage
+  createSandboxProxy({
+    allowedHostOrigins: ["https://chat.example.com"],
+  });
+  //#endregion index_proxyPage
+}
+
+/**
+ * Example: Serve the sandbox proxy page with Express.
+ */
+function index_serveProxyPage() {
+  //#region index_serveProxyPage
+  const sandboxApp = express();
+  sandboxApp.get(
+    "/sandbox.html",
+    createSandboxProxyHandler({
+      html: () => readFile("dist/sandbox.html", "utf-8"),
+    }),
+  );
+  //#endregion index_serveProxyPage
+}
+
+/**
+ * Example: Set a View's CSP header manually.
+ */
+function buildCspHeader_basicUsage(res: ServerResponse) {
+  //#region buildCspHeader_basicUsage
+  res.setHeader(
+    "Content-Security-Policy",
+    buildCspHeader({ connectDomains: ["https://api.example.com"] }),
+  );
+  //#endregion buildCspHeader_basicUsage
+}
+
+/**
+ * Example: Serve a prebuilt proxy page on its own origin.
+ */
+function createSandboxProxyHandler_express(sandboxHtml: string) {
+  //#region createSandboxProxyHandler_express
+  const sandboxApp = express();
+  sandboxApp.get(
+    ["/", "/sandbox.html"],
+    createSandboxProxyHandler({ html: sandboxHtml }),
+  );
+  sandboxApp.listen(8081);
+  //#endregion createSandboxProxyHandler_express
+}
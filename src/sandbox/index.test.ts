@@ -0,0 +1,532 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+import {
+  buildCspHeader,
+  createSandboxProxy,
+  createSandboxProxyHandler,
+  sanitizeCspDomains,
+} from "./index";
+
+function directives(header: string): Record<string, string> {
+  return Object.fromEntries(
+    header.split("; ").map((d) => {
+      const [name, ...sources] = d.split(" ");
+      return [name, sources.join(" ")];
+    }),
+  );
+}
+
+describe("buildCspHeader", () => {
+  it("uses the spec's restrictive defaults when no CSP is declared", () => {
+    expect(directives(buildCspHeader())).toEqual({
+      "default-src": "'none'",
+      "script-src": "'self' 'unsafe-inline'",
+      "style-src": "'self' 'unsafe-inline'",
+      "connect-src": "'self'",
+      "img-src": "'self' data:",
+      "font-src": "'self' data:",
+      "media-src": "'self' data:",
+      "frame-src": "'none'",
+      "object-src": "'none'",
+      "base-uri": "'self'",
+    });
+  });
+
+  it("maps declared domains onto their directives", () => {
+    const d = directives(
+      buildCspHeader({
+        connectDomains: ["https://api.example.com"],
+        resourceDomains: ["https://cdn.example.com"],
+        frameDomains: ["https://www.youtube.com"],
+        baseUriDomains: ["https://base.example.com"],
+      }),
+    );
+
+    expect(d["connect-src"]).toBe("'self' https://api.example.com");
+    expect(d["script-src"]).toBe(
+      "'self' 'unsafe-inline' https://cdn.example.com",
+    );
+    expect(d["img-src"]).toBe("'self' data: https://cdn.example.com");
+    expect(d["frame-src"]).toBe("https://www.youtube.com");
+    expect(d["base-uri"]).toBe("https://base.example.com");
+    expect(d["object-src"]).toBe("'none'");
+  });
+
+  it("applies opt-in relaxations", () => {
+    const d = directives(buildCspHeader({}, { unsafeEval: true, blob: true }));
+
+    expect(d["script-src"]).toBe("'self' 'unsafe-inline' 'unsafe-eval' blob:");
+    expect(d["img-src"]).toBe("'self' data: blob:");
+  });
+
+  it("allows data: scripts and styles only when opted in", () => {
+    expect(directives(buildCspHeader({}))["script-src"]).toBe(
+      "'self' 'unsafe-inline'",
+    );
+
+    const d = directives(
+      buildCspHeader(
+        { resourceDomains: ["https://cdn.example.com"] },
+        { data: true },
+      ),
+    );
+
+    expect(d["script-src"]).toBe(
+      "'self' 'unsafe-inline' data: https://cdn.example.com",
+    );
+    expect(d["style-src"]).toBe(
+      "'self' 'unsafe-inline' data: https://cdn.example.com",
+    );
+  });
+
+  it("drops domain entries that could inject directives", () => {
+    expect(
+      sanitizeCspDomains([
+        "https://ok.example.com",
+        "https://a.com; script-src *",
+        "'unsafe-eval'",
+        "https://a.com https://b.com",
+        "https://a.com\nscript-src *",
+      ]),
+    ).toEqual(["https://ok.example.com"]);
+  });
+});
+
+describe("createSandboxProxyHandler", () => {
+  function createFakeResponse() {
+    const headers = new Map<string, string>();
+    const res = {
+      statusCode: 0,
+      body: undefined as string | undefined,
+      setHeader: (name: string, value: string) => headers.set(name, value),
+      end(body: string) {
+        this.body = body;
+      },
+    };
+    return { res, headers };
+  }
+
+  it("serves the page with a CSP header built from the query", async () => {
+    const handler = createSandboxProxyHandler({ html: "<p>proxy</p>" });
+    const { res, headers } = createFakeResponse();
+    const csp = JSON.stringify({ connectDomains: ["https://api.example.com"] });
+
+    await handler(
+      {
+        url: `/sandbox.html?csp=${encodeURIComponent(csp)}`,
+      } as IncomingMessage,
+      res as unknown as ServerResponse,
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toBe("<p>proxy</p>");
+    expect(headers.get("Content-Security-Policy")).toContain(
+      "connect-src 'self' https://api.example.com",
+    );
+    expect(headers.get("Cache-Control")).toContain("no-store");
+  });
+
+  it("falls back to the restrictive default for a malformed csp", async () => {
+    const handler = createSandboxProxyHandler({ html: async () => "" });
+    const { res, headers } = createFakeResponse();
+    const warn = console.warn;
+    console.warn = () => {};
+
+    try {
+      await handler(
+        { url: "/sandbox.html?csp=%7Bnope" } as IncomingMessage,
+        res as unknown as ServerResponse,
+      );
+    } finally {
+      console.warn = warn;
+    }
+
+    expect(headers.get("Content-Security-Policy")).toBe(buildCspHeader());
+  });
+
+  it("responds with a 500 when the page can't be loaded", async () => {
+    const handler = createSandboxProxyHandler({
+      html: async () => {
+        throw new Error("ENOENT: sandbox.html");
+      },
+    });
+    const { res, headers } = createFakeResponse();
+    const error = console.error;
+    console.error = () => {};
+
+    try {
+      await handler(
+        { url: "/sandbox.html" } as IncomingMessage,
+        res as unknown as ServerResponse,
+      );
+    } finally {
+      console.error = error;
+    }
+
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toBe("Failed to load the sandbox proxy page");
+    expect(headers.has("Content-Security-Policy")).toBe(false);
+  });
+});
+
+describe("createSandboxProxy", () => {
+  type Listener = (event: Partial<MessageEvent>) => void;
+
+  const hostOrigin = "https://host.example.com";
+  const ownOrigin = "https://sandbox.example.com";
+  let listeners: Set<Listener>;
+  let parent: { postMessage: ReturnType<typeof mock> };
+  let innerWindow: { postMessage: ReturnType<typeof mock> };
+  let inner: {
+    attributes: Map<string, string>;
+    style: { cssText: string };
+    contentWindow: typeof innerWindow;
+    contentDocument?: {
+      open: ReturnType<typeof mock>;
+      write: ReturnType<typeof mock>;
+      close: ReturnType<typeof mock>;
+    };
+    srcdoc: string;
+    src: string;
+    setAttribute(name: string, value: string): void;
+    removeAttribute(name: string): void;
+    remove(): void;
+  };
+  let restoreGlobals: () => void;
+
+  function dispatch(event: Partial<MessageEvent>) {
+    for (const l of listeners) l(event);
+  }
+
+  beforeEach(() => {
+    listeners = new Set();
+    parent = { postMessage: mock(() => {}) };
+    innerWindow = { postMessage: mock(() => {}) };
+    inner = {
+      attributes: new Map(),
+      style: { cssText: "" },
+      contentWindow: innerWindow,
+      contentDocument: undefined,
+      srcdoc: "",
+      src: "",
+      setAttribute(name, value) {
+        this.attributes.set(name, value);
+      },
+      removeAttribute(name) {
+        if (name === "srcdoc") this.srcdoc = "";
+        this.attributes.delete(name);
+      },
+      remove() {},
+    };
+
+    const g = globalThis as { window?: unknown; document?: unknown };
+    const prevWindow = g.window;
+    const prevDocument = g.document;
+    const fakeWindow = {
+      parent,
+      location: { origin: ownOrigin },
+      addEventListener: (_: string, l: Listener) => listeners.add(l),
+      removeEventListener: (_: string, l: Listener) => listeners.delete(l),
+      top: {
+        alert() {
+          throw new Error("SecurityError");
+        },
+      },
+    };
+    (fakeWindow as { self?: unknown }).self = fakeWindow;
+    g.window = fakeWindow;
+    g.document = {
+      referrer: `${hostOrigin}/chat`,
+      createElement: () => inner,
+      body: { appendChild() {} },
+    };
+    restoreGlobals = () => {
+      g.window = prevWindow;
+      g.document = prevDocument;
+    };
+  });
+
+  afterEach(() => {
+    restoreGlobals();
+  });
+
+  it("announces readiness to the embedding origin only", () => {
+    createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+
+    expect(parent.postMessage).toHaveBeenCalledWith(
+      {
+        jsonrpc: "2.0",
+        method: "ui/notifications/sandbox-proxy-ready",
+        params: {},
+      },
+      hostOrigin,
+      [expect.any(MessagePort)],
+    );
+  });
+
+  it("rejects embedding origins that are not allowed", () => {
+    expect(() =>
+      createSandboxProxy({ allowedHostOrigins: ["https://other.example.com"] }),
+    ).toThrow(`Embedding origin not allowed: ${hostOrigin}`);
+  });
+
+  it("accepts origins matching a pattern", () => {
+    const proxy = createSandboxProxy({
+      allowedHostOrigins: [/^https:\/\/[a-z]+\.example\.com$/],
+    });
+
+    expect(proxy.hostOrigin).toBe(hostOrigin);
+  });
+
+  it("loads the View and applies sandbox and permissions", () => {
+    createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+
+    dispatch({
+      source: parent as unknown as Window,
+      origin: hostOrigin,
+      data: {
+        jsonrpc: "2.0",
+        method: "ui/notifications/sandbox-resource-ready",
+        params: {
+          html: "<p>view</p>",
+          sandbox: "allow-scripts",
+          permissions: { camera: {} },
+        },
+      },
+    });
+
+    expect(inner.srcdoc).toBe("<p>view</p>");
+    expect(inner.attributes.get("sandbox")).toBe("allow-scripts");
+    expect(inner.attributes.get("allow")).toBe("camera");
+    expect(innerWindow.postMessage).not.toHaveBeenCalled();
+  });
+
+  it("writes HTML into the inner document, and loads URLs in its place", () => {
+    inner.contentDocument = {
+      open: mock(() => {}),
+      write: mock(() => {}),
+      close: mock(() => {}),
+    };
+    createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+    const load = (params: object) =>
+      dispatch({
+        source: parent as unknown as Window,
+        origin: hostOrigin,
+        data: {
+          jsonrpc: "2.0",
+          method: "ui/notifications/sandbox-resource-ready",
+          params,
+        },
+      });
+
+    load({ html: "<p>view</p>" });
+    expect(inner.contentDocument.write).toHaveBeenCalledWith("<p>view</p>");
+    expect(inner.contentDocument.close).toHaveBeenCalled();
+    expect(inner.srcdoc).toBe("");
+
+    load({ url: "https://tickets.example.com/embed" });
+    expect(inner.src).toBe("https://tickets.example.com/embed");
+  });
+
+  it("falls back to srcdoc when the inner document isn't accessible", () => {
+    createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+
+    dispatch({
+      source: parent as unknown as Window,
+      origin: hostOrigin,
+      data: {
+        jsonrpc: "2.0",
+        method: "ui/notifications/sandbox-resource-ready",
+        params: { html: "<p>view</p>" },
+      },
+    });
+
+    expect(inner.srcdoc).toBe("<p>view</p>");
+  });
+
+  it("neither loads nor relays an invalid View resource", () => {
+    createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+    const error = console.error;
+    console.error = () => {};
+
+    try {
+      dispatch({
+        source: parent as unknown as Window,
+        origin: hostOrigin,
+        data: {
+          jsonrpc: "2.0",
+          method: "ui/notifications/sandbox-resource-ready",
+          params: { html: 42 },
+        },
+      });
+    } finally {
+      console.error = error;
+    }
+
+    expect(inner.srcdoc).toBeFalsy();
+    expect(innerWindow.postMessage).not.toHaveBeenCalled();
+  });
+
+  it("relays messages in both directions", () => {
+    createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+    const toView = { jsonrpc: "2.0", method: "ping", id: 1 };
+    const toHost = { jsonrpc: "2.0", id: 1, result: {} };
+
+    dispatch({
+      source: parent as unknown as Window,
+      origin: hostOrigin,
+      data: toView,
+    });
+    dispatch({
+      source: innerWindow as unknown as Window,
+      origin: ownOrigin,
+      data: toHost,
+    });
+
+    expect(innerWindow.postMessage).toHaveBeenCalledWith(toView, "*");
+    expect(parent.postMessage).toHaveBeenLastCalledWith(toHost, hostOrigin);
+  });
+
+  it("loads external URL Views and pins relaying to their origin", () => {
+    createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+    const viewOrigin = "https://tickets.example.com";
+    const toView = { jsonrpc: "2.0", method: "ping", id: 1 };
+    const toHost = { jsonrpc: "2.0", id: 1, result: {} };
+    const error = console.error;
+    console.error = () => {};
+
+    try {
+      dispatch({
+        source: parent as unknown as Window,
+        origin: hostOrigin,
+        data: {
+          jsonrpc: "2.0",
+          method: "ui/notifications/sandbox-resource-ready",
+          params: { url: `${viewOrigin}/embed` },
+        },
+      });
+      dispatch({
+        source: parent as unknown as Window,
+        origin: hostOrigin,
+        data: toView,
+      });
+      dispatch({
+        source: innerWindow as unknown as Window,
+        origin: ownOrigin,
+        data: { jsonrpc: "2.0", id: 2, result: {} },
+      });
+      dispatch({
+        source: innerWindow as unknown as Window,
+        origin: viewOrigin,
+        data: toHost,
+      });
+    } finally {
+      console.error = error;
+    }
+
+    expect(inner.src).toBe(`${viewOrigin}/embed`);
+    expect(inner.srcdoc).toBe("");
+    expect(innerWindow.postMessage).toHaveBeenCalledWith(toView, viewOrigin);
+    expect(parent.postMessage).toHaveBeenCalledTimes(2);
+    expect(parent.postMessage).toHaveBeenLastCalledWith(toHost, hostOrigin);
+  });
+
+  it("relays over the ports offered by host and View", async () => {
+    const proxy = createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+    const hostPort: MessagePort = parent.postMessage.mock.calls[0][2][0];
+    const viewChannel = new MessageChannel();
+    const initialize = { jsonrpc: "2.0", id: 0, method: "ui/initialize" };
+    const toView = { jsonrpc: "2.0", id: 0, result: {} };
+    const receivedByHost: unknown[] = [];
+    const receivedByView: unknown[] = [];
+    hostPort.onmessage = (e) => receivedByHost.push(e.data);
+    viewChannel.port1.onmessage = (e) => receivedByView.push(e.data);
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    // The host switches to the port it was offered...
+    hostPort.postMessage({
+      jsonrpc: "2.0",
+      method: "ui/notifications/sandbox-resource-ready",
+      params: { html: "<p>view</p>" },
+    });
+    await tick();
+    // ...and the View offers its own port with its first message.
+    dispatch({
+      source: innerWindow as unknown as Window,
+      origin: ownOrigin,
+      data: initialize,
+      ports: [viewChannel.port2],
+    });
+    await tick();
+    hostPort.postMessage(toView);
+    await tick();
+    proxy.close();
+    hostPort.close();
+    viewChannel.port1.close();
+
+    expect(inner.srcdoc).toBe("<p>view</p>");
+    expect(receivedByHost).toEqual([initialize]);
+    expect(receivedByView).toEqual([toView]);
+    expect(innerWindow.postMessage).not.toHaveBeenCalled();
+    // Only sandbox-proxy-ready went through the window.
+    expect(parent.postMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("relays to the port of a View loaded again", async () => {
+    createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+    const hostPort: MessagePort = parent.postMessage.mock.calls[0][2][0];
+    const firstView = new MessageChannel();
+    const secondView = new MessageChannel();
+    const receivedByFirst: unknown[] = [];
+    const receivedBySecond: unknown[] = [];
+    firstView.port1.onmessage = (e) => receivedByFirst.push(e.data);
+    secondView.port1.onmessage = (e) => receivedBySecond.push(e.data);
+    const toView = { jsonrpc: "2.0", id: 0, result: {} };
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+    const load = async (html: string, port: MessagePort) => {
+      hostPort.postMessage({
+        jsonrpc: "2.0",
+        method: "ui/notifications/sandbox-resource-ready",
+        params: { html },
+      });
+      await tick();
+      dispatch({
+        source: innerWindow as unknown as Window,
+        origin: ownOrigin,
+        data: { jsonrpc: "2.0", id: 0, method: "ui/initialize" },
+        ports: [port],
+      });
+    };
+
+    await load("<p>v1</p>", firstView.port2);
+    await load("<p>v2</p>", secondView.port2);
+    hostPort.postMessage(toView);
+    await tick();
+    hostPort.close();
+    firstView.port1.close();
+    secondView.port1.close();
+
+    expect(inner.srcdoc).toBe("<p>v2</p>");
+    expect(receivedByFirst).toEqual([]);
+    expect(receivedBySecond).toEqual([toView]);
+  });
+
+  it("drops host messages from an unexpected origin", () => {
+    createSandboxProxy({ allowedHostOrigins: [hostOrigin] });
+    const error = console.error;
+    console.error = () => {};
+
+    try {
+      dispatch({
+        source: parent as unknown as Window,
+        origin: "https://evil.example.com",
+        data: { jsonrpc: "2.0", method: "ping", id: 1 },
+      });
+    } finally {
+      console.error = error;
+    }
+
+    expect(innerWindow.postMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * Building blocks for the sandbox proxy that web hosts place between
+ * themselves and a View.
+ *
+ * Per the specification, a web host MUST render each View inside an outer
+ * sandbox proxy iframe served from a different origin. The proxy loads the
+ * View's HTML into an inner iframe under a CSP derived from the resource's
+ * `_meta.ui.csp`, and relays JSON-RPC messages in both directions.
+ *
+ * - {@link createSandboxProxy `createSandboxProxy`} — runs inside the proxy
+ *   page: validates the embedding host origin, creates the inner iframe and
+ *   relays messages.
+ * - {@link buildCspHeader `buildCspHeader`} — turns
+ *   {@link McpUiResourceCsp `McpUiResourceCsp`} into a `Content-Security-Policy`
+ *   header value following the spec's directive list.
+ * - {@link createSandboxProxyHandler `createSandboxProxyHandler`} — a Node /
+ *   Express request handler that serves the proxy page with that header.
+ *
+ * @module sandbox
+ *
+ * @example Proxy page script
+ * ```ts source="./index.examples.ts#index_proxyPage"
+ * createSandboxProxy({
+ *   allowedHostOrigins: ["https://chat.example.com"],
+ * });
+ * ```
+ *
+ * @example Serving the proxy page
+ * ```ts source="./index.examples.ts#index_serveProxyPage"
+ * const sandboxApp = express();
+ * sandboxApp.get(
+ *   "/sandbox.html",
+ *   createSandboxProxyHandler({
+ *     html: () => readFile("dist/sandbox.html", "utf-8"),
+ *   }),
+ * );
+ * ```
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { buildAllowAttribute, getUiResourceUrl } from "../app-bridge.js";
+import {
+  McpUiResourceCsp,
+  McpUiSandboxProxyReadyNotification,
+  McpUiSandboxResourceReadyNotification,
+  McpUiSandboxResourceReadyNotificationSchema,
+  SANDBOX_PROXY_READY_METHOD,
+  SANDBOX_RESOURCE_READY_METHOD,
+} from "../types.js";
+
+// ── CSP ──────────────────────────────────────────────────────────────────
+
+/**
+ * Options for {@link buildCspHeader `buildCspHeader`}.
+ */
+export interface BuildCspHeaderOptions {
+  /**
+   * Add `'unsafe-eval'` to `script-src`. Some libraries (e.g. template
+   * compilers) need it; leave off unless the host has decided to allow it.
+   */
+  unsafeEval?: boolean;
+  /**
+   * Allow `blob:` URLs for scripts, styles, images, fonts and media. Needed by
+   * apps that spawn workers from blobs (e.g. WebGL map renderers).
+   */
+  blob?: boolean;
+  /**
+   * Allow `data:` URLs for scripts and styles (images, fonts and media always
+   * allow them). Bundlers may inline small scripts and stylesheets as `data:`
+   * URLs, but these bypass `resourceDomains`, so the spec baseline leaves
+   * them out.
+   */
+  data?: boolean;
+}
+
+/**
+ * Drop CSP source entries that could inject extra directives or keywords.
+ *
+ * Rejects entries containing `;` or newlines (which would start a new
+ * directive), quotes (which would inject keywords like `'unsafe-eval'`) and
+ * spaces (which would smuggle in several sources as one entry).
+ *
+ * @param domains - Origins declared by the resource
+ * @returns The entries that are safe to splice into a directive
+ */
+export function sanitizeCspDomains(domains?: string[]): string[] {
+  if (!Array.isArray(domains)) return [];
+  return domains.filter(
+    (d) => typeof d === "string" && d !== "" && !/[;\r\n'" ]/.test(d),
+  );
+}
+
+/**
+ * Build a `Content-Security-Policy` header value for a View.
+ *
+ * Follows the directive list from the specification: a `default-src 'none'`
+ * baseline, `resourceDomains` for scripts/styles/images/fonts/media,
+ * `connectDomains` for network requests, `frameDomains` for nested iframes
+ * (`frame-src 'none'` otherwise), `baseUriDomains` for `base-uri`
+ * (`'self'` otherwise), and `object-src 'none'` unconditionally. `font-src`
+ * also allows `data:` so single-file bundles can inline their fonts.
+ * Declared domains are passed through
+ * {@link sanitizeCspDomains `sanitizeCspDomains`}.
+ *
+ * @param csp - CSP metadata from the resource's `_meta.ui.csp`
+ * @param options - Opt-in relaxations beyond the spec baseline
+ * @returns The header value
+ *
+ * @example
+ * ```ts source="./index.examples.ts#buildCspHeader_basicUsage"
+ * res.setHeader(
+ *   "Content-Security-Policy",
+ *   buildCspHeader({ connectDomains: ["https://api.example.com"] }),
+ * );
+ * ```
+ */
+export function buildCspHeader(
+  csp?: McpUiResourceCsp,
+  options: BuildCspHeaderOptions = {},
+): string {
+  const resourceDomains = sanitizeCspDomains(csp?.resourceDomains);
+  const connectDomains = sanitizeCspDomains(csp?.connectDomains);
+  const frameDomains = sanitizeCspDomains(csp?.frameDomains);
+  const baseUriDomains = sanitizeCspDomains(csp?.baseUriDomains);
+  const blob = options.blob ? ["blob:"] : [];
+  const data = options.data ? ["data:"] : [];
+  const eval_ = options.unsafeEval ? ["'unsafe-eval'"] : [];
+
+  const directive = (name: string, sources: string[]) =>
+    [name, ...sources].join(" ");
+
+  return [
+    directive("default-src", ["'none'"]),
+    directive("script-src", [
+      "'self'",
+      "'unsafe-inline'",
+      ...eval_,
+      ...blob,
+      ...data,
+      ...resourceDomains,
+    ]),
+    directive("style-src", [
+      "'self'",
+      "'unsafe-inline'",
+      ...blob,
+      ...data,
+      ...resourceDomains,
+    ]),
+    directive("connect-src", ["'self'", ...connectDomains]),
+    directive("img-src", ["'self'", "data:", ...blob, ...resourceDomains]),
+    directive("font-src", ["'self'", "data:", ...blob, ...resourceDomains]),
+    directive("media-src", ["'self'", "data:", ...blob, ...resourceDomains]),
+    directive("frame-src", frameDomains.length > 0 ? frameDomains : ["'none'"]),
+    directive("object-src", ["'none'"]),
+    directive(
+      "base-uri",
+      baseUriDomains.length > 0 ? baseUriDomains : ["'self'"],
+    ),
+  ].join("; ");
+}
+
+// ── Proxy page ───────────────────────────────────────────────────────────
+
+/**
+ * Options for {@link createSandboxProxy `createSandboxProxy`}.
+ */
+export interface SandboxProxyOptions {
+  /**
+   * Host origins allowed to embed the proxy. Strings must match the
+   * embedding page's origin exactly (e.g. `"https://chat.example.com"`);
+   * regular expressions are tested against it.
+   */
+  allowedHostOrigins: (string | RegExp)[];
+  /**
+   * Default `sandbox` attribute for the inner View iframe. The host may
+   * override it per View via `sandbox-resource-ready`.
+   * @default "allow-scripts allow-same-origin allow-forms"
+   */
+  innerSandbox?: string;
+}
+
+/**
+ * A running sandbox proxy, returned by
+ * {@link createSandboxProxy `createSandboxProxy`}.
+ */
+export interface SandboxProxy {
+  /** Origin of the host that embeds this proxy. */
+  readonly hostOrigin: string;
+  /** The inner iframe the View is loaded into. */
+  readonly inner: HTMLIFrameElement;
+  /** Stop relaying messages and remove the inner iframe. */
+  close(): void;
+}
+
+/**
+ * Check whether `origin` is allowed by a list of exact origins and patterns.
+ */
+function isOriginAllowed(
+  origin: string,
+  allowed: (string | RegExp)[],
+): boolean {
+  return allowed.some((entry) =>
+    typeof entry === "string" ? entry === origin : entry.test(origin),
+  );
+}
+
+/**
+ * Run the sandbox proxy in the current (outer iframe) page.
+ *
+ * Validates that the page is framed by one of
+ * {@link SandboxProxyOptions.allowedHostOrigins `allowedHostOrigins`} and that
+ * the frame is actually sandboxed, then:
+ *
+ * 1. Creates the inner iframe the View will run in
+ * 2. Sends `ui/notifications/sandbox-proxy-ready` to the host
+ * 3. On `ui/notifications/sandbox-resource-ready`, applies the requested
+ *    `sandbox` and permissions and loads the View HTML, or navigates the
+ *    inner iframe to the `url` of an externally hosted View. A later
+ *    `sandbox-resource-ready` replaces the View, e.g. to reload it once rebuilt
+ * 4. Relays every other message between host and View, only accepting host
+ *    messages from the embedding origin and posting back to that origin
+ *
+ * The ready notification carries a `MessagePort` that the host may use
+ * instead of the window, and the View may likewise send a port with its
+ * first message (see {@link app!MessagePortTransport `MessagePortTransport`}).
+ * Either side can also keep using plain `postMessage`.
+ *
+ * Messages to and from an externally hosted View are likewise pinned to the
+ * origin of its URL. Such Views keep their own origin, so the `sandbox`
+ * attribute must include `allow-same-origin`, and the proxy page's CSP must
+ * list that origin in `frameDomains`.
+ *
+ * The CSP itself must be enforced by the HTTP response that serves the proxy
+ * page (see {@link createSandboxProxyHandler `createSandboxProxyHandler`});
+ * unlike a `<meta>` tag, the View cannot tamper with it.
+ *
+ * @param options - Allowed host origins and inner iframe defaults
+ * @returns Handle to the running proxy
+ * @throws {Error} If the page is not framed, the embedding origin is not
+ *   allowed, or the frame is not isolated from the host
+ */
+export function createSandboxProxy(options: SandboxProxyOptions): SandboxProxy {
+  if (window.self === window.top) {
+    throw new Error("The sandbox proxy must run inside an iframe.");
+  }
+  if (!document.referrer) {
+    throw new Error("No referrer, cannot validate embedding site.");
+  }
+
+  const hostOrigin = new URL(document.referrer).origin;
+  if (!isOriginAllowed(hostOrigin, options.allowedHostOrigins)) {
+    throw new Error(`Embedding origin not allowed: ${hostOrigin}`);
+  }
+  const ownOrigin = window.location.origin;
+
+  // Security self-test: reaching into `window.top` MUST throw a SecurityError.
+  // If it doesn't, the proxy shares an origin with the host and untrusted
+  // content could escape.
+  let isolated = false;
+  try {
+    window.top!.alert("If you see this, the sandbox is not set up securely.");
+  } catch {
+    isolated = true;
+  }
+  if (!isolated) {
+    throw new Error("The sandbox proxy is not isolated from the host.");
+  }
+
+  const inner = document.createElement("iframe");
+  inner.style.cssText = "width:100%; height:100%; border:none;";
+  inner.setAttribute(
+    "sandbox",
+    options.innerSandbox ?? "allow-scripts allow-same-origin allow-forms",
+  );
+  document.body.appendChild(inner);
+
+  // Origin of an externally hosted View; inline HTML runs on our own origin.
+  let viewOrigin: string | undefined;
+  // Port offered by the View with its first message (see below).
+  let viewPort: MessagePort | undefined;
+
+  const loadView = ({
+    html,
+    url,
+    sandbox,
+    permissions,
+  }: McpUiSandboxResourceReadyNotification["params"]) => {
+    // The host may load a View again (e.g. rebuilt during development): the
+    // new View starts over with its own origin and port.
+    viewPort?.close();
+    viewPort = undefined;
+    viewOrigin = undefined;
+    if (typeof sandbox === "string") {
+      inner.setAttribute("sandbox", sandbox);
+    }
+    const allow = buildAllowAttribute(permissions);
+    if (allow) {
+      inner.setAttribute("allow", allow);
+    }
+    if (typeof url === "string") {
+      const href = getUiResourceUrl(url);
+      viewOrigin = new URL(href).origin;
+      // `srcdoc` takes precedence over `src`
+      inner.removeAttribute("srcdoc");
+      inner.src = href;
+      return;
+    }
+    if (typeof html !== "string") return;
+    // Write into the inner document rather than using `srcdoc`: some apps
+    // (e.g. CesiumJS) break when loaded from `about:srcdoc`.
+    const doc = inner.contentDocument ?? inner.contentWindow?.document;
+    if (doc) {
+      doc.open();
+      doc.write(html);
+      doc.close();
+    } else {
+      inner.srcdoc = html;
+    }
+  };
+
+  // Both sides may talk to the proxy over a dedicated port instead of the
+  // window (see `MessagePortTransport`): the host by using the port sent with
+  // sandbox-proxy-ready, the View by sending one with its first message.
+  // Messages to a side go over its port as soon as it has used it.
+  const hostChannel = new MessageChannel();
+  let hostPort: MessagePort | undefined;
+
+  const fromHost = (data: unknown) => {
+    if (
+      typeof data === "object" &&
+      data !== null &&
+      "method" in data &&
+      data.method === SANDBOX_RESOURCE_READY_METHOD
+    ) {
+      const parsed =
+        McpUiSandboxResourceReadyNotificationSchema.safeParse(data);
+      if (!parsed.success) {
+        console.error(
+          "[MCP Apps] Sandbox received an invalid View resource:",
+          parsed.error,
+        );
+        return;
+      }
+      try {
+        loadView(parsed.data.params);
+      } catch (error) {
+        console.error("[MCP Apps] Sandbox failed to load View:", error);
+      }
+    } else if (viewPort) {
+      viewPort.postMessage(data);
+    } else {
+      inner.contentWindow?.postMessage(data, viewOrigin ?? "*");
+    }
+  };
+  const fromView = (data: unknown) => {
+    if (hostPort) {
+      hostPort.postMessage(data);
+    } else {
+      window.parent.postMessage(data, hostOrigin);
+    }
+  };
+  hostChannel.port1.onmessage = (event) => {
+    hostPort = hostChannel.port1;
+    fromHost(event.data);
+  };
+
+  const listener = (event: MessageEvent) => {
+    if (event.source === window.parent) {
+      if (event.origin !== hostOrigin) {
+        console.error(
+          "[MCP Apps] Sandbox rejected message from unexpected origin:",
+          event.origin,
+        );
+        return;
+      }
+      fromHost(event.data);
+    } else if (event.source === inner.contentWindow) {
+      if (event.origin !== (viewOrigin ?? ownOrigin)) {
+        console.error(
+          "[MCP Apps] Sandbox rejected message from View with unexpected origin:",
+          event.origin,
+        );
+        return;
+      }
+      if (!viewPort && event.ports?.[0]) {
+        viewPort = event.ports[0];
+        viewPort.onmessage = (portEvent) => fromView(portEvent.data);
+      }
+      fromView(event.data);
+    }
+  };
+  window.addEventListener("message", listener);
+
+  window.parent.postMessage(
+    {
+      jsonrpc: "2.0",
+      method: SANDBOX_PROXY_READY_METHOD,
+      params: {},
+    } satisfies McpUiSandboxProxyReadyNotification & { jsonrpc: "2.0" },
+    hostOrigin,
+    [hostChannel.port2],
+  );
+
+  return {
+    hostOrigin,
+    inner,
+    close() {
+      window.removeEventListener("message", listener);
+      hostChannel.port1.close();
+      viewPort?.close();
+      inner.remove();
+    },
+  };
+}
+
+// ── Serving ──────────────────────────────────────────────────────────────
+
+/**
+ * Options for {@link createSandboxProxyHandler `createSandboxProxyHandler`}.
+ */
+export interface SandboxProxyHandlerOptions extends BuildCspHeaderOptions {
+  /**
+   * The proxy page HTML (which should call
+   * {@link createSandboxProxy `createSandboxProxy`}), or a function returning
+   * it. Use a function to pick up rebuilt files during development.
+   */
+  html: string | (() => string | Promise<string>);
+}
+
+/**
+ * Create a Node `http` / Express request handler that serves the sandbox
+ * proxy page.
+ *
+ * The View's CSP is read from a JSON-encoded `csp` query parameter (as sent
+ * by {@link app-bridge!AppHost `AppHost`}), converted with
+ * {@link buildCspHeader `buildCspHeader`} and sent as a
+ * `Content-Security-Policy` header. Responses are marked uncacheable so each
+ * View gets a fresh policy. A malformed `csp` parameter falls back to the
+ * restrictive default. If `html` fails, the handler responds with a 500.
+ *
+ * Serve the proxy from a different origin than the host page.
+ *
+ * @param options - Page HTML and CSP relaxations
+ * @returns A `(req, res)` handler
+ *
+ * @example
+ * ```ts source="./index.examples.ts#createSandboxProxyHandler_express"
+ * const sandboxApp = express();
+ * sandboxApp.get(
+ *   ["/", "/sandbox.html"],
+ *   createSandboxProxyHandler({ html: sandboxHtml }),
+ * );
+ * sandboxApp.listen(8081);
+ * ```
+ */
+export function createSandboxProxyHandler(
+  options: SandboxProxyHandlerOptions,
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    let csp: McpUiResourceCsp | undefined;
+    const param = new URL(req.url ?? "/", "http://localhost").searchParams.get(
+      "csp",
+    );
+    if (param) {
+      try {
+        csp = JSON.parse(param);
+      } catch {
+        console.warn("[MCP Apps] Ignoring invalid csp query parameter");
+      }
+    }
+
+    let html: string;
+    try {
+      html =
+        typeof options.html === "function"
+          ? await options.html()
+          : options.html;
+    } catch (error) {
+      console.error("[MCP Apps] Failed to load the sandbox proxy page:", error);
+      res.statusCode = 500;
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.end("Failed to load the sandbox proxy page");
+      return;
+    }
+
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.setHeader("Content-Security-Policy", buildCspHeader(csp, options));
+    res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
+    res.setHeader("Pragma", "no-cache");
+    res.setHeader("Expires", "0");
+    res.end(html);
+  };
+}
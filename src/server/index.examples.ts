@@ -18,8 +18,10 @@ import { z } from "zod";
 import {
   registerAppTool,
   registerAppResource,
+  createViewChannel,
   getUiCapability,
   RESOURCE_MIME_TYPE,
+  RESOURCE_URL_MIME_TYPE,
 } from "./index.js";
 
 // Stubs for external functions used in examples
@@ -27,6 +29,7 @@ declare function fetchWeather(
   location: string,
 ): Promise<{ temp: number; conditions: string }>;
 declare function getCart(): Promise<{ items: unknown[]; total: number }>;
+declare function getSalesReport(): Promise<{ rows: unknown[] }>;
 declare function updateCartItem(
   itemId: string,
   quantity: number,
@@ -112,6 +115,31 @@ function registerAppTool_modelOnlyVisibility(server: McpServer) {
   //#endregion registerAppTool_modelOnlyVisibility
 }
 
+/**
+ * Example: Choosing the View(s) to render at call time.
+ */
+function registerAppTool_dynamicResource(server: McpServer) {
+  //#region registerAppTool_dynamicResource
+  registerAppTool(
+    server,
+    "show-report",
+    {
+      description: "Show a sales report as a chart, a table, or both",
+      inputSchema: { format: z.enum(["chart", "table", "both"]) },
+      _meta: { ui: {} },
+      resolveResourceUri: (args) =>
+        args?.format === "both"
+          ? ["ui://reports/chart.html", "ui://reports/table.html"]
+          : `ui://reports/${args?.format}.html`,
+    },
+    async () => {
+      const report = await getSalesReport();
+      return { content: [{ type: "text", text: JSON.stringify(report) }] };
+    },
+  );
+  //#endregion registerAppTool_dynamicResource
+}
+
 /**
  * Example: App-only visibility - tools hidden from model, only callable by UI.
  */
@@ -252,6 +280,44 @@ function registerAppResource_withDomain(
   //#endregion registerAppResource_withDomain
 }
 
+/**
+ * Example: Embedding a hosted web app, with an inline fallback.
+ */
+function registerAppResource_externalUrl(
+  server: McpServer,
+  ticketBoardHtml: string,
+) {
+  //#region registerAppResource_externalUrl
+  const uiCap = getUiCapability(server.server.getClientCapabilities());
+
+  if (uiCap?.mimeTypes?.includes(RESOURCE_URL_MIME_TYPE)) {
+    registerAppResource(
+      server,
+      "Ticket Board",
+      "ui://tickets/board",
+      { description: "Our hosted ticket board" },
+      new URL("https://tickets.example.com/embed"),
+    );
+  } else {
+    registerAppResource(
+      server,
+      "Ticket Board",
+      "ui://tickets/board",
+      { description: "Ticket board (bundled build)" },
+      async () => ({
+        contents: [
+          {
+            uri: "ui://tickets/board",
+            mimeType: RESOURCE_MIME_TYPE,
+            text: ticketBoardHtml,
+          },
+        ],
+      }),
+    );
+  }
+  //#endregion registerAppResource_externalUrl
+}
+
 /**
  * Example: Check for MCP Apps support in server initialization.
  */
@@ -289,3 +355,41 @@ function getUiCapability_checkSupport(
   };
   //#endregion getUiCapability_checkSupport
 }
+
+type ViewerCommand = { type: "goto"; page: number };
+
+/**
+ * Example: Let the model navigate an open viewer.
+ */
+function createViewChannel_navigate(server: McpServer) {
+  //#region createViewChannel_navigate
+  const viewer = createViewChannel<ViewerCommand, number>();
+  viewer.registerTool(server);
+
+  registerAppTool(
+    server,
+    "show_document",
+    { _meta: { ui: { resourceUri: "ui://viewer/view.html" } } },
+    async () => {
+      const viewId = viewer.openView();
+      return {
+        content: [{ type: "text", text: `Opened viewer ${viewId}` }],
+        _meta: viewer.meta(viewId),
+      };
+    },
+  );
+
+  server.registerTool(
+    "go_to_page",
+    { inputSchema: { viewId: z.string(), page: z.number() } },
+    async ({ viewId, page }, extra) => {
+      const current = await viewer.request(
+        viewId,
+        { type: "goto", page },
+        { signal: extra.signal },
+      );
+      return { content: [{ type: "text", text: `Showing page ${current}` }] };
+    },
+  );
+  //#endregion createViewChannel_navigate
+}
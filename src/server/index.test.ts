@@ -4,6 +4,7 @@ import {
   registerAppResource,
   RESOURCE_URI_META_KEY,
   RESOURCE_MIME_TYPE,
+  RESOURCE_URL_MIME_TYPE,
   getUiCapability,
   EXTENSION_ID,
 } from "./index";
@@ -55,6 +56,59 @@ describe("registerAppTool", () => {
     expect(capturedHandler).toBe(handler);
   });
 
+  it("should append resource links from resolveResourceUri", async () => {
+    let capturedConfig: Record<string, unknown> | undefined;
+    let capturedHandler:
+      | ((args: unknown, extra: unknown) => Promise<unknown>)
+      | undefined;
+
+    const mockServer = {
+      registerTool: mock(
+        (
+          _name: string,
+          config: Record<string, unknown>,
+          handler: (args: unknown, extra: unknown) => Promise<unknown>,
+        ) => {
+          capturedConfig = config;
+          capturedHandler = handler;
+        },
+      ),
+    };
+
+    registerAppTool(
+      mockServer as unknown as Pick<McpServer, "registerTool">,
+      "show-report",
+      {
+        inputSchema: {},
+        _meta: { ui: {} },
+        resolveResourceUri: (args) =>
+          args?.both
+            ? ["ui://reports/chart.html", "ui://reports/table.html"]
+            : "ui://reports/chart.html",
+      },
+      async () => ({ content: [{ type: "text" as const, text: "ok" }] }),
+    );
+
+    expect(capturedConfig).not.toHaveProperty("resolveResourceUri");
+    expect(await capturedHandler!({ both: true }, {})).toEqual({
+      content: [
+        { type: "text", text: "ok" },
+        {
+          type: "resource_link",
+          uri: "ui://reports/chart.html",
+          name: "ui://reports/chart.html",
+          mimeType: RESOURCE_MIME_TYPE,
+        },
+        {
+          type: "resource_link",
+          uri: "ui://reports/table.html",
+          name: "ui://reports/table.html",
+          mimeType: RESOURCE_MIME_TYPE,
+        },
+      ],
+    });
+  });
+
   describe("backward compatibility", () => {
     it("should set legacy key when _meta.ui.resourceUri is provided", () => {
       let capturedConfig: Record<string, unknown> | undefined;
@@ -319,6 +373,62 @@ describe("registerAppResource", () => {
     expect(callback).toHaveBeenCalledTimes(1);
     expect(result).toEqual(expectedResult);
   });
+
+  it("should serve a URL as a text/uri-list resource", async () => {
+    let capturedConfig: Record<string, unknown> | undefined;
+    let capturedHandler: (() => Promise<unknown>) | undefined;
+
+    const mockServer = {
+      registerResource: mock(
+        (
+          _name: string,
+          _uri: string,
+          config: Record<string, unknown>,
+          handler: () => Promise<unknown>,
+        ) => {
+          capturedConfig = config;
+          capturedHandler = handler;
+        },
+      ),
+    };
+
+    registerAppResource(
+      mockServer as unknown as Pick<McpServer, "registerResource">,
+      "Ticket Board",
+      "ui://tickets/board",
+      {},
+      new URL("https://tickets.example.com/embed"),
+    );
+
+    expect(capturedConfig?.mimeType).toBe(RESOURCE_URL_MIME_TYPE);
+    expect(await capturedHandler!()).toEqual({
+      contents: [
+        {
+          uri: "ui://tickets/board",
+          mimeType: RESOURCE_URL_MIME_TYPE,
+          text: "https://tickets.example.com/embed",
+        },
+      ],
+    });
+  });
+
+  it("should reject non-https URLs except on localhost", () => {
+    const mockServer = { registerResource: mock(() => {}) };
+    const register = (url: string) =>
+      registerAppResource(
+        mockServer as unknown as Pick<McpServer, "registerResource">,
+        "View",
+        "ui://test/view",
+        {},
+        new URL(url),
+      );
+
+    expect(() => register("http://tickets.example.com/")).toThrow(
+      "External View URL must use https",
+    );
+    expect(() => register("javascript:alert(1)")).toThrow();
+    expect(() => register("http://localhost:3000/")).not.toThrow();
+  });
 });
 
 describe("getUiCapability", () => {
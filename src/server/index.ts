@@ -34,6 +34,7 @@
 import {
   RESOURCE_URI_META_KEY,
   RESOURCE_MIME_TYPE,
+  RESOURCE_URL_MIME_TYPE,
   McpUiResourceCsp,
   McpUiResourceMeta,
   McpUiToolMeta,
@@ -54,14 +55,16 @@ import type {
 } from "@modelcontextprotocol/sdk/server/zod-compat.js";
 import type { StandardSchemaWithJSON } from "../standard-schema";
 import type {
+  CallToolResult,
   ClientCapabilities,
   ReadResourceResult,
   ToolAnnotations,
 } from "@modelcontextprotocol/sdk/types.js";
 
 // Re-exports for convenience
-export { RESOURCE_URI_META_KEY, RESOURCE_MIME_TYPE };
+export { RESOURCE_URI_META_KEY, RESOURCE_MIME_TYPE, RESOURCE_URL_MIME_TYPE };
 export type { ResourceMetadata, ToolCallback };
+export * from "./view-channel.js";
 
 /**
  * Base tool configuration matching the standard MCP server tool options.
@@ -76,6 +79,20 @@ export interface ToolConfig {
   _meta?: Record<string, unknown>;
 }
 
+/**
+ * Chooses the UI resource(s) to render for a tool call, after the tool ran.
+ *
+ * @param args - The arguments the tool was called with (`undefined` for tools without an input schema)
+ * @param result - The result returned by the tool callback
+ * @returns One or more `ui://` resource URIs, or `undefined` for none
+ *
+ * @see {@link McpUiAppToolConfig.resolveResourceUri `McpUiAppToolConfig.resolveResourceUri`}
+ */
+export type McpUiResourceUriResolver = (
+  args: Record<string, unknown> | undefined,
+  result: CallToolResult,
+) => string | string[] | undefined | Promise<string | string[] | undefined>;
+
 /**
  * Configuration for tools that render an interactive UI.
  *
@@ -105,6 +122,21 @@ export interface McpUiAppToolConfig extends ToolConfig {
         [RESOURCE_URI_META_KEY]?: string;
       }
   );
+  /**
+   * Choose the UI resource(s) to render at call time.
+   *
+   * Each returned URI is appended to the result's `content` as a
+   * `resource_link` with the {@link RESOURCE_MIME_TYPE `RESOURCE_MIME_TYPE`}
+   * MIME type, and hosts render one View per UI resource. Use this to show
+   * several Views for one call (e.g. a chart and a table), or to pick the
+   * template based on the input or result. These Views are added to the one
+   * for `_meta.ui.resourceUri`, so tools whose UI is entirely dynamic should
+   * leave that unset.
+   *
+   * Every returned resource must also be registered with
+   * {@link registerAppResource `registerAppResource`}.
+   */
+  resolveResourceUri?: McpUiResourceUriResolver;
 }
 
 /**
@@ -190,6 +222,27 @@ export interface McpUiAppResourceConfig extends ResourceMetadata {
  * );
  * ```
  *
+ * @example Choose the View at call time
+ * ```ts source="./index.examples.ts#registerAppTool_dynamicResource"
+ * registerAppTool(
+ *   server,
+ *   "show-report",
+ *   {
+ *     description: "Show a sales report as a chart, a table, or both",
+ *     inputSchema: { format: z.enum(["chart", "table", "both"]) },
+ *     _meta: { ui: {} },
+ *     resolveResourceUri: (args) =>
+ *       args?.format === "both"
+ *         ? ["ui://reports/chart.html", "ui://reports/table.html"]
+ *         : `ui://reports/${args?.format}.html`,
+ *   },
+ *   async () => {
+ *     const report = await getSalesReport();
+ *     return { content: [{ type: "text", text: JSON.stringify(report) }] };
+ *   },
+ * );
+ * ```
+ *
  * @example Tool hidden from model, only callable by UI
  * ```ts source="./index.examples.ts#registerAppTool_appOnlyVisibility"
  * registerAppTool(
@@ -251,16 +304,68 @@ export function registerAppTool<
     normalizedMeta = { ...meta, ui: { ...uiMeta, resourceUri: legacyUri } };
   }
 
+  const { resolveResourceUri, ...toolConfig } = config;
+  let handler: unknown = cb;
+  if (resolveResourceUri) {
+    // The SDK only passes args to callbacks of tools with an input schema.
+    const hasArgs = config.inputSchema !== undefined;
+    const callback = cb as (
+      ...params: unknown[]
+    ) => CallToolResult | Promise<CallToolResult>;
+    handler = async (...params: unknown[]) => {
+      const result = await callback(...params);
+      const args = hasArgs
+        ? (params[0] as Record<string, unknown> | undefined)
+        : undefined;
+      const uris = await resolveResourceUri(args, result);
+      return appendUiResourceLinks(result, uris);
+    };
+  }
+
   // Cast bridges the widened StandardSchemaWithJSON constraint to the
   // sdk@1.x zod-typed signature. Drops once we depend on sdk v2.
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return server.registerTool(
     name,
-    { ...config, _meta: normalizedMeta } as any,
-    cb as any,
+    { ...toolConfig, _meta: normalizedMeta } as any,
+    handler as any,
   );
 }
 
+/**
+ * Add a `resource_link` for each UI resource URI the result doesn't already
+ * reference.
+ */
+function appendUiResourceLinks(
+  result: CallToolResult,
+  uris: string | string[] | undefined,
+): CallToolResult {
+  const content = [...(result.content ?? [])];
+  const present = new Set(
+    content.map((block) =>
+      block.type === "resource"
+        ? block.resource.uri
+        : block.type === "resource_link"
+          ? block.uri
+          : undefined,
+    ),
+  );
+  for (const uri of typeof uris === "string" ? [uris] : (uris ?? [])) {
+    if (!uri.startsWith("ui://")) {
+      throw new Error(`Invalid UI resource URI: ${JSON.stringify(uri)}`);
+    }
+    if (present.has(uri)) continue;
+    present.add(uri);
+    content.push({
+      type: "resource_link",
+      uri,
+      name: uri,
+      mimeType: RESOURCE_MIME_TYPE,
+    });
+  }
+  return { ...result, content };
+}
+
 export type McpUiReadResourceResult = ReadResourceResult & {
   _meta?: {
     ui?: McpUiResourceMeta;
@@ -280,11 +385,21 @@ export type ReadResourceCallback = McpUiReadResourceCallback;
  * - Defaults the MIME type to {@link RESOURCE_MIME_TYPE `RESOURCE_MIME_TYPE`} (`"text/html;profile=mcp-app"`)
  * - Provides a cleaner API matching the SDK's callback signature
  *
+ * Pass a `URL` instead of a callback to embed an externally hosted web app.
+ * The resource is then served as {@link RESOURCE_URL_MIME_TYPE `RESOURCE_URL_MIME_TYPE`}
+ * (`"text/uri-list"`) and the host loads the page in a frame instead of
+ * inline HTML. The page still has to connect an {@link app!App `App`} to
+ * talk to the host. Only hosts that list `"text/uri-list"` in their
+ * {@link getUiCapability `getUiCapability`} `mimeTypes` can embed it, so
+ * check that first and fall back to an inline HTML resource otherwise.
+ *
  * @param server - The MCP server instance
  * @param name - Human-readable resource name
  * @param uri - Resource URI (should match the `_meta.ui` field in tool config)
  * @param config - Resource configuration
- * @param readCallback - Callback that returns the resource contents
+ * @param readCallback - Callback that returns the resource contents, or the
+ *   `https:` URL of an externally hosted View
+ * @throws {Error} If given a URL that is neither `https:` nor a local `http:` address
  *
  * @example Basic usage
  * ```ts source="./index.examples.ts#registerAppResource_basicUsage"
@@ -382,6 +497,37 @@ export type ReadResourceCallback = McpUiReadResourceCallback;
  * );
  * ```
  *
+ * @example Embedding a hosted web app, with an inline fallback
+ * ```ts source="./index.examples.ts#registerAppResource_externalUrl"
+ * const uiCap = getUiCapability(server.server.getClientCapabilities());
+ *
+ * if (uiCap?.mimeTypes?.includes(RESOURCE_URL_MIME_TYPE)) {
+ *   registerAppResource(
+ *     server,
+ *     "Ticket Board",
+ *     "ui://tickets/board",
+ *     { description: "Our hosted ticket board" },
+ *     new URL("https://tickets.example.com/embed"),
+ *   );
+ * } else {
+ *   registerAppResource(
+ *     server,
+ *     "Ticket Board",
+ *     "ui://tickets/board",
+ *     { description: "Ticket board (bundled build)" },
+ *     async () => ({
+ *       contents: [
+ *         {
+ *           uri: "ui://tickets/board",
+ *           mimeType: RESOURCE_MIME_TYPE,
+ *           text: ticketBoardHtml,
+ *         },
+ *       ],
+ *     }),
+ *   );
+ * }
+ * ```
+ *
  * @see {@link McpUiResourceMeta `McpUiResourceMeta`} for `_meta.ui` configuration options
  * @see {@link McpUiResourceCsp `McpUiResourceCsp`} for CSP domain allowlist configuration
  * @see {@link registerAppTool `registerAppTool`} to register tools that reference this resource
@@ -391,8 +537,27 @@ export function registerAppResource(
   name: string,
   uri: string,
   config: McpUiAppResourceConfig,
-  readCallback: McpUiReadResourceCallback,
+  readCallback: McpUiReadResourceCallback | URL,
 ): RegisteredResource {
+  if (readCallback instanceof URL) {
+    const url = readCallback;
+    assertEmbeddableUrl(url);
+    return server.registerResource(
+      name,
+      uri,
+      { mimeType: RESOURCE_URL_MIME_TYPE, ...config },
+      async () => ({
+        contents: [
+          {
+            uri,
+            mimeType: RESOURCE_URL_MIME_TYPE,
+            text: url.href,
+            ...(config._meta && { _meta: config._meta }),
+          },
+        ],
+      }),
+    );
+  }
   return server.registerResource(
     name,
     uri,
@@ -405,6 +570,17 @@ export function registerAppResource(
   );
 }
 
+/**
+ * Hosts only embed `https:` pages, plus `http:` on the local machine for
+ * development.
+ */
+function assertEmbeddableUrl(url: URL): void {
+  const isLocal = ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && isLocal)) {
+    throw new Error(`External View URL must use https: ${url.href}`);
+  }
+}
+
 /**
  * Extension identifier for MCP Apps capability negotiation.
  *
@@ -0,0 +1,230 @@
+import { describe, it, expect, afterEach, spyOn } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { App, connectViewChannel, getViewChannelInfo } from "../app";
+import { AppBridge } from "../app-bridge";
+import { createViewChannel, type ViewChannel } from "./index";
+
+type Command = { type: "goto"; page: number } | { type: "fail" };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createViewChannel", () => {
+  let channel: ViewChannel<Command, number>;
+  let cleanup: (() => Promise<void> | void)[];
+
+  afterEach(async () => {
+    channel.close();
+    for (const fn of cleanup.reverse()) await fn();
+  });
+
+  /** Connect an App to a server serving `channel`, through an AppBridge. */
+  async function connectApp() {
+    cleanup = [];
+    const server = new McpServer({ name: "TestServer", version: "1.0.0" });
+    channel.registerTool(server);
+    const client = new Client({ name: "TestHost", version: "1.0.0" });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const bridge = new AppBridge(
+      client,
+      { name: "TestHost", version: "1.0.0" },
+      { serverTools: {} },
+    );
+    const app = new App(
+      { name: "TestApp", version: "1.0.0" },
+      {},
+      { autoResize: false },
+    );
+    const [appTransport, bridgeTransport] =
+      InMemoryTransport.createLinkedPair();
+    await bridge.connect(bridgeTransport);
+    await app.connect(appTransport);
+    cleanup.push(
+      () => client.close(),
+      () => appTransport.close(),
+    );
+    return app;
+  }
+
+  function listen(app: App, viewId: string, pages: number[] = []) {
+    const info = getViewChannelInfo({ _meta: channel.meta(viewId) })!;
+    const stop = connectViewChannel<Command, number>(app, info, (command) => {
+      if (command.type === "fail") throw new Error("Cannot do that");
+      pages.push(command.page);
+      return command.page;
+    });
+    cleanup.push(stop);
+    return pages;
+  }
+
+  it("delivers requests to the View and returns its replies", async () => {
+    channel = createViewChannel({ batchWindowMs: 0 });
+    const app = await connectApp();
+    const viewId = channel.openView();
+    expect(channel.isConnected(viewId)).toBe(false);
+
+    const pages = listen(app, viewId);
+
+    expect(await channel.request(viewId, { type: "goto", page: 3 })).toBe(3);
+    expect(await channel.request(viewId, { type: "goto", page: 5 })).toBe(5);
+    expect(pages).toEqual([3, 5]);
+    expect(channel.isConnected(viewId)).toBe(true);
+  });
+
+  it("rejects requests whose handler throws", async () => {
+    channel = createViewChannel({ batchWindowMs: 0 });
+    const app = await connectApp();
+    const viewId = channel.openView();
+    listen(app, viewId);
+
+    await expect(channel.request(viewId, { type: "fail" })).rejects.toThrow(
+      "Cannot do that",
+    );
+  });
+
+  it("queues commands sent before the View polls, in order", async () => {
+    channel = createViewChannel();
+    const app = await connectApp();
+    const viewId = channel.openView();
+    channel.send(viewId, { type: "goto", page: 1 });
+    channel.send(viewId, { type: "goto", page: 2 });
+
+    const pages = listen(app, viewId);
+
+    expect(await channel.request(viewId, { type: "goto", page: 3 })).toBe(3);
+    expect(pages).toEqual([1, 2, 3]);
+  });
+
+  it("rejects pending requests when the View is closed", async () => {
+    channel = createViewChannel();
+    cleanup = [];
+    const viewId = channel.openView();
+
+    const request = channel.request(viewId, { type: "goto", page: 1 });
+    channel.closeView(viewId);
+
+    await expect(request).rejects.toThrow("was closed");
+  });
+
+  it("rejects commands for Views that aren't open", async () => {
+    channel = createViewChannel();
+    cleanup = [];
+    const viewId = channel.openView();
+    channel.closeView(viewId);
+
+    expect(() => channel.send("unknown", { type: "goto", page: 1 })).toThrow(
+      "is not open",
+    );
+    await expect(
+      channel.request(viewId, { type: "goto", page: 1 }),
+    ).rejects.toThrow("is not open");
+    expect(() => channel.send(viewId, { type: "goto", page: 1 })).toThrow(
+      "is not open",
+    );
+  });
+
+  it("doesn't reopen closed Views that poll", async () => {
+    channel = createViewChannel({ batchWindowMs: 0 });
+    const app = await connectApp();
+    const viewId = channel.openView();
+    channel.closeView(viewId);
+    const info = getViewChannelInfo({ _meta: channel.meta(viewId) })!;
+
+    const result = await app.callServerTool({
+      name: info.toolName,
+      arguments: { viewId },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(channel.isConnected(viewId)).toBe(false);
+  });
+
+  it("doesn't deliver queued commands whose request was aborted", async () => {
+    channel = createViewChannel({ batchWindowMs: 0 });
+    const app = await connectApp();
+    const viewId = channel.openView();
+    const controller = new AbortController();
+    const aborted = channel.request(
+      viewId,
+      { type: "goto", page: 1 },
+      { signal: controller.signal },
+    );
+    channel.send(viewId, { type: "goto", page: 2 });
+    controller.abort();
+    await expect(aborted).rejects.toThrow("cancelled");
+
+    const pages = listen(app, viewId);
+
+    expect(await channel.request(viewId, { type: "goto", page: 3 })).toBe(3);
+    expect(pages).toEqual([2, 3]);
+  });
+
+  it("drops Views that stop polling", async () => {
+    channel = createViewChannel({ ttlMs: 20 });
+    cleanup = [];
+    const viewId = channel.openView();
+
+    await expect(
+      channel.request(viewId, { type: "goto", page: 1 }),
+    ).rejects.toThrow("stopped polling");
+  });
+
+  it("doesn't keep Views that stopped polling alive by sending to them", async () => {
+    channel = createViewChannel({ ttlMs: 40 });
+    cleanup = [];
+    const viewId = channel.openView();
+
+    const send = async () => {
+      for (let i = 0; i < 20; i++) {
+        channel.send(viewId, { type: "goto", page: i });
+        await sleep(10);
+      }
+    };
+
+    await expect(send()).rejects.toThrow("is not open");
+  });
+
+  it("ignores replies to other Views' requests", async () => {
+    channel = createViewChannel({ batchWindowMs: 0, pollTimeoutMs: 10 });
+    const app = await connectApp();
+    const viewId = channel.openView();
+    const otherViewId = channel.openView();
+    const request = channel.request(
+      viewId,
+      { type: "goto", page: 1 },
+      { timeoutMs: 100 },
+    );
+    const poll = (args: Record<string, unknown>) =>
+      app.callServerTool({ name: channel.toolName, arguments: args });
+
+    const { structuredContent } = await poll({ viewId });
+    const [{ id }] = (structuredContent as { commands: { id: string }[] })
+      .commands;
+    await poll({ viewId: otherViewId, replies: [{ id, result: 99 }] });
+
+    await expect(request).rejects.toThrow("did not reply");
+  });
+
+  it("stops polling once the App's connection closes", async () => {
+    channel = createViewChannel({ batchWindowMs: 0 });
+    const app = await connectApp();
+    const viewId = channel.openView();
+    const callServerTool = spyOn(app, "callServerTool");
+    const warn = spyOn(console, "warn");
+    listen(app, viewId);
+    while (!channel.isConnected(viewId)) await sleep(1);
+
+    await app.close();
+    await sleep(20);
+
+    expect(callServerTool).toHaveBeenCalledTimes(1);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,381 @@
+import type {
+  McpServer,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod/v4";
+import {
+  VIEW_CHANNEL_META_KEY,
+  type ViewChannelCommand,
+  type ViewChannelInfo,
+  type ViewChannelPollResult,
+  type ViewChannelReply,
+} from "../app.js";
+import { registerAppTool } from "./index.js";
+
+export {
+  VIEW_CHANNEL_META_KEY,
+  type ViewChannelCommand,
+  type ViewChannelInfo,
+  type ViewChannelPollResult,
+  type ViewChannelReply,
+};
+
+/**
+ * Options for {@link createViewChannel `createViewChannel`}.
+ */
+export interface ViewChannelOptions {
+  /**
+   * Name of the app-only tool Views poll for commands.
+   *
+   * @default "poll_view_commands"
+   */
+  toolName?: string;
+  /**
+   * How long a poll waits for a command before returning none.
+   *
+   * @default 30_000
+   */
+  pollTimeoutMs?: number;
+  /**
+   * How long a poll waits after the first command, to return several
+   * commands sent in quick succession at once.
+   *
+   * @default 200
+   */
+  batchWindowMs?: number;
+  /**
+   * How long a View may go without polling before it is dropped, with its
+   * queued commands and pending requests.
+   *
+   * @default 60_000
+   */
+  ttlMs?: number;
+  /**
+   * Default time {@link ViewChannel.request `ViewChannel.request`} waits for
+   * the View's reply.
+   *
+   * @default 45_000
+   */
+  replyTimeoutMs?: number;
+}
+
+/**
+ * Options for {@link ViewChannel.request `ViewChannel.request`}.
+ */
+export interface ViewChannelRequestOptions {
+  /** Rejects the request when aborted, e.g. with the tool call's `extra.signal`. */
+  signal?: AbortSignal;
+  /** Overrides {@link ViewChannelOptions.replyTimeoutMs `replyTimeoutMs`}. */
+  timeoutMs?: number;
+}
+
+/**
+ * Typed channel from the server to its open Views, created with
+ * {@link createViewChannel `createViewChannel`}.
+ *
+ * @typeParam Command - Commands sent to Views
+ * @typeParam Reply - Replies Views send to {@link request `request`}
+ */
+export interface ViewChannel<Command, Reply> {
+  /** Name of the app-only polling tool. */
+  readonly toolName: string;
+  /**
+   * Register the polling tool on `server`. Call this for every server
+   * instance (e.g. per session) sharing the channel.
+   */
+  registerTool(server: Pick<McpServer, "registerTool">): RegisteredTool;
+  /** Open a channel for a new View and return its ID. */
+  openView(): string;
+  /**
+   * `_meta` for the result of the tool call that renders the View, so the
+   * View can find its channel with {@link app!getViewChannelInfo `getViewChannelInfo`}.
+   */
+  meta(viewId: string): { [VIEW_CHANNEL_META_KEY]: ViewChannelInfo };
+  /**
+   * Queue a command for the View, without waiting for it to be handled.
+   *
+   * @throws {Error} If the View wasn't opened, or was closed or expired
+   */
+  send(viewId: string, command: Command): void;
+  /**
+   * Queue a command for the View and wait for its reply. A command still
+   * queued when `options.signal` is aborted is never delivered.
+   *
+   * @throws {Error} If the View wasn't opened, the View's handler threw, the
+   *   View doesn't reply in time, the View is closed or expires, or
+   *   `options.signal` is aborted
+   */
+  request(
+    viewId: string,
+    command: Command,
+    options?: ViewChannelRequestOptions,
+  ): Promise<Reply>;
+  /** Whether the View has polled since it was opened, i.e. is listening. */
+  isConnected(viewId: string): boolean;
+  /** Drop the View, rejecting its pending requests. */
+  closeView(viewId: string): void;
+  /** Drop all Views and stop the expiry timer. */
+  close(): void;
+}
+
+interface ViewState<Command> {
+  queue: ViewChannelCommand<Command>[];
+  lastActivity: number;
+  connected: boolean;
+  /** Wakes the poll waiting for commands, if any. */
+  wake?: () => void;
+}
+
+/**
+ * Create a channel for pushing commands from the server to Views that are
+ * already open, e.g. so a model-facing tool can drive a viewer.
+ *
+ * Views can't receive server requests, so they long-poll an app-only tool
+ * for commands instead; the channel registers that tool, queues commands per
+ * View, correlates replies with requests, and drops Views that stopped
+ * polling. Create the channel once per process and register its tool on
+ * each server instance.
+ *
+ * The tool that renders a View opens a channel with
+ * {@link ViewChannel.openView `openView`} and returns
+ * {@link ViewChannel.meta `meta`} in its result. The View then connects with
+ * {@link app!connectViewChannel `connectViewChannel`} (or
+ * {@link "@modelcontextprotocol/ext-apps/react"!useViewChannel `useViewChannel`}).
+ *
+ * @typeParam Command - Commands sent to Views
+ * @typeParam Reply - Replies Views send to {@link ViewChannel.request `request`}
+ * @param options - Tool name and timing options
+ * @returns The channel
+ *
+ * @example Let the model navigate an open viewer
+ * ```ts source="./index.examples.ts#createViewChannel_navigate"
+ * const viewer = createViewChannel<ViewerCommand, number>();
+ * viewer.registerTool(server);
+ *
+ * registerAppTool(
+ *   server,
+ *   "show_document",
+ *   { _meta: { ui: { resourceUri: "ui://viewer/view.html" } } },
+ *   async () => {
+ *     const viewId = viewer.openView();
+ *     return {
+ *       content: [{ type: "text", text: `Opened viewer ${viewId}` }],
+ *       _meta: viewer.meta(viewId),
+ *     };
+ *   },
+ * );
+ *
+ * server.registerTool(
+ *   "go_to_page",
+ *   { inputSchema: { viewId: z.string(), page: z.number() } },
+ *   async ({ viewId, page }, extra) => {
+ *     const current = await viewer.request(
+ *       viewId,
+ *       { type: "goto", page },
+ *       { signal: extra.signal },
+ *     );
+ *     return { content: [{ type: "text", text: `Showing page ${current}` }] };
+ *   },
+ * );
+ * ```
+ */
+export function createViewChannel<Command, Reply = unknown>(
+  options: ViewChannelOptions = {},
+): ViewChannel<Command, Reply> {
+  const {
+    toolName = "poll_view_commands",
+    pollTimeoutMs = 30_000,
+    batchWindowMs = 200,
+    ttlMs = 60_000,
+    replyTimeoutMs = 45_000,
+  } = options;
+  const views = new Map<string, ViewState<Command>>();
+  const pending = new Map<
+    string,
+    { viewId: string; settle: (reply: ViewChannelReply | Error) => void }
+  >();
+  let sweepTimer: ReturnType<typeof setInterval> | undefined;
+
+  function addView(viewId: string) {
+    views.set(viewId, {
+      queue: [],
+      lastActivity: Date.now(),
+      connected: false,
+    });
+    if (!sweepTimer) {
+      sweepTimer = setInterval(sweep, ttlMs / 2);
+      // Don't keep Node.js alive just to expire Views
+      (sweepTimer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  function unknownView(viewId: string) {
+    return new Error(`View ${viewId} is not open`);
+  }
+
+  function dropView(viewId: string, reason: string) {
+    const view = views.get(viewId);
+    if (!view) return;
+    views.delete(viewId);
+    view.wake?.();
+    for (const [, request] of pending) {
+      if (request.viewId === viewId) request.settle(new Error(reason));
+    }
+    if (!views.size) {
+      clearInterval(sweepTimer);
+      sweepTimer = undefined;
+    }
+  }
+
+  function sweep() {
+    const expired = Date.now() - ttlMs;
+    for (const [viewId, view] of views) {
+      if (view.lastActivity < expired) {
+        dropView(viewId, `View ${viewId} stopped polling`);
+      }
+    }
+  }
+
+  function enqueue(viewId: string, command: ViewChannelCommand<Command>) {
+    const view = views.get(viewId);
+    if (!view) throw unknownView(viewId);
+    view.queue.push(command);
+    view.wake?.();
+  }
+
+  async function poll(
+    viewId: string,
+    replies: ViewChannelReply[],
+    signal: AbortSignal,
+  ): Promise<CallToolResult> {
+    const view = views.get(viewId);
+    if (!view) {
+      // The View stops polling on errors
+      return {
+        content: [{ type: "text", text: unknownView(viewId).message }],
+        isError: true,
+      };
+    }
+    // Only polls keep a View alive: commands sent to it don't
+    view.lastActivity = Date.now();
+    view.connected = true;
+    for (const reply of replies) {
+      // A View may only answer its own requests
+      const request = pending.get(reply.id);
+      if (request?.viewId === viewId) request.settle(reply);
+    }
+    // Only the latest poll of a View waits for commands
+    view.wake?.();
+    if (!view.queue.length) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          signal.removeEventListener("abort", done);
+          if (view.wake === done) view.wake = undefined;
+          resolve();
+        };
+        const timer = setTimeout(done, pollTimeoutMs);
+        signal.addEventListener("abort", done);
+        view.wake = done;
+      });
+    }
+    if (view.queue.length && batchWindowMs > 0 && !signal.aborted) {
+      await new Promise((resolve) => setTimeout(resolve, batchWindowMs));
+    }
+    const commands = views.get(viewId) === view ? view.queue.splice(0) : [];
+    view.lastActivity = Date.now();
+    return {
+      content: [{ type: "text", text: `${commands.length} command(s)` }],
+      structuredContent: {
+        commands,
+      } satisfies ViewChannelPollResult<Command>,
+    };
+  }
+
+  return {
+    toolName,
+    registerTool(server) {
+      return registerAppTool(
+        server,
+        toolName,
+        {
+          title: "Poll View Commands",
+          description:
+            "Receive pending commands for an open view (used by the view). The model should NOT call this tool directly.",
+          inputSchema: {
+            viewId: z.string(),
+            replies: z
+              .array(
+                z.object({
+                  id: z.string(),
+                  result: z.unknown().optional(),
+                  error: z.string().optional(),
+                }),
+              )
+              .optional(),
+          },
+          _meta: { ui: { visibility: ["app"] } },
+        },
+        async ({ viewId, replies }, extra) =>
+          poll(viewId, replies ?? [], extra.signal),
+      );
+    },
+    openView() {
+      const viewId = crypto.randomUUID();
+      addView(viewId);
+      return viewId;
+    },
+    meta(viewId) {
+      return { [VIEW_CHANNEL_META_KEY]: { viewId, toolName } };
+    },
+    send(viewId, command) {
+      enqueue(viewId, {
+        id: crypto.randomUUID(),
+        command,
+        expectsReply: false,
+      });
+    },
+    request(viewId, command, { signal, timeoutMs = replyTimeoutMs } = {}) {
+      if (!views.has(viewId)) return Promise.reject(unknownView(viewId));
+      const id = crypto.randomUUID();
+      return new Promise<Reply>((resolve, reject) => {
+        const settle = (reply: ViewChannelReply | Error) => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          pending.delete(id);
+          // Don't deliver a command nobody waits on anymore
+          const queue = views.get(viewId)?.queue;
+          const index = queue?.findIndex((command) => command.id === id) ?? -1;
+          if (index >= 0) queue!.splice(index, 1);
+          if (reply instanceof Error) reject(reply);
+          else if (reply.error !== undefined) reject(new Error(reply.error));
+          else resolve(reply.result as Reply);
+        };
+        const onAbort = () => settle(new Error("Request cancelled"));
+        const timer = setTimeout(
+          () =>
+            settle(
+              new Error(`View ${viewId} did not reply within ${timeoutMs}ms`),
+            ),
+          timeoutMs,
+        );
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener("abort", onAbort);
+        pending.set(id, { viewId, settle });
+        enqueue(viewId, { id, command, expectsReply: true });
+      });
+    },
+    isConnected(viewId) {
+      return views.get(viewId)?.connected ?? false;
+    },
+    closeView(viewId) {
+      dropView(viewId, `View ${viewId} was closed`);
+    },
+    close() {
+      for (const viewId of [...views.keys()]) {
+        dropView(viewId, `View ${viewId} was closed`);
+      }
+    },
+  };
+}
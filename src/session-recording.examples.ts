@@ -0,0 +1,77 @@
+/**
+ * Type-checked examples for {@link RecordingTransport `RecordingTransport`}
+ * and {@link replaySession `replaySession`}.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { expect, it } from "bun:test";
+import { readFile } from "node:fs/promises";
+import {
+  App,
+  PostMessageTransport,
+  RecordingTransport,
+  replaySession,
+  type SessionRecording,
+} from "./app.js";
+
+// Stub for the View under test
+declare function mountWeatherView(app: App): void;
+
+/**
+ * Example: Record a View's session and download it.
+ */
+async function RecordingTransport_download(
+  app: App,
+  downloadButton: HTMLButtonElement,
+) {
+  //#region RecordingTransport_download
+  const recorder = new RecordingTransport(
+    new PostMessageTransport(window.parent, window.parent),
+    { side: "view" },
+  );
+  await app.connect(recorder);
+
+  downloadButton.addEventListener("click", () => {
+    const json = JSON.stringify(recorder.getRecording());
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(
+      new Blob([json], { type: "application/json" }),
+    );
+    link.download = "session.json";
+    link.click();
+  });
+  //#endregion RecordingTransport_download
+}
+
+/**
+ * Example: Check that a View still handles a recorded session.
+ */
+function replaySession_regression() {
+  //#region replaySession_regression
+  it("handles the session from issue #42", async () => {
+    const recording: SessionRecording = JSON.parse(
+      await readFile("fixtures/issue-42.json", "utf8"),
+    );
+    const app = new App(
+      { name: "WeatherView", version: "1.0.0" },
+      {},
+      { autoResize: false },
+    );
+    mountWeatherView(app);
+
+    const { mismatches } = await replaySession(recording, app, {
+      // Skip log messages, which may change between versions
+      normalize: (message) =>
+        "method" in message && message.method === "notifications/message"
+          ? undefined
+          : message,
+    });
+
+    expect(mismatches).toEqual([]);
+  });
+  //#endregion replaySession_regression
+}
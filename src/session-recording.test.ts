@@ -0,0 +1,181 @@
+import { describe, it, expect } from "bun:test";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+import { App } from "./app";
+import {
+  AppBridge,
+  RecordingTransport,
+  replaySession,
+  type SessionRecording,
+} from "./app-bridge";
+
+const testAppInfo = { name: "TestApp", version: "1.0.0" };
+const testHostInfo = { name: "TestHost", version: "1.0.0" };
+
+function createApp() {
+  return new App(testAppInfo, {}, { autoResize: false });
+}
+
+function createBridge() {
+  const bridge = new AppBridge(null, testHostInfo, { openLinks: {} });
+  bridge.onopenlink = async () => ({});
+  return bridge;
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Record a session in which the host sends tool input, to which the View
+ * reacts by opening a link.
+ */
+async function recordSession(side: "view" | "host"): Promise<SessionRecording> {
+  const app = createApp();
+  app.ontoolinput = ({ arguments: args }) => {
+    app.openLink({ url: `https://example.com/${args?.city}` });
+  };
+  const bridge = createBridge();
+  const [appTransport, bridgeTransport] = InMemoryTransport.createLinkedPair();
+  const recorder =
+    side === "view"
+      ? new RecordingTransport(appTransport, { side })
+      : new RecordingTransport(bridgeTransport, { side });
+  const initialized = new Promise<void>((resolve) => {
+    bridge.oninitialized = () => resolve();
+  });
+  await bridge.connect(side === "host" ? recorder : bridgeTransport);
+  await app.connect(side === "view" ? recorder : appTransport);
+  await initialized;
+  await bridge.sendToolInput({ arguments: { city: "Paris" } });
+  await flush();
+  await flush();
+  await appTransport.close();
+  return recorder.getRecording();
+}
+
+describe("RecordingTransport", () => {
+  it("records the messages sent and received with their sender", async () => {
+    const recording = await recordSession("view");
+
+    expect(recording.version).toBe(1);
+    expect(recording.side).toBe("view");
+    expect(new Date(recording.startedAt).getTime()).not.toBeNaN();
+    expect(
+      recording.messages.map(({ from, message }) => [
+        from,
+        "method" in message ? message.method : "response",
+      ]),
+    ).toEqual([
+      ["view", "ui/initialize"],
+      ["host", "response"],
+      ["view", "ui/notifications/initialized"],
+      ["host", "ui/notifications/tool-input"],
+      ["view", "ui/open-link"],
+      ["host", "response"],
+    ]);
+    for (const { time } of recording.messages) {
+      expect(time).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("reports each message as it is recorded", async () => {
+    const [appTransport, bridgeTransport] =
+      InMemoryTransport.createLinkedPair();
+    const recorder = new RecordingTransport(bridgeTransport, { side: "host" });
+    const recorded: unknown[] = [];
+    recorder.onrecord = ({ from, message }) => recorded.push({ from, message });
+    await recorder.start();
+    await appTransport.start();
+
+    const ping = { jsonrpc: "2.0" as const, id: 1, method: "ping" };
+    await appTransport.send(ping);
+    await recorder.send({ jsonrpc: "2.0", id: 1, result: {} });
+
+    expect(recorded).toEqual([
+      { from: "view", message: ping },
+      { from: "host", message: { jsonrpc: "2.0", id: 1, result: {} } },
+    ]);
+    expect(recorder.getRecording().messages).toHaveLength(2);
+    await recorder.close();
+  });
+});
+
+describe("replaySession", () => {
+  it("replays the host side into an App", async () => {
+    const recording = await recordSession("view");
+    const app = createApp();
+    app.ontoolinput = ({ arguments: args }) => {
+      app.openLink({ url: `https://example.com/${args?.city}` });
+    };
+
+    expect(await replaySession(recording, app)).toEqual({ mismatches: [] });
+  });
+
+  it("replays the View side into an AppBridge", async () => {
+    const recording = await recordSession("host");
+    const bridge = createBridge();
+    bridge.oninitialized = () => {
+      bridge.sendToolInput({ arguments: { city: "Paris" } });
+    };
+
+    expect(await replaySession(recording, bridge)).toEqual({
+      mismatches: [],
+    });
+  });
+
+  it("reports messages that differ, are missing or are unexpected", async () => {
+    const recording = await recordSession("view");
+    const openLink = recording.messages.findIndex(
+      ({ message }) => "method" in message && message.method === "ui/open-link",
+    );
+
+    const differing = createApp();
+    differing.ontoolinput = () => {
+      differing.openLink({ url: "https://example.com/London" });
+    };
+    const { mismatches } = await replaySession(recording, differing);
+    expect(mismatches).toEqual([
+      {
+        index: openLink,
+        expected: recording.messages[openLink].message,
+        actual: expect.objectContaining({
+          params: { url: "https://example.com/London" },
+        }),
+      },
+    ]);
+
+    const silent = createApp();
+    expect(
+      await replaySession(recording, silent, { timeout: 10 }),
+    ).toMatchObject({
+      mismatches: [{ index: openLink, expected: { method: "ui/open-link" } }],
+    });
+
+    const chatty = createApp();
+    chatty.ontoolinput = () => {
+      chatty.openLink({ url: "https://example.com/Paris" });
+      chatty.sendLog({ level: "info", data: "Opening link" });
+    };
+    expect(await replaySession(recording, chatty)).toMatchObject({
+      mismatches: [{ actual: { method: "notifications/message" } }],
+    });
+  });
+
+  it("skips the messages normalize drops", async () => {
+    const recording = await recordSession("view");
+    const app = createApp();
+    app.ontoolinput = () => {
+      app.sendLog({ level: "info", data: "Got input" });
+    };
+
+    const { mismatches } = await replaySession(recording, app, {
+      timeout: 10,
+      normalize: (message) =>
+        "method" in message &&
+        ["ui/open-link", "notifications/message"].includes(message.method)
+          ? undefined
+          : message,
+    });
+
+    expect(mismatches).toEqual([]);
+  });
+});
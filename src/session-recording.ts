@@ -0,0 +1,385 @@
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type {
+  Transport,
+  TransportSendOptions,
+} from "@modelcontextprotocol/sdk/shared/transport.js";
+import type {
+  JSONRPCMessage,
+  MessageExtraInfo,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import type { App } from "./app";
+import type { AppBridge } from "./app-bridge";
+
+/** A party of an App ↔ Host session. */
+export type SessionSide = "view" | "host";
+
+/**
+ * A message captured by a {@link RecordingTransport `RecordingTransport`}.
+ */
+export interface RecordedMessage {
+  /** Milliseconds since the recording started. */
+  time: number;
+  /** Side that sent the message. */
+  from: SessionSide;
+  /** The JSON-RPC message, as JSON. */
+  message: JSONRPCMessage;
+}
+
+/**
+ * JSON-RPC traffic of an App ↔ Host session, as returned by
+ * {@link RecordingTransport.getRecording `RecordingTransport.getRecording`}.
+ *
+ * Recordings are plain JSON and can be saved to a file, attached to a bug
+ * report and fed back to an `App` or `AppBridge` with
+ * {@link replaySession `replaySession`}.
+ */
+export interface SessionRecording {
+  /** Version of the recording format. */
+  version: 1;
+  /** Side the session was recorded on. */
+  side: SessionSide;
+  /** When the recording started, as an ISO 8601 timestamp. */
+  startedAt: string;
+  /** Messages in the order they were sent or received. */
+  messages: RecordedMessage[];
+}
+
+/**
+ * Options for {@link RecordingTransport `RecordingTransport`}.
+ */
+export interface RecordingTransportOptions {
+  /**
+   * Side the wrapped transport belongs to: `"view"` for the transport an
+   * `App` connects with, `"host"` for the one an `AppBridge` connects with.
+   */
+  side: SessionSide;
+}
+
+/**
+ * Transport wrapper that records the JSON-RPC messages sent and received
+ * through another transport.
+ *
+ * Wraps any transport, e.g. a {@link app!PostMessageTransport `PostMessageTransport`}
+ * in a View or a {@link app-bridge!MessagePortTransport `MessagePortTransport`}
+ * in a host, and behaves like it. Messages are timestamped and copied as
+ * JSON, so binary payloads sent with
+ * {@link app!transfer `transfer`} are recorded as their JSON form.
+ *
+ * @example Record a View's session and download it
+ * ```ts source="./session-recording.examples.ts#RecordingTransport_download"
+ * const recorder = new RecordingTransport(
+ *   new PostMessageTransport(window.parent, window.parent),
+ *   { side: "view" },
+ * );
+ * await app.connect(recorder);
+ *
+ * downloadButton.addEventListener("click", () => {
+ *   const json = JSON.stringify(recorder.getRecording());
+ *   const link = document.createElement("a");
+ *   link.href = URL.createObjectURL(
+ *     new Blob([json], { type: "application/json" }),
+ *   );
+ *   link.download = "session.json";
+ *   link.click();
+ * });
+ * ```
+ */
+export class RecordingTransport implements Transport {
+  private _side: SessionSide;
+  private _startedAt = new Date();
+  private _messages: RecordedMessage[] = [];
+
+  /**
+   * Create a recording wrapper.
+   *
+   * @param transport - The transport to record, not started yet
+   * @param options - Side of the session the transport belongs to
+   */
+  constructor(
+    private transport: Transport,
+    options: RecordingTransportOptions,
+  ) {
+    this._side = options.side;
+    transport.onmessage = (message, extra) => {
+      this._record(this._side === "view" ? "host" : "view", message);
+      this.onmessage?.(message, extra);
+    };
+    transport.onclose = () => this.onclose?.();
+    transport.onerror = (error) => this.onerror?.(error);
+  }
+
+  private _record(from: SessionSide, message: JSONRPCMessage) {
+    const recorded: RecordedMessage = {
+      time: Date.now() - this._startedAt.getTime(),
+      from,
+      message: JSON.parse(JSON.stringify(message)),
+    };
+    this._messages.push(recorded);
+    this.onrecord?.(recorded);
+  }
+
+  /**
+   * The messages recorded so far.
+   *
+   * @returns A recording that can be serialized with `JSON.stringify`
+   */
+  getRecording(): SessionRecording {
+    return {
+      version: 1,
+      side: this._side,
+      startedAt: this._startedAt.toISOString(),
+      messages: [...this._messages],
+    };
+  }
+
+  /** Start the wrapped transport. */
+  async start() {
+    await this.transport.start();
+  }
+
+  /**
+   * Record a message and send it through the wrapped transport.
+   *
+   * @param message - JSON-RPC message to send
+   * @param options - Send options, passed to the wrapped transport
+   */
+  async send(message: JSONRPCMessage, options?: TransportSendOptions) {
+    this._record(this._side, message);
+    await this.transport.send(message, options);
+  }
+
+  /** Close the wrapped transport. */
+  async close() {
+    await this.transport.close();
+  }
+
+  /** Called when the wrapped transport is closed. */
+  onclose?: () => void;
+
+  /** Called when the wrapped transport reports an error. */
+  onerror?: (error: Error) => void;
+
+  /**
+   * Called with each message sent or received as it is recorded, e.g. to
+   * show the traffic live.
+   *
+   * @param recorded - The recorded message
+   */
+  onrecord?: (recorded: RecordedMessage) => void;
+
+  /** Called with each message received, after it is recorded. */
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  /** Session identifier of the wrapped transport. */
+  get sessionId(): string | undefined {
+    return this.transport.sessionId;
+  }
+
+  /**
+   * Pass the negotiated protocol version to the wrapped transport.
+   *
+   * @param version - The negotiated protocol version string
+   */
+  setProtocolVersion(version: string) {
+    this.transport.setProtocolVersion?.(version);
+  }
+}
+
+/**
+ * Options for {@link replaySession `replaySession`}.
+ */
+export interface ReplaySessionOptions {
+  /**
+   * Side of the party under test when replaying through a transport:
+   * `"view"` if the transport reaches a View, `"host"` if it reaches a host.
+   * Not needed for an `App` (`"view"`) or an `AppBridge` (`"host"`).
+   */
+  side?: SessionSide;
+  /**
+   * How long to wait for each message the party under test should send, in
+   * milliseconds.
+   *
+   * @default 1000
+   */
+  timeout?: number;
+  /**
+   * Prepare messages for comparison, e.g. to drop fields that vary from run
+   * to run such as timestamps. Called with both the recorded and the actual
+   * messages of the party under test. Return `undefined` to skip a message
+   * altogether, e.g. notifications sent at unpredictable times.
+   */
+  normalize?: (message: JSONRPCMessage) => unknown;
+}
+
+/**
+ * A difference found by {@link replaySession `replaySession`} between the
+ * recorded and the actual messages of the party under test.
+ *
+ * - Only `expected`: the message wasn't sent in time.
+ * - Only `actual`: the message was sent but isn't in the recording.
+ * - Both: the message sent differs from the recorded one.
+ */
+export interface ReplayMismatch {
+  /** Index of the recorded message, if any, in the recording's `messages`. */
+  index?: number;
+  /** The recorded message. */
+  expected?: JSONRPCMessage;
+  /** The message actually sent. */
+  actual?: JSONRPCMessage;
+}
+
+/**
+ * Outcome of {@link replaySession `replaySession`}.
+ */
+export interface ReplayResult {
+  /** Differences with the recording; empty if the replay matched it. */
+  mismatches: ReplayMismatch[];
+}
+
+/** JSON with object keys sorted, to compare values regardless of key order. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : item,
+  );
+}
+
+function isRequest(
+  message: JSONRPCMessage,
+): message is Extract<JSONRPCMessage, { method: string; id: unknown }> {
+  return "method" in message && "id" in message;
+}
+
+/**
+ * Replay a recorded session against an `App`, an `AppBridge` or a transport
+ * reaching either, and compare what it sends with the recording.
+ *
+ * The messages of the other party are sent in the recorded order, each once
+ * the messages recorded before it were received from the party under test,
+ * so the replay doesn't depend on timing. Request ids of the party under
+ * test are mapped to the recorded ones, so the recorded responses answer
+ * the requests actually sent.
+ *
+ * An `App` or `AppBridge` is connected through an in-memory transport, and
+ * both it and a transport passed in are closed once the replay completes.
+ * An `AppBridge` only answers the View on its own, so set up the host code
+ * that sends it tool input and other notifications before replaying.
+ *
+ * @param recording - A recording made with {@link RecordingTransport `RecordingTransport`}
+ * @param target - The party under test: an `App` or `AppBridge` that isn't
+ *   connected yet, or a transport not started yet
+ * @param options - Side of a transport, timeout and normalization of messages
+ * @returns The differences between the recorded and the actual messages
+ *
+ * @example Check that a View still handles a recorded session
+ * ```ts source="./session-recording.examples.ts#replaySession_regression"
+ * it("handles the session from issue #42", async () => {
+ *   const recording: SessionRecording = JSON.parse(
+ *     await readFile("fixtures/issue-42.json", "utf8"),
+ *   );
+ *   const app = new App(
+ *     { name: "WeatherView", version: "1.0.0" },
+ *     {},
+ *     { autoResize: false },
+ *   );
+ *   mountWeatherView(app);
+ *
+ *   const { mismatches } = await replaySession(recording, app, {
+ *     // Skip log messages, which may change between versions
+ *     normalize: (message) =>
+ *       "method" in message && message.method === "notifications/message"
+ *         ? undefined
+ *         : message,
+ *   });
+ *
+ *   expect(mismatches).toEqual([]);
+ * });
+ * ```
+ */
+export async function replaySession(
+  recording: SessionRecording,
+  target: App | AppBridge | Transport,
+  options: ReplaySessionOptions = {},
+): Promise<ReplayResult> {
+  const { timeout = 1000, normalize = (message) => message } = options;
+  let transport: Transport;
+  let side: SessionSide;
+  if ("connect" in target) {
+    // Only `App` asks the host for its capabilities
+    side = "getHostCapabilities" in target ? "view" : "host";
+    const [driverTransport, targetTransport] =
+      InMemoryTransport.createLinkedPair();
+    transport = driverTransport;
+    // `App.connect` waits for the recorded `ui/initialize` response
+    target.connect(targetTransport).catch(() => {});
+  } else {
+    if (!options.side) {
+      throw new Error("The side of the transport is required");
+    }
+    side = options.side;
+    transport = target;
+  }
+
+  const received: JSONRPCMessage[] = [];
+  let wake: (() => void) | undefined;
+  transport.onmessage = (message) => {
+    if (normalize(message) === undefined) return;
+    received.push(message);
+    wake?.();
+  };
+  const next = async () => {
+    if (!received.length) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, timeout);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = undefined;
+    }
+    return received.shift();
+  };
+  await transport.start();
+
+  const mismatches: ReplayMismatch[] = [];
+  // Recorded request ids of the party under test, to the actual ones
+  const requestIds = new Map<string | number, string | number>();
+  for (const [index, { from, message }] of recording.messages.entries()) {
+    if (from !== side) {
+      const id =
+        "id" in message && !isRequest(message) ? message.id : undefined;
+      await transport.send(
+        id !== undefined && requestIds.has(id)
+          ? { ...message, id: requestIds.get(id)! }
+          : message,
+      );
+      continue;
+    }
+    const expected = normalize(message);
+    if (expected === undefined) continue;
+    const actual = await next();
+    if (!actual) {
+      mismatches.push({ index, expected: message });
+      continue;
+    }
+    let compared = actual;
+    if (isRequest(message) && isRequest(actual)) {
+      requestIds.set(message.id, actual.id);
+      compared = { ...actual, id: message.id };
+    }
+    if (canonicalJson(expected) !== canonicalJson(normalize(compared))) {
+      mismatches.push({ index, expected: message, actual });
+    }
+  }
+
+  // Let the party under test react to the last messages
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  mismatches.push(...received.map((actual) => ({ actual })));
+  await transport.close();
+  return { mismatches };
+}
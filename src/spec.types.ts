@@ -13,10 +13,13 @@
 import type {
   CallToolResult,
   ContentBlock,
+  ElicitRequestParams,
+  ElicitResult,
   EmbeddedResource,
   Implementation,
   RequestId,
   ResourceLink,
+  SamplingMessageContentBlock,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 
@@ -28,6 +31,43 @@ import type {
  */
 export const LATEST_PROTOCOL_VERSION = "2026-01-26";
 
+/**
+ * JSON-RPC error code hosts return when their policy rejects a request from
+ * the View (e.g. a call to a model-only tool, or too many requests).
+ *
+ * @see {@link McpUiPolicyErrorData `McpUiPolicyErrorData`} for the error's `data`
+ */
+export const POLICY_DENIED_ERROR_CODE = -32003;
+
+/**
+ * `_meta` key of a `sampling/createMessage` request holding the ID of the
+ * stream the View wants the response's content sent to.
+ *
+ * @see {@link McpUiSamplingStreamNotification `McpUiSamplingStreamNotification`} for the notifications sent to the stream
+ */
+export const SAMPLING_STREAM_META_KEY = "ui/samplingStream";
+
+/**
+ * @description Data of the JSON-RPC error a host returns with
+ * `POLICY_DENIED_ERROR_CODE` when its policy rejects a request from the View.
+ */
+export interface McpUiPolicyErrorData {
+  /**
+   * @description Why the request was rejected.
+   * - `"tool-not-allowed"`: the View may not call this tool (e.g. it is only visible to the model).
+   * - `"rate-limited"`: the View sent too many requests; retry after `retryAfterMs`.
+   * - `"approval-denied"`: the user did not approve the request.
+   * - `"quota-exceeded"`: the View used up its allowance (e.g. of sampling requests or tokens).
+   */
+  reason:
+    | "tool-not-allowed"
+    | "rate-limited"
+    | "approval-denied"
+    | "quota-exceeded";
+  /** @description Milliseconds after which the request may succeed again, for `"rate-limited"`. */
+  retryAfterMs?: number;
+}
+
 /**
  * @description Color theme preference for the host environment.
  */
@@ -201,6 +241,206 @@ export interface McpUiDownloadFileResult {
   [key: string]: unknown;
 }
 
+/**
+ * @description Request to let the user pick local files through the host.
+ *
+ * Sent from the View to the Host when the app needs user-provided files.
+ * The host shows its own file picker, so the sandboxed iframe never needs
+ * direct file system access. This is the inverse of `ui/download-file`.
+ *
+ * @see {@link app!App.requestFile `App.requestFile`} for the method that sends this request
+ */
+export interface McpUiRequestFileRequest {
+  method: "ui/request-file";
+  params: {
+    /** @description Accepted file types, as MIME types (`"image/png"`, `"image/*"`) or extensions (`".csv"`). Same semantics as the HTML `accept` attribute. */
+    accept?: string[];
+    /** @description Let the user pick more than one file. */
+    multiple?: boolean;
+    /** @description Maximum size of each file in bytes. The host rejects larger files. */
+    maxBytes?: number;
+  };
+}
+
+/**
+ * @description Result from a file request.
+ * @see {@link McpUiRequestFileRequest `McpUiRequestFileRequest`}
+ */
+export interface McpUiRequestFileResult {
+  /** @description Picked files — embedded (inline base64 `blob`) or linked (e.g. a URL the host uploaded the file to). Empty if the user cancelled. */
+  contents: (EmbeddedResource | ResourceLink)[];
+  /** @description True if the request failed (e.g., host denied or a file exceeded the size limit). */
+  isError?: boolean;
+  /**
+   * Index signature required for MCP SDK `Protocol` class compatibility.
+   * Note: The generated schema uses passthrough() to allow additional properties.
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * @description A button in a host-rendered confirmation dialog.
+ */
+export interface McpUiConfirmationAction {
+  /** @description Identifier returned in the result when the user picks this action. */
+  id: string;
+  /** @description Button label. */
+  label: string;
+  /** @description How the host styles the button. Hosts SHOULD make `"destructive"` actions visually distinct. */
+  style?: "default" | "primary" | "destructive";
+}
+
+/**
+ * @description Request to show a confirmation dialog rendered by the host.
+ *
+ * Sent from the View to the Host before a consequential action (e.g.
+ * revoking access or overwriting a file). Unlike a dialog drawn inside the
+ * View's iframe, the host's dialog is clearly attributable to the host, so
+ * the user can trust what it says about the app and the action.
+ *
+ * @see {@link app!App.requestConfirmation `App.requestConfirmation`} for the method that sends this request
+ */
+export interface McpUiRequestConfirmationRequest {
+  method: "ui/request-confirmation";
+  params: {
+    /** @description Dialog title, e.g. the question to confirm. */
+    title: string;
+    /** @description Plain-text explanation shown below the title. Hosts MUST NOT render it as HTML or Markdown. */
+    body?: string;
+    /** @description Buttons to show, in order. Defaults to a `"cancel"` ("Cancel") and a `"confirm"` ("OK") action. */
+    actions?: McpUiConfirmationAction[];
+  };
+}
+
+/**
+ * @description Result from a confirmation request.
+ * @see {@link McpUiRequestConfirmationRequest `McpUiRequestConfirmationRequest`}
+ */
+export interface McpUiRequestConfirmationResult {
+  /** @description `id` of the action the user picked. Absent if the user dismissed the dialog. */
+  action?: string;
+  /** @description True if the host could not show the dialog. */
+  isError?: boolean;
+  /**
+   * Index signature required for MCP SDK `Protocol` class compatibility.
+   * Note: The generated schema uses passthrough() to allow additional properties.
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * @description Request to open another UI template of the same server in a host modal.
+ *
+ * The host renders the `ui://` resource as a separate View in a modal
+ * dialog above the conversation and sends it `arguments` as its tool input.
+ * The modal View can close itself with `ui/notifications/request-teardown`.
+ *
+ * @see {@link app!App.requestModal `App.requestModal`} for the method that sends this request
+ */
+export interface McpUiRequestModalRequest {
+  method: "ui/request-modal";
+  params: {
+    /** @description URI of the `ui://` resource to render. Must belong to the same server as the requesting View. */
+    resourceUri: string;
+    /** @description Title of the modal. */
+    title?: string;
+    /** @description Arguments sent to the modal View in `ui/notifications/tool-input`. */
+    arguments?: Record<string, unknown>;
+  };
+}
+
+/**
+ * @description Result from a modal request, returned once the modal is shown.
+ * @see {@link McpUiRequestModalRequest `McpUiRequestModalRequest`}
+ */
+export interface McpUiRequestModalResult {
+  /** @description True if the host did not open the modal (e.g., unknown resource or host denied). */
+  isError?: boolean;
+  /**
+   * Index signature required for MCP SDK `Protocol` class compatibility.
+   * Note: The generated schema uses passthrough() to allow additional properties.
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * @description Request to persist View state so it can be restored later (View -> Host).
+ *
+ * Each request replaces the state previously saved by the same View for the
+ * same tool call. The host delivers the last saved state back in
+ * {@link McpUiInitializeResult.restoredState `McpUiInitializeResult.restoredState`}
+ * when the View is recreated (e.g. after the conversation is reloaded).
+ *
+ * @see {@link app!App.saveState `App.saveState`} for the method that sends this request
+ */
+export interface McpUiSaveStateRequest {
+  method: "ui/save-state";
+  params: {
+    /** @description JSON-serializable state to persist. Pass `null` to clear previously saved state. */
+    state: unknown;
+  };
+}
+
+/**
+ * @description Result from a save-state request.
+ * @see {@link McpUiSaveStateRequest `McpUiSaveStateRequest`}
+ */
+export interface McpUiSaveStateResult {
+  /**
+   * Index signature required for MCP SDK `Protocol` class compatibility.
+   * Note: The generated schema uses passthrough() to allow additional properties.
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * @description A number of bytes, or an offset in bytes: a nonnegative integer.
+ * @schema number().int().nonnegative()
+ */
+export type McpUiByteCount = number;
+
+/**
+ * @description Request to read a byte range of a server resource (View -> Host).
+ *
+ * The host reads the resource from the MCP server with `resources/read` and
+ * returns the requested bytes, so Views can fetch large binary resources in
+ * chunks instead of as one base64 blob. Hosts may cache the resource between
+ * requests for the same URI; a request at offset 0 always reads it afresh.
+ *
+ * @see {@link app!App.readServerResource `App.readServerResource`} for the method that sends this request
+ */
+export interface McpUiReadResourceBytesRequest {
+  method: "ui/read-resource-bytes";
+  params: {
+    /** @description URI of the resource to read. */
+    uri: string;
+    /** @description Offset of the first byte to return, at most the size of the resource. Defaults to 0. */
+    offset?: McpUiByteCount;
+    /** @description Maximum number of bytes to return. The host may return fewer (see `maxChunkBytes`). Defaults to the rest of the resource. */
+    length?: McpUiByteCount;
+  };
+}
+
+/**
+ * @description Result from a read-resource-bytes request.
+ * @see {@link McpUiReadResourceBytesRequest `McpUiReadResourceBytesRequest`}
+ */
+export interface McpUiReadResourceBytesResult {
+  /** @description Base64-encoded bytes, starting at `offset`. Empty at or past the end of the resource. */
+  blob: string;
+  /** @description Offset of the first returned byte. */
+  offset: number;
+  /** @description Total size of the resource in bytes. */
+  totalBytes: number;
+  /** @description MIME type of the resource, if known. */
+  mimeType?: string;
+  /**
+   * Index signature required for MCP SDK `Protocol` class compatibility.
+   * Note: The generated schema uses passthrough() to allow additional properties.
+   */
+  [key: string]: unknown;
+}
+
 /**
  * @description Request to send a message to the host's chat interface.
  * @see {@link app!App.sendMessage `App.sendMessage`} for the method that sends this request
@@ -247,8 +487,10 @@ export interface McpUiSandboxProxyReadyNotification {
 export interface McpUiSandboxResourceReadyNotification {
   method: "ui/notifications/sandbox-resource-ready";
   params: {
-    /** @description HTML content to load into the inner iframe. */
-    html: string;
+    /** @description HTML content to load into the inner iframe. Exactly one of `html` and `url` is set. */
+    html?: string;
+    /** @description URL of an externally hosted View (`text/uri-list` resource) to load into the inner iframe instead of `html`. */
+    url?: string;
     /** @description Optional override for the inner iframe's sandbox attribute. */
     sandbox?: string;
     /** @description CSP configuration from resource metadata. */
@@ -291,6 +533,8 @@ export interface McpUiToolInputPartialNotification {
   params: {
     /** @description Partial tool call arguments (incomplete, may change). */
     arguments?: Record<string, unknown>;
+    /** @description Names of the arguments whose values are complete and won't change in later notifications. */
+    finalized?: string[];
   };
 }
 
@@ -316,6 +560,79 @@ export interface McpUiToolCancelledNotification {
   };
 }
 
+/**
+ * @description Notification that the host handled an elicitation the MCP server
+ * raised while handling one of the View's tool calls (Host -> View).
+ *
+ * The host renders `elicitation/create` requests itself, since only it can
+ * show a trustworthy form. This notification lets the View reflect the
+ * outcome (e.g. show the values the user entered) while its
+ * `tools/call` is still pending.
+ */
+export interface McpUiElicitationNotification {
+  method: "ui/notifications/elicitation";
+  params: {
+    /** @description Params of the server's `elicitation/create` request. */
+    request: ElicitRequestParams;
+    /** @description The user's response, as returned to the server. */
+    result: ElicitResult;
+  };
+}
+
+/**
+ * @description Notification broadcasting a message to other Views (View -> Host).
+ * The host routes it to other Views it considers peers of the sender (by
+ * default, Views of the same MCP server) as `ui/notifications/peer-message`.
+ * @see {@link app!App.broadcast `App.broadcast`} for the method that sends this
+ */
+export interface McpUiBroadcastNotification {
+  method: "ui/notifications/broadcast";
+  params: {
+    /** @description Application-defined topic, e.g. "selection". */
+    topic: string;
+    /** @description JSON-serializable message payload. */
+    payload?: unknown;
+  };
+}
+
+/**
+ * @description Notification delivering a message broadcast by another View (Host -> View).
+ */
+export interface McpUiPeerMessageNotification {
+  method: "ui/notifications/peer-message";
+  params: {
+    /** @description Topic the sender broadcast on. */
+    topic: string;
+    /** @description Message payload as sent by the sender. */
+    payload?: unknown;
+    /** @description Name and version of the sending View, if known. */
+    sender?: Implementation;
+  };
+}
+
+/**
+ * @description Notification carrying part of a streamed sampling response (Host -> View).
+ *
+ * The View asks for a streamed response by setting
+ * {@link SAMPLING_STREAM_META_KEY `SAMPLING_STREAM_META_KEY`} in the `_meta` of its
+ * `sampling/createMessage` request. Hosts advertising `sampling.streaming` then send
+ * the response's content as it is generated, before responding with the complete
+ * `CreateMessageResult`.
+ * @see {@link app!App.streamSamplingMessage `App.streamSamplingMessage`} for the method that consumes these
+ */
+export interface McpUiSamplingStreamNotification {
+  method: "ui/notifications/sampling-stream";
+  params: {
+    /** @description Stream ID the View set in its request's `_meta`. */
+    streamId: string;
+    /**
+     * @description Content generated since the previous notification. Text blocks
+     * carry only the new text, to be appended to the preceding text.
+     */
+    content: SamplingMessageContentBlock;
+  };
+}
+
 /**
  * @description CSS blocks that can be injected by apps.
  */
@@ -498,15 +815,47 @@ export interface McpUiHostCapabilities {
   openLinks?: {};
   /** @description Host supports file downloads via ui/download-file. */
   downloadFile?: {};
+  /** @description Host lets the user pick local files via ui/request-file. */
+  fileUpload?: {
+    /** @description Maximum size of each file in bytes. */
+    maxBytes?: number;
+  };
+  /** @description Host renders confirmation dialogs via ui/request-confirmation. */
+  confirmation?: {};
+  /** @description Host opens UI templates in a modal via ui/request-modal. */
+  modal?: {};
   /** @description Host can proxy tool calls to the MCP server. */
   serverTools?: {
     /** @description Host supports tools/list_changed notifications. */
     listChanged?: boolean;
   };
+  /** @description Host can proxy prompt requests (prompts/list, prompts/get) to the MCP server. */
+  serverPrompts?: {
+    /** @description Host supports prompts/list_changed notifications. */
+    listChanged?: boolean;
+  };
+  /** @description Host can proxy argument completion requests (completion/complete) to the MCP server. */
+  serverCompletions?: {};
+  /** @description Host renders elicitation/create requests the server sends during the View's tool calls, and notifies the View via ui/notifications/elicitation. */
+  elicitation?: {};
+  /** @description Host can proxy MCP tasks to the MCP server: tools/call with a `task` parameter, tasks/get and tasks/result. */
+  serverTasks?: {
+    /** @description Host proxies tasks/list. */
+    list?: {};
+    /** @description Host proxies tasks/cancel. */
+    cancel?: {};
+  };
   /** @description Host can proxy resource reads to the MCP server. */
   serverResources?: {
     /** @description Host supports resources/list_changed notifications. */
     listChanged?: boolean;
+    /** @description Host forwards resources/subscribe and notifications/resources/updated. */
+    subscribe?: boolean;
+    /** @description Host serves byte ranges of resources via ui/read-resource-bytes. */
+    byteRanges?: {
+      /** @description Maximum number of bytes returned per request. */
+      maxChunkBytes?: number;
+    };
   };
   /** @description Host accepts log messages. */
   logging?: {};
@@ -528,6 +877,15 @@ export interface McpUiHostCapabilities {
   sampling?: {
     /** @description Host supports tool use via `tools` and `toolChoice` parameters. */
     tools?: {};
+    /** @description Host streams responses with ui/notifications/sampling-stream when requested. */
+    streaming?: {};
+  };
+  /** @description Host routes ui/notifications/broadcast to peer Views. */
+  peerMessaging?: {};
+  /** @description Host persists View state via ui/save-state and restores it on initialization. */
+  persistState?: {
+    /** @description Maximum size in bytes of the JSON-serialized state. */
+    maxBytes?: number;
   };
 }
 
@@ -543,6 +901,13 @@ export interface McpUiAppCapabilities {
     /** @description App supports tools/list_changed notifications. */
     listChanged?: boolean;
   };
+  /** @description App runs tool calls as MCP tasks when the host sends tools/call with a `task` parameter, and answers tasks/get and tasks/result. */
+  tasks?: {
+    /** @description App supports tasks/list. */
+    list?: {};
+    /** @description App supports tasks/cancel. */
+    cancel?: {};
+  };
   /** @description Display modes the app supports. */
   availableDisplayModes?: McpUiDisplayMode[];
 }
@@ -576,6 +941,8 @@ export interface McpUiInitializeResult {
   hostCapabilities: McpUiHostCapabilities;
   /** @description Rich context about the host environment. */
   hostContext: McpUiHostContext;
+  /** @description State last saved by this View (via ui/save-state) for the same tool call, if any. */
+  restoredState?: unknown;
   /**
    * Index signature required for MCP SDK `Protocol` class compatibility.
    * Note: The generated schema uses passthrough() to allow additional properties.
@@ -814,6 +1181,16 @@ export interface McpUiToolMeta {
 export const OPEN_LINK_METHOD: McpUiOpenLinkRequest["method"] = "ui/open-link";
 export const DOWNLOAD_FILE_METHOD: McpUiDownloadFileRequest["method"] =
   "ui/download-file";
+export const REQUEST_FILE_METHOD: McpUiRequestFileRequest["method"] =
+  "ui/request-file";
+export const REQUEST_CONFIRMATION_METHOD: McpUiRequestConfirmationRequest["method"] =
+  "ui/request-confirmation";
+export const REQUEST_MODAL_METHOD: McpUiRequestModalRequest["method"] =
+  "ui/request-modal";
+export const SAVE_STATE_METHOD: McpUiSaveStateRequest["method"] =
+  "ui/save-state";
+export const READ_RESOURCE_BYTES_METHOD: McpUiReadResourceBytesRequest["method"] =
+  "ui/read-resource-bytes";
 export const MESSAGE_METHOD: McpUiMessageRequest["method"] = "ui/message";
 export const SANDBOX_PROXY_READY_METHOD: McpUiSandboxProxyReadyNotification["method"] =
   "ui/notifications/sandbox-proxy-ready";
@@ -829,6 +1206,8 @@ export const TOOL_RESULT_METHOD: McpUiToolResultNotification["method"] =
   "ui/notifications/tool-result";
 export const TOOL_CANCELLED_METHOD: McpUiToolCancelledNotification["method"] =
   "ui/notifications/tool-cancelled";
+export const ELICITATION_METHOD: McpUiElicitationNotification["method"] =
+  "ui/notifications/elicitation";
 export const HOST_CONTEXT_CHANGED_METHOD: McpUiHostContextChangedNotification["method"] =
   "ui/notifications/host-context-changed";
 export const REQUEST_TEARDOWN_METHOD: McpUiRequestTeardownNotification["method"] =
@@ -839,6 +1218,12 @@ export const INITIALIZE_METHOD: McpUiInitializeRequest["method"] =
   "ui/initialize";
 export const INITIALIZED_METHOD: McpUiInitializedNotification["method"] =
   "ui/notifications/initialized";
+export const BROADCAST_METHOD: McpUiBroadcastNotification["method"] =
+  "ui/notifications/broadcast";
+export const PEER_MESSAGE_METHOD: McpUiPeerMessageNotification["method"] =
+  "ui/notifications/peer-message";
+export const SAMPLING_STREAM_METHOD: McpUiSamplingStreamNotification["method"] =
+  "ui/notifications/sampling-stream";
 export const REQUEST_DISPLAY_MODE_METHOD: McpUiRequestDisplayModeRequest["method"] =
   "ui/request-display-mode";
 
@@ -853,6 +1238,7 @@ export interface McpUiClientCapabilities {
   /**
    * @description Array of supported MIME types for UI resources.
    * Must include `"text/html;profile=mcp-app"` for MCP Apps support.
+   * Include `"text/uri-list"` if the host can embed externally hosted Views.
    */
   mimeTypes?: string[];
 }
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+
+import { ViewTaskStore } from "./task-store";
+
+const request = { method: "tools/call", params: { name: "generate_report" } };
+const result = { content: [{ type: "text", text: "Report ready" }] };
+
+describe("ViewTaskStore", () => {
+  let store: ViewTaskStore;
+
+  beforeEach(() => {
+    store = new ViewTaskStore();
+  });
+
+  it("creates working tasks and stores their result", async () => {
+    const task = await store.createTask({ pollInterval: 50 }, 1, request);
+
+    expect(task).toMatchObject({
+      status: "working",
+      ttl: null,
+      pollInterval: 50,
+    });
+    await expect(store.getTaskResult(task.taskId)).rejects.toThrow(
+      "has no result stored",
+    );
+
+    await store.storeTaskResult(task.taskId, "completed", result);
+
+    expect(await store.getTask(task.taskId)).toMatchObject({
+      status: "completed",
+    });
+    expect(await store.getTaskResult(task.taskId)).toEqual(result);
+  });
+
+  it("returns copies of its tasks", async () => {
+    const { taskId } = await store.createTask({}, 1, request);
+
+    const task = await store.getTask(taskId);
+    task!.status = "cancelled";
+
+    expect(await store.getTask(taskId)).toMatchObject({ status: "working" });
+  });
+
+  it("rejects changes to tasks in a terminal status", async () => {
+    const { taskId } = await store.createTask({}, 1, request);
+    await store.updateTaskStatus(taskId, "input_required", "Pick a file");
+    await store.updateTaskStatus(taskId, "cancelled");
+
+    await expect(store.updateTaskStatus(taskId, "working")).rejects.toThrow(
+      "from terminal status 'cancelled'",
+    );
+    await expect(
+      store.storeTaskResult(taskId, "completed", result),
+    ).rejects.toThrow("in terminal status 'cancelled'");
+    expect(await store.getTask(taskId)).toMatchObject({
+      status: "cancelled",
+      statusMessage: "Pick a file",
+    });
+  });
+
+  it("rejects unknown tasks", async () => {
+    expect(await store.getTask("unknown")).toBeNull();
+    await expect(store.getTaskResult("unknown")).rejects.toThrow("not found");
+    await expect(store.updateTaskStatus("unknown", "failed")).rejects.toThrow(
+      "not found",
+    );
+  });
+
+  it("forgets tasks once their ttl elapsed", async () => {
+    const expiring = await store.createTask({ ttl: 20 }, 1, request);
+    const kept = await store.createTask({}, 2, request);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(await store.getTask(expiring.taskId)).toBeNull();
+    expect(await store.getTask(kept.taskId)).not.toBeNull();
+  });
+
+  it("restarts the ttl when a task finishes", async () => {
+    const { taskId } = await store.createTask({ ttl: 100 }, 1, request);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await store.storeTaskResult(taskId, "completed", result);
+
+    // Past the ttl of the created task
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(await store.getTaskResult(taskId)).toEqual(result);
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    expect(await store.getTask(taskId)).toBeNull();
+  });
+
+  it("lists tasks in pages", async () => {
+    const taskIds: string[] = [];
+    for (let i = 0; i < 12; i++) {
+      taskIds.push((await store.createTask({}, i, request)).taskId);
+    }
+
+    const first = await store.listTasks();
+    const second = await store.listTasks(first.nextCursor);
+
+    expect(first.tasks.map((task) => task.taskId)).toEqual(
+      taskIds.slice(0, 10),
+    );
+    expect(first.nextCursor).toBe(taskIds[9]);
+    expect(second.tasks.map((task) => task.taskId)).toEqual(taskIds.slice(10));
+    expect(second.nextCursor).toBeUndefined();
+    await expect(store.listTasks("unknown")).rejects.toThrow(
+      "Invalid cursor: unknown",
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  isTerminal,
+  type CreateTaskOptions,
+  type TaskStore,
+} from "@modelcontextprotocol/sdk/experimental/tasks/interfaces.js";
+import type {
+  Request,
+  RequestId,
+  Result,
+  Task,
+} from "@modelcontextprotocol/sdk/types.js";
+
+const PAGE_SIZE = 10;
+
+/**
+ * In-memory store for the tasks of an {@link app!App `App`}.
+ *
+ * Same behavior as the SDK's `InMemoryTaskStore`, which can't be bundled for
+ * browsers because it generates task ids with `node:crypto`.
+ *
+ * @internal
+ */
+export class ViewTaskStore implements TaskStore {
+  private _tasks = new Map<string, { task: Task; result?: Result }>();
+  private _cleanupTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  private _get(taskId: string) {
+    const stored = this._tasks.get(taskId);
+    if (!stored) {
+      throw new Error(`Task with ID ${taskId} not found`);
+    }
+    return stored;
+  }
+
+  /** Forget a task `ttl` milliseconds from now, if it has one. */
+  private _scheduleCleanup(task: Task) {
+    clearTimeout(this._cleanupTimers.get(task.taskId));
+    if (!task.ttl) return;
+    const timer = setTimeout(() => {
+      this._tasks.delete(task.taskId);
+      this._cleanupTimers.delete(task.taskId);
+    }, task.ttl);
+    this._cleanupTimers.set(task.taskId, timer);
+  }
+
+  async createTask(
+    { ttl = null, pollInterval = 1000 }: CreateTaskOptions,
+    _requestId: RequestId,
+    _request: Request,
+  ): Promise<Task> {
+    const createdAt = new Date().toISOString();
+    const task: Task = {
+      taskId: crypto.randomUUID(),
+      status: "working",
+      ttl,
+      createdAt,
+      lastUpdatedAt: createdAt,
+      pollInterval,
+    };
+    this._tasks.set(task.taskId, { task });
+    this._scheduleCleanup(task);
+    return { ...task };
+  }
+
+  async getTask(taskId: string): Promise<Task | null> {
+    const stored = this._tasks.get(taskId);
+    return stored ? { ...stored.task } : null;
+  }
+
+  async storeTaskResult(
+    taskId: string,
+    status: "completed" | "failed",
+    result: Result,
+  ): Promise<void> {
+    const stored = this._get(taskId);
+    if (isTerminal(stored.task.status)) {
+      throw new Error(
+        `Cannot store result for task ${taskId} in terminal status '${stored.task.status}'`,
+      );
+    }
+    stored.result = result;
+    stored.task.status = status;
+    stored.task.lastUpdatedAt = new Date().toISOString();
+    this._scheduleCleanup(stored.task);
+  }
+
+  async getTaskResult(taskId: string): Promise<Result> {
+    const { result } = this._get(taskId);
+    if (!result) {
+      throw new Error(`Task ${taskId} has no result stored`);
+    }
+    return result;
+  }
+
+  async updateTaskStatus(
+    taskId: string,
+    status: Task["status"],
+    statusMessage?: string,
+  ): Promise<void> {
+    const stored = this._get(taskId);
+    if (isTerminal(stored.task.status)) {
+      throw new Error(
+        `Cannot update task ${taskId} from terminal status '${stored.task.status}' to '${status}'`,
+      );
+    }
+    stored.task.status = status;
+    if (statusMessage) {
+      stored.task.statusMessage = statusMessage;
+    }
+    stored.task.lastUpdatedAt = new Date().toISOString();
+    if (isTerminal(status)) {
+      this._scheduleCleanup(stored.task);
+    }
+  }
+
+  async listTasks(
+    cursor?: string,
+  ): Promise<{ tasks: Task[]; nextCursor?: string }> {
+    const taskIds = [...this._tasks.keys()];
+    let start = 0;
+    if (cursor) {
+      start = taskIds.indexOf(cursor) + 1;
+      if (!start) {
+        throw new Error(`Invalid cursor: ${cursor}`);
+      }
+    }
+    const page = taskIds.slice(start, start + PAGE_SIZE);
+    return {
+      tasks: page.map((taskId) => ({ ...this._tasks.get(taskId)!.task })),
+      nextCursor:
+        start + PAGE_SIZE < taskIds.length ? page[page.length - 1] : undefined,
+    };
+  }
+}
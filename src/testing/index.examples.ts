@@ -0,0 +1,57 @@
+/**
+ * Type-checked examples for {@link createTestHost `createTestHost`}.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { expect, it } from "bun:test";
+import { App } from "../app.js";
+import { createTestHost } from "./index.js";
+
+// Stub for the View under test: renders the forecast, and asks the model
+// for details or refreshes it via server tools on user input
+declare function mountWeatherView(app: App): {
+  forecast: string;
+  askForDetails(): Promise<void>;
+  refresh(): Promise<void>;
+};
+
+/**
+ * Example: Test a View's reaction to its tool result.
+ */
+function createTestHost_basicUsage() {
+  //#region createTestHost_basicUsage
+  it("shows the forecast and refreshes it", async () => {
+    const host = createTestHost({
+      tools: {
+        get_forecast: { content: [{ type: "text", text: "Rain" }] },
+      },
+    });
+    const app = new App(
+      { name: "WeatherView", version: "1.0.0" },
+      {},
+      { autoResize: false },
+    );
+    const view = mountWeatherView(app);
+    await host.connect(app);
+
+    await host.sendToolInput({ city: "Paris" });
+    await host.sendToolResult({ content: [{ type: "text", text: "Sunny" }] });
+    expect(view.forecast).toBe("Sunny");
+
+    await view.refresh();
+    expect(host.toolCalls).toEqual([
+      { name: "get_forecast", arguments: { city: "Paris" } },
+    ]);
+    expect(view.forecast).toBe("Rain");
+
+    await view.askForDetails();
+    expect(host.messages).toHaveLength(1);
+
+    await host.close();
+  });
+  //#endregion createTestHost_basicUsage
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+import { App, type McpUiHostContext } from "../app";
+import { createTestHost, type TestHost } from "./index";
+
+describe("createTestHost", () => {
+  let host: TestHost;
+  let app: App;
+
+  beforeEach(() => {
+    app = new App(
+      { name: "TestApp", version: "1.0.0" },
+      {},
+      { autoResize: false },
+    );
+  });
+
+  afterEach(async () => {
+    await host.close();
+  });
+
+  it("delivers tool input, results and cancellation to the View", async () => {
+    host = createTestHost();
+    const received: unknown[] = [];
+    app.addEventListener("toolinput", (params) => received.push(params));
+    app.addEventListener("toolinputpartial", (params) => received.push(params));
+    app.addEventListener("toolresult", (params) => received.push(params));
+    app.addEventListener("toolcancelled", (params) => received.push(params));
+    await host.connect(app);
+
+    await host.sendToolInputPartial({ arguments: { city: "Par" } });
+    await host.sendToolInput({ city: "Paris" });
+    await host.sendToolResult({ content: [{ type: "text", text: "Sunny" }] });
+    await host.sendToolCancelled({ reason: "user" });
+
+    expect(received).toEqual([
+      { arguments: { city: "Par" } },
+      { arguments: { city: "Paris" } },
+      { content: [{ type: "text", text: "Sunny" }] },
+      { reason: "user" },
+    ]);
+  });
+
+  it("sends the View its host context and changes to it", async () => {
+    host = createTestHost({ hostContext: { theme: "light", locale: "en" } });
+    const changes: McpUiHostContext[] = [];
+    app.addEventListener("hostcontextchanged", (params) =>
+      changes.push(params),
+    );
+    await host.connect(app);
+    expect(app.getHostContext()?.theme).toBe("light");
+
+    await host.updateHostContext({ theme: "dark" });
+
+    expect(changes).toEqual([{ theme: "dark" }]);
+    expect(app.getHostContext()).toMatchObject({ theme: "dark", locale: "en" });
+  });
+
+  it("records the View's messages, model context updates and links", async () => {
+    host = createTestHost();
+    await host.connect(app);
+
+    await app.sendMessage({
+      role: "user",
+      content: [{ type: "text", text: "Tell me more" }],
+    });
+    await app.updateModelContext({
+      content: [{ type: "text", text: "Selected: Paris" }],
+    });
+    await app.openLink({ url: "https://example.com" });
+
+    expect(host.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "Tell me more" }] },
+    ]);
+    expect(host.modelContextUpdates).toEqual([
+      { content: [{ type: "text", text: "Selected: Paris" }] },
+    ]);
+    expect(host.openedLinks).toEqual(["https://example.com"]);
+  });
+
+  it("answers server tool calls with their stubs", async () => {
+    const sunny: CallToolResult = {
+      content: [{ type: "text", text: "Sunny" }],
+    };
+    host = createTestHost({ tools: { get_forecast: sunny } });
+    host.stubTool("get_temperature", (args) => ({
+      content: [],
+      structuredContent: { city: args.city, celsius: 21 },
+    }));
+    await host.connect(app);
+
+    expect(await app.callServerTool({ name: "get_forecast" })).toEqual(sunny);
+    const temperature = await app.callServerTool({
+      name: "get_temperature",
+      arguments: { city: "Paris" },
+    });
+    expect(temperature.structuredContent).toEqual({
+      city: "Paris",
+      celsius: 21,
+    });
+    await expect(app.callServerTool({ name: "unknown" })).rejects.toThrow(
+      "Tool unknown not found",
+    );
+    expect(host.toolCalls.map(({ name }) => name)).toEqual([
+      "get_forecast",
+      "get_temperature",
+      "unknown",
+    ]);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * In-memory host for unit-testing Views without a browser or an iframe.
+ *
+ * {@link createTestHost `createTestHost`} connects an {@link app!App `App`}
+ * to an {@link app-bridge!AppBridge `AppBridge`} over a linked in-memory
+ * transport, so tests can send the View its tool input, result and host
+ * context, stub the server tools it calls, and assert on the messages,
+ * model context updates and links it sends to the host.
+ *
+ * The harness itself needs no DOM. Create the `App` with
+ * `autoResize: false`, or register a DOM shim (e.g. happy-dom in a
+ * `bun test` preload) if the View under test renders to the document.
+ *
+ * @module testing
+ */
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ErrorCode,
+  McpError,
+  type CallToolRequest,
+  type CallToolResult,
+  type Implementation,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import type { App } from "../app";
+import {
+  AppBridge,
+  type McpUiHostCapabilities,
+  type McpUiHostContext,
+  type McpUiMessageRequest,
+  type McpUiToolCancelledNotification,
+  type McpUiToolInputNotification,
+  type McpUiToolInputPartialNotification,
+  type McpUiUpdateModelContextRequest,
+} from "../app-bridge";
+
+/**
+ * Stub of a server tool: its result, or a function computing it from the
+ * call's arguments.
+ */
+export type TestToolStub =
+  | CallToolResult
+  | ((
+      args: Record<string, unknown>,
+      params: CallToolRequest["params"],
+    ) => CallToolResult | Promise<CallToolResult>);
+
+/**
+ * Options for {@link createTestHost `createTestHost`}.
+ */
+export interface TestHostOptions {
+  /**
+   * Host name and version reported to the View.
+   *
+   * @default { name: "TestHost", version: "1.0.0" }
+   */
+  hostInfo?: Implementation;
+  /**
+   * Capabilities advertised to the View. Defaults to the capabilities the
+   * harness handles: links, messages, model context updates, server tools
+   * and logging.
+   */
+  hostCapabilities?: McpUiHostCapabilities;
+  /** Initial host context, e.g. `theme` or `toolInfo`. */
+  hostContext?: McpUiHostContext;
+  /** Server tools the View may call, by name. */
+  tools?: Record<string, TestToolStub>;
+}
+
+/**
+ * In-memory host created by {@link createTestHost `createTestHost`}.
+ */
+export interface TestHost {
+  /**
+   * The host's bridge, e.g. to handle requests the harness doesn't
+   * (`bridge.onrequestdisplaymode = ...`) or to call the View's tools.
+   */
+  readonly bridge: AppBridge;
+  /** Params of the `ui/message` requests the View sent. */
+  readonly messages: McpUiMessageRequest["params"][];
+  /** Params of the `ui/update-model-context` requests the View sent. */
+  readonly modelContextUpdates: McpUiUpdateModelContextRequest["params"][];
+  /** URLs the View asked to open with `ui/open-link`. */
+  readonly openedLinks: string[];
+  /** Params of the server tool calls the View made. */
+  readonly toolCalls: CallToolRequest["params"][];
+  /**
+   * Connect the View and wait for its initialization to complete.
+   *
+   * @param app - The View's App, not connected yet
+   */
+  connect(app: App): Promise<void>;
+  /**
+   * Stub a server tool, replacing any previous stub of the same name.
+   *
+   * @param name - Name of the tool
+   * @param stub - Result of the tool, or a function computing it
+   */
+  stubTool(name: string, stub: TestToolStub): void;
+  /** Send the View the complete arguments of the tool call that rendered it. */
+  sendToolInput(
+    args: McpUiToolInputNotification["params"]["arguments"],
+  ): Promise<void>;
+  /** Send the View partial arguments, as while the model streams them. */
+  sendToolInputPartial(
+    params: McpUiToolInputPartialNotification["params"],
+  ): Promise<void>;
+  /** Send the View the result of the tool call that rendered it. */
+  sendToolResult(result: CallToolResult): Promise<void>;
+  /** Tell the View its tool call was cancelled. */
+  sendToolCancelled(
+    params?: McpUiToolCancelledNotification["params"],
+  ): Promise<void>;
+  /**
+   * Change the host context, sending the View the fields that changed.
+   *
+   * @param changes - Fields to change; the others keep their values
+   */
+  updateHostContext(changes: McpUiHostContext): Promise<void>;
+  /**
+   * Wait for the messages already sent between the host and the View to be
+   * handled, e.g. before asserting on the View's reaction to a notification.
+   */
+  flush(): Promise<void>;
+  /** Disconnect the View. */
+  close(): Promise<void>;
+}
+
+const DEFAULT_HOST_CAPABILITIES: McpUiHostCapabilities = {
+  openLinks: {},
+  message: { text: {} },
+  updateModelContext: { text: {} },
+  serverTools: {},
+  logging: {},
+};
+
+/**
+ * Create an in-memory host for testing a View.
+ *
+ * The host records the View's `ui/message`, `ui/update-model-context` and
+ * `ui/open-link` requests and its server tool calls, answering them with
+ * success (tool calls with their stub). Calls to tools without a stub fail
+ * like calls to unknown tools on a real server.
+ *
+ * @param options - Host info, capabilities, context and server tool stubs
+ * @returns The host, ready for {@link TestHost.connect `connect`}
+ *
+ * @example Test a View's reaction to its tool result
+ * ```ts source="./index.examples.ts#createTestHost_basicUsage"
+ * it("shows the forecast and refreshes it", async () => {
+ *   const host = createTestHost({
+ *     tools: {
+ *       get_forecast: { content: [{ type: "text", text: "Rain" }] },
+ *     },
+ *   });
+ *   const app = new App(
+ *     { name: "WeatherView", version: "1.0.0" },
+ *     {},
+ *     { autoResize: false },
+ *   );
+ *   const view = mountWeatherView(app);
+ *   await host.connect(app);
+ *
+ *   await host.sendToolInput({ city: "Paris" });
+ *   await host.sendToolResult({ content: [{ type: "text", text: "Sunny" }] });
+ *   expect(view.forecast).toBe("Sunny");
+ *
+ *   await view.refresh();
+ *   expect(host.toolCalls).toEqual([
+ *     { name: "get_forecast", arguments: { city: "Paris" } },
+ *   ]);
+ *   expect(view.forecast).toBe("Rain");
+ *
+ *   await view.askForDetails();
+ *   expect(host.messages).toHaveLength(1);
+ *
+ *   await host.close();
+ * });
+ * ```
+ */
+export function createTestHost(options: TestHostOptions = {}): TestHost {
+  const {
+    hostInfo = { name: "TestHost", version: "1.0.0" },
+    hostCapabilities = DEFAULT_HOST_CAPABILITIES,
+  } = options;
+  const tools = new Map(Object.entries(options.tools ?? {}));
+  let context = options.hostContext ?? {};
+  const bridge = new AppBridge(null, hostInfo, hostCapabilities, {
+    hostContext: context,
+  });
+  const [appTransport, bridgeTransport] = InMemoryTransport.createLinkedPair();
+
+  const host: TestHost = {
+    bridge,
+    messages: [],
+    modelContextUpdates: [],
+    openedLinks: [],
+    toolCalls: [],
+    async connect(app) {
+      const initialized = new Promise<void>((resolve) => {
+        bridge.addEventListener("initialized", () => resolve());
+      });
+      await bridge.connect(bridgeTransport);
+      await app.connect(appTransport);
+      await initialized;
+    },
+    stubTool(name, stub) {
+      tools.set(name, stub);
+    },
+    async sendToolInput(args) {
+      await bridge.sendToolInput({ arguments: args });
+      await host.flush();
+    },
+    async sendToolInputPartial(params) {
+      await bridge.sendToolInputPartial(params);
+      await host.flush();
+    },
+    async sendToolResult(result) {
+      await bridge.sendToolResult(result);
+      await host.flush();
+    },
+    async sendToolCancelled(params = {}) {
+      await bridge.sendToolCancelled(params);
+      await host.flush();
+    },
+    async updateHostContext(changes) {
+      context = { ...context, ...changes };
+      bridge.setHostContext(context);
+      await host.flush();
+    },
+    flush() {
+      return new Promise((resolve) => setTimeout(resolve, 0));
+    },
+    async close() {
+      await appTransport.close();
+    },
+  };
+
+  bridge.onmessage = async (params) => {
+    host.messages.push(params);
+    return {};
+  };
+  bridge.onupdatemodelcontext = async (params) => {
+    host.modelContextUpdates.push(params);
+    return {};
+  };
+  bridge.onopenlink = async ({ url }) => {
+    host.openedLinks.push(url);
+    return {};
+  };
+  bridge.oncalltool = async (params) => {
+    host.toolCalls.push(params);
+    const stub = tools.get(params.name);
+    if (!stub) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Tool ${params.name} not found`,
+      );
+    }
+    return typeof stub === "function"
+      ? stub(params.arguments ?? {}, params)
+      : stub;
+  };
+
+  return host;
+}
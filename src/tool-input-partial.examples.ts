@@ -0,0 +1,53 @@
+/**
+ * Type-checked examples for {@link createToolInputStream `createToolInputStream`}
+ * and {@link onToolInputPartial `onToolInputPartial`}.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { z } from "zod/v4";
+import { App, onToolInputPartial } from "./app.js";
+import { AppBridge, createToolInputStream } from "./app-bridge.js";
+
+/**
+ * Example: Forward streamed arguments to the View.
+ */
+async function createToolInputStream_forward(
+  bridge: AppBridge,
+  argumentDeltas: AsyncIterable<string>,
+) {
+  //#region createToolInputStream_forward
+  const input = createToolInputStream();
+  for await (const delta of argumentDeltas) {
+    const params = input.push(delta);
+    if (params) await bridge.sendToolInputPartial(params);
+  }
+  await bridge.sendToolInput({ arguments: JSON.parse(input.text) });
+  //#endregion createToolInputStream_forward
+}
+
+/**
+ * Example: Preview code while the model writes it.
+ */
+function onToolInputPartial_codePreview(
+  app: App,
+  preview: HTMLPreElement,
+  title: HTMLElement,
+) {
+  //#region onToolInputPartial_codePreview
+  const inputSchema = z.object({
+    title: z.string(),
+    code: z.string(),
+  });
+
+  onToolInputPartial(app, inputSchema, (input) => {
+    if (input.isFinalized("title")) {
+      title.textContent = input.arguments.title ?? "";
+    }
+    preview.textContent = input.arguments.code ?? "";
+  });
+  //#endregion onToolInputPartial_codePreview
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "bun:test";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { z } from "zod/v4";
+
+import { App, onToolInputPartial, type ToolInputPartial } from "./app";
+import {
+  AppBridge,
+  createToolInputStream,
+  parsePartialJson,
+} from "./app-bridge";
+
+describe("parsePartialJson", () => {
+  it("parses complete JSON", () => {
+    const json =
+      '{"a": [1, -2.5e3, "x\\n\\u00e9"], "b": {"c": null, "d": true}}';
+    expect(parsePartialJson(json)).toEqual(JSON.parse(json));
+  });
+
+  it("closes strings, arrays and objects that are cut off", () => {
+    expect(parsePartialJson('{"code": "const x')).toEqual({ code: "const x" });
+    expect(parsePartialJson('{"points": [[1, 2], [3')).toEqual({
+      points: [[1, 2], [3]],
+    });
+    expect(parsePartialJson('{"a": {"b": "c"')).toEqual({ a: { b: "c" } });
+  });
+
+  it("drops keys, literals and escapes that are cut off", () => {
+    expect(parsePartialJson('{"a": 1, "b')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a": 1, "b":')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a": tr')).toEqual({});
+    expect(parsePartialJson('{"a": "x\\')).toEqual({ a: "x" });
+    expect(parsePartialJson('{"a": "x\\u00')).toEqual({ a: "x" });
+  });
+
+  it("cuts numbers to their last digit", () => {
+    expect(parsePartialJson("[1.")).toEqual([1]);
+    expect(parsePartialJson("[12e")).toEqual([12]);
+    expect(parsePartialJson("[-")).toEqual([]);
+  });
+
+  it("returns undefined until a value starts", () => {
+    expect(parsePartialJson("")).toBeUndefined();
+    expect(parsePartialJson("  ")).toBeUndefined();
+    expect(parsePartialJson("nu")).toBeUndefined();
+  });
+
+  it("rejects invalid JSON", () => {
+    expect(() => parsePartialJson('{"a" 1')).toThrow(SyntaxError);
+    expect(() => parsePartialJson("[1 2]")).toThrow(SyntaxError);
+    expect(() => parsePartialJson("{} x")).toThrow(SyntaxError);
+  });
+});
+
+describe("createToolInputStream", () => {
+  it("lists the arguments whose values are complete", () => {
+    const input = createToolInputStream();
+
+    expect(input.push('{"title": "Cube')).toEqual({
+      arguments: { title: "Cube" },
+      finalized: [],
+    });
+    expect(input.push('", "size": 1')).toEqual({
+      arguments: { title: "Cube", size: 1 },
+      finalized: ["title"],
+    });
+    // The number may continue
+    expect(input.push("0")).toEqual({
+      arguments: { title: "Cube", size: 10 },
+      finalized: ["title"],
+    });
+    expect(input.push("}")).toEqual({
+      arguments: { title: "Cube", size: 10 },
+      finalized: ["title", "size"],
+    });
+    expect(input.text).toBe('{"title": "Cube", "size": 10}');
+  });
+
+  it("skips deltas that don't change the arguments", () => {
+    const input = createToolInputStream();
+
+    expect(input.push("")).toBeUndefined();
+    expect(input.push("{")).toEqual({ arguments: {}, finalized: [] });
+    expect(input.push('"ti')).toBeUndefined();
+    expect(input.push("  ")).toBeUndefined();
+  });
+
+  it("streams large arguments in small deltas", () => {
+    const args = {
+      title: "Report \u00e9\n",
+      code: 'const s = "\\u00e9";\n'.repeat(20_000),
+      points: Array.from({ length: 5_000 }, (_, i) => [i, -i / 4]),
+      draft: false,
+    };
+    const json = JSON.stringify(args, null, 1);
+    const input = createToolInputStream();
+    let last: ReturnType<typeof input.push>;
+
+    for (let i = 0; i < json.length; i += 7) {
+      last = input.push(json.slice(i, i + 7)) ?? last;
+    }
+
+    expect(last!).toEqual({
+      arguments: JSON.parse(json),
+      finalized: ["title", "code", "points", "draft"],
+    });
+  });
+
+  it("keeps earlier params when later deltas arrive", () => {
+    const input = createToolInputStream();
+
+    const first = input.push('{"tags": ["a", "b');
+    input.push('c"], "n": 1');
+
+    expect(first).toEqual({ arguments: { tags: ["a", "b"] }, finalized: [] });
+  });
+
+  it("rejects arguments that aren't an object", () => {
+    expect(() => createToolInputStream().push("[1")).toThrow(
+      "must be a JSON object",
+    );
+  });
+});
+
+describe("onToolInputPartial", () => {
+  it("passes the typed partial input to the listener until removed", async () => {
+    const bridge = new AppBridge(
+      null,
+      { name: "TestHost", version: "1.0.0" },
+      {},
+    );
+    const app = new App(
+      { name: "TestApp", version: "1.0.0" },
+      {},
+      { autoResize: false },
+    );
+    const schema = z.object({ title: z.string(), size: z.number() });
+    const received: ToolInputPartial<z.input<typeof schema>>[] = [];
+    const remove = onToolInputPartial(app, schema, (input) =>
+      received.push(input),
+    );
+    const [appTransport, bridgeTransport] =
+      InMemoryTransport.createLinkedPair();
+    const initialized = new Promise<void>((resolve) => {
+      bridge.oninitialized = () => resolve();
+    });
+    await bridge.connect(bridgeTransport);
+    await app.connect(appTransport);
+    await initialized;
+
+    const input = createToolInputStream();
+    await bridge.sendToolInputPartial(input.push('{"title": "Cube", "si')!);
+    await bridge.sendToolInputPartial({ arguments: { title: "Cube" } });
+    remove();
+    await bridge.sendToolInputPartial(input.push('ze": 1')!);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(received.map((input) => input.arguments)).toEqual([
+      { title: "Cube" },
+      { title: "Cube" },
+    ]);
+    expect(received[0].isFinalized("title")).toBe(true);
+    expect(received[0].isFinalized("size")).toBe(false);
+    // Hosts that don't report finalized arguments
+    expect(received[1].isFinalized("title")).toBe(false);
+
+    await appTransport.close();
+  });
+});
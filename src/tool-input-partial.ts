@@ -0,0 +1,514 @@
+import type { App } from "./app";
+import type { StandardSchemaV1 } from "./standard-schema";
+import type { McpUiToolInputPartialNotification } from "./types";
+
+/**
+ * `T` with all properties optional, recursively. Describes tool arguments
+ * while they are being streamed.
+ */
+export type DeepPartial<T> = T extends readonly (infer Item)[]
+  ? DeepPartial<Item>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/** Marks a value nothing of which was received yet. */
+const NOTHING = Symbol("nothing");
+
+interface ParsedValue {
+  value: unknown;
+  /** Whether the value was fully received and won't change. */
+  complete: boolean;
+  /** Keys of an object whose values are complete. */
+  completeKeys?: string[];
+}
+
+/** Array or object being received. */
+type ContainerFrame =
+  | {
+      kind: "object";
+      value: Record<string, unknown>;
+      state: "start" | "key" | "colon" | "value" | "next";
+      /** Key of the value being received. */
+      key?: string;
+      /** Keys whose values are complete. */
+      completeKeys: string[];
+      /** Whether the value being received was put in `value` yet. */
+      open: boolean;
+    }
+  | {
+      kind: "array";
+      value: unknown[];
+      state: "start" | "value" | "next";
+      /** Whether the item being received was put in `value` yet. */
+      open: boolean;
+    };
+
+/** String, number or literal being received. */
+type LeafFrame =
+  | {
+      kind: "string";
+      value: string;
+      isKey: boolean;
+      /** Escape sequence being received, after its backslash. */
+      escape?: string;
+    }
+  | { kind: "number"; raw: string }
+  | { kind: "literal"; raw: string };
+
+const ESCAPES: Record<string, string> = {
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+const LITERALS: [string, unknown][] = [
+  ["true", true],
+  ["false", false],
+  ["null", null],
+];
+
+const STRING_CHARS = /[^"\\]*/y;
+const NUMBER_CHARS = /[\d.eE+-]*/y;
+
+/**
+ * Parser of JSON that may be cut off anywhere, recovering as much of it as
+ * possible. Values cut off midway are kept when they are usable (strings,
+ * numbers, arrays and objects) and dropped otherwise (keys and literals).
+ *
+ * The text is written in pieces, each parsed once: the parser keeps the
+ * values being received between writes.
+ */
+function createParser() {
+  /** Length of the text written before the current piece. */
+  let offset = 0;
+  /** Containers being received, outermost first. */
+  const stack: ContainerFrame[] = [];
+  let leaf: LeafFrame | undefined;
+  let root: unknown = NOTHING;
+  let rootComplete = false;
+  let rootKeys: string[] | undefined;
+  let changed = false;
+  let error: SyntaxError | undefined;
+
+  const fail = (index: number): never => {
+    throw new SyntaxError(
+      `Unexpected character in JSON at position ${offset + index}`,
+    );
+  };
+
+  /** Put the value being received in its parent, replacing its previous state. */
+  function place(value: unknown) {
+    const parent = stack.at(-1);
+    if (!parent) {
+      changed ||= root !== value;
+      root = value;
+    } else if (parent.kind === "array") {
+      const last = parent.value.length - 1;
+      if (!parent.open) {
+        parent.value.push(value);
+        parent.open = changed = true;
+      } else if (parent.value[last] !== value) {
+        parent.value[last] = value;
+        changed = true;
+      }
+    } else if (!parent.open || parent.value[parent.key!] !== value) {
+      parent.value[parent.key!] = value;
+      parent.open = changed = true;
+    }
+  }
+
+  function complete(value: unknown) {
+    place(value);
+    const parent = stack.at(-1);
+    if (!parent) {
+      rootComplete = true;
+      return;
+    }
+    parent.open = false;
+    parent.state = "next";
+    if (parent.kind === "object") {
+      parent.completeKeys.push(parent.key!);
+      changed ||= parent.value === root;
+    }
+  }
+
+  /**
+   * Start the value at `index`.
+   *
+   * @returns Index of the next character to parse
+   */
+  function startValue(text: string, index: number): number {
+    const char = text[index];
+    if (char === "{") {
+      const frame: ContainerFrame = {
+        kind: "object",
+        value: {},
+        state: "start",
+        completeKeys: [],
+        open: false,
+      };
+      place(frame.value);
+      stack.push(frame);
+      if (stack.length === 1) rootKeys = frame.completeKeys;
+    } else if (char === "[") {
+      const value: unknown[] = [];
+      place(value);
+      stack.push({ kind: "array", value, state: "start", open: false });
+    } else if (char === '"') {
+      leaf = { kind: "string", value: "", isKey: false };
+      place("");
+    } else if (char === "-" || (char >= "0" && char <= "9")) {
+      leaf = { kind: "number", raw: "" };
+      return index;
+    } else {
+      leaf = { kind: "literal", raw: "" };
+      return index;
+    }
+    return index + 1;
+  }
+
+  /**
+   * Parse the structural character at `index`, or start a value there.
+   *
+   * @returns Index of the next character to parse
+   */
+  function parseStructure(text: string, index: number): number {
+    const char = text[index];
+    if (/\s/.test(char)) return index + 1;
+    const frame = stack.at(-1);
+    if (!frame) {
+      if (rootComplete) fail(index);
+      return startValue(text, index);
+    }
+    const closing = frame.kind === "object" ? "}" : "]";
+    if (
+      (frame.state === "start" || frame.state === "next") &&
+      char === closing
+    ) {
+      stack.pop();
+      complete(frame.value);
+      return index + 1;
+    }
+    switch (frame.state) {
+      case "next":
+        if (char !== ",") fail(index);
+        frame.state = frame.kind === "object" ? "key" : "value";
+        return index + 1;
+      case "start":
+      case "key":
+        if (frame.kind === "array") return startValue(text, index);
+        if (char !== '"') fail(index);
+        leaf = { kind: "string", value: "", isKey: true };
+        return index + 1;
+      case "colon":
+        if (char !== ":") fail(index);
+        frame.state = "value";
+        return index + 1;
+      case "value":
+        return startValue(text, index);
+    }
+  }
+
+  /** Parse the rest of the current string from `index`, up to its end. */
+  function parseString(
+    string: Extract<LeafFrame, { kind: "string" }>,
+    text: string,
+    index: number,
+  ): number {
+    while (index < text.length) {
+      if (string.escape === "") {
+        const escape = text[index++];
+        if (escape === "u") {
+          string.escape = escape;
+        } else {
+          string.value += ESCAPES[escape] ?? escape;
+          string.escape = undefined;
+        }
+        continue;
+      }
+      if (string.escape !== undefined) {
+        string.escape += text[index++];
+        if (string.escape.length === 5) {
+          string.value += String.fromCharCode(
+            parseInt(string.escape.slice(1), 16),
+          );
+          string.escape = undefined;
+        }
+        continue;
+      }
+      STRING_CHARS.lastIndex = index;
+      const chars = STRING_CHARS.exec(text)![0];
+      string.value += chars;
+      index += chars.length;
+      if (index >= text.length) break;
+      if (text[index++] === "\\") {
+        string.escape = "";
+        continue;
+      }
+      leaf = undefined;
+      if (string.isKey) {
+        const frame = stack.at(-1) as Extract<
+          ContainerFrame,
+          { kind: "object" }
+        >;
+        frame.key = string.value;
+        frame.state = "colon";
+      } else {
+        complete(string.value);
+      }
+      return index;
+    }
+    if (!string.isKey) place(string.value);
+    return index;
+  }
+
+  /** Parse the rest of the current number from `index`, up to its end. */
+  function parseNumber(
+    number: Extract<LeafFrame, { kind: "number" }>,
+    text: string,
+    index: number,
+  ): number {
+    NUMBER_CHARS.lastIndex = index;
+    const chars = NUMBER_CHARS.exec(text)![0];
+    number.raw += chars;
+    index += chars.length;
+    if (index < text.length) {
+      const value = Number(number.raw);
+      if (isNaN(value)) fail(index);
+      leaf = undefined;
+      complete(value);
+    } else {
+      // More digits may follow
+      const digits = number.raw.replace(/[^\d]+$/, "");
+      if (/\d/.test(digits)) place(Number(digits));
+    }
+    return index;
+  }
+
+  /** Parse the rest of the current literal from `index`, up to its end. */
+  function parseLiteral(
+    literal: Extract<LeafFrame, { kind: "literal" }>,
+    text: string,
+    index: number,
+  ): number {
+    while (index < text.length) {
+      literal.raw += text[index++];
+      const match = LITERALS.find(([candidate]) => candidate === literal.raw);
+      if (match) {
+        leaf = undefined;
+        complete(match[1]);
+        return index;
+      }
+      if (!LITERALS.some(([candidate]) => candidate.startsWith(literal.raw))) {
+        fail(index - 1);
+      }
+    }
+    return index;
+  }
+
+  return {
+    /**
+     * Parse the next piece of the text.
+     *
+     * @throws {SyntaxError} If the text isn't the beginning of valid JSON
+     */
+    write(text: string) {
+      if (error) throw error;
+      try {
+        for (let index = 0; index < text.length; ) {
+          if (leaf?.kind === "string") {
+            index = parseString(leaf, text, index);
+          } else if (leaf?.kind === "number") {
+            index = parseNumber(leaf, text, index);
+          } else if (leaf?.kind === "literal") {
+            index = parseLiteral(leaf, text, index);
+          } else {
+            index = parseStructure(text, index);
+          }
+        }
+        offset += text.length;
+      } catch (e) {
+        error = e as SyntaxError;
+        throw e;
+      }
+    },
+    /** Whether the value received changed since the last {@link read}. */
+    get changed() {
+      return changed;
+    },
+    /**
+     * The value received so far. Later writes don't change it: containers
+     * still being received are copied.
+     */
+    read(): ParsedValue {
+      changed = false;
+      let value = root;
+      for (let depth = stack.length - 1; depth >= 0; depth--) {
+        const frame = stack[depth];
+        const inner = value;
+        if (frame.kind === "array") {
+          const copy = [...frame.value];
+          if (depth < stack.length - 1) copy[copy.length - 1] = inner;
+          value = copy;
+        } else {
+          const copy = { ...frame.value };
+          if (depth < stack.length - 1) copy[frame.key!] = inner;
+          value = copy;
+        }
+      }
+      return {
+        value,
+        complete: rootComplete,
+        completeKeys: rootKeys && [...rootKeys],
+      };
+    },
+  };
+}
+
+/**
+ * Recover the value of JSON text that may be cut off anywhere, e.g. tool
+ * arguments still being streamed by the model.
+ *
+ * Unclosed strings, arrays and objects are closed, and numbers are cut to
+ * their last digit. Object keys and `true`/`false`/`null` literals that are
+ * cut off are dropped, as are values not started yet.
+ *
+ * @param text - Beginning of a JSON text
+ * @returns The recovered value, or `undefined` if `text` holds no value yet
+ * @throws {SyntaxError} If `text` isn't the beginning of valid JSON
+ */
+export function parsePartialJson(text: string): unknown {
+  const parser = createParser();
+  parser.write(text);
+  const { value } = parser.read();
+  return value === NOTHING ? undefined : value;
+}
+
+/**
+ * Accumulates the JSON deltas of streamed tool arguments, created with
+ * {@link createToolInputStream `createToolInputStream`}.
+ */
+export interface ToolInputStream {
+  /** The JSON text received so far. */
+  readonly text: string;
+  /**
+   * Append a delta of the arguments' JSON and recover the arguments received
+   * so far.
+   *
+   * @param delta - Next piece of the JSON text
+   * @returns Params for {@link app-bridge!AppBridge.sendToolInputPartial `sendToolInputPartial`},
+   *   or `undefined` if they didn't change since the previous delta
+   * @throws {SyntaxError} If the text isn't the beginning of a JSON object
+   */
+  push(delta: string): McpUiToolInputPartialNotification["params"] | undefined;
+}
+
+/**
+ * Turn the raw JSON deltas of tool arguments streamed by the model into
+ * params for {@link app-bridge!AppBridge.sendToolInputPartial `sendToolInputPartial`}.
+ *
+ * Each delta is parsed once, continuing from the previous one, and the text
+ * received so far is healed as with
+ * {@link parsePartialJson `parsePartialJson`}. The params list the arguments
+ * whose values were fully received as `finalized`.
+ *
+ * @returns A stream for one tool call's arguments
+ *
+ * @example Forward streamed arguments to the View
+ * ```ts source="./tool-input-partial.examples.ts#createToolInputStream_forward"
+ * const input = createToolInputStream();
+ * for await (const delta of argumentDeltas) {
+ *   const params = input.push(delta);
+ *   if (params) await bridge.sendToolInputPartial(params);
+ * }
+ * await bridge.sendToolInput({ arguments: JSON.parse(input.text) });
+ * ```
+ */
+export function createToolInputStream(): ToolInputStream {
+  let text = "";
+  const parser = createParser();
+  return {
+    get text() {
+      return text;
+    },
+    push(delta) {
+      text += delta;
+      parser.write(delta);
+      if (!parser.changed) return undefined;
+      const { value, completeKeys } = parser.read();
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new SyntaxError("Tool arguments must be a JSON object");
+      }
+      return {
+        arguments: value as Record<string, unknown>,
+        finalized: completeKeys!,
+      };
+    },
+  };
+}
+
+/**
+ * Partial tool arguments passed to {@link onToolInputPartial `onToolInputPartial`} listeners.
+ *
+ * @typeParam Input - Type of the complete arguments
+ */
+export interface ToolInputPartial<Input> {
+  /** Arguments received so far. Values not finalized may still change. */
+  arguments: DeepPartial<Input>;
+  /**
+   * Whether the argument's value is complete and won't change. Always
+   * `false` with hosts that don't report finalized arguments.
+   */
+  isFinalized(name: keyof Input & string): boolean;
+}
+
+/**
+ * Listen for the partial arguments of the tool call that rendered the View,
+ * typed from the tool's input schema.
+ *
+ * Typed wrapper of the `toolinputpartial` event: `arguments` has the type of
+ * the schema's input with all properties optional, and `isFinalized` tells
+ * which arguments are complete, so previews can render finished fields
+ * as-is and the others as still loading.
+ *
+ * @param app - The App
+ * @param schema - The tool's input schema. Only used for its type
+ * @param listener - Called with each partial input
+ * @returns A function that removes the listener
+ *
+ * @example Preview code while the model writes it
+ * ```ts source="./tool-input-partial.examples.ts#onToolInputPartial_codePreview"
+ * const inputSchema = z.object({
+ *   title: z.string(),
+ *   code: z.string(),
+ * });
+ *
+ * onToolInputPartial(app, inputSchema, (input) => {
+ *   if (input.isFinalized("title")) {
+ *     title.textContent = input.arguments.title ?? "";
+ *   }
+ *   preview.textContent = input.arguments.code ?? "";
+ * });
+ * ```
+ */
+export function onToolInputPartial<Schema extends StandardSchemaV1>(
+  app: App,
+  schema: Schema,
+  listener: (
+    input: ToolInputPartial<StandardSchemaV1.InferInput<Schema>>,
+  ) => void,
+): () => void {
+  type Input = StandardSchemaV1.InferInput<Schema>;
+  const handler = (params: McpUiToolInputPartialNotification["params"]) => {
+    const finalized = new Set(params.finalized);
+    listener({
+      arguments: (params.arguments ?? {}) as DeepPartial<Input>,
+      isFinalized: (name) => finalized.has(name),
+    });
+  };
+  app.addEventListener("toolinputpartial", handler);
+  return () => app.removeEventListener("toolinputpartial", handler);
+}
@@ -12,8 +12,15 @@
 // Re-export all types from spec.types.ts
 export {
   LATEST_PROTOCOL_VERSION,
+  POLICY_DENIED_ERROR_CODE,
+  SAMPLING_STREAM_META_KEY,
   OPEN_LINK_METHOD,
   DOWNLOAD_FILE_METHOD,
+  REQUEST_FILE_METHOD,
+  REQUEST_CONFIRMATION_METHOD,
+  REQUEST_MODAL_METHOD,
+  SAVE_STATE_METHOD,
+  READ_RESOURCE_BYTES_METHOD,
   MESSAGE_METHOD,
   SANDBOX_PROXY_READY_METHOD,
   SANDBOX_RESOURCE_READY_METHOD,
@@ -22,6 +29,10 @@ export {
   TOOL_INPUT_PARTIAL_METHOD,
   TOOL_RESULT_METHOD,
   TOOL_CANCELLED_METHOD,
+  ELICITATION_METHOD,
+  BROADCAST_METHOD,
+  PEER_MESSAGE_METHOD,
+  SAMPLING_STREAM_METHOD,
   HOST_CONTEXT_CHANGED_METHOD,
   REQUEST_TEARDOWN_METHOD,
   RESOURCE_TEARDOWN_METHOD,
@@ -38,6 +49,19 @@ export {
   type McpUiOpenLinkResult,
   type McpUiDownloadFileRequest,
   type McpUiDownloadFileResult,
+  type McpUiRequestFileRequest,
+  type McpUiRequestFileResult,
+  type McpUiConfirmationAction,
+  type McpUiRequestConfirmationRequest,
+  type McpUiRequestConfirmationResult,
+  type McpUiRequestModalRequest,
+  type McpUiRequestModalResult,
+  type McpUiSaveStateRequest,
+  type McpUiSaveStateResult,
+  type McpUiByteCount,
+  type McpUiReadResourceBytesRequest,
+  type McpUiReadResourceBytesResult,
+  type McpUiPolicyErrorData,
   type McpUiMessageRequest,
   type McpUiMessageResult,
   type McpUiUpdateModelContextRequest,
@@ -49,6 +73,10 @@ export {
   type McpUiToolInputPartialNotification,
   type McpUiToolResultNotification,
   type McpUiToolCancelledNotification,
+  type McpUiElicitationNotification,
+  type McpUiBroadcastNotification,
+  type McpUiPeerMessageNotification,
+  type McpUiSamplingStreamNotification,
   type McpUiHostContext,
   type McpUiHostContextChangedNotification,
   type McpUiResourceTeardownRequest,
@@ -74,6 +102,11 @@ import type {
   McpUiInitializeRequest,
   McpUiOpenLinkRequest,
   McpUiDownloadFileRequest,
+  McpUiRequestFileRequest,
+  McpUiRequestConfirmationRequest,
+  McpUiRequestModalRequest,
+  McpUiSaveStateRequest,
+  McpUiReadResourceBytesRequest,
   McpUiMessageRequest,
   McpUiUpdateModelContextRequest,
   McpUiResourceTeardownRequest,
@@ -83,6 +116,10 @@ import type {
   McpUiToolInputPartialNotification,
   McpUiToolResultNotification,
   McpUiToolCancelledNotification,
+  McpUiElicitationNotification,
+  McpUiPeerMessageNotification,
+  McpUiSamplingStreamNotification,
+  McpUiBroadcastNotification,
   McpUiSandboxResourceReadyNotification,
   McpUiInitializedNotification,
   McpUiSizeChangedNotification,
@@ -91,6 +128,11 @@ import type {
   McpUiInitializeResult,
   McpUiOpenLinkResult,
   McpUiDownloadFileResult,
+  McpUiRequestFileResult,
+  McpUiRequestConfirmationResult,
+  McpUiRequestModalResult,
+  McpUiSaveStateResult,
+  McpUiReadResourceBytesResult,
   McpUiMessageResult,
   McpUiResourceTeardownResult,
   McpUiRequestDisplayModeResult,
@@ -106,6 +148,19 @@ export {
   McpUiOpenLinkResultSchema,
   McpUiDownloadFileRequestSchema,
   McpUiDownloadFileResultSchema,
+  McpUiRequestFileRequestSchema,
+  McpUiRequestFileResultSchema,
+  McpUiConfirmationActionSchema,
+  McpUiRequestConfirmationRequestSchema,
+  McpUiRequestConfirmationResultSchema,
+  McpUiRequestModalRequestSchema,
+  McpUiRequestModalResultSchema,
+  McpUiSaveStateRequestSchema,
+  McpUiSaveStateResultSchema,
+  McpUiByteCountSchema,
+  McpUiReadResourceBytesRequestSchema,
+  McpUiReadResourceBytesResultSchema,
+  McpUiPolicyErrorDataSchema,
   McpUiMessageRequestSchema,
   McpUiMessageResultSchema,
   McpUiUpdateModelContextRequestSchema,
@@ -117,6 +172,10 @@ export {
   McpUiToolInputPartialNotificationSchema,
   McpUiToolResultNotificationSchema,
   McpUiToolCancelledNotificationSchema,
+  McpUiElicitationNotificationSchema,
+  McpUiBroadcastNotificationSchema,
+  McpUiPeerMessageNotificationSchema,
+  McpUiSamplingStreamNotificationSchema,
   McpUiHostContextSchema,
   McpUiHostContextChangedNotificationSchema,
   McpUiResourceTeardownRequestSchema,
@@ -140,34 +199,56 @@ export {
 import {
   CallToolRequest,
   CallToolResult,
+  CancelTaskRequest,
+  CancelTaskResult,
+  CompleteRequest,
+  CompleteResult,
   CreateMessageRequest,
   CreateMessageResult,
   CreateMessageResultWithTools,
+  CreateTaskResult,
   EmptyResult,
+  GetPromptRequest,
+  GetPromptResult,
+  GetTaskPayloadRequest,
+  GetTaskRequest,
+  GetTaskResult,
   ListPromptsRequest,
   ListPromptsResult,
   ListResourcesRequest,
   ListResourcesResult,
   ListResourceTemplatesRequest,
   ListResourceTemplatesResult,
+  ListTasksRequest,
+  ListTasksResult,
   ListToolsRequest,
   ListToolsResult,
   LoggingMessageNotification,
   PingRequest,
+  ProgressNotification,
   PromptListChangedNotification,
   ReadResourceRequest,
   ReadResourceResult,
   ResourceListChangedNotification,
+  ResourceUpdatedNotification,
+  SubscribeRequest,
+  TaskStatusNotification,
   ToolListChangedNotification,
+  UnsubscribeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 
 /**
  * All request types in the MCP Apps protocol.
  *
  * Includes:
- * - MCP UI requests (initialize, open-link, message, resource-teardown, request-display-mode)
+ * - MCP UI requests (initialize, open-link, download-file, request-file,
+ *   request-confirmation, request-modal, save-state, read-resource-bytes,
+ *   message, resource-teardown, request-display-mode)
  * - MCP server requests forwarded from the app (tools/call, tools/list, resources/list,
- *   resources/templates/list, resources/read, prompts/list)
+ *   resources/templates/list, resources/read, resources/subscribe,
+ *   resources/unsubscribe, prompts/list, prompts/get, completion/complete)
+ * - MCP task requests, in either direction (tasks/get, tasks/result,
+ *   tasks/list, tasks/cancel)
  * - MCP client requests forwarded to the host (sampling/createMessage)
  * - Protocol requests (ping)
  */
@@ -175,6 +256,11 @@ export type AppRequest =
   | McpUiInitializeRequest
   | McpUiOpenLinkRequest
   | McpUiDownloadFileRequest
+  | McpUiRequestFileRequest
+  | McpUiRequestConfirmationRequest
+  | McpUiRequestModalRequest
+  | McpUiSaveStateRequest
+  | McpUiReadResourceBytesRequest
   | McpUiMessageRequest
   | McpUiUpdateModelContextRequest
   | McpUiResourceTeardownRequest
@@ -184,7 +270,15 @@ export type AppRequest =
   | ListResourcesRequest
   | ListResourceTemplatesRequest
   | ReadResourceRequest
+  | SubscribeRequest
+  | UnsubscribeRequest
   | ListPromptsRequest
+  | GetPromptRequest
+  | CompleteRequest
+  | GetTaskRequest
+  | GetTaskPayloadRequest
+  | ListTasksRequest
+  | CancelTaskRequest
   | CreateMessageRequest
   | PingRequest;
 
@@ -193,12 +287,20 @@ export type AppRequest =
  *
  * Host to app:
  * - Tool lifecycle (input, input-partial, result, cancelled)
+ * - Elicitations handled by the host during the View's tool calls
  * - Host context changes
+ * - Peer messages from other Views
+ * - Streamed sampling response content
  * - MCP list changes (tools, resources, prompts)
+ * - Updates of subscribed resources
  * - Sandbox resource ready
  *
+ * Either direction:
+ * - Progress of tool calls
+ * - Status changes of MCP tasks
+ *
  * App to host:
- * - Initialized, size-changed, sandbox-proxy-ready, request-teardown
+ * - Initialized, size-changed, sandbox-proxy-ready, request-teardown, broadcast
  * - Logging messages
  */
 export type AppNotification =
@@ -208,16 +310,24 @@ export type AppNotification =
   | McpUiToolInputPartialNotification
   | McpUiToolResultNotification
   | McpUiToolCancelledNotification
+  | McpUiElicitationNotification
+  | McpUiPeerMessageNotification
+  | McpUiSamplingStreamNotification
   | McpUiSandboxResourceReadyNotification
   | ToolListChangedNotification
   | ResourceListChangedNotification
+  | ResourceUpdatedNotification
   | PromptListChangedNotification
   // Received from app
   | McpUiInitializedNotification
   | McpUiSizeChangedNotification
   | McpUiSandboxProxyReadyNotification
   | McpUiRequestTeardownNotification
-  | LoggingMessageNotification;
+  | McpUiBroadcastNotification
+  | LoggingMessageNotification
+  // Either direction
+  | ProgressNotification
+  | TaskStatusNotification;
 
 /**
  * All result types in the MCP Apps protocol.
@@ -226,6 +336,11 @@ export type AppResult =
   | McpUiInitializeResult
   | McpUiOpenLinkResult
   | McpUiDownloadFileResult
+  | McpUiRequestFileResult
+  | McpUiRequestConfirmationResult
+  | McpUiRequestModalResult
+  | McpUiSaveStateResult
+  | McpUiReadResourceBytesResult
   | McpUiMessageResult
   | McpUiResourceTeardownResult
   | McpUiRequestDisplayModeResult
@@ -235,6 +350,12 @@ export type AppResult =
   | ListResourceTemplatesResult
   | ReadResourceResult
   | ListPromptsResult
+  | GetPromptResult
+  | CompleteResult
+  | CreateTaskResult
+  | GetTaskResult
+  | ListTasksResult
+  | CancelTaskResult
   | CreateMessageResult
   | CreateMessageResultWithTools
   | EmptyResult;
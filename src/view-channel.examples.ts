@@ -0,0 +1,31 @@
+/**
+ * Type-checked examples for {@link connectViewChannel `connectViewChannel`}.
+ *
+ * These examples are included in the API documentation via `@includeCode` tags.
+ * Each function's region markers define the code snippet that appears in the docs.
+ *
+ * @module
+ */
+
+import { App, connectViewChannel, getViewChannelInfo } from "./app.js";
+
+type ViewerCommand = { type: "goto"; page: number };
+
+/**
+ * Example: Navigate a viewer on the model's request.
+ */
+function connectViewChannel_navigate(
+  app: App,
+  viewer: { goToPage(page: number): void; currentPage: number },
+) {
+  //#region connectViewChannel_navigate
+  app.addEventListener("toolresult", (result) => {
+    const channel = getViewChannelInfo(result);
+    if (!channel) return;
+    connectViewChannel<ViewerCommand, number>(app, channel, (command) => {
+      viewer.goToPage(command.page);
+      return viewer.currentPage;
+    });
+  });
+  //#endregion connectViewChannel_navigate
+}
@@ -0,0 +1,179 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { App } from "./app";
+
+/**
+ * `_meta` key under which a tool result carries the
+ * {@link ViewChannelInfo `ViewChannelInfo`} of the View it renders.
+ *
+ * Servers set it with `ViewChannel.meta` from
+ * {@link server-helpers!createViewChannel `createViewChannel`}.
+ */
+export const VIEW_CHANNEL_META_KEY = "ui/viewChannel";
+
+/**
+ * Identifies the channel a server opened for one View.
+ */
+export interface ViewChannelInfo {
+  /** ID of the View, unique per tool call that rendered it. */
+  viewId: string;
+  /** Name of the app-only tool the View polls for commands. */
+  toolName: string;
+}
+
+/**
+ * A command queued for a View, as returned by the polling tool.
+ */
+export interface ViewChannelCommand<Command = unknown> {
+  /** ID to reply with. */
+  id: string;
+  command: Command;
+  /** Whether the server waits for a {@link ViewChannelReply `ViewChannelReply`}. */
+  expectsReply: boolean;
+}
+
+/**
+ * The View's reply to a command, sent with its next poll.
+ */
+export interface ViewChannelReply {
+  /** ID of the command replied to. */
+  id: string;
+  /** Value returned by the View's command handler. */
+  result?: unknown;
+  /** Message of the error thrown by the View's command handler. */
+  error?: string;
+}
+
+/**
+ * Arguments of the polling tool.
+ */
+export interface ViewChannelPollArguments {
+  viewId: string;
+  /** Replies to commands received with the previous poll. */
+  replies?: ViewChannelReply[];
+}
+
+/**
+ * `structuredContent` of the polling tool's result.
+ */
+export interface ViewChannelPollResult<Command = unknown> {
+  commands: ViewChannelCommand<Command>[];
+}
+
+/**
+ * Handles a command sent to the View. The returned value (or thrown error) is
+ * the reply the server receives, for commands sent with `ViewChannel.request`.
+ */
+export type ViewChannelHandler<Command, Reply> = (
+  command: Command,
+) => Reply | Promise<Reply>;
+
+/**
+ * Read the {@link ViewChannelInfo `ViewChannelInfo`} from the result of the
+ * tool call that rendered the View.
+ *
+ * @param result - The tool result, e.g. from the `toolresult` event
+ * @returns The channel, or `undefined` if the server didn't open one
+ */
+export function getViewChannelInfo(
+  result: Pick<CallToolResult, "_meta">,
+): ViewChannelInfo | undefined {
+  const info = result._meta?.[VIEW_CHANNEL_META_KEY] as
+    | Partial<ViewChannelInfo>
+    | undefined;
+  if (typeof info?.viewId !== "string" || typeof info.toolName !== "string") {
+    return undefined;
+  }
+  return { viewId: info.viewId, toolName: info.toolName };
+}
+
+/** Delay before polling again after a failed poll. */
+const RETRY_DELAY_MS = 2000;
+
+/**
+ * Receive the commands a server sends to this View through a channel opened
+ * with {@link server-helpers!createViewChannel `createViewChannel`}.
+ *
+ * Long-polls the channel's app-only tool until stopped, calling `onCommand`
+ * for each command in order. Replies are sent with the next poll. Polling
+ * stops for good if the tool returns an error (e.g. it doesn't exist) or the
+ * App's connection closes, and is retried after other failed requests.
+ *
+ * @param app - The connected App
+ * @param channel - The channel, from {@link getViewChannelInfo `getViewChannelInfo`}
+ * @param onCommand - Handles each command and returns its reply
+ * @returns A function that stops polling
+ *
+ * @example Navigate a viewer on the model's request
+ * ```ts source="./view-channel.examples.ts#connectViewChannel_navigate"
+ * app.addEventListener("toolresult", (result) => {
+ *   const channel = getViewChannelInfo(result);
+ *   if (!channel) return;
+ *   connectViewChannel<ViewerCommand, number>(app, channel, (command) => {
+ *     viewer.goToPage(command.page);
+ *     return viewer.currentPage;
+ *   });
+ * });
+ * ```
+ *
+ * @see {@link "@modelcontextprotocol/ext-apps/react"!useViewChannel `useViewChannel`} for the React equivalent
+ */
+export function connectViewChannel<Command, Reply = unknown>(
+  app: App,
+  channel: ViewChannelInfo,
+  onCommand: ViewChannelHandler<Command, Reply>,
+): () => void {
+  const controller = new AbortController();
+  const { signal } = controller;
+
+  async function poll() {
+    let replies: ViewChannelReply[] = [];
+    // The App's transport is unset once its connection closed
+    while (!signal.aborted && app.transport) {
+      let result: CallToolResult;
+      try {
+        result = await app.callServerTool(
+          {
+            name: channel.toolName,
+            arguments: {
+              viewId: channel.viewId,
+              replies,
+            } satisfies ViewChannelPollArguments,
+          },
+          { signal },
+        );
+      } catch (error) {
+        if (signal.aborted || !app.transport) return;
+        console.warn(`Failed to poll ${channel.toolName}:`, error);
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+        continue;
+      }
+      replies = [];
+      if (result.isError) {
+        console.error(`${channel.toolName} failed, stopping:`, result.content);
+        return;
+      }
+      const { commands = [] } = (result.structuredContent ?? {}) as Partial<
+        ViewChannelPollResult<Command>
+      >;
+      for (const { id, command, expectsReply } of commands) {
+        if (signal.aborted) return;
+        try {
+          const reply = await onCommand(command);
+          if (expectsReply) replies.push({ id, result: reply });
+        } catch (error) {
+          if (!expectsReply) {
+            console.error("View channel command failed:", error);
+            continue;
+          }
+          replies.push({
+            id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+  }
+
+  void poll();
+  return () => controller.abort();
+}
@@ -23,13 +23,21 @@ const config = {
     "src/app.ts",
     "src/react/index.tsx",
     "src/app-bridge.ts",
+    "src/sandbox/index.ts",
+    "src/openai/index.ts",
+    "src/testing/index.ts",
+    "src/app-host.ts",
+    "src/peer-router.ts",
+    "src/app-bridge-policy.ts",
+    "src/view-channel.ts",
     "src/message-transport.ts",
+    "src/message-port-transport.ts",
     "src/types.ts",
   ],
   excludePrivate: true,
   excludeInternal: false,
   intentionallyNotExported: ["MethodSchema", "RequestHandlerExtra"],
-  blockTags: [...OptionDefaults.blockTags, "@description"],
+  blockTags: [...OptionDefaults.blockTags, "@description", "@schema"],
   jsDocCompatibility: {
     exampleTag: false,
   },